@@ -38,6 +38,8 @@ const nextConfig: NextConfig = {
       // }
     ],
   },
+  // Native module: load it from node_modules at runtime instead of bundling it
+  serverExternalPackages: ['better-sqlite3'],
   // Enable experimental server actions
    experimental: {
     serverActions: true,
@@ -0,0 +1,69 @@
+/**
+ * Database maintenance CLI.
+ *
+ *   npm run db:migrate            Apply pending schema migrations
+ *   npm run db:status             Show applied and pending migrations
+ *   npm run db:seed               Create the default categories
+ *   npm run db:seed -- --demo     ...plus demo users, topics and posts
+ *   npm run db:reindex            Rebuild the full-text search index from the posts
+ *
+ * Uses FORUM_DB_PATH like the app does. The CLI defaults to the SQLite driver,
+ * since seeding the in-memory store from a separate process has no effect.
+ */
+import 'dotenv/config';
+import { getDatabaseConfig, getRepository } from '@/lib/db';
+import { openDatabase } from '@/lib/db/sqlite';
+import { getMigrationStatus, runMigrations } from '@/lib/db/migrate';
+import { seedDatabase } from '@/lib/db/seed';
+import { rebuildSearchIndex } from '@/lib/search';
+
+process.env.FORUM_DB_DRIVER ??= 'sqlite';
+
+async function main() {
+    const [command, ...args] = process.argv.slice(2);
+    const config = getDatabaseConfig();
+
+    if ((command === 'migrate' || command === 'status') && config.driver !== 'sqlite') {
+        console.log(`Nothing to do: FORUM_DB_DRIVER=${config.driver} has no schema.`);
+        return;
+    }
+
+    switch (command) {
+        case 'migrate': {
+            const db = openDatabase(config.path);
+            const applied = runMigrations(db);
+            console.log(applied.length > 0 ? `Applied ${applied.length} migration(s) to ${config.path}.` : `${config.path} is up to date.`);
+            db.close();
+            break;
+        }
+        case 'status': {
+            const db = openDatabase(config.path);
+            const { applied, pending } = getMigrationStatus(db);
+            applied.forEach(m => console.log(`  [x] ${m.version} ${m.name} (applied ${m.appliedAt.toISOString()})`));
+            pending.forEach(m => console.log(`  [ ] ${m.version} ${m.name}`));
+            console.log(`${applied.length} applied, ${pending.length} pending.`);
+            db.close();
+            break;
+        }
+        case 'seed': {
+            const result = await seedDatabase(getRepository(), { demo: args.includes('--demo') });
+            // Seeding writes the rows directly, bypassing the data layer that keeps the index up to date
+            if (result.posts > 0) await rebuildSearchIndex();
+            console.log(`Seeded ${result.categories} categories, ${result.users} users, ${result.topics} topics, ${result.posts} posts.`);
+            break;
+        }
+        case 'reindex': {
+            const indexed = await rebuildSearchIndex();
+            console.log(`Indexed ${indexed} posts for search.`);
+            break;
+        }
+        default:
+            console.error('Usage: tsx scripts/db.ts <migrate|status|seed|reindex> [--demo]');
+            process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,36 @@
+/**
+ * Digest email CLI. Schedule it, e.g. with cron:
+ *
+ *   0 7 * * *   npm run mail:digest -- daily
+ *   0 7 * * 1   npm run mail:digest -- weekly
+ *
+ *   npm run mail:digest -- daily --force   Send now, even to users who already got today's digest
+ *
+ * Mail goes through the configured transport (by default the outbox in ./data/outbox, see /admin/outbox).
+ * Links in the emails use FORUM_BASE_URL. Like scripts/db.ts, the CLI defaults to the SQLite driver.
+ */
+import 'dotenv/config';
+import { sendDigests } from '@/lib/digest';
+import type { DigestFrequency } from '@/lib/types';
+
+process.env.FORUM_DB_DRIVER ??= 'sqlite';
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+async function main() {
+    const [frequency, ...args] = process.argv.slice(2);
+    if (!FREQUENCIES.includes(frequency as DigestFrequency)) {
+        console.error('Usage: tsx scripts/digest.ts <daily|weekly> [--force]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const baseUrl = (process.env.FORUM_BASE_URL || 'http://localhost:9002').replace(/\/$/, '');
+    const result = await sendDigests(frequency as DigestFrequency, { baseUrl, force: args.includes('--force') });
+    console.log(`Sent ${result.sent} ${frequency} digest(s); ${result.checked} user(s) were due.`);
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,63 @@
+import { type ReactNode } from 'react';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { Card, CardContent } from '@/components/ui/card';
+import { MonitorSmartphone, ShieldCheck, ArrowLeft, SlidersHorizontal } from 'lucide-react';
+import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
+
+export const metadata = {
+  title: 'Account - ForumLite',
+};
+
+interface AccountLayoutProps {
+  children: ReactNode;
+}
+
+export default async function AccountLayout({ children }: AccountLayoutProps) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+     redirect('/login');
+  }
+
+  return (
+    <div className="grid md:grid-cols-[250px_1fr] gap-6 lg:gap-8">
+      <aside className="w-full md:w-auto flex-shrink-0">
+         <Card className="shadow-sm border border-border">
+           <CardContent className="p-4 flex flex-col">
+            <h2 className="text-lg font-semibold mb-1 px-2">Account</h2>
+            <p className="text-sm text-muted-foreground mb-4 px-2 truncate">{user.username}</p>
+            <nav className="flex flex-col space-y-1">
+               <Button variant="ghost" className="justify-start" asChild>
+                    <Link href="/account/sessions">
+                        <MonitorSmartphone className="mr-2 h-4 w-4" /> Active Sessions
+                    </Link>
+               </Button>
+               <Button variant="ghost" className="justify-start" asChild>
+                    <Link href="/account/security">
+                        <ShieldCheck className="mr-2 h-4 w-4" /> Security
+                    </Link>
+               </Button>
+               <Button variant="ghost" className="justify-start" asChild>
+                    <Link href="/account/preferences">
+                        <SlidersHorizontal className="mr-2 h-4 w-4" /> Preferences
+                    </Link>
+               </Button>
+               <Separator className="my-2"/>
+               <Button variant="ghost" className="justify-start text-muted-foreground" asChild>
+                 <Link href="/">
+                    <ArrowLeft className="mr-2 h-4 w-4" /> Back to Forum
+                 </Link>
+               </Button>
+            </nav>
+          </CardContent>
+        </Card>
+      </aside>
+      <main className="flex-1 py-2 md:py-0">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListOrdered, Mail } from 'lucide-react';
+import { updatePreferencesAction } from '@/lib/actions/account';
+import { PAGE_SIZE_OPTIONS } from '@/lib/pagination';
+import { useToast } from '@/hooks/use-toast';
+import type { DigestFrequency } from '@/lib/types';
+
+interface PreferencesFormProps {
+  postsPerPage?: number; // Unset: the forum default applies
+  defaultPostsPerPage: number;
+  digestFrequency?: DigestFrequency; // Unset: no digest
+}
+
+const FORUM_DEFAULT = 'default';
+const NO_DIGEST = 'never';
+
+// Each control saves immediately, like the admin site settings.
+export function PreferencesForm({ postsPerPage: initialPostsPerPage, defaultPostsPerPage, digestFrequency: initialDigestFrequency }: PreferencesFormProps) {
+  const { toast } = useToast();
+  const [postsPerPage, setPostsPerPage] = useState(initialPostsPerPage);
+  const [digestFrequency, setDigestFrequency] = useState(initialDigestFrequency);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handlePostsPerPageChange = async (value: string) => {
+    const next = value === FORUM_DEFAULT ? null : Number(value);
+    setIsSaving(true);
+    try {
+      const result = await updatePreferencesAction({ postsPerPage: next });
+      if (result.success) setPostsPerPage(next ?? undefined);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDigestFrequencyChange = async (value: string) => {
+    const next = value === NO_DIGEST ? null : value as DigestFrequency;
+    setIsSaving(true);
+    try {
+      const result = await updatePreferencesAction({ digestFrequency: next });
+      if (result.success) setDigestFrequency(next ?? undefined);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><ListOrdered className="mr-2 h-5 w-5" /> Reading</CardTitle>
+          <CardDescription>Long topics are split into pages.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="postsPerPage">Posts per page</Label>
+            <Select value={postsPerPage ? String(postsPerPage) : FORUM_DEFAULT} onValueChange={handlePostsPerPageChange} disabled={isSaving}>
+              <SelectTrigger id="postsPerPage" className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FORUM_DEFAULT}>Forum default ({defaultPostsPerPage})</SelectItem>
+                {PAGE_SIZE_OPTIONS.map(size => <SelectItem key={size} value={String(size)}>{size}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Mail className="mr-2 h-5 w-5" /> Email</CardTitle>
+          <CardDescription>
+            A digest collects the notifications you haven&apos;t read yet into one email. Instant emails are chosen per topic or category with its Watch menu.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="digestFrequency">Digest email</Label>
+            <Select value={digestFrequency ?? NO_DIGEST} onValueChange={handleDigestFrequencyChange} disabled={isSaving}>
+              <SelectTrigger id="digestFrequency" className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_DIGEST}>Never</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getSiteSettings } from '@/lib/settings';
+import { redirect } from 'next/navigation';
+import { PreferencesForm } from './_components/PreferencesForm';
+
+export default async function AccountPreferencesPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+  const settings = await getSiteSettings();
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Preferences</h1>
+      <p className="text-muted-foreground">How the forum looks and behaves for you.</p>
+      <PreferencesForm postsPerPage={user.postsPerPage} defaultPostsPerPage={settings.postsPerPage} digestFrequency={user.digestFrequency} />
+    </div>
+  );
+}
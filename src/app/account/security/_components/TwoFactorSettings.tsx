@@ -0,0 +1,245 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldCheck, ShieldOff, KeyRound, Copy, QrCode } from 'lucide-react';
+import {
+  startTwoFactorSetupAction,
+  confirmTwoFactorSetupAction,
+  regenerateRecoveryCodesAction,
+  disableTwoFactorAction,
+} from '@/lib/actions/account';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodesLeft: number;
+  required: boolean; // Site policy requires 2FA for this account (admins)
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+type CodeDialog = 'regenerate' | 'disable' | null;
+
+export function TwoFactorSettings({ enabled, enabledAt, recoveryCodesLeft, required }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [codeDialog, setCodeDialog] = useState<CodeDialog>(null);
+
+  const showResult = (result: { success: boolean; message: string }) => {
+    toast({
+      variant: result.success ? undefined : "destructive",
+      title: result.success ? "Success" : "Error",
+      description: result.message,
+    });
+  };
+
+  const handleStartSetup = async () => {
+    setIsLoading(true);
+    try {
+      const result = await startTwoFactorSetupAction();
+      if (result.success && result.enrollment) {
+        setEnrollment(result.enrollment);
+        setCode('');
+      } else {
+        showResult(result);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    setIsLoading(true);
+    try {
+      const result = await confirmTwoFactorSetupAction(code);
+      showResult(result);
+      if (result.success && result.recoveryCodes) {
+        setEnrollment(null);
+        setRecoveryCodes(result.recoveryCodes);
+      }
+    } finally {
+      setIsLoading(false);
+      setCode('');
+    }
+  };
+
+  const handleCodeDialogSubmit = async () => {
+    setIsLoading(true);
+    try {
+      if (codeDialog === 'regenerate') {
+        const result = await regenerateRecoveryCodesAction(code);
+        showResult(result);
+        if (result.success && result.recoveryCodes) {
+          setRecoveryCodes(result.recoveryCodes);
+          setCodeDialog(null);
+        }
+      } else if (codeDialog === 'disable') {
+        const result = await disableTwoFactorAction(code);
+        showResult(result);
+        if (result.success) setCodeDialog(null);
+      }
+    } finally {
+      setIsLoading(false);
+      setCode('');
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  // Freshly generated recovery codes are only ever shown once
+  if (recoveryCodes) {
+    return (
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><KeyRound className="mr-2 h-5 w-5" /> Save Your Recovery Codes</CardTitle>
+          <CardDescription>
+            Each code signs you in once if you lose access to your authenticator app. Store them somewhere safe:
+            they will not be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded-md p-4">
+            {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+        </CardContent>
+        <CardFooter className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleCopyCodes}><Copy className="mr-2 h-4 w-4" /> Copy</Button>
+          <Button onClick={() => { setRecoveryCodes(null); router.refresh(); }}>I have saved these codes</Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><QrCode className="mr-2 h-5 w-5" /> Set Up Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            Scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy, ...), then enter the 6-digit code it shows.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4 items-start">
+            <Image src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" width={200} height={200} className="rounded-md border bg-white p-2" />
+            <div className="space-y-2 text-sm min-w-0">
+              <p className="text-muted-foreground">Can't scan it? Enter this key manually:</p>
+              <code className="block break-all bg-muted rounded-md p-2 font-mono">{enrollment.secret}</code>
+              <a href={enrollment.otpauthUri} className="text-primary hover:underline">Open in authenticator app</a>
+            </div>
+          </div>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="totp-code">Authentication Code</Label>
+            <Input id="totp-code" inputMode="numeric" autoComplete="one-time-code" placeholder="123456" value={code} onChange={e => setCode(e.target.value)} />
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-wrap gap-2">
+          <Button onClick={handleConfirmSetup} disabled={isLoading || code.trim().length < 6}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Enable
+          </Button>
+          <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isLoading}>Cancel</Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" /> Two-Factor Authentication
+            {enabled ? <Badge variant="secondary">Enabled</Badge> : <Badge variant="outline">Off</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {enabled
+              ? `Signing in requires a code from your authenticator app${enabledAt ? ` (enabled ${format(new Date(enabledAt), 'PP')})` : ''}.`
+              : 'Protect your account with a code from an authenticator app in addition to your password.'}
+          </CardDescription>
+        </CardHeader>
+        {enabled && (
+          <CardContent className="text-sm text-muted-foreground">
+            {recoveryCodesLeft} unused recovery code{recoveryCodesLeft === 1 ? '' : 's'} left.
+            {required && <p className="mt-2">Two-factor authentication is required for admin accounts and can't be turned off.</p>}
+          </CardContent>
+        )}
+        <CardFooter className="flex flex-wrap gap-2">
+          {enabled ? (
+            <>
+              <Button variant="outline" onClick={() => setCodeDialog('regenerate')}>
+                <KeyRound className="mr-2 h-4 w-4" /> New Recovery Codes
+              </Button>
+              {!required && (
+                <Button variant="outline" className="text-destructive hover:text-destructive" onClick={() => setCodeDialog('disable')}>
+                  <ShieldOff className="mr-2 h-4 w-4" /> Disable
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button onClick={handleStartSetup} disabled={isLoading}>
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+              Set Up Two-Factor
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+
+      {/* Sensitive changes need a current code (or a recovery code) */}
+      <Dialog open={codeDialog !== null} onOpenChange={open => { if (!open) { setCodeDialog(null); setCode(''); } }}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{codeDialog === 'disable' ? 'Disable Two-Factor Authentication' : 'Generate New Recovery Codes'}</DialogTitle>
+            <DialogDescription>
+              {codeDialog === 'disable'
+                ? 'Enter a code from your authenticator app (or a recovery code) to turn off two-factor authentication.'
+                : 'Enter a code from your authenticator app. Your existing recovery codes will stop working.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-code">Authentication Code</Label>
+            <Input id="confirm-code" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button
+              variant={codeDialog === 'disable' ? 'destructive' : 'default'}
+              onClick={handleCodeDialogSubmit}
+              disabled={isLoading || code.trim().length < 6}
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {codeDialog === 'disable' ? 'Disable' : 'Generate'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
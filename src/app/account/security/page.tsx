@@ -0,0 +1,41 @@
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getTwoFactorStatus } from '@/lib/auth/two-factor';
+import { getSiteSettings } from '@/lib/settings';
+import { can } from '@/lib/permissions';
+import { redirect } from 'next/navigation';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ShieldAlert } from 'lucide-react';
+import { TwoFactorSettings } from './_components/TwoFactorSettings';
+
+export default async function AccountSecurityPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+  const [status, settings] = await Promise.all([getTwoFactorStatus(user.id), getSiteSettings()]);
+  const required = can(user, 'admin.access') && settings.requireAdminTwoFactor;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Security</h1>
+      <p className="text-muted-foreground">
+        Add a second step to signing in so a stolen password alone isn't enough to access your account.
+      </p>
+      {required && !status.enabled && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Two-factor authentication required</AlertTitle>
+          <AlertDescription>
+            This forum requires administrators to use two-factor authentication. Set it up below to regain access to the admin panel.
+          </AlertDescription>
+        </Alert>
+      )}
+      <TwoFactorSettings
+        enabled={status.enabled}
+        enabledAt={status.enabledAt}
+        recoveryCodesLeft={status.recoveryCodesLeft}
+        required={required}
+      />
+    </div>
+  );
+}
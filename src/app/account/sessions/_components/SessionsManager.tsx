@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from 'react';
+import type { SessionInfo } from '@/lib/types';
+import { SessionList } from '@/components/account/SessionList';
+import { Button } from '@/components/ui/button';
+import { revokeSessionAction, revokeOtherSessionsAction } from '@/lib/actions/account';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, LogOut } from 'lucide-react';
+
+interface SessionsManagerProps {
+  sessions: SessionInfo[];
+}
+
+export function SessionsManager({ sessions }: SessionsManagerProps) {
+  const { toast } = useToast();
+  const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  const handleRevoke = async (sessionId: string) => {
+    const result = await revokeSessionAction(sessionId);
+    toast({
+      variant: result.success ? undefined : "destructive",
+      title: result.success ? "Success" : "Error",
+      description: result.message,
+    });
+    // Revalidation is handled by the action
+  };
+
+  const handleRevokeOthers = async () => {
+    setIsRevokingOthers(true);
+    try {
+      const result = await revokeOtherSessionsAction();
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsRevokingOthers(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <SessionList sessions={sessions} onRevoke={handleRevoke} />
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" disabled={!hasOtherSessions || isRevokingOthers}>
+            {isRevokingOthers ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <LogOut className="mr-2 h-4 w-4" />}
+            Sign out everywhere else
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out of all other devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session except the one you are using now will be revoked immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevokeOthers}>Sign out others</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { getCurrentUser, getCurrentSessionId } from '@/lib/actions/auth';
+import { listUserSessions } from '@/lib/auth/session';
+import { redirect } from 'next/navigation';
+import { SessionsManager } from './_components/SessionsManager';
+
+export default async function AccountSessionsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+  const currentSessionId = await getCurrentSessionId();
+  const sessions = await listUserSessions(user.id, currentSessionId ?? undefined);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Active Sessions</h1>
+      <p className="text-muted-foreground">
+        Devices currently signed in to your account. If you don't recognise one, revoke it and change your password.
+      </p>
+      <SessionsManager sessions={sessions} />
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { getAuditLogPage } from "@/lib/data";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Pagination } from "@/components/forums/Pagination";
+import { parsePageParam } from "@/lib/pagination";
+import type { AuditAction } from "@/lib/types";
+import { format } from 'date-fns';
+
+const AUDIT_PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'category.archive': 'Archived category',
+  'category.restore': 'Restored category',
+  'category.move_and_delete': 'Moved topics and deleted category',
+  'category.delete': 'Deleted category',
+};
+
+interface AdminAuditPageProps {
+  searchParams: { page?: string };
+}
+
+export default async function AdminAuditPage({ searchParams }: AdminAuditPageProps) {
+  const auditPage = await getAuditLogPage(parsePageParam(searchParams.page), AUDIT_PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Audit Log</h1>
+      <p className="text-muted-foreground">
+        Destructive admin actions, newest first.
+      </p>
+
+      <div className="border rounded-lg shadow-sm">
+        <Table>
+          <TableCaption>{auditPage.totalItems} recorded actions.</TableCaption>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[200px] whitespace-nowrap">Date</TableHead>
+              <TableHead className="w-[150px]">Admin</TableHead>
+              <TableHead className="w-[220px]">Action</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {auditPage.items.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), 'PPpp')}</TableCell>
+                <TableCell className="font-medium">{entry.actor?.username ?? 'Unknown'}</TableCell>
+                <TableCell>
+                  <Badge variant={entry.action === 'category.restore' ? 'secondary' : 'outline'}>{ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{entry.summary}</TableCell>
+              </TableRow>
+            ))}
+            {auditPage.items.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground h-24">
+                  Nothing has been recorded yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Pagination page={auditPage.page} totalPages={auditPage.totalPages} basePath="/admin/audit" />
+    </div>
+  );
+}
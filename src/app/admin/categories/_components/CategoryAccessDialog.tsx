@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from 'react';
+import type { Category, CategoryAccess, CategoryAction, Role } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { updateCategoryAccessAction } from '@/lib/actions/admin';
+import { CATEGORY_ACTIONS, CATEGORY_ACTION_LABELS, ROLES, ROLE_LABELS } from '@/lib/permissions';
+import { useToast } from '@/hooks/use-toast';
+
+interface CategoryAccessDialogProps {
+  category: Category;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Editable form of a rule: groups are typed as a comma-separated list
+type RuleDraft = { restricted: boolean; roles: Role[]; groups: string };
+type AccessDraft = Record<CategoryAction, RuleDraft>;
+
+const STAFF: Role[] = ['admin', 'moderator'];
+
+const PRESETS: { label: string; access: CategoryAccess }[] = [
+  { label: 'Public', access: {} },
+  { label: 'Members only', access: { view: { roles: ['admin', 'moderator', 'member'], groups: [] } } },
+  { label: 'Staff only', access: { view: { roles: STAFF, groups: [] } } },
+  { label: 'Announcements', access: { topic: { roles: STAFF, groups: [] }, reply: { roles: STAFF, groups: [] } } },
+];
+
+const toDraft = (access: CategoryAccess = {}): AccessDraft =>
+  Object.fromEntries(CATEGORY_ACTIONS.map(action => {
+    const rule = access[action];
+    return [action, { restricted: !!rule, roles: rule?.roles ?? [], groups: rule?.groups.join(', ') ?? '' }];
+  })) as AccessDraft;
+
+const fromDraft = (draft: AccessDraft): CategoryAccess => {
+  const access: CategoryAccess = {};
+  for (const action of CATEGORY_ACTIONS) {
+    const rule = draft[action];
+    if (rule.restricted) access[action] = { roles: rule.roles, groups: rule.groups.split(',').filter(group => group.trim()) };
+  }
+  return access;
+};
+
+export function CategoryAccessDialog({ category, open, onOpenChange }: CategoryAccessDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AccessDraft>(() => toDraft(category.access));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRule = (action: CategoryAction, changes: Partial<RuleDraft>) =>
+    setDraft(current => ({ ...current, [action]: { ...current[action], ...changes } }));
+
+  const toggleRole = (action: CategoryAction, role: Role, checked: boolean) => {
+    const roles = draft[action].roles.filter(r => r !== role);
+    updateRule(action, { roles: checked ? [...roles, role] : roles });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await updateCategoryAccessAction(category.id, fromDraft(draft));
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.success ? `"${category.name}": ${result.message}` : result.message,
+      });
+      if (result.success) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) setDraft(toDraft(category.access)); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Access: {category.name}</DialogTitle>
+          <DialogDescription>
+            Unrestricted actions are open to everyone whose role allows them. Restricted actions are limited to the
+            checked roles and members of the listed groups. Admins always have full access.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map(preset => (
+            <Button key={preset.label} type="button" variant="outline" size="sm" onClick={() => setDraft(toDraft(preset.access))} disabled={isSaving}>
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          {CATEGORY_ACTIONS.map(action => {
+            const rule = draft[action];
+            return (
+              <div key={action} className="space-y-3">
+                <Separator />
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`restrict-${action}`} className="font-semibold">{CATEGORY_ACTION_LABELS[action]}</Label>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {rule.restricted ? 'Restricted' : 'Everyone'}
+                    <Switch id={`restrict-${action}`} checked={rule.restricted} onCheckedChange={checked => updateRule(action, { restricted: checked })} disabled={isSaving} />
+                  </div>
+                </div>
+                {rule.restricted && (
+                  <div className="space-y-3 pl-1">
+                    <div className="flex flex-wrap gap-4">
+                      {ROLES.map(role => (
+                        <div key={role} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`${action}-${role}`}
+                            checked={rule.roles.includes(role)}
+                            onCheckedChange={checked => toggleRole(action, role, checked === true)}
+                            disabled={isSaving}
+                          />
+                          <Label htmlFor={`${action}-${role}`} className="font-normal">{ROLE_LABELS[role]}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <Input
+                      aria-label={`${CATEGORY_ACTION_LABELS[action]} groups`}
+                      placeholder="Groups, comma-separated (optional)"
+                      value={rule.groups}
+                      onChange={e => updateRule(action, { groups: e.target.value })}
+                      disabled={isSaving}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Access
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,20 +4,9 @@ import { useState } from 'react';
 import type { Category } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, Trash2, Edit } from 'lucide-react';
-import { deleteCategoryAction, updateCategoryAction } from '@/lib/actions/admin'; // Create these actions
+import { MoreHorizontal, Trash2, Edit, Lock, FolderTree, ArchiveRestore } from 'lucide-react';
+import { restoreCategoryAction, updateCategoryAction } from '@/lib/actions/admin'; // Create these actions
 import { useToast } from '@/hooks/use-toast';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
 import {
   Dialog,
   DialogContent,
@@ -32,49 +21,49 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
+import { CategoryAccessDialog } from './CategoryAccessDialog';
+import { CategoryParentDialog } from './CategoryParentDialog';
+import { CategoryDeleteDialog } from './CategoryDeleteDialog';
+import { CategoryAppearanceFields } from '@/components/forms/CategoryAppearanceFields';
 
 
 interface CategoryActionsProps {
   category: Category;
+  categories: Category[]; // Every category, for re-parenting
 }
 
-export function CategoryActions({ category }: CategoryActionsProps) {
+export function CategoryActions({ category, categories }: CategoryActionsProps) {
   const { toast } = useToast();
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(category.name);
   const [editDescription, setEditDescription] = useState(category.description || '');
+  const [editIcon, setEditIcon] = useState(category.icon || '');
+  const [editColor, setEditColor] = useState(category.color || '');
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isAccessOpen, setIsAccessOpen] = useState(false);
+  const [isParentOpen, setIsParentOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
 
-  const handleDeleteCategory = async () => {
-    setIsDeleting(true);
+  const handleRestoreCategory = async () => {
+    setIsRestoring(true);
     try {
-       const result = await deleteCategoryAction(category.id);
-       if (result.success) {
-            toast({
-                title: "Success",
-                description: `Category "${category.name}" deleted successfully.`,
-            });
-            // Revalidation handled by action
-       } else {
-            throw new Error(result.message || 'Failed to delete category.');
-       }
-    } catch (error: any) {
-        toast({
-            variant: "destructive",
-            title: "Error",
-            description: error.message || "Could not delete category.",
-        });
-     } finally {
-         setIsDeleting(false);
-     }
+      const result = await restoreCategoryAction(category.id);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsRestoring(false);
+    }
   };
 
   const handleEditCategory = async (event: React.FormEvent) => {
     event.preventDefault();
     setIsEditing(true);
     try {
-        const result = await updateCategoryAction(category.id, { name: editName, description: editDescription });
+        const result = await updateCategoryAction(category.id, { name: editName, description: editDescription, icon: editIcon, color: editColor });
         if (result.success) {
              toast({
                  title: "Success",
@@ -103,7 +92,6 @@ export function CategoryActions({ category }: CategoryActionsProps) {
 
   return (
     <>
-    <AlertDialog>
      <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
         <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -120,18 +108,27 @@ export function CategoryActions({ category }: CategoryActionsProps) {
                         <Edit className="mr-2 h-4 w-4" /> Edit Category
                     </DropdownMenuItem>
                 </DialogTrigger>
+                <DropdownMenuItem onClick={() => setIsAccessOpen(true)}>
+                    <Lock className="mr-2 h-4 w-4" /> Access Rules
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setIsParentOpen(true)}>
+                    <FolderTree className="mr-2 h-4 w-4" /> Change Parent
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <AlertDialogTrigger asChild>
-                    <DropdownMenuItem className="text-destructive focus:bg-destructive/10 focus:text-destructive" disabled={isDeleting} onSelect={(e) => e.preventDefault()}>
-                         {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Trash2 className="mr-2 h-4 w-4" /> }
-                         {isDeleting ? 'Deleting...' : 'Delete Category'}
+                {category.archivedAt && (
+                    <DropdownMenuItem onClick={handleRestoreCategory} disabled={isRestoring}>
+                        {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <ArchiveRestore className="mr-2 h-4 w-4" />}
+                        Restore Category
                     </DropdownMenuItem>
-                </AlertDialogTrigger>
+                )}
+                <DropdownMenuItem className="text-destructive focus:bg-destructive/10 focus:text-destructive" onClick={() => setIsDeleteOpen(true)}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Delete Category
+                </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
 
         {/* Edit Dialog Content */}
-        <DialogContent className="sm:max-w-[425px]">
+        <DialogContent className="sm:max-w-[520px]">
             <DialogHeader>
             <DialogTitle>Edit Category: {category.name}</DialogTitle>
             <DialogDescription>
@@ -170,6 +167,7 @@ export function CategoryActions({ category }: CategoryActionsProps) {
                          rows={3}
                         />
                     </div>
+                    <CategoryAppearanceFields icon={editIcon} color={editColor} onIconChange={setEditIcon} onColorChange={setEditColor} disabled={isEditing} />
                 </div>
                  <DialogFooter>
                     <DialogClose asChild>
@@ -184,30 +182,9 @@ export function CategoryActions({ category }: CategoryActionsProps) {
         </DialogContent>
      </Dialog>
 
-
-        {/* Alert Dialog Content for Delete Confirmation */}
-        <AlertDialogContent>
-            <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete the category
-                <strong className="px-1">{category.name}</strong>
-                 and all topics and posts within it.
-            </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-                onClick={handleDeleteCategory}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                disabled={isDeleting}
-            >
-                 {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : null }
-                 {isDeleting ? 'Deleting...' : 'Yes, delete category'}
-            </AlertDialogAction>
-            </AlertDialogFooter>
-        </AlertDialogContent>
-     </AlertDialog>
+     <CategoryAccessDialog category={category} open={isAccessOpen} onOpenChange={setIsAccessOpen} />
+     <CategoryParentDialog category={category} categories={categories} open={isParentOpen} onOpenChange={setIsParentOpen} />
+     <CategoryDeleteDialog category={category} categories={categories} open={isDeleteOpen} onOpenChange={setIsDeleteOpen} />
      </>
   );
 }
\ No newline at end of file
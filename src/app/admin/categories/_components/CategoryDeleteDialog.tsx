@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from 'react';
+import type { Category } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { deleteCategoryAction, type CategoryRemoval } from '@/lib/actions/admin';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categories';
+import { useToast } from '@/hooks/use-toast';
+
+interface CategoryDeleteDialogProps {
+  category: Category;
+  categories: Category[]; // Every category, for the move target picker
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Mode = CategoryRemoval['mode'];
+
+const MODES: { mode: Mode; label: string; description: string }[] = [
+  { mode: 'move', label: 'Move topics, then delete', description: 'Topics and their posts move to another category. The empty category is deleted.' },
+  { mode: 'archive', label: 'Archive as read-only', description: 'Nothing is deleted. The category stays visible, but nobody can start topics or reply. It can be restored later.' },
+  { mode: 'delete', label: 'Delete everything', description: 'The category and all its topics and posts are permanently deleted.' },
+];
+
+export function CategoryDeleteDialog({ category, categories, open, onOpenChange }: CategoryDeleteDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>('move');
+  const [targetCategoryId, setTargetCategoryId] = useState('');
+  const [confirmName, setConfirmName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const targets = flattenCategoryTree(buildCategoryTree(categories)).filter(({ category: option }) => option.id !== category.id);
+  const ready = mode === 'archive'
+    || (mode === 'move' && !!targetCategoryId)
+    || (mode === 'delete' && confirmName.trim() === category.name);
+
+  const reset = () => {
+    setMode('move');
+    setTargetCategoryId('');
+    setConfirmName('');
+  };
+
+  const handleConfirm = async () => {
+    const removal: CategoryRemoval = mode === 'move' ? { mode, targetCategoryId } : mode === 'delete' ? { mode, confirmName } : { mode };
+    setIsSaving(true);
+    try {
+      const result = await deleteCategoryAction(category.id, removal);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+      if (result.success) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) reset(); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Remove Category: {category.name}</DialogTitle>
+          <DialogDescription>
+            Choose what happens to its {category.topicCount ?? 0} topics and {category.postCount ?? 0} posts.
+            Subcategories are kept and move up one level. Every choice is recorded in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={value => setMode(value as Mode)} className="space-y-2" disabled={isSaving}>
+          {MODES.filter(option => option.mode !== 'archive' || !category.archivedAt).map(option => (
+            <div key={option.mode} className="flex items-start gap-3 rounded-md border p-3">
+              <RadioGroupItem value={option.mode} id={`remove-${option.mode}`} className="mt-0.5" />
+              <Label htmlFor={`remove-${option.mode}`} className="font-normal space-y-1">
+                <span className={option.mode === 'delete' ? 'font-semibold text-destructive' : 'font-semibold'}>{option.label}</span>
+                <span className="block text-muted-foreground text-sm">{option.description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {mode === 'move' && (
+          <div className="space-y-2">
+            <Label htmlFor="remove-target">Move topics to</Label>
+            <Select value={targetCategoryId} onValueChange={setTargetCategoryId} disabled={isSaving}>
+              <SelectTrigger id="remove-target"><SelectValue placeholder="Choose a category" /></SelectTrigger>
+              <SelectContent>
+                {targets.map(({ category: option, depth }) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    <span style={{ paddingLeft: `${depth}rem` }}>{option.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {mode === 'delete' && (
+          <div className="space-y-2">
+            <Label htmlFor="remove-confirm">Type <strong>{category.name}</strong> to confirm</Label>
+            <Input id="remove-confirm" autoComplete="off" value={confirmName} onChange={e => setConfirmName(e.target.value)} disabled={isSaving} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="button" variant={mode === 'archive' ? 'default' : 'destructive'} onClick={handleConfirm} disabled={isSaving || !ready}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'archive' ? 'Archive Category' : 'Delete Category'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from 'react';
+import type { Category } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { setCategoryParentAction } from '@/lib/actions/admin';
+import { buildCategoryTree, flattenCategoryTree, getDescendantIds } from '@/lib/categories';
+import { useToast } from '@/hooks/use-toast';
+
+interface CategoryParentDialogProps {
+  category: Category;
+  categories: Category[]; // Every category, for the parent picker
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select items can't have an empty value, so top level gets a placeholder one
+const TOP_LEVEL = 'top-level';
+
+export function CategoryParentDialog({ category, categories, open, onOpenChange }: CategoryParentDialogProps) {
+  const { toast } = useToast();
+  const [parentId, setParentId] = useState(category.parentId ?? TOP_LEVEL);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A category can't move into itself or anything below it
+  const excluded = new Set([category.id, ...getDescendantIds(categories, category.id)]);
+  const options = flattenCategoryTree(buildCategoryTree(categories)).filter(({ category: option }) => !excluded.has(option.id));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await setCategoryParentAction(category.id, parentId === TOP_LEVEL ? null : parentId);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.success ? `"${category.name}": ${result.message}` : result.message,
+      });
+      if (result.success) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) setParentId(category.parentId ?? TOP_LEVEL); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Move Category: {category.name}</DialogTitle>
+          <DialogDescription>
+            Subcategories, topics and posts move along with it. Access rules are not inherited from the new parent.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="category-parent">Parent Category</Label>
+          <Select value={parentId} onValueChange={setParentId} disabled={isSaving}>
+            <SelectTrigger id="category-parent"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+              {options.map(({ category: option, depth }) => (
+                <SelectItem key={option.id} value={option.id}>
+                  <span style={{ paddingLeft: `${depth}rem` }}>{option.name}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || parentId === (category.parentId ?? TOP_LEVEL)}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
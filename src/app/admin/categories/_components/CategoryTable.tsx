@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Category } from '@/lib/types';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { GripVertical } from 'lucide-react';
+import { format } from 'date-fns';
+import { CATEGORY_ACTIONS, CATEGORY_ACTION_LABELS, ROLE_LABELS } from "@/lib/permissions";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories";
+import { reorderCategoriesAction } from '@/lib/actions/admin';
+import { CategoryIcon } from '@/components/forums/CategoryIcon';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { CategoryActions } from "./CategoryActions";
+
+interface CategoryTableProps {
+  categories: Category[]; // Sorted by position
+}
+
+// One line per restricted action, e.g. "View: Admin, Moderator, staff"
+const describeAccess = (category: Category) =>
+  CATEGORY_ACTIONS.flatMap(action => {
+    const rule = category.access?.[action];
+    if (!rule) return [];
+    const allowed = [...rule.roles.map(role => ROLE_LABELS[role]), ...rule.groups];
+    return [`${CATEGORY_ACTION_LABELS[action]}: ${allowed.length > 0 ? allowed.join(', ') : 'Admins only'}`];
+  });
+
+const sameParent = (a: Category, b: Category) => (a.parentId ?? null) === (b.parentId ?? null);
+
+/**
+ * Categories in tree order. Rows can be dragged to reorder them among their siblings
+ * (re-parenting is done with "Change Parent" in the row menu).
+ */
+export function CategoryTable({ categories }: CategoryTableProps) {
+  const { toast } = useToast();
+  const [ordered, setOrdered] = useState(categories);
+  const [dragged, setDragged] = useState<Category | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  useEffect(() => setOrdered(categories), [categories]);
+
+  const rows = flattenCategoryTree(buildCategoryTree(ordered)); // Subcategories right below their parent
+
+  const handleDrop = async (target: Category) => {
+    const source = dragged;
+    setDragged(null);
+    setDropTargetId(null);
+    if (!source || source.id === target.id || !sameParent(source, target)) return;
+
+    // Dropping on a sibling takes its place; the others shift towards where the dragged one was
+    const siblings = ordered.filter(category => sameParent(category, source));
+    const reordered = siblings.filter(category => category.id !== source.id);
+    reordered.splice(siblings.findIndex(category => category.id === target.id), 0, source);
+    const positions = new Map(reordered.map((category, position) => [category.id, position]));
+
+    const previous = ordered;
+    setOrdered(ordered
+      .map(category => positions.has(category.id) ? { ...category, position: positions.get(category.id) } : category)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0)));
+
+    const result = await reorderCategoriesAction(source.parentId ?? null, reordered.map(category => category.id));
+    if (!result.success) {
+      setOrdered(previous);
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  return (
+    <Table>
+      <TableCaption>A list of all forum categories. Drag a row to change its position among its siblings.</TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[40px]"><span className="sr-only">Reorder</span></TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead>Access</TableHead>
+          <TableHead className="w-[100px] text-center">Topics</TableHead> {/* Own topics, not subcategories' */}
+          <TableHead className="w-[100px] text-center">Posts</TableHead> {/* Center align counts */}
+          <TableHead className="w-[150px] whitespace-nowrap">Created Date</TableHead> {/* Prevent wrap */}
+          <TableHead className="text-right w-[100px] px-3">Actions</TableHead> {/* Adjust padding */}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(({ category, depth }) => (
+          <TableRow
+            key={category.id}
+            draggable
+            onDragStart={event => { event.dataTransfer.effectAllowed = 'move'; setDragged(category); }}
+            onDragEnd={() => { setDragged(null); setDropTargetId(null); }}
+            onDragOver={event => {
+              if (!dragged || !sameParent(dragged, category)) return; // Only siblings accept the drop
+              event.preventDefault();
+              setDropTargetId(category.id);
+            }}
+            onDragLeave={() => setDropTargetId(current => current === category.id ? null : current)}
+            onDrop={event => { event.preventDefault(); handleDrop(category); }}
+            className={cn(
+              dragged?.id === category.id && "opacity-50",
+              dropTargetId === category.id && dragged?.id !== category.id && "bg-primary/10",
+            )}
+          >
+            <TableCell className="cursor-grab text-muted-foreground"><GripVertical className="h-4 w-4" /></TableCell>
+            <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+              <span className="flex items-center gap-2">
+                {depth > 0 && <span className="text-muted-foreground">└</span>}
+                <CategoryIcon category={category} className="h-4 w-4" />
+                {category.name}
+                {category.archivedAt && <Badge variant="outline">Archived</Badge>}
+              </span>
+            </TableCell>
+            <TableCell className="text-muted-foreground max-w-xs truncate" title={category.description}> {/* Truncate description */}
+              {category.description || '-'}
+            </TableCell>
+            <TableCell className="text-xs">
+              {describeAccess(category).length > 0 ? (
+                describeAccess(category).map(line => <div key={line}>{line}</div>)
+              ) : (
+                <Badge variant="secondary">Public</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-center">{category.topicCount ?? 0}</TableCell> {/* Center align counts */}
+            <TableCell className="text-center">{category.postCount ?? 0}</TableCell> {/* Center align counts */}
+            <TableCell className="whitespace-nowrap">{format(new Date(category.createdAt), 'PP')}</TableCell> {/* Prevent wrap */}
+            <TableCell className="text-right px-3"> {/* Adjust padding */}
+              <CategoryActions category={category} categories={ordered} />
+            </TableCell>
+          </TableRow>
+        ))}
+        {rows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center text-muted-foreground h-24">
+              No categories found. Create one above.
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
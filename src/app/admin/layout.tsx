@@ -2,8 +2,10 @@ import { type ReactNode } from 'react';
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { getCurrentUser } from '@/lib/actions/auth';
+import { getSiteSettings } from '@/lib/settings';
+import { can } from '@/lib/permissions';
 import { Card, CardContent } from '@/components/ui/card';
-import { Home, Users, LayoutGrid, Settings, ArrowLeft } from 'lucide-react'; // Changed icons slightly
+import { Home, Users, LayoutGrid, Settings, ArrowLeft, Mail, ScrollText } from 'lucide-react'; // Changed icons slightly
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button'; // Import Button
 
@@ -18,11 +20,16 @@ interface AdminLayoutProps {
 export default async function AdminLayout({ children }: AdminLayoutProps) {
   const user = await getCurrentUser();
 
-  if (!user?.isAdmin) {
+  if (!user || !can(user, 'admin.access')) {
      console.warn("Unauthorized access attempt to /admin prevented.");
      redirect('/');
   }
 
+  // Site policy: admins must have two-factor authentication enabled
+  if (!user.totpEnabledAt && (await getSiteSettings()).requireAdminTwoFactor) {
+     redirect('/account/security');
+  }
+
   return (
      // Use grid for better responsiveness control
     <div className="grid md:grid-cols-[250px_1fr] gap-6 lg:gap-8 min-h-[calc(100vh-160px)]"> {/* Reduced vertical padding assumption */}
@@ -47,6 +54,21 @@ export default async function AdminLayout({ children }: AdminLayoutProps) {
                     <LayoutGrid className="mr-2 h-4 w-4" /> Category Management
                   </Link>
                </Button>
+               <Button variant="ghost" className="justify-start" asChild>
+                  <Link href="/admin/outbox">
+                    <Mail className="mr-2 h-4 w-4" /> Mail Outbox
+                  </Link>
+               </Button>
+               <Button variant="ghost" className="justify-start" asChild>
+                  <Link href="/admin/audit">
+                    <ScrollText className="mr-2 h-4 w-4" /> Audit Log
+                  </Link>
+               </Button>
+               <Button variant="ghost" className="justify-start" asChild>
+                  <Link href="/admin/settings">
+                    <Settings className="mr-2 h-4 w-4" /> Site Settings
+                  </Link>
+               </Button>
                {/* Add more admin links as needed */}
                {/* Spacer */}
                <div className="flex-grow"></div>
@@ -0,0 +1,59 @@
+import { listOutboxMessages, getMailConfig } from "@/lib/mail";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Info } from "lucide-react";
+import { format } from 'date-fns';
+
+// Always read the directory fresh; messages are written outside of React's data cache
+export const dynamic = 'force-dynamic';
+
+export default async function AdminOutboxPage() {
+  const config = getMailConfig();
+  const messages = await listOutboxMessages(100);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Mail Outbox</h1>
+      <p className="text-muted-foreground">
+        Emails recorded by the local outbox transport (newest first). Files are stored in <code className="text-xs">{config.outboxDir}</code>.
+      </p>
+
+      {config.transport !== 'outbox' && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Outbox not in use</AlertTitle>
+          <AlertDescription>
+            Mail is currently sent with the <strong>{config.transport}</strong> transport, so new messages will not appear here.
+            Set <code className="text-xs">FORUM_MAIL_TRANSPORT=outbox</code> to record them.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {messages.length === 0 ? (
+        <div className="border rounded-lg shadow-sm text-center text-muted-foreground py-12">
+          No emails have been sent yet.
+        </div>
+      ) : (
+        <Accordion type="multiple" className="border rounded-lg shadow-sm px-4">
+          {messages.map((message) => (
+            <AccordionItem key={message.id} value={message.id} className="last:border-b-0">
+              <AccordionTrigger className="hover:no-underline">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4 text-left min-w-0">
+                  <span className="font-medium truncate">{message.subject}</span>
+                  <span className="text-sm text-muted-foreground truncate">{message.to}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap sm:ml-auto">{format(message.createdAt, 'PPpp')}</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="text-xs text-muted-foreground mb-2">
+                  From: {message.from ?? 'unknown'} &middot; To: {message.to}
+                </div>
+                <pre className="whitespace-pre-wrap break-words text-sm bg-muted rounded-md p-3 font-sans">{message.text}</pre>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+}
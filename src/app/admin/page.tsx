@@ -1,5 +1,5 @@
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
-import { getTotalUserCount, getTotalCategoryCount, getTotalTopicCount, getTotalPostCount } from "@/lib/placeholder-data";
+import { getTotalUserCount, getTotalCategoryCount, getTotalTopicCount, getTotalPostCount } from "@/lib/data";
 import { Users, LayoutGrid, MessageSquare, Library } from "lucide-react";
 import Link from "next/link";
 
@@ -74,6 +74,8 @@ export default async function AdminDashboardPage() {
         <CardContent className="flex flex-wrap gap-4">
             <Link href="/admin/users" className="text-primary hover:underline">Manage Users</Link>
             <Link href="/admin/categories" className="text-primary hover:underline">Manage Categories</Link>
+            <Link href="/admin/outbox" className="text-primary hover:underline">View Mail Outbox</Link>
+            <Link href="/admin/settings" className="text-primary hover:underline">Site Settings</Link>
             {/* Add links to future admin features */}
         </CardContent>
        </Card>
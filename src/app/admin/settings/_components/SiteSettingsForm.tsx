@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from 'react';
+import type { SiteSettings } from '@/lib/types';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ShieldCheck, ListOrdered, SmilePlus, Plus, X } from 'lucide-react';
+import EmojiPicker, { type EmojiClickData, Theme } from 'emoji-picker-react';
+import { useTheme } from 'next-themes';
+import { PAGE_SIZE_OPTIONS } from '@/lib/pagination';
+import { MAX_REACTIONS } from '@/lib/reactions';
+import { updateSiteSettingsAction } from '@/lib/actions/admin';
+import { useToast } from '@/hooks/use-toast';
+
+interface SiteSettingsFormProps {
+  settings: SiteSettings;
+}
+
+// Each control saves immediately; the server's answer is the source of truth.
+export function SiteSettingsForm({ settings: initialSettings }: SiteSettingsFormProps) {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState(initialSettings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const { resolvedTheme } = useTheme();
+
+  const save = async (changes: Partial<SiteSettings>) => {
+    setIsSaving(true);
+    try {
+      const result = await updateSiteSettingsAction(changes);
+      if (result.success && result.settings) {
+        setSettings(result.settings);
+      }
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addReaction = (emojiData: EmojiClickData) => {
+    setIsPickerOpen(false);
+    if (!settings.reactions.includes(emojiData.emoji)) save({ reactions: [...settings.reactions, emojiData.emoji] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><ShieldCheck className="mr-2 h-5 w-5" /> Security</CardTitle>
+          <CardDescription>Rules that apply to every account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="requireAdminTwoFactor">Require two-factor authentication for admins</Label>
+              <p className="text-sm text-muted-foreground">
+                Admins without 2FA are sent to their security settings instead of the admin panel until they enable it.
+              </p>
+            </div>
+            <Switch
+              id="requireAdminTwoFactor"
+              checked={settings.requireAdminTwoFactor}
+              onCheckedChange={checked => save({ requireAdminTwoFactor: checked })}
+              disabled={isSaving}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><ListOrdered className="mr-2 h-5 w-5" /> Pagination</CardTitle>
+          <CardDescription>How much is shown per page. Users can choose their own posts per page in their preferences.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {([
+            ['topicsPerPage', 'Topics per page', 'On category pages.'],
+            ['postsPerPage', 'Posts per page', 'In topics, for users who have not chosen their own.'],
+          ] as const).map(([key, label, hint]) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={key}>{label}</Label>
+                <p className="text-sm text-muted-foreground">{hint}</p>
+              </div>
+              <Select value={String(settings[key])} onValueChange={value => save({ [key]: Number(value) })} disabled={isSaving}>
+                <SelectTrigger id={key} className="w-24"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZE_OPTIONS.map(size => <SelectItem key={size} value={String(size)}>{size}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center"><SmilePlus className="mr-2 h-5 w-5" /> Reactions</CardTitle>
+          <CardDescription>
+            The emoji members can react to posts with, in this order. Removing one hides it from the picker; reactions already given stay.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-2">
+            {settings.reactions.map(emoji => (
+              <span key={emoji} className="inline-flex items-center gap-1 rounded-full border bg-muted/50 py-1 pl-3 pr-1 text-lg">
+                {emoji}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 rounded-full"
+                  title={`Remove ${emoji}`}
+                  onClick={() => save({ reactions: settings.reactions.filter(e => e !== emoji) })}
+                  disabled={isSaving || settings.reactions.length <= 1}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            ))}
+            <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="rounded-full" disabled={isSaving || settings.reactions.length >= MAX_REACTIONS}>
+                  <Plus className="mr-1 h-4 w-4" /> Add
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 border-0" side="bottom" align="start">
+                <EmojiPicker
+                  onEmojiClick={addReaction}
+                  theme={resolvedTheme === 'dark' ? Theme.DARK : Theme.LIGHT}
+                  skinTonesDisabled
+                  lazyLoadEmojis
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">Up to {MAX_REACTIONS} reactions.</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
\ No newline at end of file
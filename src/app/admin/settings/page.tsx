@@ -0,0 +1,14 @@
+import { getSiteSettings } from "@/lib/settings";
+import { SiteSettingsForm } from "./_components/SiteSettingsForm";
+
+export default async function AdminSettingsPage() {
+  const settings = await getSiteSettings();
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Site Settings</h1>
+      <p className="text-muted-foreground">Forum-wide configuration. Changes take effect immediately.</p>
+      <SiteSettingsForm settings={settings} />
+    </div>
+  );
+}
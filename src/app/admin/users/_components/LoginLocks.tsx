@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from 'react';
+import type { LoginThrottle } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, Unlock, Loader2 } from 'lucide-react';
+import { clearLoginLockAction } from '@/lib/actions/admin';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+
+interface LoginLocksProps {
+    locks: LoginThrottle[];
+}
+
+// Accounts and IP addresses currently backing off or locked out after failed logins.
+export function LoginLocks({ locks }: LoginLocksProps) {
+    const { toast } = useToast();
+    const [clearingId, setClearingId] = useState<string | null>(null);
+
+    const handleClear = async (lock: LoginThrottle) => {
+        setClearingId(lock.id);
+        try {
+            const result = await clearLoginLockAction(lock.id);
+            toast({
+                variant: result.success ? undefined : "destructive",
+                title: result.success ? "Success" : "Error",
+                description: result.success ? `${lock.subject}: ${result.message}` : result.message,
+            });
+        } finally {
+            setClearingId(null);
+        }
+    };
+
+    return (
+        <Card className="shadow-sm">
+            <CardHeader>
+                <CardTitle className="flex items-center"><Lock className="mr-2 h-5 w-5" /> Login Locks</CardTitle>
+                <CardDescription>Accounts and IP addresses that are temporarily blocked after repeated failed logins.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {locks.length === 0 ? (
+                    <p className="text-muted-foreground text-center py-4 text-sm">No accounts or IP addresses are currently blocked.</p>
+                ) : (
+                    <div className="border rounded-lg overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Account / IP</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="whitespace-nowrap">Failed Attempts</TableHead>
+                                    <TableHead className="whitespace-nowrap">Blocked Until</TableHead>
+                                    <TableHead className="text-right px-3">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {locks.map((lock) => (
+                                    <TableRow key={lock.id}>
+                                        <TableCell className="font-medium">
+                                            <span className="text-xs text-muted-foreground uppercase mr-2">{lock.scope === 'ip' ? 'IP' : 'Account'}</span>
+                                            {lock.subject}
+                                        </TableCell>
+                                        <TableCell>
+                                            {lock.lockedAt ? <Badge variant="destructive">Locked</Badge> : <Badge variant="secondary">Backoff</Badge>}
+                                        </TableCell>
+                                        <TableCell>{lock.failures}</TableCell>
+                                        <TableCell className="whitespace-nowrap">
+                                            {lock.blockedUntil ? formatDistanceToNow(new Date(lock.blockedUntil), { addSuffix: true }) : '-'}
+                                        </TableCell>
+                                        <TableCell className="text-right px-3">
+                                            <Button variant="ghost" size="sm" onClick={() => handleClear(lock)} disabled={clearingId !== null}>
+                                                {clearingId === lock.id ? <Loader2 className="h-4 w-4 animate-spin sm:mr-1" /> : <Unlock className="h-4 w-4 sm:mr-1" />}
+                                                <span className="hidden sm:inline">Clear</span>
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
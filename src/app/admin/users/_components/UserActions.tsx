@@ -1,11 +1,11 @@
 "use client";
 
 import { useState } from 'react';
-import type { User } from '@/lib/types';
+import type { User, Role, SessionInfo, LoginThrottle } from '@/lib/types';
 import { Button } from '@/components/ui/button';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, Trash2, ShieldCheck, ShieldOff } from 'lucide-react';
-import { toggleAdminStatus, deleteUserAction } from '@/lib/actions/admin'; // Create these actions
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuRadioGroup, DropdownMenuRadioItem, DropdownMenuSeparator, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { MoreHorizontal, Trash2, ShieldCheck, MonitorSmartphone, LogOut, MailCheck, Unlock, Users } from 'lucide-react';
+import { setUserRoleAction, setUserGroupsAction, deleteUserAction, verifyUserEmailAction, clearLoginLockAction, getUserSessionsAction, revokeUserSessionAction, revokeAllUserSessionsAction } from '@/lib/actions/admin'; // Create these actions
 import { useToast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -18,29 +18,51 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SessionList } from '@/components/account/SessionList';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ROLES, ROLE_LABELS } from '@/lib/permissions';
 import { Loader2 } from 'lucide-react';
 
 
 interface UserActionsProps {
   user: User;
+  loginLock?: LoginThrottle; // Active failed-login block on this account, if any
 }
 
-export function UserActions({ user }: UserActionsProps) {
+export function UserActions({ user, loginLock }: UserActionsProps) {
   const { toast } = useToast();
-  const [isToggleLoading, setIsToggleLoading] = useState(false);
+  const [isRoleLoading, setIsRoleLoading] = useState(false);
   const [isDeleteLoading, setIsDeleteLoading] = useState(false);
+  const [isVerifyLoading, setIsVerifyLoading] = useState(false);
+  const [isUnlockLoading, setIsUnlockLoading] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  const [isRevokingAll, setIsRevokingAll] = useState(false);
+  const [isGroupsOpen, setIsGroupsOpen] = useState(false);
+  const [groupsInput, setGroupsInput] = useState('');
+  const [isGroupsSaving, setIsGroupsSaving] = useState(false);
 
-  const handleToggleAdmin = async () => {
-    setIsToggleLoading(true);
+  const handleChangeRole = async (role: Role) => {
+    if (role === user.role) return;
+    setIsRoleLoading(true);
     try {
-      const result = await toggleAdminStatus(user.id, !user.isAdmin);
+      const result = await setUserRoleAction(user.id, role);
       if (result.success) {
         toast({
           title: "Success",
-          description: `User ${user.username} ${result.newStatus ? 'promoted to' : 'demoted from'} Admin.`,
+          description: `${user.username}'s role changed to ${ROLE_LABELS[role]}.`,
         });
       } else {
-        throw new Error(result.message || 'Failed to toggle admin status.');
+        throw new Error(result.message || 'Failed to update user role.');
       }
     } catch (error: any) {
       toast({
@@ -49,7 +71,29 @@ export function UserActions({ user }: UserActionsProps) {
         description: error.message || "Could not update user role.",
       });
     } finally {
-        setIsToggleLoading(false);
+        setIsRoleLoading(false);
+    }
+  };
+
+  const handleOpenGroups = () => {
+    setGroupsInput((user.groups ?? []).join(', '));
+    setIsGroupsOpen(true);
+  };
+
+  const handleSaveGroups = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsGroupsSaving(true);
+    try {
+      const groups = groupsInput.split(',').filter(group => group.trim());
+      const result = await setUserGroupsAction(user.id, groups);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.success ? `${user.username}: ${result.message}` : result.message,
+      });
+      if (result.success) setIsGroupsOpen(false);
+    } finally {
+      setIsGroupsSaving(false);
     }
   };
 
@@ -78,7 +122,78 @@ export function UserActions({ user }: UserActionsProps) {
   };
 
 
+  const handleVerifyEmail = async () => {
+    setIsVerifyLoading(true);
+    try {
+      const result = await verifyUserEmailAction(user.id);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsVerifyLoading(false);
+    }
+  };
+
+  const handleClearLoginLock = async () => {
+    if (!loginLock) return;
+    setIsUnlockLoading(true);
+    try {
+      const result = await clearLoginLockAction(loginLock.id);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.success ? `${user.username}: ${result.message}` : result.message,
+      });
+    } finally {
+      setIsUnlockLoading(false);
+    }
+  };
+
+  const loadSessions = async () => {
+    const result = await getUserSessionsAction(user.id);
+    if (result.success) {
+      setSessions(result.sessions);
+    } else {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+  };
+
+  const handleOpenSessions = () => {
+    setSessions(null);
+    setIsSessionsOpen(true);
+    loadSessions();
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    const result = await revokeUserSessionAction(user.id, sessionId);
+    toast({
+      variant: result.success ? undefined : "destructive",
+      title: result.success ? "Success" : "Error",
+      description: result.message,
+    });
+    await loadSessions();
+  };
+
+  const handleRevokeAllSessions = async () => {
+    setIsRevokingAll(true);
+    try {
+      const result = await revokeAllUserSessionsAction(user.id);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.success ? `${user.username}: ${result.message}` : result.message,
+      });
+      await loadSessions();
+    } finally {
+      setIsRevokingAll(false);
+    }
+  };
+
+
   return (
+     <>
      <AlertDialog>
         <DropdownMenu>
         <DropdownMenuTrigger asChild>
@@ -90,9 +205,36 @@ export function UserActions({ user }: UserActionsProps) {
         <DropdownMenuContent align="end">
             <DropdownMenuLabel>Actions</DropdownMenuLabel>
             <DropdownMenuSeparator />
-             <DropdownMenuItem onClick={handleToggleAdmin} disabled={isToggleLoading}>
-                {isToggleLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : (user.isAdmin ? <ShieldOff className="mr-2 h-4 w-4"/> : <ShieldCheck className="mr-2 h-4 w-4"/>) }
-                {isToggleLoading ? 'Updating...' : (user.isAdmin ? 'Demote to User' : 'Promote to Admin')}
+            <DropdownMenuSub>
+                <DropdownMenuSubTrigger disabled={isRoleLoading}>
+                    {isRoleLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <ShieldCheck className="mr-2 h-4 w-4"/>}
+                    {isRoleLoading ? 'Updating...' : 'Change Role'}
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup value={user.role} onValueChange={value => handleChangeRole(value as Role)}>
+                        {ROLES.map(role => (
+                            <DropdownMenuRadioItem key={role} value={role}>{ROLE_LABELS[role]}</DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onClick={handleOpenGroups}>
+                <Users className="mr-2 h-4 w-4"/> Edit Groups
+            </DropdownMenuItem>
+            {!user.emailVerifiedAt && (
+                <DropdownMenuItem onClick={handleVerifyEmail} disabled={isVerifyLoading}>
+                    {isVerifyLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <MailCheck className="mr-2 h-4 w-4"/>}
+                    Mark Email Verified
+                </DropdownMenuItem>
+            )}
+            {loginLock && (
+                <DropdownMenuItem onClick={handleClearLoginLock} disabled={isUnlockLoading}>
+                    {isUnlockLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Unlock className="mr-2 h-4 w-4"/>}
+                    Clear Login Lock
+                </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={handleOpenSessions}>
+                <MonitorSmartphone className="mr-2 h-4 w-4"/> Manage Sessions
             </DropdownMenuItem>
             <DropdownMenuSeparator />
             <AlertDialogTrigger asChild>
@@ -127,5 +269,58 @@ export function UserActions({ user }: UserActionsProps) {
             </AlertDialogFooter>
         </AlertDialogContent>
      </AlertDialog>
+
+     {/* Groups Dialog: group names are matched by category access rules */}
+     <Dialog open={isGroupsOpen} onOpenChange={setIsGroupsOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+                <DialogTitle>Groups: {user.username}</DialogTitle>
+                <DialogDescription>
+                    Categories can be restricted to members of a group. Separate group names with commas.
+                </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSaveGroups} className="space-y-4">
+                <div className="space-y-2">
+                    <Label htmlFor={`groups-${user.id}`}>Groups</Label>
+                    <Input id={`groups-${user.id}`} value={groupsInput} onChange={e => setGroupsInput(e.target.value)} placeholder="e.g. staff, beta testers" disabled={isGroupsSaving} />
+                </div>
+                <DialogFooter>
+                    <Button type="submit" disabled={isGroupsSaving}>
+                        {isGroupsSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>} Save Groups
+                    </Button>
+                </DialogFooter>
+            </form>
+        </DialogContent>
+     </Dialog>
+
+     {/* Sessions Dialog: revoke single devices or sign the user out everywhere */}
+     <Dialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+            <DialogHeader>
+                <DialogTitle>Sessions: {user.username}</DialogTitle>
+                <DialogDescription>
+                    Devices currently signed in to this account. Revoking a session signs that device out immediately.
+                </DialogDescription>
+            </DialogHeader>
+            <div className="max-h-[50vh] overflow-y-auto">
+                {sessions === null ? (
+                    <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground"/></div>
+                ) : (
+                    <SessionList sessions={sessions} onRevoke={handleRevokeSession} allowRevokeCurrent />
+                )}
+            </div>
+            <DialogFooter>
+                <Button
+                    variant="destructive"
+                    onClick={handleRevokeAllSessions}
+                    disabled={isRevokingAll || !sessions || sessions.length === 0}
+                >
+                    {isRevokingAll ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <LogOut className="mr-2 h-4 w-4"/>}
+                    Sign out everywhere
+                </Button>
+            </DialogFooter>
+        </DialogContent>
+     </Dialog>
+     </>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { getAllUsers } from "@/lib/placeholder-data";
+import { getAllUsers } from "@/lib/data";
 import {
   Table,
   TableBody,
@@ -11,54 +11,79 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { format } from 'date-fns';
-import { UserActions } from './_components/UserActions'; // Component for actions (toggle admin, delete)
+import { UserActions } from './_components/UserActions'; // Component for actions (change role, delete)
+import { LoginLocks } from './_components/LoginLocks';
+import { listActiveLoginBlocks } from '@/lib/auth/rate-limit';
+import { ROLE_LABELS } from '@/lib/permissions';
+import type { Role } from '@/lib/types';
+
+const ROLE_BADGE_VARIANTS: Record<Role, 'destructive' | 'default' | 'secondary' | 'outline'> = {
+  admin: 'destructive',
+  moderator: 'default',
+  member: 'secondary',
+  guest: 'outline',
+};
 
 export default async function AdminUsersPage() {
-  const users = await getAllUsers();
+  const [users, loginLocks] = await Promise.all([getAllUsers(), listActiveLoginBlocks()]);
+  // Account locks are keyed by lower-cased email
+  const accountLocks = new Map(loginLocks.filter(lock => lock.scope === 'account').map(lock => [lock.subject, lock]));
 
   return (
-    <div className="space-y-6">
-      <h1 className="text-3xl font-bold">User Management</h1>
-      <p className="text-muted-foreground">View and manage all registered users.</p>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">User Management</h1>
+        <p className="text-muted-foreground">View and manage all registered users.</p>
 
-      {/* Add overflow-x-auto for responsiveness */}
-      <div className="border rounded-lg shadow-sm overflow-x-auto">
-        <Table>
-          <TableCaption>A list of all registered users.</TableCaption>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="w-[80px] px-3">Avatar</TableHead> {/* Adjust padding */}
-              <TableHead>Username</TableHead>
-              <TableHead>Email</TableHead>
-              <TableHead className="whitespace-nowrap">Joined Date</TableHead> {/* Prevent wrap */}
-              <TableHead>Role</TableHead>
-              <TableHead className="text-right px-3">Actions</TableHead> {/* Adjust padding */}
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {users.map((user) => (
-              <TableRow key={user.id}>
-                <TableCell className="px-3"> {/* Adjust padding */}
-                   <Avatar className="h-9 w-9">
-                    <AvatarImage src={`https://avatar.vercel.sh/${user.username}.png?size=36`} alt={user.username} data-ai-hint="user avatar"/>
-                    <AvatarFallback>{user.username?.charAt(0)?.toUpperCase() ?? 'U'}</AvatarFallback>
-                  </Avatar>
-                </TableCell>
-                <TableCell className="font-medium">{user.username}</TableCell>
-                <TableCell className="text-muted-foreground">{user.email}</TableCell> {/* Muted color */}
-                <TableCell className="whitespace-nowrap">{format(new Date(user.createdAt), 'PP')}</TableCell> {/* Prevent wrap */}
-                <TableCell>
-                  {user.isAdmin ? (
-                    <Badge variant="destructive">Admin</Badge>
-                  ) : (
-                    <Badge variant="secondary">User</Badge>
-                  )}
-                </TableCell>
-                <TableCell className="text-right px-3"> {/* Adjust padding */}
-                  <UserActions user={user} />
-                </TableCell>
+        {/* Add overflow-x-auto for responsiveness */}
+        <div className="border rounded-lg shadow-sm overflow-x-auto">
+          <Table>
+            <TableCaption>A list of all registered users.</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px] px-3">Avatar</TableHead> {/* Adjust padding */}
+                <TableHead>Username</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="whitespace-nowrap">Joined Date</TableHead> {/* Prevent wrap */}
+                <TableHead>Role & Groups</TableHead>
+                <TableHead className="text-right px-3">Actions</TableHead> {/* Adjust padding */}
               </TableRow>
-            ))}
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const loginLock = accountLocks.get(user.email.toLowerCase());
+                return (
+                <TableRow key={user.id}>
+                  <TableCell className="px-3"> {/* Adjust padding */}
+                     <Avatar className="h-9 w-9">
+                      <AvatarImage src={`https://avatar.vercel.sh/${user.username}.png?size=36`} alt={user.username} data-ai-hint="user avatar"/>
+                      <AvatarFallback>{user.username?.charAt(0)?.toUpperCase() ?? 'U'}</AvatarFallback>
+                    </Avatar>
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {user.username}
+                    {loginLock?.lockedAt && (
+                      <Badge variant="destructive" className="ml-2 text-xs font-normal">Login Locked</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground"> {/* Muted color */}
+                    {user.email}
+                    {!user.emailVerifiedAt && (
+                      <Badge variant="outline" className="ml-2 text-xs font-normal">Unverified</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{format(new Date(user.createdAt), 'PP')}</TableCell> {/* Prevent wrap */}
+                  <TableCell>
+                    <Badge variant={ROLE_BADGE_VARIANTS[user.role]}>{ROLE_LABELS[user.role]}</Badge>
+                    {user.groups?.map(group => (
+                      <Badge key={group} variant="outline" className="ml-1 text-xs font-normal">{group}</Badge>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right px-3"> {/* Adjust padding */}
+                    <UserActions user={user} loginLock={loginLock} />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
              {users.length === 0 && (
                 <TableRow>
                     <TableCell colSpan={6} className="text-center text-muted-foreground h-24">
@@ -69,6 +94,8 @@ export default async function AdminUsersPage() {
           </TableBody>
         </Table>
       </div>
+
+      <LoginLocks locks={loginLocks} />
     </div>
   );
 }
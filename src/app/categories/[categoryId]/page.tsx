@@ -1,54 +1,112 @@
-import { getTopicsByCategory, getCategoryById } from '@/lib/placeholder-data'; // Using placeholder
+import { getTopicsPage, getCategoryById, getAnnouncements, getVisibleCategories } from '@/lib/data';
+import { buildCategoryTree, findCategoryNode, getCategoryPath, getDescendantIds } from '@/lib/categories';
 import { TopicList } from '@/components/forums/TopicList';
+import { CategoryList } from '@/components/forums/CategoryList';
+import { Breadcrumbs } from '@/components/forums/Breadcrumbs';
+import { CategoryIcon } from '@/components/forums/CategoryIcon';
+import { Pagination } from '@/components/forums/Pagination';
+import { getSiteSettings } from '@/lib/settings';
+import { parsePageParam } from '@/lib/pagination';
 import { TopicForm } from '@/components/forms/TopicForm';
 import { getCurrentUser } from '@/lib/actions/auth';
+import { WatchMenu } from '@/components/forums/WatchMenu';
+import { getWatchLevel } from '@/lib/watching';
+import { MarkCategoryReadButton } from '@/components/forums/MarkCategoryReadButton';
+import { getUnreadCategoryIds, withUnreadCounts } from '@/lib/unread';
+import { canInCategory } from '@/lib/permissions';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Info, LogIn, UserPlus } from 'lucide-react'; // Added login/register icons
+import { Archive, Info, LogIn, Megaphone, UserPlus } from 'lucide-react'; // Added login/register icons
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { notFound } from 'next/navigation';
 import { Separator } from '@/components/ui/separator'; // Import Separator
 
 interface CategoryPageProps {
     params: { categoryId: string };
+    searchParams: { page?: string };
 }
 
-export default async function CategoryPage({ params }: CategoryPageProps) {
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
     const { categoryId } = params;
     // Fetch user first to ensure cookie context is reliably accessed
     const user = await getCurrentUser();
     // console.log('[CategoryPage] Current User:', user?.id); // Debug log
-    const [category, topics] = await Promise.all([
+    const [category, settings] = await Promise.all([
         getCategoryById(categoryId),
-        getTopicsByCategory(categoryId),
+        getSiteSettings(),
     ]);
 
-    if (!category) {
+    // Private categories look exactly like missing ones
+    if (!category || !canInCategory(user, category, 'view')) {
         notFound(); // Render 404 if category doesn't exist
     }
 
+    const [topicsPage, announcements, visibleCategories, watchLevel] = await Promise.all([
+        getTopicsPage(categoryId, parsePageParam(searchParams.page), settings.topicsPerPage),
+        getAnnouncements(user),
+        getVisibleCategories(user),
+        user ? getWatchLevel(user.id, { categoryId }) : null,
+    ]);
+    const ancestors = getCategoryPath(visibleCategories, categoryId).slice(0, -1);
+    const subcategories = findCategoryNode(buildCategoryTree(visibleCategories), categoryId)?.children ?? [];
+    // This category's own announcements already head its topic list
+    const [otherAnnouncements, topics, unreadCategoryIds] = await Promise.all([
+        withUnreadCounts(user, announcements.filter(topic => topic.categoryId !== categoryId)),
+        withUnreadCounts(user, topicsPage.items),
+        user ? getUnreadCategoryIds(user, getDescendantIds(visibleCategories, categoryId)) : [],
+    ]);
+
     return (
         <div className="space-y-6">
-            {/* Back Button and Category Title */}
-             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
-                 <Button variant="outline" size="sm" asChild>
-                    <Link href="/">
-                        <ArrowLeft className="mr-2 h-4 w-4" /> Back to Categories
-                    </Link>
-                </Button>
-                <div className="flex-1 text-center sm:text-left">
-                    <h1 className="text-2xl sm:text-3xl font-bold">{category.name}</h1>
-                    {category.description && (
-                        <p className="text-muted-foreground mt-1 text-sm sm:text-base">{category.description}</p>
+            {/* Breadcrumbs and Category Title */}
+             <div className="space-y-3 mb-4">
+                <Breadcrumbs items={[
+                    ...ancestors.map(ancestor => ({ label: ancestor.name, href: `/categories/${ancestor.id}` })),
+                    { label: category.name },
+                ]} />
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-2xl sm:text-3xl font-bold flex items-center gap-3" style={category.color ? { color: category.color } : undefined}>
+                            <CategoryIcon category={category} className="h-7 w-7" /> {category.name}
+                        </h1>
+                        {category.description && (
+                            <p className="text-muted-foreground mt-1 text-sm sm:text-base">{category.description}</p>
+                        )}
+                    </div>
+                    {watchLevel && (
+                        <div className="flex flex-shrink-0 items-center gap-2">
+                            <MarkCategoryReadButton categoryId={categoryId} />
+                            <WatchMenu target={{ categoryId }} level={watchLevel} />
+                        </div>
                     )}
                 </div>
             </div>
 
              <Separator /> {/* Separator for visual structure */}
 
+            {/* Subcategories */}
+            {subcategories.length > 0 && (
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-semibold mb-4">Subcategories</h2>
+                    <CategoryList categories={subcategories} unreadCategoryIds={unreadCategoryIds} />
+                </div>
+            )}
+
             {/* Topic Form or Login Prompt */}
-            {user ? (
+            {category.archivedAt ? (
+                 <Alert>
+                    <Archive className="h-4 w-4" />
+                    <AlertTitle>Archived</AlertTitle>
+                    <AlertDescription>This category is archived. Its topics stay readable, but no new topics or replies can be posted.</AlertDescription>
+                 </Alert>
+            ) : canInCategory(user, category, 'topic') ? (
                  <TopicForm categoryId={categoryId} />
+            ) : user ? (
+                 <Alert>
+                    <Info className="h-4 w-4" />
+                    <AlertTitle>Read-Only Access</AlertTitle>
+                    <AlertDescription>You can read topics in this category but not start new ones.</AlertDescription>
+                 </Alert>
             ) : (
                  <Alert className="border-primary/30 bg-primary/5">
                     <Info className="h-4 w-4 text-primary" />
@@ -71,10 +129,19 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
                 </Alert>
             )}
 
+            {/* Site-wide announcements from other categories */}
+            {otherAnnouncements.length > 0 && (
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-semibold mb-4 flex items-center gap-2"><Megaphone className="h-5 w-5" /> Announcements</h2>
+                    <TopicList topics={otherAnnouncements} showCategory />
+                </div>
+            )}
+
             {/* Topic List */}
             <div>
                  <h2 className="text-xl sm:text-2xl font-semibold mb-4">Topics</h2>
                 <TopicList topics={topics} />
+                <Pagination page={topicsPage.page} totalPages={topicsPage.totalPages} basePath={`/categories/${categoryId}`} className="mt-6" />
             </div>
         </div>
     );
@@ -82,8 +149,9 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
 
 // Optional: Add metadata generation
 export async function generateMetadata({ params }: CategoryPageProps) {
-  const category = await getCategoryById(params.categoryId);
+  const [category, user] = await Promise.all([getCategoryById(params.categoryId), getCurrentUser()]);
+  const visible = category && canInCategory(user, category, 'view');
   return {
-    title: category ? `${category.name} - ForumLite` : 'Category Not Found',
+    title: visible ? `${category.name} - ForumLite` : 'Category Not Found',
   };
 }
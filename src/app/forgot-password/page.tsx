@@ -0,0 +1,17 @@
+import { ForgotPasswordForm } from '@/components/forms/ForgotPasswordForm';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { redirect } from 'next/navigation';
+
+export default async function ForgotPasswordPage() {
+    // Signed-in users don't need a reset link
+    const user = await getCurrentUser();
+    if (user) {
+        redirect('/');
+    }
+
+    return (
+        <div className="flex justify-center items-center py-12">
+            <ForgotPasswordForm />
+        </div>
+    );
+}
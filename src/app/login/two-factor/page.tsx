@@ -0,0 +1,24 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { TwoFactorLoginForm } from '@/components/forms/TwoFactorLoginForm';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { LOGIN_CHALLENGE_COOKIE_NAME, findLoginChallenge } from '@/lib/auth/two-factor';
+
+export default async function TwoFactorLoginPage() {
+    const user = await getCurrentUser();
+    if (user) {
+        redirect('/');
+    }
+
+    // Only reachable right after a correct password
+    const challengeToken = (await cookies()).get(LOGIN_CHALLENGE_COOKIE_NAME)?.value;
+    if (!challengeToken || !(await findLoginChallenge(challengeToken))) {
+        redirect('/login');
+    }
+
+    return (
+        <div className="flex justify-center items-center py-12">
+            <TwoFactorLoginForm />
+        </div>
+    );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { Notification, NotificationKind } from '@/lib/types';
+import { markNotificationReadAction, markAllNotificationsReadAction } from '@/lib/actions/notifications';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AtSign, Check, CheckCheck, Loader2, MessageSquare, MessageSquarePlus, Shield, SmilePlus, TextQuote, type LucideIcon } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+const KIND_ICONS: Record<NotificationKind, LucideIcon> = {
+  topic: MessageSquarePlus,
+  reply: MessageSquare,
+  mention: AtSign,
+  quote: TextQuote,
+  reaction: SmilePlus,
+  moderation: Shield,
+};
+
+// Deleted posts can't be opened, so those notifications lead to the topic
+const notificationHref = (notification: Notification) =>
+  notification.postId ? `/posts/${notification.postId}` : `/topics/${notification.topicId}`;
+
+interface NotificationListProps {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export function NotificationList({ notifications, unreadCount }: NotificationListProps) {
+  const { toast } = useToast();
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+
+  const handleMarkRead = async (notificationId: string) => {
+    const result = await markNotificationReadAction(notificationId);
+    if (!result.success) {
+      toast({ variant: "destructive", title: "Error", description: result.message });
+    }
+    // Revalidation is handled by the action
+  };
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAll(true);
+    try {
+      const result = await markAllNotificationsReadAction();
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsMarkingAll(false);
+    }
+  };
+
+  if (notifications.length === 0) {
+    return <p className="text-muted-foreground text-center py-10">You have no notifications yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">{unreadCount} unread</span>
+        <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0 || isMarkingAll}>
+          {isMarkingAll ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+          Mark all read
+        </Button>
+      </div>
+      <Card className="divide-y shadow-sm">
+        {notifications.map(notification => {
+          const Icon = KIND_ICONS[notification.kind];
+          const actorName = notification.actor?.username ?? 'Deleted user';
+          const isUnread = !notification.readAt;
+          return (
+            <div key={notification.id} className={cn("flex items-start gap-3 p-4", isUnread && "bg-primary/5")}>
+              <Avatar className="h-8 w-8 border">
+                <AvatarImage src={`https://avatar.vercel.sh/${actorName}.png?size=32`} alt={actorName} data-ai-hint="user avatar" />
+                <AvatarFallback>{actorName.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <Link
+                href={notificationHref(notification)}
+                // Opening a notification reads it
+                onClick={() => { if (isUnread) handleMarkRead(notification.id); }}
+                className="flex-1 min-w-0 space-y-1 group"
+              >
+                <p className={cn("text-sm group-hover:underline", isUnread && "font-medium")}>
+                  <span className="font-semibold">{actorName}</span> {notification.summary}
+                </p>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Icon className="h-3 w-3" /> {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </Link>
+              {isUnread && (
+                <Button variant="ghost" size="sm" onClick={() => handleMarkRead(notification.id)} title="Mark as read">
+                  <Check className="h-4 w-4" /> <span className="sr-only">Mark as read</span>
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </Card>
+    </div>
+  );
+}
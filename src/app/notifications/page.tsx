@@ -0,0 +1,43 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getNotificationsPage, getUnreadNotificationCount } from '@/lib/data';
+import { parsePageParam } from '@/lib/pagination';
+import { Pagination } from '@/components/forums/Pagination';
+import { NotificationList } from './_components/NotificationList';
+
+const NOTIFICATIONS_PAGE_SIZE = 30;
+
+export const metadata = {
+  title: 'Notifications - ForumLite',
+};
+
+interface NotificationsPageProps {
+  searchParams: { page?: string };
+}
+
+export default async function NotificationsPage({ searchParams }: NotificationsPageProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const [notificationsPage, unreadCount] = await Promise.all([
+    getNotificationsPage(user.id, parsePageParam(searchParams.page), NOTIFICATIONS_PAGE_SIZE),
+    getUnreadNotificationCount(user.id),
+  ]);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Notifications</h1>
+        <p className="text-muted-foreground">
+          New posts in topics and categories you watch, mentions, quotes and moderator actions on your posts, newest first.
+        </p>
+      </div>
+
+      <NotificationList notifications={notificationsPage.items} unreadCount={unreadCount} />
+
+      <Pagination page={notificationsPage.page} totalPages={notificationsPage.totalPages} basePath="/notifications" />
+    </div>
+  );
+}
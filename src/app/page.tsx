@@ -1,15 +1,20 @@
-import { getCategories } from '@/lib/placeholder-data'; // Using placeholder
+import { getVisibleCategories } from '@/lib/data';
+import { buildCategoryTree } from '@/lib/categories';
+import { getUnreadCategoryIds } from '@/lib/unread';
 import { CategoryList } from '@/components/forums/CategoryList';
 import { CategoryForm } from '@/components/forms/CategoryForm';
 import { getCurrentUser } from '@/lib/actions/auth';
+import { can } from '@/lib/permissions';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'; // Added CardContent
 import { Button } from '@/components/ui/button'; // Added Button
 import Link from 'next/link'; // Added Link
 import { LogIn, UserPlus } from 'lucide-react'; // Added icons
 
 export default async function Home() {
-  const categories = await getCategories();
   const user = await getCurrentUser();
+  const categories = await getVisibleCategories(user);
+  const categoryTree = buildCategoryTree(categories);
+  const unreadCategoryIds = user ? await getUnreadCategoryIds(user, categories.map(category => category.id)) : [];
 
   return (
     <div className="space-y-8">
@@ -38,11 +43,11 @@ export default async function Home() {
       </Card>
 
       {/* Only show category form if user is admin */}
-      {user?.isAdmin && <CategoryForm />}
+      {can(user, 'category.manage') && <CategoryForm categories={categories} />}
 
       <div>
          <h2 className="text-xl sm:text-2xl font-semibold mb-4 border-b pb-2 text-foreground">Forum Categories</h2>
-        <CategoryList categories={categories} />
+        <CategoryList categories={categoryTree} unreadCategoryIds={unreadCategoryIds} />
       </div>
     </div>
   );
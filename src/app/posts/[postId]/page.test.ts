@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { User } from '@/lib/types';
+import { getCurrentUser } from '@/lib/actions/auth';
+import PostPermalink from './page';
+
+vi.mock('next/navigation', () => ({
+    notFound: () => { throw new Error('NEXT_NOT_FOUND'); },
+    redirect: (url: string) => { throw new Error(`NEXT_REDIRECT ${url}`); },
+}));
+vi.mock('@/lib/actions/auth', () => ({ getCurrentUser: vi.fn() }));
+
+const alice: User = { id: 'alice', username: 'alice', email: 'alice@example.com', role: 'member', createdAt: new Date() };
+
+const visit = (postId: string) => PostPermalink({ params: { postId } });
+
+describe('post permalinks', () => {
+    beforeEach(async () => {
+        vi.mocked(getCurrentUser).mockResolvedValue(alice);
+        const repo = getRepository();
+        await repo.users.insert(alice);
+        await repo.categories.insert({ id: 'lounge', name: 'Lounge', createdAt: new Date(), topicCount: 1, postCount: 25 });
+        await repo.categories.insert({ id: 'staff', name: 'Staff', createdAt: new Date(), topicCount: 1, postCount: 1, access: { view: { roles: ['admin'], groups: [] } } });
+        await repo.topics.insert({ id: 'long', title: 'Long', categoryId: 'lounge', authorId: 'alice', createdAt: new Date(0), lastActivity: new Date(0), postCount: 25 });
+        await repo.topics.insert({ id: 'secret', title: 'Secret', categoryId: 'staff', authorId: 'alice', createdAt: new Date(0), lastActivity: new Date(0), postCount: 1 });
+        for (let n = 1; n <= 25; n++) {
+            await repo.posts.insert({ id: `p${n}`, content: `post ${n}`, topicId: 'long', authorId: 'alice', createdAt: new Date(n * 1000) });
+        }
+        await repo.posts.insert({ id: 'hidden', content: 'secret post', topicId: 'secret', authorId: 'alice', createdAt: new Date() });
+    });
+
+    it('lands on the page that holds the post, at its anchor', async () => {
+        await expect(visit('p3')).rejects.toThrow('NEXT_REDIRECT /topics/long#post-p3');
+        await expect(visit('p22')).rejects.toThrow('NEXT_REDIRECT /topics/long?page=2#post-p22');
+    });
+
+    it("follows the reader's posts-per-page", async () => {
+        vi.mocked(getCurrentUser).mockResolvedValue({ ...alice, postsPerPage: 10 });
+        await expect(visit('p22')).rejects.toThrow('NEXT_REDIRECT /topics/long?page=3#post-p22');
+    });
+
+    it('treats unknown posts and posts the reader cannot see as missing', async () => {
+        await expect(visit('nope')).rejects.toThrow('NEXT_NOT_FOUND');
+        await expect(visit('hidden')).rejects.toThrow('NEXT_NOT_FOUND');
+    });
+
+    it('treats posts in topics without a category as missing', async () => {
+        await getRepository().topics.insert({ id: 'orphan', title: 'Orphan', categoryId: 'gone', authorId: 'alice', createdAt: new Date(0), lastActivity: new Date(0), postCount: 1 });
+        await getRepository().posts.insert({ id: 'stray', content: 'stray post', topicId: 'orphan', authorId: 'alice', createdAt: new Date() });
+        await expect(visit('stray')).rejects.toThrow('NEXT_NOT_FOUND');
+    });
+});
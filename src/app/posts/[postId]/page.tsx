@@ -0,0 +1,26 @@
+import { notFound, redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getPostLocation, getTopicById } from '@/lib/data';
+import { getPostsPerPage } from '@/lib/settings';
+import { canInCategory } from '@/lib/permissions';
+import { pageHref, pageOfIndex } from '@/lib/pagination';
+
+interface PostPermalinkProps {
+    params: { postId: string };
+}
+
+// Stable link to a post: sends the reader to the page of the topic that holds it, at the post's anchor.
+// The page depends on the reader's posts-per-page, so it is worked out on every visit.
+export default async function PostPermalink({ params }: PostPermalinkProps) {
+    const { postId } = params;
+    const [user, location] = await Promise.all([getCurrentUser(), getPostLocation(postId)]);
+    const topic = location ? await getTopicById(location.topicId) : null;
+
+    // A topic whose category is gone is as hidden as one in a category the user can't see
+    if (!location || !topic || !topic.category || !canInCategory(user, topic.category, 'view')) {
+        notFound();
+    }
+
+    const page = pageOfIndex(location.index, await getPostsPerPage(user));
+    redirect(`${pageHref(`/topics/${topic.id}`, page)}#post-${postId}`);
+}
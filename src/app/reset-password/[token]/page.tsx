@@ -0,0 +1,35 @@
+import Link from 'next/link';
+import { ResetPasswordForm } from '@/components/forms/ResetPasswordForm';
+import { findValidToken } from '@/lib/auth/tokens';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+
+interface ResetPasswordPageProps {
+    params: { token: string };
+}
+
+export default async function ResetPasswordPage({ params }: ResetPasswordPageProps) {
+    const { token } = params;
+    const validToken = await findValidToken(token, 'password_reset');
+
+    return (
+        <div className="flex justify-center items-center py-12">
+            {validToken ? (
+                <ResetPasswordForm token={token} />
+            ) : (
+                <Card className="w-full max-w-md mx-auto shadow-lg border border-border">
+                    <CardHeader>
+                        <CardTitle className="text-2xl flex items-center"><AlertTriangle className="mr-2 h-5 w-5 text-destructive"/> Link Expired</CardTitle>
+                        <CardDescription>This password reset link is invalid, has expired, or has already been used.</CardDescription>
+                    </CardHeader>
+                    <CardFooter>
+                        <Button asChild className="w-full">
+                            <Link href="/forgot-password">Request a New Link</Link>
+                        </Button>
+                    </CardFooter>
+                </Card>
+            )}
+        </div>
+    );
+}
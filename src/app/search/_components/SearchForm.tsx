@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search } from 'lucide-react';
+
+const ALL_CATEGORIES = '__all__'; // Select items can't have an empty value
+
+export interface SearchFormValues {
+  q: string;
+  category: string;
+  author: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+  topicsOnly: boolean;
+}
+
+interface SearchFormProps {
+  values: SearchFormValues;
+  categories: { id: string; name: string; depth: number }[]; // In tree order
+}
+
+// A GET form: every search has a URL that can be bookmarked or shared
+export function SearchForm({ values, categories }: SearchFormProps) {
+  const [category, setCategory] = useState(values.category);
+  const [topicsOnly, setTopicsOnly] = useState(values.topicsOnly);
+
+  return (
+    <form action="/search" role="search" className="space-y-4">
+      <div className="flex gap-2">
+        <Input type="search" name="q" defaultValue={values.q} placeholder="Search topics and posts…" aria-label="Search terms" autoFocus={!values.q} />
+        <Button type="submit"><Search className="mr-2 h-4 w-4" /> Search</Button>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="search-category">Category</Label>
+          {category && <input type="hidden" name="category" value={category} />}
+          <Select value={category || ALL_CATEGORIES} onValueChange={value => setCategory(value === ALL_CATEGORIES ? '' : value)}>
+            <SelectTrigger id="search-category"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categories.map(({ id, name, depth }) => (
+                <SelectItem key={id} value={id}>
+                  <span style={{ paddingLeft: `${depth}rem` }}>{name}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-author">Author</Label>
+          <Input id="search-author" name="author" defaultValue={values.author} placeholder="Username" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-from">From</Label>
+          <Input id="search-from" type="date" name="from" defaultValue={values.from} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="search-to">To</Label>
+          <Input id="search-to" type="date" name="to" defaultValue={values.to} />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        {topicsOnly && <input type="hidden" name="topics" value="1" />}
+        <Checkbox id="search-topics" checked={topicsOnly} onCheckedChange={checked => setTopicsOnly(checked === true)} />
+        <Label htmlFor="search-topics" className="font-normal">Topics only (search titles and opening posts, one result per topic)</Label>
+      </div>
+    </form>
+  );
+}
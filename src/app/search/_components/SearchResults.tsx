@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import type { Post } from '@/lib/types';
+import { highlight, snippet, type HighlightSegment } from '@/lib/search-text';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CategoryBadge } from '@/components/forums/CategoryBadge';
+import { Clock, UserCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.match
+        ? <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">{segment.text}</mark>
+        : <span key={index}>{segment.text}</span>)}
+    </>
+  );
+}
+
+interface SearchResultsProps {
+  posts: Post[]; // With author and topic (and its category) populated
+  terms: string[];
+}
+
+export function SearchResults({ posts, terms }: SearchResultsProps) {
+  return (
+    <div className="space-y-3">
+      {posts.map(post => (
+        <Card key={post.id}>
+          <CardHeader className="p-4 pb-2">
+            <CardTitle className="text-base font-medium leading-snug">
+              <Link href={`/posts/${post.id}`} className="hover:text-primary hover:underline">
+                <Highlighted segments={highlight(post.topic?.title ?? 'Untitled topic', terms)} />
+              </Link>
+            </CardTitle>
+            <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-1">
+              {post.topic?.category && <CategoryBadge category={post.topic.category} />}
+              <UserCircle className="h-3 w-3 ml-1" />
+              <span>{post.author?.username ?? 'Unknown'}</span>
+              <span className="mx-1">·</span>
+              <Clock className="h-3 w-3" />
+              <span>{formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}</span>
+            </div>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 text-sm text-muted-foreground">
+            <Highlighted segments={snippet(post.content, terms)} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getVisibleCategories, searchPosts } from '@/lib/data';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categories';
+import { parsePageParam } from '@/lib/pagination';
+import { searchTerms } from '@/lib/search-text';
+import { Pagination } from '@/components/forums/Pagination';
+import { SearchForm, type SearchFormValues } from './_components/SearchForm';
+import { SearchResults } from './_components/SearchResults';
+
+const SEARCH_PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const metadata = {
+  title: 'Search - ForumLite',
+};
+
+type SearchParams = Partial<Record<'q' | 'category' | 'author' | 'from' | 'to' | 'topics' | 'page', string>>;
+
+interface SearchPageProps {
+  searchParams: SearchParams;
+}
+
+// `yyyy-mm-dd` from a date input, as the start of that day (UTC); anything else is ignored
+const parseDay = (value: string | undefined) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const day = new Date(value);
+  return Number.isNaN(day.getTime()) ? undefined : day;
+};
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const values: SearchFormValues = {
+    q: searchParams.q?.trim() ?? '',
+    category: searchParams.category ?? '',
+    author: searchParams.author?.trim().replace(/^@/, '') ?? '',
+    from: searchParams.from ?? '',
+    to: searchParams.to ?? '',
+    topicsOnly: searchParams.topics === '1',
+  };
+
+  const user = await getCurrentUser();
+  const categories = await getVisibleCategories(user);
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => ({ id: category.id, name: category.name, depth }));
+  const to = parseDay(values.to);
+  const terms = searchTerms(values.q);
+  const results = await searchPosts(user, {
+    query: values.q,
+    categoryId: values.category || undefined,
+    author: values.author || undefined,
+    after: parseDay(values.from),
+    before: to && new Date(to.getTime() + DAY_MS), // The whole "to" day is included
+    topicsOnly: values.topicsOnly,
+  }, parsePageParam(searchParams.page), SEARCH_PAGE_SIZE);
+
+  // Every filter except the page, so pagination links keep them
+  const query = new URLSearchParams(Object.entries(searchParams).filter(([key, value]) => key !== 'page' && value) as [string, string][]);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold">Search</h1>
+      <SearchForm values={values} categories={categoryOptions} />
+
+      {terms.length > 0 && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {results.totalItems === 0
+              ? 'No posts match your search.'
+              : `${results.totalItems} ${results.totalItems === 1 ? 'result' : 'results'}, best matches first.`}
+          </p>
+          <SearchResults posts={results.items} terms={terms} />
+          <Pagination page={results.page} totalPages={results.totalPages} basePath={`/search?${query}`} />
+        </div>
+      )}
+    </div>
+  );
+}
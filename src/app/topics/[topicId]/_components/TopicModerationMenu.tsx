@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from 'react';
+import type { Topic } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { FolderInput, GitMerge, Loader2, Lock, LockOpen, Megaphone, Pin, PinOff, Scissors, Shield } from 'lucide-react';
+import { updateTopicStatusAction } from '@/lib/actions/forums';
+import type { TopicStatusChanges } from '@/lib/data';
+import { useToast } from '@/hooks/use-toast';
+import { MoveTopicDialog, MergeTopicDialog, SplitTopicDialog, type CategoryOption, type SplitCandidate } from './TopicMoveDialogs';
+
+interface TopicModerationMenuProps {
+  topic: Pick<Topic, 'id' | 'title' | 'categoryId' | 'postCount' | 'pinnedAt' | 'lockedAt' | 'announcedAt'>;
+  canPin: boolean; // Pin and announce
+  canLock: boolean;
+  canMove: boolean; // Move, merge and split
+  categories: CategoryOption[]; // Move/split targets
+  posts: SplitCandidate[]; // Posts on the current page
+}
+
+type ToolDialog = 'move' | 'merge' | 'split' | null;
+
+export function TopicModerationMenu({ topic, canPin, canLock, canMove, categories, posts }: TopicModerationMenuProps) {
+  const { toast } = useToast();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [dialog, setDialog] = useState<ToolDialog>(null);
+  const dialogProps = (name: Exclude<ToolDialog, null>) => ({
+    topic,
+    open: dialog === name,
+    onOpenChange: (open: boolean) => setDialog(open ? name : null),
+  });
+
+  const update = async (changes: TopicStatusChanges) => {
+    setIsUpdating(true);
+    try {
+      const result = await updateTopicStatusAction(topic.id, changes);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isUpdating}>
+            {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Shield className="mr-2 h-4 w-4" />} Moderate
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Topic</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {canPin && (
+            <DropdownMenuItem onClick={() => update({ pinned: !topic.pinnedAt })}>
+              {topic.pinnedAt ? <><PinOff className="mr-2 h-4 w-4" /> Unpin</> : <><Pin className="mr-2 h-4 w-4" /> Pin to Top</>}
+            </DropdownMenuItem>
+          )}
+          {canPin && (
+            <DropdownMenuItem onClick={() => update({ announcement: !topic.announcedAt })}>
+              <Megaphone className="mr-2 h-4 w-4" /> {topic.announcedAt ? 'Remove Announcement' : 'Make Announcement'}
+            </DropdownMenuItem>
+          )}
+          {canLock && (
+            <DropdownMenuItem onClick={() => update({ locked: !topic.lockedAt })}>
+              {topic.lockedAt ? <><LockOpen className="mr-2 h-4 w-4" /> Unlock</> : <><Lock className="mr-2 h-4 w-4" /> Lock</>}
+            </DropdownMenuItem>
+          )}
+          {canMove && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setDialog('move')}><FolderInput className="mr-2 h-4 w-4" /> Move</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setDialog('merge')}><GitMerge className="mr-2 h-4 w-4" /> Merge Into…</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setDialog('split')} disabled={(topic.postCount ?? 0) < 2}><Scissors className="mr-2 h-4 w-4" /> Split Posts…</DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {canMove && (
+        <>
+          <MoveTopicDialog {...dialogProps('move')} categories={categories} />
+          <MergeTopicDialog {...dialogProps('merge')} />
+          <SplitTopicDialog {...dialogProps('split')} categories={categories} posts={posts} />
+        </>
+      )}
+    </>
+  );
+}
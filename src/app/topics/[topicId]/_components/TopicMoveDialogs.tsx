@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Category, Topic } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from 'lucide-react';
+import { moveTopicAction, mergeTopicsAction, splitTopicAction } from '@/lib/actions/forums';
+import { useToast } from '@/hooks/use-toast';
+
+export type CategoryOption = Pick<Category, 'id' | 'name'>;
+
+// A post on the current page, as offered for splitting
+export interface SplitCandidate {
+  id: string;
+  number: number; // Position in the topic, as shown on the post (#n)
+  authorName: string;
+  excerpt: string;
+}
+
+interface DialogProps {
+  topic: Pick<Topic, 'id' | 'title' | 'categoryId'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shared toast + busy state for the three dialogs
+function useModerationAction() {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async <T extends { success: boolean; message: string }>(action: () => Promise<T>): Promise<T | null> => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+      return result.success ? result : null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { isSaving, run };
+}
+
+function CategorySelect({ id, categories, value, onChange, disabled }: { id: string; categories: CategoryOption[]; value: string; onChange: (value: string) => void; disabled: boolean }) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id}><SelectValue placeholder="Choose a category" /></SelectTrigger>
+      <SelectContent>
+        {categories.map(category => <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function MoveTopicDialog({ topic, categories, open, onOpenChange }: DialogProps & { categories: CategoryOption[] }) {
+  const [categoryId, setCategoryId] = useState(topic.categoryId);
+  const { isSaving, run } = useModerationAction();
+
+  const handleMove = async () => {
+    if (await run(() => moveTopicAction(topic.id, categoryId))) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) setCategoryId(topic.categoryId); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Move Topic</DialogTitle>
+          <DialogDescription>Move &quot;{topic.title}&quot; and all its posts to another category.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="move-category">Category</Label>
+          <CategorySelect id="move-category" categories={categories} value={categoryId} onChange={setCategoryId} disabled={isSaving} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button onClick={handleMove} disabled={isSaving || categoryId === topic.categoryId}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Accepts a topic id or any link to it (e.g. https://forum.example/topics/topic123?page=2)
+const parseTopicId = (value: string) => {
+  const trimmed = value.trim();
+  return trimmed.match(/\/topics\/([^/?#]+)/)?.[1] ?? trimmed;
+};
+
+export function MergeTopicDialog({ topic, open, onOpenChange }: DialogProps) {
+  const router = useRouter();
+  const [target, setTarget] = useState('');
+  const { isSaving, run } = useModerationAction();
+
+  const handleMerge = async () => {
+    const result = await run(() => mergeTopicsAction(topic.id, parseTopicId(target)));
+    if (result?.topicId) {
+      onOpenChange(false);
+      router.push(`/topics/${result.topicId}`); // This topic no longer exists
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) setTarget(''); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Merge Topic</DialogTitle>
+          <DialogDescription>
+            Every post of &quot;{topic.title}&quot; moves into the target topic, in date order with its existing posts.
+            This topic is then deleted.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="merge-target">Target topic</Label>
+          <Input id="merge-target" placeholder="Topic link or ID" value={target} onChange={e => setTarget(e.target.value)} disabled={isSaving} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button variant="destructive" onClick={handleMerge} disabled={isSaving || !target.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SplitTopicDialog({ topic, categories, posts, open, onOpenChange }: DialogProps & { categories: CategoryOption[]; posts: SplitCandidate[] }) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [categoryId, setCategoryId] = useState(topic.categoryId);
+  const { isSaving, run } = useModerationAction();
+
+  const reset = () => {
+    setSelected([]);
+    setTitle('');
+    setCategoryId(topic.categoryId);
+  };
+
+  const togglePost = (postId: string, checked: boolean) =>
+    setSelected(current => checked ? [...current, postId] : current.filter(id => id !== postId));
+
+  const handleSplit = async () => {
+    const result = await run(() => splitTopicAction(topic.id, { title, categoryId, postIds: selected }));
+    if (result?.topicId) {
+      onOpenChange(false);
+      router.push(`/topics/${result.topicId}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => { if (value) reset(); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split Topic</DialogTitle>
+          <DialogDescription>
+            Move the selected posts from this page into a new topic. At least one post has to stay in this topic.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <ul className="space-y-2 max-h-64 overflow-y-auto rounded-md border p-3">
+            {posts.map(post => (
+              <li key={post.id} className="flex items-start gap-2">
+                <Checkbox
+                  id={`split-${post.id}`}
+                  checked={selected.includes(post.id)}
+                  onCheckedChange={checked => togglePost(post.id, checked === true)}
+                  disabled={isSaving}
+                  className="mt-0.5"
+                />
+                <Label htmlFor={`split-${post.id}`} className="font-normal leading-snug">
+                  <span className="font-medium">#{post.number} {post.authorName}:</span>{' '}
+                  <span className="text-muted-foreground">{post.excerpt}</span>
+                </Label>
+              </li>
+            ))}
+          </ul>
+          <div className="space-y-2">
+            <Label htmlFor="split-title">New topic title</Label>
+            <Input id="split-title" value={title} onChange={e => setTitle(e.target.value)} disabled={isSaving} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="split-category">Category</Label>
+            <CategorySelect id="split-category" categories={categories} value={categoryId} onChange={setCategoryId} disabled={isSaving} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancel</Button>
+          <Button onClick={handleSplit} disabled={isSaving || selected.length === 0 || !title.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Split {selected.length > 0 && `(${selected.length})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,23 @@
-import { getTopicById } from '@/lib/placeholder-data'; // Using placeholder
-import { getPostsByTopic } from '@/lib/actions/forums'; // Use action to fetch posts
+import { getTopicById, getVisibleCategories } from '@/lib/data';
+import { getPostsPage } from '@/lib/actions/forums'; // Use action to fetch posts
 import { PostList } from '@/components/forums/PostList';
+import { Pagination } from '@/components/forums/Pagination';
+import { parsePageParam } from '@/lib/pagination';
 import { PostForm } from '@/components/forms/PostForm';
 import { getCurrentUser } from '@/lib/actions/auth';
+import { can, canInCategory } from '@/lib/permissions';
+import { TopicStatusBadges } from '@/components/forums/TopicStatusBadges';
+import { Breadcrumbs } from '@/components/forums/Breadcrumbs';
+import { CategoryBadge } from '@/components/forums/CategoryBadge';
+import { buildCategoryTree, flattenCategoryTree, getCategoryPath, getCategoryPathLabel } from '@/lib/categories';
+import { TopicModerationMenu } from './_components/TopicModerationMenu';
+import { WatchMenu } from '@/components/forums/WatchMenu';
+import { MarkTopicRead } from '@/components/forums/MarkTopicRead';
+import { getWatchLevel } from '@/lib/watching';
+import { getSiteSettings } from '@/lib/settings';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Info, MessageSquare, UserCircle, CalendarDays, LogIn, UserPlus } from 'lucide-react'; // Added more icons
+import { Archive, Info, Lock, MessageSquare, UserCircle, CalendarDays, LogIn, UserPlus } from 'lucide-react'; // Added more icons
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { notFound } from 'next/navigation';
 import { format } from 'date-fns';
@@ -13,34 +25,74 @@ import { Separator } from '@/components/ui/separator'; // Import Separator
 
 interface TopicPageProps {
     params: { topicId: string };
+    searchParams: { page?: string };
 }
 
-export default async function TopicPage({ params }: TopicPageProps) {
+export default async function TopicPage({ params, searchParams }: TopicPageProps) {
     const { topicId } = params;
      // Fetch user first to ensure cookie context is reliably accessed
     const user = await getCurrentUser();
     // console.log('[TopicPage] Current User:', user?.id); // Debug log
-    const [topic, initialPosts] = await Promise.all([
+    const [topic, postsPage] = await Promise.all([
         getTopicById(topicId),
-        getPostsByTopic(topicId),
+        getPostsPage(topicId, parsePageParam(searchParams.page)),
     ]);
 
-    if (!topic) {
+    // Topics in categories the user can't see (or that no longer exist) look exactly like missing ones
+    if (!topic || !postsPage || !topic.category || !canInCategory(user, topic.category, 'view')) {
         notFound(); // Render 404 if topic doesn't exist
     }
 
+    const canPin = can(user, 'topic.pin');
+    const canLock = can(user, 'topic.lock');
+    const canMove = can(user, 'topic.move');
+    const offset = (postsPage.page - 1) * postsPage.pageSize;
+    const visibleCategories = await getVisibleCategories(user);
+    const categoryPath = getCategoryPath(visibleCategories, topic.categoryId);
+    // Tree order, labelled with the full path ("Technical Help › Linux")
+    const moveTargets = canMove
+        ? flattenCategoryTree(buildCategoryTree(visibleCategories)).map(({ category }) => ({ id: category.id, name: getCategoryPathLabel(visibleCategories, category.id) }))
+        : [];
+    const splitCandidates = canMove ? postsPage.items.map((post, index) => ({
+        id: post.id,
+        number: offset + index + 1,
+        authorName: post.author?.username ?? 'Unknown',
+        excerpt: post.content.length > 80 ? `${post.content.slice(0, 80)}…` : post.content,
+    })) : [];
+    // Moderators can still reply to locked topics
+    const isLockedForUser = !!topic.lockedAt && !canLock;
+    const canReply = !isLockedForUser && canInCategory(user, topic.category, 'reply');
+    // Archived categories are read-only, reactions included
+    const canReact = can(user, 'post.react') && !topic.category?.archivedAt;
+    const { reactions: allowedReactions } = await getSiteSettings();
+    const watchLevel = user ? await getWatchLevel(user.id, { topicId }) : null;
+    // Everything up to the last post on this page counts as seen once the page is shown
+    const lastPost = postsPage.items[postsPage.items.length - 1];
+
     return (
         <div className="space-y-6">
-             {/* Back Button and Topic Title */}
+            {user && lastPost && <MarkTopicRead postId={lastPost.id} />}
+             {/* Breadcrumbs and Topic Title */}
             <div>
-                 {topic.category && (
-                     <Button variant="outline" size="sm" asChild className="mb-4">
-                        <Link href={`/categories/${topic.categoryId}`}>
-                            <ArrowLeft className="mr-2 h-4 w-4" /> Back to {topic.category.name}
-                        </Link>
-                    </Button>
-                 )}
-                <h1 className="text-2xl sm:text-3xl font-bold leading-tight">{topic.title}</h1>
+                <Breadcrumbs className="mb-4" items={[
+                    ...categoryPath.map(category => ({ label: category.name, href: `/categories/${category.id}` })),
+                    { label: topic.title },
+                ]} />
+                <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-2">
+                        <div className="flex flex-wrap items-center gap-1">
+                            {topic.category && <CategoryBadge category={topic.category} />}
+                            <TopicStatusBadges topic={topic} />
+                        </div>
+                        <h1 className="text-2xl sm:text-3xl font-bold leading-tight">{topic.title}</h1>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-2">
+                        {watchLevel && <WatchMenu target={{ topicId }} level={watchLevel} />}
+                        {(canPin || canLock || canMove) && (
+                            <TopicModerationMenu topic={topic} canPin={canPin} canLock={canLock} canMove={canMove} categories={moveTargets} posts={splitCandidates} />
+                        )}
+                    </div>
+                </div>
                  {/* Enhanced Metadata */}
                  <div className="text-sm text-muted-foreground mt-2 flex flex-wrap items-center gap-x-4 gap-y-1">
                     <span className="flex items-center gap-1">
@@ -50,7 +102,7 @@ export default async function TopicPage({ params }: TopicPageProps) {
                          <CalendarDays className="h-4 w-4"/> {format(new Date(topic.createdAt), 'PPP')} {/* Simpler date format */}
                     </span>
                      <span className="flex items-center gap-1">
-                         <MessageSquare className="h-4 w-4"/> {topic.postCount ?? initialPosts.length} posts
+                         <MessageSquare className="h-4 w-4"/> {postsPage.totalItems} posts
                     </span>
                 </div>
             </div>
@@ -58,14 +110,34 @@ export default async function TopicPage({ params }: TopicPageProps) {
             <Separator /> {/* Separator for visual structure */}
 
             {/* Post List - Now requires client component for edit state */}
-            <PostList initialPosts={initialPosts} topicId={topicId} currentUser={user} />
+            <Pagination page={postsPage.page} totalPages={postsPage.totalPages} basePath={`/topics/${topicId}`} />
+            <PostList initialPosts={postsPage.items} topicId={topicId} currentUser={user} offset={offset} canReply={canReply} allowedReactions={allowedReactions} canReact={canReact} isArchived={!!topic.category?.archivedAt} />
+            <Pagination page={postsPage.page} totalPages={postsPage.totalPages} basePath={`/topics/${topicId}`} />
 
 
             {/* Reply Form or Login Prompt */}
-            {user ? (
+            {topic.category?.archivedAt ? (
+                 <Alert id="post-form-container">
+                    <Archive className="h-4 w-4" />
+                    <AlertTitle>Category Archived</AlertTitle>
+                    <AlertDescription>This topic is in an archived category and can no longer be replied to.</AlertDescription>
+                 </Alert>
+            ) : isLockedForUser ? (
+                 <Alert id="post-form-container">
+                    <Lock className="h-4 w-4" />
+                    <AlertTitle>Topic Locked</AlertTitle>
+                    <AlertDescription>This topic has been locked by a moderator. No new replies can be posted.</AlertDescription>
+                 </Alert>
+            ) : canReply ? (
                  <div id="post-form-container"> {/* Add an ID for scrolling into view when editing */}
                     <PostForm topicId={topicId} />
                  </div>
+            ) : user ? (
+                 <Alert id="post-form-container">
+                    <Info className="h-4 w-4" />
+                    <AlertTitle>Read-Only Access</AlertTitle>
+                    <AlertDescription>You can read this topic but not reply to it.</AlertDescription>
+                 </Alert>
             ) : (
                  <Alert id="post-form-container" className="border-primary/30 bg-primary/5"> {/* Add ID here too */}
                     <Info className="h-4 w-4 text-primary" />
@@ -94,8 +166,9 @@ export default async function TopicPage({ params }: TopicPageProps) {
 
 // Optional: Add metadata generation
 export async function generateMetadata({ params }: TopicPageProps) {
-  const topic = await getTopicById(params.topicId);
+  const [topic, user] = await Promise.all([getTopicById(params.topicId), getCurrentUser()]);
+  const visible = topic?.category && canInCategory(user, topic.category, 'view');
   return {
-    title: topic ? `${topic.title} - ForumLite` : 'Topic Not Found',
+    title: visible ? `${topic.title} - ForumLite` : 'Topic Not Found',
   };
 }
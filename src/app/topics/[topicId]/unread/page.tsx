@@ -0,0 +1,23 @@
+import { notFound, redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getTopicById } from '@/lib/data';
+import { getFirstUnreadPostId } from '@/lib/unread';
+import { canInCategory } from '@/lib/permissions';
+
+interface FirstUnreadProps {
+    params: { topicId: string };
+}
+
+// "Jump to first unread": the permalink of the oldest post the reader hasn't seen,
+// or the topic itself for readers who are up to date (or signed out)
+export default async function FirstUnreadRedirect({ params }: FirstUnreadProps) {
+    const { topicId } = params;
+    const [user, topic] = await Promise.all([getCurrentUser(), getTopicById(topicId)]);
+
+    if (!topic || !topic.category || !canInCategory(user, topic.category, 'view')) {
+        notFound();
+    }
+
+    const postId = user ? await getFirstUnreadPostId(user, topic) : null;
+    redirect(postId ? `/posts/${postId}` : `/topics/${topic.id}`);
+}
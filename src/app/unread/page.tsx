@@ -0,0 +1,40 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/actions/auth';
+import { getUnreadTopicsPage } from '@/lib/data';
+import { getSiteSettings } from '@/lib/settings';
+import { parsePageParam } from '@/lib/pagination';
+import { Pagination } from '@/components/forums/Pagination';
+import { TopicList } from '@/components/forums/TopicList';
+
+export const metadata = {
+  title: 'Unread - ForumLite',
+};
+
+interface UnreadPageProps {
+  searchParams: { page?: string };
+}
+
+export default async function UnreadPage({ searchParams }: UnreadPageProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login');
+  }
+
+  const settings = await getSiteSettings();
+  const topicsPage = await getUnreadTopicsPage(user, parsePageParam(searchParams.page), settings.topicsPerPage);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Unread</h1>
+        <p className="text-muted-foreground">
+          Topics with posts you haven&apos;t seen yet, most recently active first.
+        </p>
+      </div>
+
+      <TopicList topics={topicsPage.items} showCategory emptyMessage="You're all caught up." />
+
+      <Pagination page={topicsPage.page} totalPages={topicsPage.totalPages} basePath="/unread" />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { notFound } from 'next/navigation';
+import { findUserByUsername } from '@/lib/data';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface UserProfilePageProps {
+    params: { username: string };
+}
+
+// Public profile, linked from @mentions. Usernames are matched case-insensitively.
+export default async function UserProfilePage({ params }: UserProfilePageProps) {
+    const { username } = params;
+    const user = await findUserByUsername(username);
+    if (!user) {
+        notFound();
+    }
+
+    return (
+        <Card className="max-w-2xl mx-auto shadow-sm">
+            <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                <Avatar className="h-16 w-16 border">
+                    <AvatarImage src={`https://avatar.vercel.sh/${user.username}.png?size=64`} alt={user.username} data-ai-hint="user avatar" />
+                    <AvatarFallback>{user.username.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="space-y-1">
+                    <CardTitle className="text-2xl">{user.username}</CardTitle>
+                    {user.role !== 'member' && <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>}
+                </div>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" /> Member since {format(new Date(user.createdAt), 'PP')}
+            </CardContent>
+        </Card>
+    );
+}
+
+export async function generateMetadata({ params }: UserProfilePageProps) {
+    const { username } = params;
+    const user = await findUserByUsername(username);
+    return {
+        title: user ? `${user.username} - ForumLite` : 'User Not Found',
+    };
+}
@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { verifyEmailToken } from '@/lib/auth/verification';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, MailCheck } from 'lucide-react';
+
+interface VerifyEmailPageProps {
+    params: { token: string };
+}
+
+export default async function VerifyEmailPage({ params }: VerifyEmailPageProps) {
+    const { token } = params;
+    const user = await verifyEmailToken(token);
+
+    return (
+        <div className="flex justify-center items-center py-12">
+            <Card className="w-full max-w-md mx-auto shadow-lg border border-border">
+                {user ? (
+                    <CardHeader>
+                        <CardTitle className="text-2xl flex items-center"><MailCheck className="mr-2 h-5 w-5 text-primary"/> Email Verified</CardTitle>
+                        <CardDescription>Thanks, {user.username}! Your email address is confirmed and you can now create topics and reply.</CardDescription>
+                    </CardHeader>
+                ) : (
+                    <CardHeader>
+                        <CardTitle className="text-2xl flex items-center"><AlertTriangle className="mr-2 h-5 w-5 text-destructive"/> Link Expired</CardTitle>
+                        <CardDescription>
+                            This verification link is invalid, has expired, or has already been used.
+                            Log in and use &quot;Resend email&quot; in the verification banner to get a new one.
+                        </CardDescription>
+                    </CardHeader>
+                )}
+                <CardFooter>
+                    <Button asChild className="w-full">
+                        <Link href="/">Go to the Forum</Link>
+                    </Button>
+                </CardFooter>
+            </Card>
+        </div>
+    );
+}
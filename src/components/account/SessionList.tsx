@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from 'react';
+import type { SessionInfo } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Smartphone, Globe, Clock, Loader2, LogOut } from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+
+interface SessionListProps {
+    sessions: SessionInfo[];
+    onRevoke: (sessionId: string) => Promise<void>;
+    allowRevokeCurrent?: boolean; // The current session is normally ended with Logout instead
+}
+
+const isMobile = (device: string) => /iOS|Android/.test(device);
+
+export function SessionList({ sessions, onRevoke, allowRevokeCurrent = false }: SessionListProps) {
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    if (sessions.length === 0) {
+        return <p className="text-muted-foreground text-center py-6 text-sm">No active sessions.</p>;
+    }
+
+    const handleRevoke = async (sessionId: string) => {
+        setRevokingId(sessionId);
+        try {
+            await onRevoke(sessionId);
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    return (
+        <ul className="divide-y border rounded-lg">
+            {sessions.map((session) => {
+                const DeviceIcon = isMobile(session.device) ? Smartphone : Monitor;
+                return (
+                    <li key={session.id} className="flex items-start gap-3 p-3 sm:p-4">
+                        <DeviceIcon className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center flex-wrap gap-2">
+                                <span className="font-medium text-sm">{session.device}</span>
+                                {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                                <span className="flex items-center gap-1">
+                                    <Globe className="h-3 w-3" /> {session.ip ?? 'Unknown IP'}
+                                </span>
+                                <span className="flex items-center gap-1" title={format(new Date(session.lastSeenAt), 'PPpp')}>
+                                    <Clock className="h-3 w-3" /> Active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                                </span>
+                                <span>Signed in {format(new Date(session.createdAt), 'PP')}</span>
+                            </div>
+                        </div>
+                        {(!session.isCurrent || allowRevokeCurrent) && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                                onClick={() => handleRevoke(session.id)}
+                                disabled={revokingId !== null}
+                            >
+                                {revokingId === session.id ? <Loader2 className="h-4 w-4 animate-spin sm:mr-1" /> : <LogOut className="h-4 w-4 sm:mr-1" />}
+                                <span className="hidden sm:inline">Revoke</span>
+                            </Button>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
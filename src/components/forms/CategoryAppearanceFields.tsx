@@ -0,0 +1,80 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { CATEGORY_COLORS, CATEGORY_ICONS, isCategoryColor } from '@/lib/category-icons';
+import { cn } from '@/lib/utils';
+import { Check, X } from 'lucide-react';
+
+interface CategoryAppearanceFieldsProps {
+    icon: string; // '' for the default icon
+    color: string; // '' for no accent color
+    onIconChange: (icon: string) => void;
+    onColorChange: (color: string) => void;
+    disabled?: boolean;
+}
+
+// Icon and accent color pickers, shared by the create form and the admin edit dialog
+export function CategoryAppearanceFields({ icon, color, onIconChange, onColorChange, disabled }: CategoryAppearanceFieldsProps) {
+    return (
+        <>
+            <div className="space-y-2">
+                <Label>Icon</Label>
+                <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Category icon">
+                    {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => {
+                        const selected = (icon || 'folder') === name;
+                        return (
+                            <Button
+                                key={name}
+                                type="button"
+                                variant={selected ? 'default' : 'outline'}
+                                size="icon"
+                                className="h-8 w-8"
+                                role="radio"
+                                aria-checked={selected}
+                                aria-label={name}
+                                title={name}
+                                onClick={() => onIconChange(name === 'folder' ? '' : name)}
+                                disabled={disabled}
+                            >
+                                <Icon className="h-4 w-4" />
+                            </Button>
+                        );
+                    })}
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="category-color">Accent Color</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                    {CATEGORY_COLORS.map(swatch => (
+                        <button
+                            key={swatch}
+                            type="button"
+                            className={cn("h-7 w-7 rounded-full border flex items-center justify-center", color === swatch && "ring-2 ring-offset-2 ring-ring")}
+                            style={{ backgroundColor: swatch }}
+                            aria-label={swatch}
+                            onClick={() => onColorChange(swatch)}
+                            disabled={disabled}
+                        >
+                            {color === swatch && <Check className="h-4 w-4 text-white" />}
+                        </button>
+                    ))}
+                    <Input
+                        id="category-color"
+                        type="color"
+                        className="h-8 w-12 p-1"
+                        value={isCategoryColor(color) ? color : '#000000'}
+                        onChange={e => onColorChange(e.target.value)}
+                        disabled={disabled}
+                    />
+                    {color && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => onColorChange('')} disabled={disabled}>
+                            <X className="mr-1 h-4 w-4" /> No color
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,14 +1,18 @@
 "use client";
 
-import { useActionState, useEffect } from 'react'; // Import useActionState from react
+import { useActionState, useEffect, useState } from 'react'; // Import useActionState from react
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { createCategory } from "@/lib/actions/forums";
+import { createCategoryAction } from "@/lib/actions/admin";
 import { useToast } from "@/hooks/use-toast";
 import { SubmitButton } from '@/components/SubmitButton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PlusCircle } from 'lucide-react';
+import { buildCategoryTree, flattenCategoryTree } from '@/lib/categories';
+import { CategoryAppearanceFields } from './CategoryAppearanceFields';
+import type { Category } from '@/lib/types';
 
 const initialState = {
     message: null,
@@ -16,9 +20,19 @@ const initialState = {
     success: false,
 };
 
-export function CategoryForm() {
-    const [state, formAction] = useActionState(createCategory, initialState);
+// Select items can't have an empty value, so top level gets a placeholder one
+const TOP_LEVEL = 'top-level';
+
+interface CategoryFormProps {
+    categories?: Category[]; // Possible parents; the parent picker is hidden without them
+}
+
+export function CategoryForm({ categories = [] }: CategoryFormProps) {
+    const [state, formAction] = useActionState(createCategoryAction, initialState);
     const { toast } = useToast();
+    const [parentId, setParentId] = useState('');
+    const [icon, setIcon] = useState('');
+    const [color, setColor] = useState('');
 
      useEffect(() => {
         if (state?.message && !state.errors && state.success === false) {
@@ -79,6 +93,26 @@ export function CategoryForm() {
                             </p>
                         )}
                     </div>
+                    <input type="hidden" name="icon" value={icon} />
+                    <input type="hidden" name="color" value={color} />
+                    <CategoryAppearanceFields icon={icon} color={color} onIconChange={setIcon} onColorChange={setColor} />
+                    {categories.length > 0 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="parentId">Parent Category</Label>
+                            <input type="hidden" name="parentId" value={parentId} />
+                            <Select value={parentId || TOP_LEVEL} onValueChange={value => setParentId(value === TOP_LEVEL ? '' : value)}>
+                                <SelectTrigger id="parentId"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                                    {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
+                                        <SelectItem key={category.id} value={category.id}>
+                                            <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
                 </CardContent>
                 <CardFooter>
                     {/* Use primary button style */}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useActionState } from 'react';
+import Link from 'next/link';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { requestPasswordReset } from "@/lib/actions/auth";
+import { SubmitButton } from '@/components/SubmitButton';
+import { KeyRound, MailCheck } from 'lucide-react';
+
+const initialState = {
+    message: '',
+    errors: {},
+    success: false,
+};
+
+export function ForgotPasswordForm() {
+    const [state, formAction] = useActionState(requestPasswordReset, initialState);
+
+    return (
+        <Card className="w-full max-w-md mx-auto shadow-lg border border-border">
+            <CardHeader className="pb-4">
+                <CardTitle className="text-2xl flex items-center"><KeyRound className="mr-2 h-5 w-5"/> Forgot Password</CardTitle>
+                <CardDescription>Enter your account email and we'll send you a link to reset your password.</CardDescription>
+            </CardHeader>
+            {state?.success ? (
+                <>
+                    <CardContent className="pt-0">
+                        <p className="text-sm flex items-start gap-2">
+                            <MailCheck className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" /> {state.message}
+                        </p>
+                    </CardContent>
+                    <CardFooter>
+                        <Button variant="link" className="p-0 h-auto font-medium" asChild>
+                            <Link href="/login">Back to login</Link>
+                        </Button>
+                    </CardFooter>
+                </>
+            ) : (
+                <form action={formAction}>
+                    <CardContent className="space-y-4 pt-0">
+                        <div className="space-y-2">
+                            <Label htmlFor="email">Email</Label>
+                            <Input
+                                id="email"
+                                name="email"
+                                type="email"
+                                placeholder="you@example.com"
+                                required
+                                aria-invalid={!!state?.errors?.email}
+                                aria-describedby="email-error"
+                            />
+                            {state?.errors?.email && (
+                                <p id="email-error" className="text-sm font-medium text-destructive pt-1">
+                                    {state.errors.email[0]}
+                                </p>
+                            )}
+                        </div>
+                        {state?.message && !state.success && !state.errors && (
+                            <p className="text-sm font-medium text-destructive pt-1">{state.message}</p>
+                        )}
+                    </CardContent>
+                    <CardFooter className="flex flex-col items-start gap-4">
+                        <SubmitButton className="w-full" pendingText="Sending...">Send Reset Link</SubmitButton>
+                        <p className="text-sm text-muted-foreground">
+                            Remembered it?{' '}
+                            <Button variant="link" className="p-0 h-auto font-medium" asChild>
+                                <Link href="/login">Back to login</Link>
+                            </Button>
+                        </p>
+                    </CardFooter>
+                </form>
+            )}
+        </Card>
+    );
+}
@@ -24,6 +24,11 @@ export function LoginForm() {
     const router = useRouter();
 
      useEffect(() => {
+        // Password was right but the account uses 2FA: continue on the code entry page
+        if (state && 'twoFactorRequired' in state && state.twoFactorRequired) {
+            router.push('/login/two-factor');
+            return;
+        }
         if (state?.message && !state.success) {
              toast({
                 variant: "destructive",
@@ -69,7 +74,12 @@ export function LoginForm() {
                         )}
                     </div>
                      <div className="space-y-2">
-                        <Label htmlFor="password">Password</Label>
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="password">Password</Label>
+                            <Link href="/forgot-password" className="text-sm text-muted-foreground hover:text-primary hover:underline">
+                                Forgot password?
+                            </Link>
+                        </div>
                         <Input
                             id="password"
                             name="password"
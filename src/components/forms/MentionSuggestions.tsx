@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { searchMentionCandidates } from '@/lib/actions/forums';
+import { cn } from '@/lib/utils';
+
+interface MentionSuggestionsProps {
+    textareaRef: RefObject<HTMLTextAreaElement>;
+    value: string;
+    onChange: (newContent: string) => void; // Same callback the textarea and toolbar use
+}
+
+// The "@partial" right before the caret, if the caret is in one
+const ACTIVE_MENTION = /(^|[^\w@])@([\w.-]{1,30})$/;
+
+interface ActiveMention {
+    query: string;
+    start: number; // Index of the first character after the @
+}
+
+/**
+ * Dropdown of matching usernames while typing "@name" in a textarea. Listens to the
+ * textarea directly, so forms only render this next to it (inside a relative container).
+ * Arrow keys move, Enter or Tab picks, Escape closes.
+ */
+export function MentionSuggestions({ textareaRef, value, onChange }: MentionSuggestionsProps) {
+    const [mention, setMention] = useState<ActiveMention | null>(null);
+    const [suggestions, setSuggestions] = useState<string[]>([]);
+    const [activeIndex, setActiveIndex] = useState(0);
+    // The textarea listeners are attached once, so they read current state through this
+    const latest = useRef({ value, onChange, mention, suggestions, activeIndex });
+    latest.current = { value, onChange, mention, suggestions, activeIndex };
+
+    const open = !!mention && suggestions.length > 0;
+
+    const choose = (username: string) => {
+        const textarea = textareaRef.current;
+        const { value: current, onChange: change, mention: active } = latest.current;
+        if (!textarea || !active) return;
+        const end = active.start + active.query.length;
+        change(`${current.slice(0, active.start)}${username} ${current.slice(end)}`);
+        setMention(null);
+        requestAnimationFrame(() => {
+            const caret = active.start + username.length + 1;
+            textarea.focus();
+            textarea.setSelectionRange(caret, caret);
+        });
+    };
+
+    // Follow the caret: typing, clicking and arrowing around all move it
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+
+        const detect = () => {
+            const caret = textarea.selectionStart;
+            const match = textarea.selectionEnd === caret ? ACTIVE_MENTION.exec(textarea.value.slice(0, caret)) : null;
+            setMention(match ? { query: match[2], start: caret - match[2].length } : null);
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const { mention: active, suggestions: options, activeIndex: index } = latest.current;
+            if (!active || options.length === 0) return;
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                setActiveIndex((index + step + options.length) % options.length);
+            } else if (event.key === 'Enter' || event.key === 'Tab') {
+                event.preventDefault();
+                choose(options[index]);
+            } else if (event.key === 'Escape') {
+                event.preventDefault();
+                setMention(null);
+            }
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (!['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'].includes(event.key)) detect();
+        };
+        const close = () => setMention(null);
+
+        textarea.addEventListener('input', detect);
+        textarea.addEventListener('click', detect);
+        textarea.addEventListener('keyup', handleKeyUp);
+        textarea.addEventListener('keydown', handleKeyDown);
+        textarea.addEventListener('blur', close);
+        return () => {
+            textarea.removeEventListener('input', detect);
+            textarea.removeEventListener('click', detect);
+            textarea.removeEventListener('keyup', handleKeyUp);
+            textarea.removeEventListener('keydown', handleKeyDown);
+            textarea.removeEventListener('blur', close);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [textareaRef]);
+
+    // Look up candidates once typing pauses; stale answers are dropped
+    const query = mention?.query;
+    useEffect(() => {
+        if (!query) {
+            setSuggestions([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const usernames = await searchMentionCandidates(query);
+            if (!cancelled) {
+                setSuggestions(usernames);
+                setActiveIndex(0);
+            }
+        }, 150);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query]);
+
+    if (!open) return null;
+
+    return (
+        <ul role="listbox" aria-label="Mention suggestions" className="absolute left-0 z-20 mt-1 w-56 rounded-md border bg-popover p-1 text-sm shadow-md">
+            {suggestions.map((username, index) => (
+                <li
+                    key={username}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    className={cn("cursor-pointer rounded-sm px-2 py-1", index === activeIndex && "bg-accent text-accent-foreground")}
+                    // Picking with the mouse must not blur the textarea first
+                    onMouseDown={event => { event.preventDefault(); choose(username); }}
+                    onMouseEnter={() => setActiveIndex(index)}
+                >
+                    @{username}
+                </li>
+            ))}
+        </ul>
+    );
+}
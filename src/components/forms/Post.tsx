@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from '@/lib/utils';
+import { can, ROLE_LABELS } from '@/lib/permissions';
 import Image from 'next/image';
 import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
@@ -51,8 +52,9 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
     const { toast } = useToast();
     const [isDeleting, setIsDeleting] = useState(false); // Add loading state for delete
 
-    const isAuthor = currentUser?.id === post.authorId;
-    const canEditDelete = isAuthor || currentUser?.isAdmin;
+    const canEdit = can(currentUser, 'post.edit', post);
+    const canDelete = can(currentUser, 'post.delete', post);
+    const authorRole = post.author?.role;
 
     const handleDelete = async () => {
         setIsDeleting(true);
@@ -90,9 +92,9 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                         <CardTitle className="text-sm font-semibold flex items-center gap-1">
                         <UserCircle className="h-4 w-4 text-muted-foreground"/> {post.author?.username || 'Unknown User'}
                         </CardTitle>
-                        {post.author?.isAdmin && (
-                             <span className="text-xs font-bold text-destructive flex items-center gap-1">
-                                 <ShieldCheck className="h-3.5 w-3.5"/> Admin
+                        {(authorRole === 'admin' || authorRole === 'moderator') && (
+                             <span className={cn("text-xs font-bold flex items-center gap-1", authorRole === 'admin' ? "text-destructive" : "text-primary")}>
+                                 <ShieldCheck className="h-3.5 w-3.5"/> {ROLE_LABELS[authorRole]}
                              </span>
                         )}
                     </div>
@@ -105,12 +107,15 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                         )}
                     </CardDescription>
                 </div>
-                  {canEditDelete && (
+                  {(canEdit || canDelete) && (
                     <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 ml-auto pl-2">
+                       {canEdit && (
                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(post)} title="Edit Post">
                             <Edit className="h-4 w-4" />
                             <span className="sr-only">Edit Post</span>
                         </Button>
+                       )}
+                       {canDelete && (
                          <AlertDialog>
                            <AlertDialogTrigger asChild>
                                 <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:bg-destructive/10 hover:text-destructive" disabled={isDeleting} title="Delete Post">
@@ -137,6 +142,7 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                                 </AlertDialogFooter>
                             </AlertDialogContent>
                         </AlertDialog>
+                       )}
                     </div>
                 )}
             </CardHeader>
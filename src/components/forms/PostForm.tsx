@@ -2,6 +2,7 @@
 "use client";
 
 import { useActionState, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,6 +15,8 @@ import { Button } from '@/components/ui/button';
 import Image from 'next/image';
 import { Input } from '../ui/input';
 import { RichTextToolbar } from './RichTextToolbar'; // Import the toolbar
+import { MentionSuggestions } from './MentionSuggestions';
+import { QUOTE_EVENT } from '@/lib/quotes';
 
 interface PostFormProps {
     topicId: string;
@@ -31,6 +34,7 @@ const initialState = {
 export function PostForm({ topicId, editingPost, onEditCancel }: PostFormProps) {
     const [state, formAction] = useActionState(submitPost, initialState);
     const { toast } = useToast();
+    const router = useRouter();
     const formRef = useRef<HTMLFormElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -65,8 +69,12 @@ export function PostForm({ topicId, editingPost, onEditCancel }: PostFormProps)
             if (isEditing && onEditCancel) {
                 onEditCancel();
             }
+            // A new reply is on the topic's last page, which may not be the one being viewed
+            if (!isEditing && state.post) {
+                router.push(`/posts/${state.post.id}`);
+            }
         }
-    }, [state, toast, isEditing, onEditCancel]);
+    }, [state, toast, isEditing, onEditCancel, router]);
 
     useEffect(() => {
         // Update textContent when editingPost changes (start editing or cancel)
@@ -82,6 +90,19 @@ export function PostForm({ topicId, editingPost, onEditCancel }: PostFormProps)
         }
     }, [editingPost, isEditing]);
 
+    // The Quote action on a post appends to the reply being written
+    useEffect(() => {
+        if (isEditing) return;
+        const handleQuote = (event: Event) => {
+            const quote = (event as CustomEvent<string>).detail;
+            setTextContent(current => (current.trim() ? `${current.trimEnd()}\n\n${quote}\n` : `${quote}\n`));
+            formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            setTimeout(() => textareaRef.current?.focus(), 50);
+        };
+        window.addEventListener(QUOTE_EVENT, handleQuote);
+        return () => window.removeEventListener(QUOTE_EVENT, handleQuote);
+    }, [isEditing]);
+
     const handleFileChange = (files: FileList | null) => {
         if (files && files[0]) {
             const file = files[0];
@@ -173,7 +194,7 @@ export function PostForm({ topicId, editingPost, onEditCancel }: PostFormProps)
                 {isEditing && <input type="hidden" name="postId" value={editingPost.id} />}
 
                 <CardContent className="space-y-4 pt-0">
-                    <div className="space-y-1">
+                    <div className="space-y-1 relative">
                         <Label htmlFor="content" className="sr-only">{isEditing ? 'Edit Content' : 'Reply Content'}</Label>
                         {/* Rich Text Toolbar */}
                          <RichTextToolbar
@@ -195,6 +216,8 @@ export function PostForm({ topicId, editingPost, onEditCancel }: PostFormProps)
                             aria-describedby="content-error"
                             className="rounded-t-none focus:z-10 focus:ring-offset-0 focus:ring-1" // Adjust styling for toolbar
                         />
+                        {/* Positioned right below the textarea */}
+                        <MentionSuggestions textareaRef={textareaRef} value={textContent} onChange={handleTextChange} />
                         {state?.errors?.content && (
                             <p id="content-error" className="text-sm font-medium text-destructive pt-1">
                                 {state.errors.content[0]}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useActionState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { resetPassword } from "@/lib/actions/auth";
+import { useToast } from "@/hooks/use-toast";
+import { SubmitButton } from '@/components/SubmitButton';
+import { KeyRound } from 'lucide-react';
+
+const initialState = {
+    message: '',
+    errors: {},
+    success: false,
+};
+
+interface ResetPasswordFormProps {
+    token: string;
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+    const [state, formAction] = useActionState(resetPassword, initialState);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    useEffect(() => {
+        if (state?.message && !state.success) {
+            toast({
+                variant: "destructive",
+                title: "Reset Failed",
+                description: state.message,
+            });
+        }
+        if (state?.message && state.success) {
+            toast({
+                title: "Password Reset",
+                description: state.message,
+            });
+            router.push('/login');
+        }
+    }, [state, toast, router]);
+
+    return (
+        <Card className="w-full max-w-md mx-auto shadow-lg border border-border">
+            <CardHeader className="pb-4">
+                <CardTitle className="text-2xl flex items-center"><KeyRound className="mr-2 h-5 w-5"/> Choose a New Password</CardTitle>
+                <CardDescription>You will be signed out of all devices once your password has been changed.</CardDescription>
+            </CardHeader>
+            <form action={formAction}>
+                <input type="hidden" name="token" value={token} />
+                <CardContent className="space-y-4 pt-0">
+                    <div className="space-y-2">
+                        <Label htmlFor="password">New Password</Label>
+                        <Input
+                            id="password"
+                            name="password"
+                            type="password"
+                            required
+                            minLength={6}
+                            aria-invalid={!!state?.errors?.password}
+                            aria-describedby="password-error"
+                        />
+                        {state?.errors?.password && (
+                            <p id="password-error" className="text-sm font-medium text-destructive pt-1">
+                                {state.errors.password[0]}
+                            </p>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                        <Input
+                            id="confirmPassword"
+                            name="confirmPassword"
+                            type="password"
+                            required
+                            minLength={6}
+                            aria-invalid={!!state?.errors?.confirmPassword}
+                            aria-describedby="confirmPassword-error"
+                        />
+                        {state?.errors?.confirmPassword && (
+                            <p id="confirmPassword-error" className="text-sm font-medium text-destructive pt-1">
+                                {state.errors.confirmPassword[0]}
+                            </p>
+                        )}
+                    </div>
+                </CardContent>
+                <CardFooter>
+                    <SubmitButton className="w-full" pendingText="Saving...">Reset Password</SubmitButton>
+                </CardFooter>
+            </form>
+        </Card>
+    );
+}
@@ -13,6 +13,7 @@ import { PlusCircle, UploadCloud, XCircle } from 'lucide-react';
 import Image from 'next/image';
 import { Button } from '../ui/button';
 import { RichTextToolbar } from './RichTextToolbar'; // Import the toolbar
+import { MentionSuggestions } from './MentionSuggestions';
 
 interface TopicFormProps {
     categoryId: string;
@@ -157,7 +158,7 @@ export function TopicForm({ categoryId }: TopicFormProps) {
                             </p>
                         )}
                     </div>
-                    <div className="space-y-1"> {/* Reduced bottom margin */}
+                    <div className="space-y-1 relative"> {/* Reduced bottom margin */}
                         <Label htmlFor="firstPostContent">Your First Post</Label>
                          {/* Rich Text Toolbar */}
                          <RichTextToolbar
@@ -179,6 +180,8 @@ export function TopicForm({ categoryId }: TopicFormProps) {
                             aria-describedby="firstPostContent-error"
                              className="rounded-t-none focus:z-10 focus:ring-offset-0 focus:ring-1" // Adjust styling for toolbar
                         />
+                        {/* Positioned right below the textarea */}
+                        <MentionSuggestions textareaRef={textareaRef} value={firstPostTextContent} onChange={handleTextChange} />
                         {state?.errors?.firstPostContent && (
                             <p id="firstPostContent-error" className="text-sm font-medium text-destructive pt-1">
                                 {state.errors.firstPostContent[0]}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useActionState, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { verifyTwoFactorLogin } from "@/lib/actions/auth";
+import { useToast } from "@/hooks/use-toast";
+import { SubmitButton } from '@/components/SubmitButton';
+import { ShieldCheck } from 'lucide-react';
+
+const initialState = {
+    message: '',
+    errors: {},
+    success: false,
+};
+
+export function TwoFactorLoginForm() {
+    const [state, formAction] = useActionState(verifyTwoFactorLogin, initialState);
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const { toast } = useToast();
+    const router = useRouter();
+
+    useEffect(() => {
+        if (state?.message && !state.success) {
+            toast({
+                variant: "destructive",
+                title: "Verification Failed",
+                description: state.message,
+            });
+            if ('expired' in state && state.expired) {
+                router.push('/login');
+            }
+        }
+        if (state?.message && state.success) {
+            toast({
+                title: "Success",
+                description: state.message,
+            });
+            router.push('/');
+        }
+    }, [state, toast, router]);
+
+    return (
+        <Card className="w-full max-w-md mx-auto shadow-lg border border-border">
+            <CardHeader className="pb-4">
+                <CardTitle className="text-2xl flex items-center"><ShieldCheck className="mr-2 h-5 w-5"/> Two-Factor Authentication</CardTitle>
+                <CardDescription>
+                    {useRecoveryCode
+                        ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                        : 'Enter the 6-digit code from your authenticator app.'}
+                </CardDescription>
+            </CardHeader>
+            <form action={formAction}>
+                <CardContent className="space-y-4 pt-0">
+                    <div className="space-y-2">
+                        <Label htmlFor="code">{useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}</Label>
+                        <Input
+                            id="code"
+                            name="code"
+                            key={useRecoveryCode ? 'recovery' : 'totp'}
+                            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                            autoComplete="one-time-code"
+                            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                            required
+                            autoFocus
+                            aria-invalid={!!state?.errors && 'code' in state.errors}
+                            aria-describedby="code-error"
+                        />
+                        {state?.errors && 'code' in state.errors && state.errors.code && (
+                            <p id="code-error" className="text-sm font-medium text-destructive pt-1">
+                                {state.errors.code[0]}
+                            </p>
+                        )}
+                    </div>
+                </CardContent>
+                <CardFooter className="flex flex-col items-start gap-4">
+                    <SubmitButton className="w-full" pendingText="Verifying...">Verify</SubmitButton>
+                    <div className="flex w-full justify-between text-sm">
+                        <Button type="button" variant="link" className="p-0 h-auto font-medium" onClick={() => setUseRecoveryCode(!useRecoveryCode)}>
+                            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                        </Button>
+                        <Button variant="link" className="p-0 h-auto text-muted-foreground" asChild>
+                            <Link href="/login">Cancel</Link>
+                        </Button>
+                    </div>
+                </CardFooter>
+            </form>
+        </Card>
+    );
+}
@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import { ChevronRight, Home } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface BreadcrumbItem {
+    label: string;
+    href?: string; // The current page has none
+}
+
+interface BreadcrumbsProps {
+    items: BreadcrumbItem[]; // After the home link, e.g. parent categories then the current page
+    className?: string;
+}
+
+export function Breadcrumbs({ items, className }: BreadcrumbsProps) {
+    return (
+        <nav aria-label="Breadcrumb" className={cn("text-sm text-muted-foreground", className)}>
+            <ol className="flex flex-wrap items-center gap-1">
+                <li>
+                    <Link href="/" className="flex items-center gap-1 hover:text-primary">
+                        <Home className="h-3.5 w-3.5" /> Forum
+                    </Link>
+                </li>
+                {items.map((item, index) => (
+                    <li key={`${index}-${item.label}`} className="flex items-center gap-1 min-w-0">
+                        <ChevronRight className="h-3.5 w-3.5 flex-shrink-0" />
+                        {item.href ? (
+                            <Link href={item.href} className="hover:text-primary truncate">{item.label}</Link>
+                        ) : (
+                            <span aria-current="page" className="text-foreground truncate">{item.label}</span>
+                        )}
+                    </li>
+                ))}
+            </ol>
+        </nav>
+    );
+}
@@ -0,0 +1,22 @@
+import type { Category } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { CategoryIcon } from './CategoryIcon';
+import { cn } from '@/lib/utils';
+
+interface CategoryBadgeProps {
+    category: Pick<Category, 'name' | 'icon' | 'color'>;
+    className?: string;
+}
+
+// Compact category marker for topics, tinted with the category's accent color
+export function CategoryBadge({ category, className }: CategoryBadgeProps) {
+    return (
+        <Badge
+            variant="outline"
+            className={cn("gap-1 text-xs font-normal", className)}
+            style={category.color ? { borderColor: category.color, backgroundColor: `${category.color}1a` } : undefined}
+        >
+            <CategoryIcon category={category} className="h-3 w-3" /> {category.name}
+        </Badge>
+    );
+}
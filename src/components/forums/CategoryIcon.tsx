@@ -0,0 +1,21 @@
+import type { Category } from '@/lib/types';
+import { CATEGORY_ICONS } from '@/lib/category-icons';
+import { Folder } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CategoryIconProps {
+    category: Pick<Category, 'icon' | 'color'>;
+    className?: string;
+}
+
+// The category's chosen icon in its accent color; a primary-colored folder by default
+export function CategoryIcon({ category, className }: CategoryIconProps) {
+    const Icon = (category.icon && CATEGORY_ICONS[category.icon]) || Folder;
+    return (
+        <Icon
+            className={cn("flex-shrink-0", !category.color && "text-primary", className)}
+            style={category.color ? { color: category.color } : undefined}
+            aria-hidden
+        />
+    );
+}
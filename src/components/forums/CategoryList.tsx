@@ -1,13 +1,21 @@
 import Link from 'next/link';
-import type { Category } from '@/lib/types';
+import type { CategoryNode } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { MessageSquare, Folder } from 'lucide-react'; // Using Folder icon for category
+import { MessageSquare, MessagesSquare, FolderTree } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { CategoryIcon } from './CategoryIcon';
 
 interface CategoryListProps {
-    categories: Category[];
+    categories: CategoryNode[]; // Counts shown are totals including subcategories
+    unreadCategoryIds?: string[]; // Categories with unread topics (see src/lib/unread.ts); a parent is new if any subcategory is
 }
 
-export function CategoryList({ categories }: CategoryListProps) {
+const hasUnread = (category: CategoryNode, unread: Set<string>): boolean =>
+    unread.has(category.id) || category.children.some(child => hasUnread(child, unread));
+
+export function CategoryList({ categories, unreadCategoryIds = [] }: CategoryListProps) {
+    const unread = new Set(unreadCategoryIds);
+
     if (!categories || categories.length === 0) {
         return <p className="text-muted-foreground mt-4 text-center py-10">No categories found.</p>;
     }
@@ -17,12 +25,17 @@ export function CategoryList({ categories }: CategoryListProps) {
             {categories.map((category) => (
                 <Link href={`/categories/${category.id}`} key={category.id} className="block group transition-all duration-200 ease-in-out transform hover:-translate-y-0.5">
                      {/* Adjusted card styling */}
-                     <Card className="hover:shadow-lg transition-shadow duration-200 border border-border hover:border-primary/60 bg-card hover:bg-muted/50">
+                     <Card
+                        className="hover:shadow-lg transition-shadow duration-200 border border-border hover:border-primary/60 bg-card hover:bg-muted/50"
+                        style={category.color ? { borderLeft: `4px solid ${category.color}` } : undefined}
+                     >
                         <CardHeader className="pb-3 flex flex-row items-start gap-4 space-y-0"> {/* Use flex for icon and text */}
-                            <Folder className="h-6 w-6 text-primary flex-shrink-0 mt-1" />
+                            <CategoryIcon category={category} className="h-6 w-6 mt-1" />
                             <div className="flex-1">
-                                <CardTitle className="text-lg font-semibold group-hover:text-primary leading-tight">
+                                <CardTitle className="text-lg font-semibold group-hover:text-primary leading-tight flex items-center gap-2">
                                     {category.name}
+                                    {hasUnread(category, unread) && <Badge className="font-normal">New</Badge>}
+                                    {category.archivedAt && <Badge variant="outline" className="font-normal">Archived</Badge>}
                                 </CardTitle>
                                 {category.description && (
                                     <CardDescription className="text-sm pt-1 line-clamp-2"> {/* Limit description lines */}
@@ -35,14 +48,20 @@ export function CategoryList({ categories }: CategoryListProps) {
                             <div className="text-xs text-muted-foreground flex items-center space-x-4">
                                 <span className="flex items-center gap-1">
                                     <MessageSquare className="h-3.5 w-3.5" />
-                                     {category.topicCount ?? 0} Topics
+                                     {category.totalTopicCount} Topics
                                 </span>
-                                {/* Optionally add post count if available and useful */}
-                                {/* <span className="flex items-center gap-1">
+                                <span className="flex items-center gap-1">
                                      <MessagesSquare className="h-3.5 w-3.5" />
-                                     {category.postCount ?? 0} Posts
-                                </span> */}
+                                     {category.totalPostCount} Posts
+                                </span>
                             </div>
+                            {/* Direct subcategories; the card itself is already a link, so these are plain labels */}
+                            {category.children.length > 0 && (
+                                <div className="text-xs text-muted-foreground flex items-center flex-wrap gap-x-3 gap-y-1 mt-2">
+                                    <FolderTree className="h-3.5 w-3.5" />
+                                    {category.children.map(child => <span key={child.id} className="font-medium text-foreground/80">{child.name}</span>)}
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
                 </Link>
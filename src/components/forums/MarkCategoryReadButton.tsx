@@ -0,0 +1,36 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CheckCheck, Loader2 } from 'lucide-react';
+import { markCategoryReadAction } from '@/lib/actions/forums';
+import { useToast } from '@/hooks/use-toast';
+
+interface MarkCategoryReadButtonProps {
+  categoryId: string;
+}
+
+export function MarkCategoryReadButton({ categoryId }: MarkCategoryReadButtonProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClick = async () => {
+    setIsSaving(true);
+    try {
+      const result = await markCategoryReadAction(categoryId);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleClick} disabled={isSaving}>
+      {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />} Mark Read
+    </Button>
+  );
+}
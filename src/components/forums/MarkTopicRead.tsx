@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from 'react';
+import { markTopicReadAction } from '@/lib/actions/forums';
+
+interface MarkTopicReadProps {
+  postId: string; // The last post shown on the page
+}
+
+// Marks the topic read up to `postId` once the page is actually shown in a browser. Renders nothing.
+export function MarkTopicRead({ postId }: MarkTopicReadProps) {
+  useEffect(() => {
+    // Best effort: the marker catches up on the next visit, so a failed call is not worth an error
+    markTopicReadAction(postId).catch(() => {});
+  }, [postId]);
+
+  return null;
+}
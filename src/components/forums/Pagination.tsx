@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { pageHref } from '@/lib/pagination';
+
+interface PaginationProps {
+    page: number;
+    totalPages: number;
+    basePath: string; // e.g. `/topics/${topicId}`; `page=` is appended to its query string
+    className?: string;
+}
+
+// First, last and the pages around the current one, with gaps marked by null
+const visiblePages = (page: number, totalPages: number): (number | null)[] => {
+    const pages: (number | null)[] = [];
+    for (let p = 1; p <= totalPages; p++) {
+        if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+            pages.push(p);
+        } else if (pages[pages.length - 1] !== null) {
+            pages.push(null);
+        }
+    }
+    return pages;
+};
+
+export function Pagination({ page, totalPages, basePath, className }: PaginationProps) {
+    if (totalPages <= 1) return null;
+
+    return (
+        <nav aria-label="Pagination" className={cn("flex items-center justify-center gap-1 flex-wrap", className)}>
+            {page > 1 ? (
+                <Button variant="outline" size="sm" asChild>
+                    <Link href={pageHref(basePath, page - 1)} rel="prev"><ChevronLeft className="h-4 w-4 sm:mr-1" /><span className="hidden sm:inline">Previous</span></Link>
+                </Button>
+            ) : (
+                <Button variant="outline" size="sm" disabled><ChevronLeft className="h-4 w-4 sm:mr-1" /><span className="hidden sm:inline">Previous</span></Button>
+            )}
+            {visiblePages(page, totalPages).map((p, index) => p === null ? (
+                <span key={`gap-${index}`} className="px-2 text-muted-foreground">…</span>
+            ) : (
+                <Button key={p} variant={p === page ? 'default' : 'ghost'} size="sm" className="min-w-9" asChild>
+                    <Link href={pageHref(basePath, p)} aria-current={p === page ? 'page' : undefined}>{p}</Link>
+                </Button>
+            ))}
+            {page < totalPages ? (
+                <Button variant="outline" size="sm" asChild>
+                    <Link href={pageHref(basePath, page + 1)} rel="next"><span className="hidden sm:inline">Next</span><ChevronRight className="h-4 w-4 sm:ml-1" /></Link>
+                </Button>
+            ) : (
+                <Button variant="outline" size="sm" disabled><span className="hidden sm:inline">Next</span><ChevronRight className="h-4 w-4 sm:ml-1" /></Button>
+            )}
+        </nav>
+    );
+}
@@ -1,11 +1,12 @@
 
 "use client"; // Need client for state, hooks, event handlers
 
+import type { ElementContent } from 'hast';
 import type { Post as PostType, User } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from '@/components/ui/button';
-import { Edit, Trash2, Clock, UserCircle, ShieldCheck, Link as LinkIcon } from 'lucide-react';
+import { Edit, Trash2, Clock, UserCircle, ShieldCheck, Link as LinkIcon, TextQuote, Quote, CornerDownRight } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { deletePost } from '@/lib/actions/forums';
 import {
@@ -21,20 +22,37 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from '@/lib/utils';
+import { can, ROLE_LABELS } from '@/lib/permissions';
 import Image from 'next/image';
-import React, { useState } from 'react';
+import Link from 'next/link';
+import React, { useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm'; // For GitHub Flavored Markdown (tables, strikethrough, etc.)
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'; // Example syntax highlighter
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'; // Example style
+import { QUOTE_EVENT, formatQuote, getQuotedPostId } from '@/lib/quotes';
+import { remarkMentions } from '@/lib/mentions';
+import { PostReactions } from '@/components/forums/PostReactions';
 
 interface PostProps {
     post: PostType;
     currentUser: User | null;
     onEdit: (post: PostType) => void;
     isFirstPost?: boolean;
+    postNumber?: number; // 1-based position in the topic, shown as #n
+    canReply?: boolean; // Whether the reply form is on the page, for the Quote action
+    allowedReactions?: string[]; // The site's reaction set
+    canReact?: boolean;
+    isArchived?: boolean; // Archived categories are read-only
 }
 
+// Plain text of a hast element, for recognising quote attribution links
+const textOf = (node: ElementContent): string =>
+    node.type === 'text' ? node.value : node.type === 'element' ? node.children.map(textOf).join('') : '';
+
+// Paths on this site go through next/link. Protocol-relative "//host" (and "/\host", which browsers read the same way) leave the site.
+const isSitePath = (href: string | undefined): href is string => !!href && /^\/(?![/\\])/.test(href);
+
 // Helper function to check if URL is likely an image
 const isImageUrl = (url: string) => /\.(jpeg|jpg|gif|png|webp)(\?.*)?$/i.test(url);
 
@@ -45,12 +63,36 @@ const getYouTubeVideoId = (url: string): string | null => {
     return (match && match[2].length === 11) ? match[2] : null;
 };
 
-export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostProps) {
+export function Post({ post, currentUser, onEdit, isFirstPost = false, postNumber, canReply = false, allowedReactions = [], canReact = false, isArchived = false }: PostProps) {
     const { toast } = useToast();
     const [isDeleting, setIsDeleting] = useState(false); // Add loading state for delete
 
-    const isAuthor = currentUser?.id === post.authorId;
-    const canEditDelete = isAuthor || currentUser?.isAdmin;
+    const canEdit = !isArchived && can(currentUser, 'post.edit', post);
+    const canDelete = !isArchived && can(currentUser, 'post.delete', post);
+    const authorRole = post.author?.role;
+
+    const permalink = `/posts/${post.id}`;
+    const contentRef = useRef<HTMLElement>(null);
+
+    // Quotes the text selected inside this post, or the whole post when nothing in it is selected
+    const handleQuote = () => {
+        const selection = window.getSelection();
+        const selected = selection && !selection.isCollapsed && contentRef.current?.contains(selection.anchorNode)
+            ? selection.toString()
+            : '';
+        const text = selected.trim() ? selected : post.content;
+        const quote = formatQuote({ postId: post.id, authorName: post.author?.username ?? 'Unknown User', text });
+        window.dispatchEvent(new CustomEvent(QUOTE_EVENT, { detail: quote }));
+    };
+
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(new URL(permalink, window.location.origin).toString());
+            toast({ title: "Link copied", description: "A link to this post is on your clipboard." });
+        } catch {
+            toast({ variant: "destructive", title: "Error", description: "Could not copy the link." });
+        }
+    };
 
     const handleDelete = async () => {
         setIsDeleting(true);
@@ -75,7 +117,7 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
 
     return (
          <Card id={`post-${post.id}`} className={cn(
-             "mb-4 border border-border shadow-sm",
+             "mb-4 border border-border shadow-sm scroll-mt-20 target:ring-2 target:ring-primary/60", // Clear the sticky header; highlight when linked to
              isFirstPost && "border-primary/30 bg-primary/5"
          )}>
             <CardHeader className="flex flex-row items-start space-x-4 p-3 sm:p-4 bg-card border-b">
@@ -88,9 +130,9 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                         <CardTitle className="text-sm font-semibold flex items-center gap-1">
                         <UserCircle className="h-4 w-4 text-muted-foreground"/> {post.author?.username || 'Unknown User'}
                         </CardTitle>
-                        {post.author?.isAdmin && (
-                             <span className="text-xs font-bold text-destructive flex items-center gap-1">
-                                 <ShieldCheck className="h-3.5 w-3.5"/> Admin
+                        {(authorRole === 'admin' || authorRole === 'moderator') && (
+                             <span className={cn("text-xs font-bold flex items-center gap-1", authorRole === 'admin' ? "text-destructive" : "text-primary")}>
+                                 <ShieldCheck className="h-3.5 w-3.5"/> {ROLE_LABELS[authorRole]}
                              </span>
                         )}
                     </div>
@@ -103,12 +145,29 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                         )}
                     </CardDescription>
                 </div>
-                  {canEditDelete && (
-                    <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 ml-auto pl-2">
+                    <div className="flex flex-col sm:flex-row items-end sm:items-center space-y-1 sm:space-y-0 sm:space-x-1 ml-auto pl-2">
+                       {postNumber !== undefined && (
+                           <Link href={permalink} className="text-xs font-medium text-muted-foreground hover:text-primary px-1" title="Link to this post">
+                               #{postNumber}
+                           </Link>
+                       )}
+                       <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleCopyLink} title="Copy Link">
+                            <LinkIcon className="h-4 w-4" />
+                            <span className="sr-only">Copy link to post</span>
+                       </Button>
+                       {canReply && (
+                       <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleQuote} title="Quote (selected text or the whole post)">
+                            <TextQuote className="h-4 w-4" />
+                            <span className="sr-only">Quote Post</span>
+                       </Button>
+                       )}
+                       {canEdit && (
                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEdit(post)} title="Edit Post">
                             <Edit className="h-4 w-4" />
                             <span className="sr-only">Edit Post</span>
                         </Button>
+                       )}
+                       {canDelete && (
                          <AlertDialog>
                            <AlertDialogTrigger asChild>
                                 <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:bg-destructive/10 hover:text-destructive" disabled={isDeleting} title="Delete Post">
@@ -135,8 +194,8 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                                 </AlertDialogFooter>
                             </AlertDialogContent>
                         </AlertDialog>
+                       )}
                     </div>
-                )}
             </CardHeader>
              <CardContent className="p-3 sm:p-4 text-sm">
                  {post.imageUrl && (
@@ -151,12 +210,14 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                     </div>
                 )}
                  {/* Markdown Renderer */}
-                <article className="prose prose-sm dark:prose-invert max-w-none break-words">
+                <article ref={contentRef} className="prose prose-sm dark:prose-invert max-w-none break-words">
                     <ReactMarkdown
-                        remarkPlugins={[remarkGfm]} // Enable GitHub Flavored Markdown (tables, strikethrough, etc.)
+                        remarkPlugins={[remarkGfm, remarkMentions]} // GitHub Flavored Markdown (tables, strikethrough, etc.), then @mentions as profile links
                         components={{
                              // Basic styling for links
-                            a: ({node, ...props}) => (
+                            a: ({node, ...props}) => isSitePath(props.href) ? (
+                                <Link href={props.href} className={cn("text-primary hover:underline", props.className === 'mention' && "font-medium")}>{props.children}</Link>
+                            ) : (
                                 <a {...props} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline inline-flex items-center gap-1">
                                     {props.children}
                                     {/* Optional: Add external link icon */}
@@ -184,6 +245,16 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                             ),
                             // Override p tags to check for lone YouTube links
                             p: ({ node, children, ...props }) => {
+                                // The first line of a quote ("alice wrote:", linking to the source post) becomes its attribution
+                                const onlyChild = node?.children.length === 1 ? node.children[0] : undefined;
+                                if (onlyChild?.type === 'element' && onlyChild.tagName === 'a'
+                                    && getQuotedPostId(onlyChild.properties?.href as string | undefined, textOf(onlyChild))) {
+                                    return (
+                                        <p className="not-italic text-xs font-semibold text-foreground flex items-center gap-1 mb-1">
+                                            <Quote className="h-3 w-3" /> {children}
+                                        </p>
+                                    );
+                                }
                                 // Check if the paragraph contains only a single child which is a link
                                 if (node.children.length === 1 && node.children[0].type === 'element' && node.children[0].tagName === 'a') {
                                     const linkNode = node.children[0];
@@ -244,6 +315,21 @@ export function Post({ post, currentUser, onEdit, isFirstPost = false }: PostPro
                     </ReactMarkdown>
                 </article>
             </CardContent>
+            {((post.reactions?.length ?? 0) > 0 || canReact) && (
+                <CardFooter className="px-3 sm:px-4 pb-3 pt-0">
+                    <PostReactions postId={post.id} reactions={post.reactions ?? []} allowedReactions={allowedReactions} canReact={canReact} />
+                </CardFooter>
+            )}
+            {post.replies && post.replies.length > 0 && (
+                <CardFooter className="px-3 sm:px-4 pb-3 pt-0 text-xs text-muted-foreground flex flex-wrap items-center gap-x-2 gap-y-1">
+                    <span className="flex items-center gap-1"><CornerDownRight className="h-3.5 w-3.5" /> Replies:</span>
+                    {post.replies.map(reply => (
+                        <Link key={reply.id} href={`/posts/${reply.id}`} className="text-primary hover:underline" title={formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}>
+                            {reply.author?.username ?? 'Unknown User'}
+                        </Link>
+                    ))}
+                </CardFooter>
+            )}
         </Card>
     );
 }
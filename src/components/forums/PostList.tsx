@@ -9,9 +9,14 @@ interface PostListProps {
     initialPosts: PostType[];
     topicId: string;
     currentUser: User | null;
+    offset?: number; // Posts on earlier pages
+    canReply?: boolean; // The reply form is shown below the list
+    allowedReactions?: string[]; // The site's reaction set
+    canReact?: boolean;
+    isArchived?: boolean; // The topic's category is archived, so posts can't be edited or deleted
 }
 
-export function PostList({ initialPosts, topicId, currentUser }: PostListProps) {
+export function PostList({ initialPosts, topicId, currentUser, offset = 0, canReply = false, allowedReactions = [], canReact = false, isArchived = false }: PostListProps) {
     const [editingPost, setEditingPost] = useState<PostType | null>(null);
 
     // This component doesn't fetch, it receives initial posts.
@@ -51,7 +56,12 @@ export function PostList({ initialPosts, topicId, currentUser }: PostListProps)
                         post={post}
                         currentUser={currentUser}
                         onEdit={handleEdit} // Pass edit handler
-                        isFirstPost={index === 0} // Check if it's the first post
+                        isFirstPost={offset + index === 0} // Only the opening post of the topic
+                        postNumber={offset + index + 1}
+                        canReply={canReply}
+                        allowedReactions={allowedReactions}
+                        canReact={canReact}
+                        isArchived={isArchived}
                     />
                 )
             ))}
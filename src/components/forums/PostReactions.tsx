@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from 'react';
+import type { ReactionSummary } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { SmilePlus } from 'lucide-react';
+import EmojiPicker, { type EmojiClickData, Theme } from 'emoji-picker-react';
+import { useTheme } from 'next-themes';
+import { toggleReactionAction } from '@/lib/actions/forums';
+import { toUnified } from '@/lib/reactions';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const MAX_LISTED_USERNAMES = 10;
+
+interface PostReactionsProps {
+  postId: string;
+  reactions: ReactionSummary[];
+  allowedReactions: string[]; // The site's reaction set, offered in the picker
+  canReact: boolean;
+}
+
+// "alice, bob and 3 others"
+const listUsernames = (usernames: string[]) => {
+  if (usernames.length <= MAX_LISTED_USERNAMES) return usernames.join(', ');
+  const others = usernames.length - MAX_LISTED_USERNAMES;
+  return `${usernames.slice(0, MAX_LISTED_USERNAMES).join(', ')} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+// Reaction counts under a post. Clicking a reaction toggles your own; the page refreshes with the new counts.
+export function PostReactions({ postId, reactions, allowedReactions, canReact }: PostReactionsProps) {
+  const { toast } = useToast();
+  const { resolvedTheme } = useTheme();
+  const [isPending, setIsPending] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  if (reactions.length === 0 && !canReact) return null;
+
+  const toggle = async (emoji: string) => {
+    setIsPickerOpen(false);
+    setIsPending(true);
+    try {
+      const result = await toggleReactionAction(postId, emoji);
+      if (!result.success) {
+        toast({ variant: "destructive", title: "Error", description: result.message });
+      }
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {reactions.map(reaction => {
+          // Your own reaction can always be taken back, even if the emoji has left the site's set
+          const canToggle = canReact && (reaction.reacted || allowedReactions.includes(reaction.emoji));
+          return (
+            <Tooltip key={reaction.emoji}>
+              {/* Not `disabled`, which would also stop the tooltip from showing who reacted */}
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn(
+                    "h-7 rounded-full px-2 gap-1 text-sm",
+                    reaction.reacted && "border-primary bg-primary/10 text-primary hover:bg-primary/20",
+                    !canToggle && "cursor-default hover:bg-background",
+                  )}
+                  onClick={() => canToggle && !isPending && toggle(reaction.emoji)}
+                  aria-disabled={!canToggle || isPending}
+                  aria-pressed={reaction.reacted}
+                  aria-label={`${reaction.emoji} ${reaction.count}`}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span className="text-xs tabular-nums">{reaction.count}</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-xs">
+                {listUsernames(reaction.usernames)} reacted with {reaction.emoji}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+        {canReact && allowedReactions.length > 0 && (
+          <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full text-muted-foreground" title="Add reaction" disabled={isPending}>
+                <SmilePlus className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0 border-0" side="top" align="start">
+              <EmojiPicker
+                reactionsDefaultOpen
+                reactions={allowedReactions.map(toUnified)}
+                allowExpandReactions={false}
+                onReactionClick={(emojiData: EmojiClickData) => toggle(allowedReactions.find(emoji => toUnified(emoji) === emojiData.unified) ?? emojiData.emoji)}
+                theme={resolvedTheme === 'dark' ? Theme.DARK : Theme.LIGHT}
+                skinTonesDisabled
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -2,22 +2,28 @@ import Link from 'next/link';
 import type { Topic } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { MessageSquare, Clock, UserCircle } from 'lucide-react'; // Added UserCircle
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownToLine, MessageSquare, Clock, UserCircle } from 'lucide-react'; // Added UserCircle
 import { formatDistanceToNow } from 'date-fns';
+import { TopicStatusBadges } from './TopicStatusBadges';
+import { CategoryBadge } from './CategoryBadge';
 
 interface TopicListProps {
-    topics: Topic[];
+    topics: Topic[]; // Already in display order (pinned topics first); unreadCount adds "new" indicators
+    showCategory?: boolean; // For lists spanning categories, e.g. announcements
+    emptyMessage?: string;
 }
 
-export function TopicList({ topics }: TopicListProps) {
+export function TopicList({ topics, showCategory = false, emptyMessage = 'No topics found in this category yet.' }: TopicListProps) {
     if (!topics || topics.length === 0) {
-        return <p className="text-muted-foreground mt-6 text-center py-10">No topics found in this category yet.</p>;
+        return <p className="text-muted-foreground mt-6 text-center py-10">{emptyMessage}</p>;
     }
 
     return (
         <div className="space-y-3">
             {topics.map((topic) => (
-                <Link href={`/topics/${topic.id}`} key={topic.id} className="block group transition-all duration-200 ease-in-out transform hover:-translate-y-0.5">
+                // The title link covers the whole card, so the "first unread" link can sit on top of it without nesting links
+                <div key={topic.id} className="relative group transition-all duration-200 ease-in-out transform hover:-translate-y-0.5">
                     {/* Adjusted card styling */}
                     <Card className="hover:shadow-lg transition-shadow duration-200 border border-border hover:border-primary/60 bg-card hover:bg-muted/50">
                        <CardHeader className="flex flex-row items-start space-x-3 p-4"> {/* Adjusted spacing */}
@@ -27,8 +33,19 @@ export function TopicList({ topics }: TopicListProps) {
                             </Avatar>
                             <div className="flex-1 min-w-0"> {/* Ensure text wraps */}
                                <CardTitle className="text-base font-medium group-hover:text-primary leading-snug line-clamp-2"> {/* Allow wrapping */}
-                                    {topic.title}
+                                    <Link href={`/topics/${topic.id}`} className="after:absolute after:inset-0">{topic.title}</Link>
+                                    {!!topic.unreadCount && (
+                                        <Badge className="ml-2 align-middle text-[10px] px-1.5 py-0">{topic.unreadCount} new</Badge>
+                                    )}
                                 </CardTitle>
+                                {showCategory && topic.category ? (
+                                    <span className="flex flex-wrap items-center gap-1 mt-1">
+                                        <CategoryBadge category={topic.category} />
+                                        <TopicStatusBadges topic={topic} />
+                                    </span>
+                                ) : (
+                                    <TopicStatusBadges topic={topic} className="mt-1" />
+                                )}
                                  <CardDescription className="text-xs text-muted-foreground mt-1 flex items-center gap-1 flex-wrap">
                                     <UserCircle className="h-3 w-3" />
                                     <span>{topic.author?.username || 'Unknown'}</span>
@@ -48,10 +65,15 @@ export function TopicList({ topics }: TopicListProps) {
                                  <Clock className="h-3.5 w-3.5" />
                                  <span>Last: {formatDistanceToNow(new Date(topic.lastActivity), { addSuffix: true })}</span>
                              </div>
+                             {!!topic.unreadCount && (
+                                 <Link href={`/topics/${topic.id}/unread`} className="relative z-10 flex items-center gap-1 text-primary hover:underline">
+                                     <ArrowDownToLine className="h-3.5 w-3.5" /> Jump to first unread
+                                 </Link>
+                             )}
                         </CardContent>
                          {/* Remove CardFooter if content is moved */}
                     </Card>
-                </Link>
+                </div>
             ))}
         </div>
     );
@@ -0,0 +1,28 @@
+import type { Topic } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Lock, Megaphone, Pin } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TopicStatusBadgesProps {
+    topic: Pick<Topic, 'pinnedAt' | 'lockedAt' | 'announcedAt'>;
+    className?: string;
+}
+
+// Announcement / Pinned / Locked markers, shared by topic lists and the topic page
+export function TopicStatusBadges({ topic, className }: TopicStatusBadgesProps) {
+    if (!topic.announcedAt && !topic.pinnedAt && !topic.lockedAt) return null;
+
+    return (
+        <span className={cn("inline-flex flex-wrap items-center gap-1", className)}>
+            {topic.announcedAt && (
+                <Badge className="gap-1 text-xs font-normal"><Megaphone className="h-3 w-3" /> Announcement</Badge>
+            )}
+            {topic.pinnedAt && (
+                <Badge variant="secondary" className="gap-1 text-xs font-normal"><Pin className="h-3 w-3" /> Pinned</Badge>
+            )}
+            {topic.lockedAt && (
+                <Badge variant="outline" className="gap-1 text-xs font-normal"><Lock className="h-3 w-3" /> Locked</Badge>
+            )}
+        </span>
+    );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from 'react';
+import type { WatchLevel } from '@/lib/types';
+import type { WatchTarget } from '@/lib/watching';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, BellOff, BellRing, Loader2, type LucideIcon } from 'lucide-react';
+import { setWatchLevelAction } from '@/lib/actions/forums';
+import { useToast } from '@/hooks/use-toast';
+
+const WATCH_OPTIONS: Record<WatchLevel, { label: string; description: string; icon: LucideIcon }> = {
+  off: { label: 'Not Watching', description: 'No notifications about new posts', icon: BellOff },
+  in_app: { label: 'Watching', description: 'Notifications in the app', icon: Bell },
+  email: { label: 'Watching + Email', description: 'Notifications in the app and by email', icon: BellRing },
+};
+
+interface WatchMenuProps {
+  target: WatchTarget;
+  level: WatchLevel; // Effective level, possibly inherited from a category or from taking part
+}
+
+// Watch level picker for topic and category pages
+export function WatchMenu({ target, level }: WatchMenuProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const { label, icon: Icon } = WATCH_OPTIONS[level];
+
+  const handleChange = async (value: string) => {
+    setIsSaving(true);
+    try {
+      const result = await setWatchLevelAction(target, value as WatchLevel);
+      toast({
+        variant: result.success ? undefined : "destructive",
+        title: result.success ? "Success" : "Error",
+        description: result.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Icon className="mr-2 h-4 w-4" />} {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{'topicId' in target ? 'New posts in this topic' : 'New topics and posts here'}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={level} onValueChange={handleChange}>
+          {(Object.keys(WATCH_OPTIONS) as WatchLevel[]).map(option => (
+            <DropdownMenuRadioItem key={option} value={option} className="flex-col items-start">
+              <span>{WATCH_OPTIONS[option].label}</span>
+              <span className="text-xs text-muted-foreground">{WATCH_OPTIONS[option].description}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MailWarning, Loader2 } from 'lucide-react';
+import { resendVerificationEmail } from '@/lib/actions/auth';
+import { useToast } from '@/hooks/use-toast';
+
+interface EmailVerificationBannerProps {
+    email: string;
+}
+
+// Shown under the header until the signed-in user has verified their email address.
+export function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+    const { toast } = useToast();
+    const [isSending, setIsSending] = useState(false);
+
+    const handleResend = async () => {
+        setIsSending(true);
+        try {
+            const result = await resendVerificationEmail();
+            toast({
+                variant: result.success ? undefined : "destructive",
+                title: result.success ? "Email Sent" : "Error",
+                description: result.message,
+            });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="border-t bg-accent/10">
+            <div className="container max-w-5xl flex flex-wrap items-center gap-2 px-4 sm:px-6 lg:px-8 py-2 text-sm">
+                <MailWarning className="h-4 w-4 text-accent flex-shrink-0" />
+                <span className="flex-1 min-w-0">
+                    Please verify your email address (<strong>{email}</strong>) to start posting.
+                </span>
+                <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+                    {isSending && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+                    Resend email
+                </Button>
+            </div>
+        </div>
+    );
+}
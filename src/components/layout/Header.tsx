@@ -1,10 +1,15 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { getCurrentUser, logout } from '@/lib/actions/auth';
-import { LogIn, LogOut, UserPlus, Home, ShieldCheck, Settings } from 'lucide-react'; // Added Settings for Admin
+import { LogIn, LogOut, UserPlus, Home, ShieldCheck, Settings, UserCog, Bell, Inbox, Search } from 'lucide-react'; // Added Settings for Admin
+import { EmailVerificationBanner } from './EmailVerificationBanner';
+import { can, ROLE_LABELS } from '@/lib/permissions';
+import { getUnreadNotificationCount } from '@/lib/data';
 
 export async function Header() {
   const user = await getCurrentUser();
+  const unreadCount = user ? await getUnreadNotificationCount(user.id) : 0;
 
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -25,7 +30,16 @@ export async function Header() {
             <Home className="h-4 w-4" />
             <span className="hidden sm:inline">Home</span>
           </Link>
-           {user?.isAdmin && (
+           {user && (
+              <Link
+                href="/unread"
+                className="transition-colors hover:text-primary text-foreground/80 flex items-center gap-1"
+              >
+                <Inbox className="h-4 w-4" />
+                <span className="hidden sm:inline">Unread</span>
+              </Link>
+           )}
+           {can(user, 'admin.access') && (
               <Link
                 href="/admin"
                  className="transition-colors hover:text-primary text-foreground/80 flex items-center gap-1"
@@ -37,18 +51,50 @@ export async function Header() {
            {/* Add more nav links here if needed */}
         </nav>
 
+        {/* Plain GET form, so searching works without JavaScript */}
+        <form action="/search" role="search" className="relative mr-2 hidden md:block">
+          <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input type="search" name="q" placeholder="Search…" aria-label="Search the forum" className="h-8 w-40 pl-8 lg:w-56" />
+        </form>
+        <Button variant="ghost" size="sm" asChild className="md:hidden">
+          <Link href="/search" title="Search">
+            <Search className="h-4 w-4" /> <span className="sr-only">Search</span>
+          </Link>
+        </Button>
+
         <div className="flex flex-shrink-0 items-center justify-end space-x-2">
           {user ? (
             <>
-             {user.isAdmin && (
+             {user.role === 'admin' && (
                  <span className="text-xs font-semibold text-destructive hidden sm:flex items-center mr-2 border border-destructive/50 rounded px-1.5 py-0.5 bg-destructive/10">
-                    <ShieldCheck className="h-3.5 w-3.5 mr-1" /> Admin
+                    <ShieldCheck className="h-3.5 w-3.5 mr-1" /> {ROLE_LABELS.admin}
+                 </span>
+             )}
+             {user.role === 'moderator' && (
+                 <span className="text-xs font-semibold text-primary hidden sm:flex items-center mr-2 border border-primary/50 rounded px-1.5 py-0.5 bg-primary/10">
+                    <ShieldCheck className="h-3.5 w-3.5 mr-1" /> {ROLE_LABELS.moderator}
                  </span>
              )}
               {/* Hide username on small screens */}
               <span className="text-sm font-medium mr-2 hidden md:inline">
                 Welcome, {user.username}
               </span>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/notifications" title="Notifications" className="relative">
+                  <Bell className="h-4 w-4" />
+                  <span className="sr-only">Notifications{unreadCount > 0 && ` (${unreadCount} unread)`}</span>
+                  {unreadCount > 0 && (
+                    <span aria-hidden="true" className="absolute -top-0.5 -right-0.5 min-w-4 h-4 rounded-full bg-destructive px-1 text-[10px] font-semibold leading-4 text-center text-destructive-foreground">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Link>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/account" title="Account settings">
+                  <UserCog className="h-4 w-4" /> <span className="sr-only">Account</span>
+                </Link>
+              </Button>
               <form action={logout}>
                 <Button variant="outline" size="sm" type="submit">
                    <LogOut className="h-4 w-4 sm:mr-1" /> <span className="hidden sm:inline">Logout</span>
@@ -71,6 +117,7 @@ export async function Header() {
           )}
         </div>
       </div>
+      {user && !user.emailVerifiedAt && <EmailVerificationBanner email={user.email} />}
     </header>
   );
 }
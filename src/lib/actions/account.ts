@@ -0,0 +1,165 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser, getCurrentSessionId } from "./auth";
+import { revokeUserSession, revokeAllUserSessions } from "@/lib/auth/session";
+import {
+    beginTotpEnrollment,
+    confirmTotpEnrollment,
+    verifySecondFactor,
+    regenerateRecoveryCodes,
+    disableTwoFactor,
+} from "@/lib/auth/two-factor";
+import { getSiteSettings } from "@/lib/settings";
+import { can } from "@/lib/permissions";
+import { updateUserPreferences } from "@/lib/data";
+import { PAGE_SIZE_OPTIONS } from "@/lib/pagination";
+import type { DigestFrequency } from "@/lib/types";
+
+// --- Session Management (own account) ---
+
+export async function revokeSessionAction(sessionId: string) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        if (sessionId === await getCurrentSessionId()) {
+            throw new Error("Use Logout to end the session you are currently using.");
+        }
+        const success = await revokeUserSession(user.id, sessionId);
+        if (!success) {
+            throw new Error("Session not found. It may have already expired.");
+        }
+        revalidatePath('/account/sessions');
+        return { success: true, message: "Session revoked." };
+    } catch (error: any) {
+        console.error("Revoke Session Error:", error);
+        return { success: false, message: error.message || "Failed to revoke session." };
+    }
+}
+
+export async function revokeOtherSessionsAction() {
+    try {
+        const user = await getCurrentUser();
+        const currentSessionId = await getCurrentSessionId();
+        if (!user || !currentSessionId) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        const revoked = await revokeAllUserSessions(user.id, currentSessionId);
+        revalidatePath('/account/sessions');
+        return { success: true, message: `Signed out of ${revoked} other session${revoked === 1 ? '' : 's'}.` };
+    } catch (error: any) {
+        console.error("Revoke Other Sessions Error:", error);
+        return { success: false, message: error.message || "Failed to sign out other sessions." };
+    }
+}
+
+// --- Preferences (own account) ---
+
+const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+// `null` resets a preference to the forum default (for digests: no digest)
+export async function updatePreferencesAction(preferences: { postsPerPage?: number | null; digestFrequency?: DigestFrequency | null }) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        const { postsPerPage, digestFrequency } = preferences;
+        if (postsPerPage != null && !PAGE_SIZE_OPTIONS.includes(postsPerPage)) {
+            throw new Error(`Posts per page must be one of ${PAGE_SIZE_OPTIONS.join(', ')}.`);
+        }
+        if (digestFrequency != null && !DIGEST_FREQUENCIES.includes(digestFrequency)) {
+            throw new Error("Digests can be sent daily or weekly.");
+        }
+        const changes = {
+            ...(postsPerPage !== undefined && { postsPerPage: postsPerPage ?? undefined }),
+            ...(digestFrequency !== undefined && { digestFrequency: digestFrequency ?? undefined }),
+        };
+        if (!(await updateUserPreferences(user.id, changes))) {
+            throw new Error("User not found.");
+        }
+        revalidatePath('/', 'layout');
+        return { success: true, message: "Preferences saved." };
+    } catch (error: any) {
+        console.error("Update Preferences Error:", error);
+        return { success: false, message: error.message || "Failed to save preferences." };
+    }
+}
+
+// --- Two-Factor Authentication (own account) ---
+
+export async function startTwoFactorSetupAction() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        const enrollment = await beginTotpEnrollment(user);
+        return { success: true, message: "Scan the QR code with your authenticator app.", enrollment };
+    } catch (error: any) {
+        console.error("Start Two-Factor Setup Error:", error);
+        return { success: false, message: error.message || "Failed to start two-factor setup." };
+    }
+}
+
+export async function confirmTwoFactorSetupAction(code: string) {
+    try {
+        const user = await getCurrentUser();
+        const currentSessionId = await getCurrentSessionId();
+        if (!user || !currentSessionId) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        const recoveryCodes = await confirmTotpEnrollment(user.id, code);
+        if (!recoveryCodes) {
+            throw new Error("That code didn't match. Check your device's clock and try the current code.");
+        }
+        // Sessions that never passed the second factor shouldn't outlive its introduction
+        await revokeAllUserSessions(user.id, currentSessionId);
+        revalidatePath('/account/security');
+        return { success: true, message: "Two-factor authentication is now enabled.", recoveryCodes };
+    } catch (error: any) {
+        console.error("Confirm Two-Factor Setup Error:", error);
+        return { success: false, message: error.message || "Failed to enable two-factor authentication." };
+    }
+}
+
+export async function regenerateRecoveryCodesAction(code: string) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        if (!(await verifySecondFactor(user.id, code))) {
+            throw new Error("Invalid authentication code.");
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(user.id);
+        revalidatePath('/account/security');
+        return { success: true, message: "New recovery codes generated. The old ones no longer work.", recoveryCodes };
+    } catch (error: any) {
+        console.error("Regenerate Recovery Codes Error:", error);
+        return { success: false, message: error.message || "Failed to generate recovery codes." };
+    }
+}
+
+export async function disableTwoFactorAction(code: string) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        if (can(user, 'admin.access') && (await getSiteSettings()).requireAdminTwoFactor) {
+            throw new Error("Two-factor authentication is required for admin accounts on this forum.");
+        }
+        if (!(await verifySecondFactor(user.id, code))) {
+            throw new Error("Invalid authentication code.");
+        }
+        await disableTwoFactor(user.id);
+        revalidatePath('/account/security');
+        return { success: true, message: "Two-factor authentication has been disabled." };
+    } catch (error: any) {
+        console.error("Disable Two-Factor Error:", error);
+        return { success: false, message: error.message || "Failed to disable two-factor authentication." };
+    }
+}
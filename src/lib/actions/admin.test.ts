@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '@/lib/types';
+import { getSiteSettings, updateSiteSettings } from '@/lib/settings';
+import { createCategory, getCategories } from '@/lib/data';
+import { getCurrentUser } from './auth';
+import { createCategoryAction, reorderCategoriesAction, updateSiteSettingsAction } from './admin';
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+vi.mock('./auth', () => ({ getCurrentUser: vi.fn() }));
+
+const admin: User = { id: 'admin', username: 'admin', email: 'admin@example.com', role: 'admin', createdAt: new Date(), totpEnabledAt: new Date() };
+
+describe('updateSiteSettingsAction', () => {
+    beforeEach(() => {
+        vi.mocked(getCurrentUser).mockResolvedValue(admin);
+    });
+
+    it('saves valid changes', async () => {
+        const result = await updateSiteSettingsAction({ requireAdminTwoFactor: true, postsPerPage: 50, reactions: ['👍', '🎉'] });
+        expect(result).toMatchObject({ success: true });
+        expect(await getSiteSettings()).toMatchObject({ requireAdminTwoFactor: true, postsPerPage: 50, reactions: ['👍', '🎉'] });
+    });
+
+    it('refuses values of the wrong type', async () => {
+        for (const changes of [{ requireAdminTwoFactor: 'yes' }, { requireAdminTwoFactor: 1 }, { postsPerPage: '50' }, { reactions: '👍' }]) {
+            expect(await updateSiteSettingsAction(changes as any)).toMatchObject({ success: false });
+        }
+        expect((await getSiteSettings()).requireAdminTwoFactor).toBe(false);
+    });
+
+    it('refuses unknown keys instead of passing them on', async () => {
+        const result = await updateSiteSettingsAction({ postsPerPage: 50, isAdmin: true } as any);
+        expect(result).toEqual({ success: false, message: 'Unknown setting.' });
+        expect((await getSiteSettings()).postsPerPage).toBe(20);
+    });
+
+    it('validates the reaction set', async () => {
+        expect(await updateSiteSettingsAction({ reactions: [] })).toMatchObject({ success: false });
+        expect(await updateSiteSettingsAction({ reactions: ['👍', '👍'] })).toMatchObject({ success: false, message: 'Each reaction can only be listed once.' });
+        expect(await updateSiteSettingsAction({ reactions: ['ok'] })).toMatchObject({ success: false, message: 'Reactions must each be a single emoji.' });
+    });
+
+    it('needs the settings permission', async () => {
+        vi.mocked(getCurrentUser).mockResolvedValue({ ...admin, role: 'moderator' });
+        expect(await updateSiteSettingsAction({ postsPerPage: 50 })).toMatchObject({ success: false });
+    });
+});
+
+describe('createCategoryAction', () => {
+    const categoryForm = (name: string) => {
+        const formData = new FormData();
+        formData.set('name', name);
+        formData.set('description', '');
+        return formData;
+    };
+
+    beforeEach(() => {
+        vi.mocked(getCurrentUser).mockResolvedValue(admin);
+    });
+
+    it('creates the category', async () => {
+        expect(await createCategoryAction(undefined, categoryForm('Off Topic'))).toMatchObject({ success: true });
+        expect((await getCategories()).map(c => c.name)).toContain('Off Topic');
+    });
+
+    it('needs two-factor authentication when the site requires it for admins', async () => {
+        await updateSiteSettings({ requireAdminTwoFactor: true });
+        vi.mocked(getCurrentUser).mockResolvedValue({ ...admin, totpEnabledAt: undefined });
+        expect(await createCategoryAction(undefined, categoryForm('Off Topic'))).toMatchObject({ success: false, message: expect.stringContaining('two-factor') });
+        expect(await getCategories()).toHaveLength(3);
+    });
+
+    it('needs the category permission', async () => {
+        vi.mocked(getCurrentUser).mockResolvedValue({ ...admin, role: 'moderator' });
+        expect(await createCategoryAction(undefined, categoryForm('Off Topic'))).toMatchObject({ success: false });
+        expect(await getCategories()).toHaveLength(3);
+    });
+});
+
+describe('reorderCategoriesAction', () => {
+    const topLevelIds = async () => (await getCategories()).filter(c => !c.parentId).map(c => c.id);
+
+    beforeEach(() => {
+        vi.mocked(getCurrentUser).mockResolvedValue(admin);
+    });
+
+    it('saves the new order and puts new categories last', async () => {
+        expect(await reorderCategoriesAction(null, ['cat3', 'cat1', 'cat2'])).toMatchObject({ success: true });
+        expect(await topLevelIds()).toEqual(['cat3', 'cat1', 'cat2']);
+        const created = await createCategory({ name: 'Off Topic' });
+        expect(await topLevelIds()).toEqual(['cat3', 'cat1', 'cat2', created.id]);
+    });
+
+    it('orders subcategories separately from their parents', async () => {
+        const linux = await createCategory({ name: 'Linux', parentId: 'cat3' });
+        const mac = await createCategory({ name: 'Mac', parentId: 'cat3' });
+        expect(await reorderCategoriesAction('cat3', [mac.id, linux.id])).toMatchObject({ success: true });
+        expect((await getCategories()).filter(c => c.parentId === 'cat3').map(c => c.id)).toEqual([mac.id, linux.id]);
+        expect(await topLevelIds()).toEqual(['cat1', 'cat2', 'cat3']);
+    });
+
+    it('refuses an order that does not list exactly the siblings', async () => {
+        for (const order of [['cat2', 'cat1'], ['cat3', 'cat2', 'cat1', 'cat4'], ['cat3', 'cat3', 'cat1']]) {
+            expect(await reorderCategoriesAction(null, order)).toMatchObject({ success: false });
+        }
+        expect(await topLevelIds()).toEqual(['cat1', 'cat2', 'cat3']);
+    });
+
+    it('needs the category permission', async () => {
+        vi.mocked(getCurrentUser).mockResolvedValue({ ...admin, role: 'moderator' });
+        expect(await reorderCategoriesAction(null, ['cat3', 'cat1', 'cat2'])).toMatchObject({ success: false });
+    });
+});
@@ -3,42 +3,98 @@
 import { revalidatePath } from 'next/cache';
 import { getCurrentUser } from './auth';
 import {
-    setUserAdminStatus as dbSetUserAdminStatus,
+    setUserRole as dbSetUserRole,
+    setUserGroups as dbSetUserGroups,
+    getAllUsers,
     deleteUser as dbDeleteUser,
+    markUserEmailVerified as dbMarkUserEmailVerified,
+    createCategory as dbCreateCategory,
     updateCategory as dbUpdateCategory,
-    deleteCategory as dbDeleteCategory
-} from '@/lib/placeholder-data';
+    setCategoryParent as dbSetCategoryParent,
+    reorderCategories as dbReorderCategories,
+    setCategoryArchived as dbSetCategoryArchived,
+    moveCategoryTopics as dbMoveCategoryTopics,
+    deleteCategory as dbDeleteCategory,
+    getCategoryById,
+    recordAudit,
+} from '@/lib/data';
+import { listUserSessions, revokeUserSession, revokeAllUserSessions } from '@/lib/auth/session';
+import { clearLoginThrottle } from '@/lib/auth/rate-limit';
+import { getSiteSettings, updateSiteSettings } from '@/lib/settings';
+import { isEmoji, MAX_REACTIONS } from '@/lib/reactions';
+import { PAGE_SIZE_OPTIONS } from '@/lib/pagination';
+import { CATEGORY_ICON_NAMES, isCategoryColor } from '@/lib/category-icons';
+import { can, ROLES, CATEGORY_ACTIONS, normalizeGroupNames, type Permission } from '@/lib/permissions';
+import type { CategoryAccess, Role, SiteSettings } from '@/lib/types';
 import { z } from 'zod';
 
-// Helper function to check admin privileges
-async function checkAdmin() {
+// Every admin action goes through here: the acting user's role must grant `permission`
+async function checkPermission(permission: Permission) {
   const user = await getCurrentUser();
-  if (!user?.isAdmin) {
-    throw new Error("Unauthorized: Admin privileges required.");
+  if (!user || !can(user, permission)) {
+    throw new Error("Unauthorized: You don't have permission to do that.");
+  }
+  // Same rule as the /admin layout, for actions invoked directly
+  if (can(user, 'admin.access') && !user.totpEnabledAt && (await getSiteSettings()).requireAdminTwoFactor) {
+    throw new Error("Unauthorized: Enable two-factor authentication (Account > Security) to use admin tools.");
   }
   return user;
 }
 
 // --- User Actions ---
 
-export async function toggleAdminStatus(targetUserId: string, newStatus: boolean) {
+export async function setUserRoleAction(targetUserId: string, role: Role) {
     try {
-        await checkAdmin(); // Ensure current user is admin
-        const updatedUser = await dbSetUserAdminStatus(targetUserId, newStatus);
+        const adminUser = await checkPermission('user.manage');
+        if (!ROLES.includes(role)) {
+            throw new Error("Unknown role.");
+        }
+        if (adminUser.id === targetUserId) {
+            throw new Error("Action denied: You cannot change your own role.");
+        }
+        // Never leave the forum without someone who can manage users
+        const users = await getAllUsers();
+        const target = users.find(u => u.id === targetUserId);
+        if (target?.role === 'admin' && role !== 'admin' && users.filter(u => u.role === 'admin').length <= 1) {
+            throw new Error("Action denied: The forum needs at least one admin.");
+        }
+        const updatedUser = await dbSetUserRole(targetUserId, role);
+        if (!updatedUser) {
+             throw new Error("Failed to update user role. User not found.");
+        }
+        revalidatePath('/admin/users');
+        return { success: true, message: `User role updated successfully.`, role };
+    } catch (error: any) {
+        console.error("Set User Role Error:", error);
+        return { success: false, message: error.message || "Failed to update user role." };
+    }
+}
+
+const GroupNameSchema = z.string().trim().min(1).max(32).regex(/^[\w -]+$/, { message: "Group names may only contain letters, numbers, spaces, dashes and underscores." });
+
+export async function setUserGroupsAction(targetUserId: string, groups: string[]) {
+    try {
+        await checkPermission('user.manage');
+        const parsed = z.array(GroupNameSchema).max(20).safeParse(groups);
+        if (!parsed.success) {
+            throw new Error(parsed.error.issues[0]?.message || "Invalid group names.");
+        }
+        const updatedUser = await dbSetUserGroups(targetUserId, parsed.data);
         if (!updatedUser) {
-             throw new Error("Failed to update user status. User not found.");
+            throw new Error("Failed to update groups. User not found.");
         }
         revalidatePath('/admin/users');
-        return { success: true, message: `User status updated successfully.`, newStatus };
+        revalidatePath('/', 'layout'); // Category visibility may have changed for this user
+        return { success: true, message: "User groups updated.", groups: updatedUser.groups ?? [] };
     } catch (error: any) {
-        console.error("Toggle Admin Status Error:", error);
-        return { success: false, message: error.message || "Failed to update user status." };
+        console.error("Set User Groups Error:", error);
+        return { success: false, message: error.message || "Failed to update user groups." };
     }
 }
 
 export async function deleteUserAction(targetUserId: string) {
      try {
-        const adminUser = await checkAdmin(); // Ensure current user is admin
+        const adminUser = await checkPermission('user.manage');
         if (adminUser.id === targetUserId) {
             throw new Error("Action denied: Admins cannot delete their own account.");
         }
@@ -56,21 +112,147 @@ export async function deleteUserAction(targetUserId: string) {
     }
 }
 
+export async function verifyUserEmailAction(targetUserId: string) {
+    try {
+        await checkPermission('user.manage');
+        const updatedUser = await dbMarkUserEmailVerified(targetUserId);
+        if (!updatedUser) {
+            throw new Error("Failed to verify user. User not found.");
+        }
+        revalidatePath('/admin/users');
+        return { success: true, message: `${updatedUser.username}'s email address is now marked as verified.` };
+    } catch (error: any) {
+        console.error("Verify User Email Error:", error);
+        return { success: false, message: error.message || "Failed to verify user." };
+    }
+}
+
+// --- Session Actions (lock out compromised accounts) ---
+
+export async function getUserSessionsAction(targetUserId: string) {
+    try {
+        await checkPermission('user.manage');
+        const sessions = await listUserSessions(targetUserId);
+        return { success: true, message: "Sessions loaded.", sessions };
+    } catch (error: any) {
+        console.error("Get User Sessions Error:", error);
+        return { success: false, message: error.message || "Failed to load sessions.", sessions: [] };
+    }
+}
+
+export async function revokeUserSessionAction(targetUserId: string, sessionId: string) {
+    try {
+        await checkPermission('user.manage');
+        const success = await revokeUserSession(targetUserId, sessionId);
+        if (!success) {
+            throw new Error("Session not found. It may have already expired.");
+        }
+        return { success: true, message: "Session revoked." };
+    } catch (error: any) {
+        console.error("Revoke User Session Error:", error);
+        return { success: false, message: error.message || "Failed to revoke session." };
+    }
+}
+
+export async function revokeAllUserSessionsAction(targetUserId: string) {
+    try {
+        await checkPermission('user.manage');
+        const revoked = await revokeAllUserSessions(targetUserId);
+        return { success: true, message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}.` };
+    } catch (error: any) {
+        console.error("Revoke All User Sessions Error:", error);
+        return { success: false, message: error.message || "Failed to sign out user." };
+    }
+}
+
+
+// --- Login Lock Actions ---
+
+export async function clearLoginLockAction(throttleId: string) {
+    try {
+        const adminUser = await checkPermission('user.manage');
+        const cleared = await clearLoginThrottle(throttleId);
+        if (!cleared) {
+            throw new Error("Lock not found. It may have already expired.");
+        }
+        console.log(`[Admin] ${adminUser.id} cleared login lock ${throttleId}`);
+        revalidatePath('/admin/users');
+        return { success: true, message: "Login lock cleared." };
+    } catch (error: any) {
+        console.error("Clear Login Lock Error:", error);
+        return { success: false, message: error.message || "Failed to clear login lock." };
+    }
+}
 
 // --- Category Actions ---
 
+const CreateCategorySchema = z.object({
+    name: z.string().min(3, { message: "Category name must be at least 3 characters." }).max(100),
+    description: z.string().max(255).optional(),
+    parentId: z.string().optional(), // Unset for a top-level category
+    icon: z.string().refine(icon => CATEGORY_ICON_NAMES.includes(icon), { message: "Unknown icon." }).optional(),
+    color: z.string().refine(isCategoryColor, { message: "Color must look like #3b82f6." }).optional(),
+});
+
+// Form action for CategoryForm (useActionState), so it takes the previous state and returns field errors
+export async function createCategoryAction(prevState: any, formData: FormData) {
+    try {
+        await checkPermission('category.manage');
+    } catch (error: any) {
+        return { message: error.message, success: false };
+    }
+
+    const validatedFields = CreateCategorySchema.safeParse({
+        name: formData.get("name"),
+        description: formData.get("description"),
+        parentId: formData.get("parentId") || undefined,
+        icon: formData.get("icon") || undefined,
+        color: formData.get("color") || undefined,
+    });
+
+    if (!validatedFields.success) {
+        return {
+            errors: validatedFields.error.flatten().fieldErrors,
+            message: "Failed to create category.",
+            success: false,
+        };
+    }
+
+    const { name, description, parentId, icon, color } = validatedFields.data;
+    if (parentId && !(await getCategoryById(parentId))) {
+        return { errors: { parentId: ["Parent category not found."] }, message: "Failed to create category.", success: false };
+    }
+
+    try {
+        const newCategory = await dbCreateCategory({ name, description, parentId, icon, color });
+        revalidatePath("/"); // Revalidate home page where categories are listed
+        revalidatePath("/admin/categories"); // Revalidate admin page
+        return { message: `Category "${newCategory.name}" created successfully.`, success: true };
+    } catch (error) {
+        console.error("Create Category Error:", error);
+        return { message: "Database Error: Failed to create category.", success: false };
+    }
+}
+
 const UpdateCategorySchema = z.object({
     name: z.string().min(3, { message: "Category name must be at least 3 characters." }).max(100),
     description: z.string().max(255).optional(),
+    // Empty strings clear the icon/color
+    icon: z.string().refine(icon => !icon || CATEGORY_ICON_NAMES.includes(icon), { message: "Unknown icon." }),
+    color: z.string().refine(color => !color || isCategoryColor(color), { message: "Color must look like #3b82f6." }),
 });
 
 // Note: We might want a separate action for the form submission if using useActionState
 // For direct calls (e.g., from a modal), this function is fine.
-export async function updateCategoryAction(categoryId: string, data: { name: string; description?: string }) {
+export async function updateCategoryAction(categoryId: string, data: { name: string; description?: string; icon: string; color: string }) {
      try {
-        await checkAdmin();
+        await checkPermission('category.manage');
         const validatedData = UpdateCategorySchema.parse(data); // Validate input data
-        const updatedCategory = await dbUpdateCategory(categoryId, validatedData);
+        const updatedCategory = await dbUpdateCategory(categoryId, {
+            ...validatedData,
+            icon: validatedData.icon || undefined,
+            color: validatedData.color || undefined,
+        });
          if (!updatedCategory) {
              throw new Error("Failed to update category. Category not found.");
         }
@@ -88,19 +270,191 @@ export async function updateCategoryAction(categoryId: string, data: { name: str
 }
 
 
-export async function deleteCategoryAction(categoryId: string) {
+const CategoryAccessRuleSchema = z.object({
+    roles: z.array(z.enum(ROLES as [Role, ...Role[]])),
+    groups: z.array(GroupNameSchema).max(20),
+});
+const CategoryAccessSchema = z.object({
+    view: CategoryAccessRuleSchema.optional(),
+    topic: CategoryAccessRuleSchema.optional(),
+    reply: CategoryAccessRuleSchema.optional(),
+});
+
+// Replaces the category's access rules. An empty object makes the category public again.
+export async function updateCategoryAccessAction(categoryId: string, access: CategoryAccess) {
+    try {
+        await checkPermission('category.manage');
+        const parsed = CategoryAccessSchema.safeParse(access);
+        if (!parsed.success) {
+            throw new Error(parsed.error.issues[0]?.message || "Invalid access rules.");
+        }
+        const rules: CategoryAccess = {};
+        for (const action of CATEGORY_ACTIONS) {
+            const rule = parsed.data[action];
+            if (rule) rules[action] = { roles: rule.roles, groups: normalizeGroupNames(rule.groups) };
+        }
+        const updatedCategory = await dbUpdateCategory(categoryId, { access: Object.keys(rules).length > 0 ? rules : undefined });
+        if (!updatedCategory) {
+            throw new Error("Failed to update access. Category not found.");
+        }
+        revalidatePath('/', 'layout'); // Visibility changes affect every listing and topic page
+        return { success: true, message: "Category access updated.", category: updatedCategory };
+    } catch (error: any) {
+        console.error("Update Category Access Error:", error);
+        return { success: false, message: error.message || "Failed to update category access." };
+    }
+}
+
+// Moves a category below another one, or back to the top level with `null`
+export async function setCategoryParentAction(categoryId: string, parentId: string | null) {
+    try {
+        await checkPermission('category.manage');
+        const updatedCategory = await dbSetCategoryParent(categoryId, parentId);
+        if (!updatedCategory) {
+            throw new Error("Failed to move category. A category can't be placed inside itself or one of its subcategories.");
+        }
+        revalidatePath('/admin/categories');
+        revalidatePath('/', 'layout'); // Breadcrumbs and subcategory lists everywhere
+        return { success: true, message: parentId ? "Category moved." : "Category moved to the top level." };
+    } catch (error: any) {
+        console.error("Set Category Parent Action Error:", error);
+        return { success: false, message: error.message || "Failed to move category." };
+    }
+}
+
+// Saves a new order for the categories directly below `parentId` (`null` for top level)
+export async function reorderCategoriesAction(parentId: string | null, orderedIds: string[]) {
     try {
-        await checkAdmin();
-        const success = await dbDeleteCategory(categoryId);
+        await checkPermission('category.manage');
+        const success = await dbReorderCategories(parentId, orderedIds);
         if (!success) {
-            throw new Error("Failed to delete category. Category may not exist.");
+            throw new Error("Failed to reorder categories. The list is out of date, please reload the page.");
         }
         revalidatePath('/admin/categories');
-        revalidatePath('/admin'); // Revalidate dashboard counts
-        revalidatePath('/'); // Revalidate homepage
-        return { success: true, message: "Category deleted successfully." };
+        revalidatePath('/', 'layout'); // Category lists everywhere
+        return { success: true, message: "Category order saved." };
+    } catch (error: any) {
+        console.error("Reorder Categories Action Error:", error);
+        return { success: false, message: error.message || "Failed to reorder categories." };
+    }
+}
+
+// What happens to a category's content when an admin removes it
+export type CategoryRemoval =
+    | { mode: 'move'; targetCategoryId: string } // Move its topics elsewhere, then delete the category
+    | { mode: 'archive' }                        // Keep everything, read-only
+    | { mode: 'delete'; confirmName: string };   // Delete topics and posts too; the name must be typed to confirm
+
+const revalidateCategoryPages = () => {
+    revalidatePath('/admin/categories');
+    revalidatePath('/admin'); // Revalidate dashboard counts
+    revalidatePath('/', 'layout'); // Category lists, pages and topics everywhere
+};
+
+export async function deleteCategoryAction(categoryId: string, removal: CategoryRemoval) {
+    try {
+        const adminUser = await checkPermission('category.manage');
+        const category = await getCategoryById(categoryId);
+        if (!category) {
+            throw new Error("Failed to delete category. Category may not exist.");
+        }
+
+        if (removal.mode === 'archive') {
+            await dbSetCategoryArchived(categoryId, true);
+            await recordAudit({ actorId: adminUser.id, action: 'category.archive', targetId: categoryId, summary: `Archived category "${category.name}"` });
+            revalidateCategoryPages();
+            return { success: true, message: `Category "${category.name}" archived. It is now read-only.` };
+        }
+
+        if (removal.mode === 'move') {
+            const target = await getCategoryById(removal.targetCategoryId);
+            if (!target || target.id === categoryId) {
+                throw new Error("Choose another category to move the topics to.");
+            }
+            const moved = await dbMoveCategoryTopics(categoryId, target.id);
+            if (moved === null || !(await dbDeleteCategory(categoryId))) {
+                throw new Error("Failed to move topics and delete category.");
+            }
+            await recordAudit({
+                actorId: adminUser.id,
+                action: 'category.move_and_delete',
+                targetId: categoryId,
+                summary: `Deleted category "${category.name}" after moving ${moved} topic${moved === 1 ? '' : 's'} to "${target.name}"`,
+                details: { name: category.name, targetCategoryId: target.id, targetName: target.name, topics: moved },
+            });
+            revalidateCategoryPages();
+            return { success: true, message: `Category "${category.name}" deleted. Its topics are now in "${target.name}".` };
+        }
+
+        if (removal.confirmName.trim() !== category.name) {
+            throw new Error("The category name you typed does not match.");
+        }
+        if (!(await dbDeleteCategory(categoryId))) {
+            throw new Error("Failed to delete category. Category may not exist.");
+        }
+        await recordAudit({
+            actorId: adminUser.id,
+            action: 'category.delete',
+            targetId: categoryId,
+            summary: `Deleted category "${category.name}" with ${category.topicCount ?? 0} topics and ${category.postCount ?? 0} posts`,
+            details: { name: category.name, topics: category.topicCount ?? 0, posts: category.postCount ?? 0 },
+        });
+        revalidateCategoryPages();
+        return { success: true, message: `Category "${category.name}" and all its content deleted.` };
     } catch (error: any) {
         console.error("Delete Category Action Error:", error);
         return { success: false, message: error.message || "Failed to delete category." };
     }
-}
\ No newline at end of file
+}
+
+// Makes an archived category writable again
+export async function restoreCategoryAction(categoryId: string) {
+    try {
+        const adminUser = await checkPermission('category.manage');
+        const category = await dbSetCategoryArchived(categoryId, false);
+        if (!category) {
+            throw new Error("Failed to restore category. Category may not exist.");
+        }
+        await recordAudit({ actorId: adminUser.id, action: 'category.restore', targetId: categoryId, summary: `Restored archived category "${category.name}"` });
+        revalidateCategoryPages();
+        return { success: true, message: `Category "${category.name}" restored.` };
+    } catch (error: any) {
+        console.error("Restore Category Action Error:", error);
+        return { success: false, message: error.message || "Failed to restore category." };
+    }
+}
+
+// --- Site Settings ---
+
+const PageSizeSchema = z.number().refine(size => PAGE_SIZE_OPTIONS.includes(size), { message: `Page size must be one of ${PAGE_SIZE_OPTIONS.join(', ')}.` });
+// Every key is optional, but unknown keys and wrong types are refused: the action can be called directly, not just from the form
+const SiteSettingsChangesSchema = z.object({
+    requireAdminTwoFactor: z.boolean({ invalid_type_error: "Require two-factor authentication must be on or off." }),
+    topicsPerPage: PageSizeSchema,
+    postsPerPage: PageSizeSchema,
+    reactions: z.array(z.string().refine(isEmoji, { message: "Reactions must each be a single emoji." }))
+        .min(1, { message: `Allow between 1 and ${MAX_REACTIONS} reactions.` })
+        .max(MAX_REACTIONS, { message: `Allow between 1 and ${MAX_REACTIONS} reactions.` })
+        .refine(reactions => new Set(reactions).size === reactions.length, { message: "Each reaction can only be listed once." }),
+}).partial().strict("Unknown setting.");
+
+export async function updateSiteSettingsAction(changes: Partial<SiteSettings>) {
+    try {
+        const adminUser = await checkPermission('settings.manage');
+        const parsed = SiteSettingsChangesSchema.safeParse(changes);
+        if (!parsed.success) {
+            throw new Error(parsed.error.issues[0]?.message || "Invalid settings.");
+        }
+        // Turning the requirement on without 2FA would lock the acting admin out of /admin
+        if (parsed.data.requireAdminTwoFactor && !adminUser.totpEnabledAt) {
+            throw new Error("Enable two-factor authentication on your own account before requiring it for all admins.");
+        }
+        const settings = await updateSiteSettings(parsed.data);
+        console.log(`[Admin] ${adminUser.id} updated site settings`);
+        revalidatePath('/', 'layout');
+        return { success: true, message: "Settings saved.", settings };
+    } catch (error: any) {
+        console.error("Update Site Settings Error:", error);
+        return { success: false, message: error.message || "Failed to save settings." };
+    }
+}
@@ -4,10 +4,25 @@
 import { z } from "zod";
 import { revalidatePath } from "next/cache";
 import { cookies } from 'next/headers';
-import { findUserByEmail, createUser, findUserById, getAllUsers } from "@/lib/placeholder-data"; // Using placeholder
+import { findUserByEmail, findUserById, findUserByUsername, createUser, getAllUsers, updateUserPassword, toPublicUser } from "@/lib/data";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { SESSION_COOKIE_NAME, SESSION_TTL_MS, createSession, validateSessionToken, revokeSessionToken, revokeAllUserSessions } from "@/lib/auth/session";
+import { getRequestMetadata, getBaseUrl } from "@/lib/auth/request";
+import { issueToken, consumeToken } from "@/lib/auth/tokens";
+import { sendVerificationEmail } from "@/lib/auth/verification";
+import { getLoginBlock, recordLoginFailure, recordLoginSuccess, formatRetryAfter } from "@/lib/auth/rate-limit";
+import {
+  LOGIN_CHALLENGE_COOKIE_NAME,
+  LOGIN_CHALLENGE_TTL_MS,
+  createLoginChallenge,
+  findLoginChallenge,
+  completeLoginChallenge,
+  verifySecondFactor,
+} from "@/lib/auth/two-factor";
+import { sendMail } from "@/lib/mail";
+import { passwordResetEmail } from "@/lib/mail/templates";
 import type { User } from "@/lib/types";
-
-const SESSION_COOKIE_NAME = 'forum_session';
+import { USERNAME_PATTERN } from "@/lib/mentions";
 
 // --- Schemas ---
 const LoginSchema = z.object({
@@ -16,11 +31,46 @@ const LoginSchema = z.object({
 });
 
 const RegisterSchema = z.object({
-  username: z.string().min(3, { message: "Username must be at least 3 characters." }),
+  username: z.string()
+    .min(3, { message: "Username must be at least 3 characters." })
+    .max(30, { message: "Username must be at most 30 characters." })
+    // Keeps every username @mentionable
+    .regex(USERNAME_PATTERN, { message: "Username may only contain letters, numbers, dots, dashes and underscores, and can't start or end with a dot or dash." }),
   email: z.string().email({ message: "Invalid email address." }),
   password: z.string().min(6, { message: "Password must be at least 6 characters." }),
 });
 
+const ForgotPasswordSchema = z.object({
+  email: z.string().email({ message: "Invalid email address." }),
+});
+
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1, { message: "Missing reset token." }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters." }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match.",
+  path: ["confirmPassword"],
+});
+
+const TwoFactorLoginSchema = z.object({
+  code: z.string().trim().min(6, { message: "Enter the 6-digit code or a recovery code." }).max(20),
+});
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Creates a server-side session and hands its opaque token to the browser
+async function startSession(userId: string) {
+    const { cookieValue } = await createSession(userId, await getRequestMetadata());
+    (await cookies()).set(SESSION_COOKIE_NAME, cookieValue, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: SESSION_TTL_MS / 1000,
+        path: '/',
+    });
+}
+
 // --- Actions ---
 
 export async function login(prevState: any, formData: FormData) {
@@ -40,31 +90,60 @@ export async function login(prevState: any, formData: FormData) {
   const { email, password } = validatedFields.data;
 
   try {
+    // Refuse early while this IP or account is backing off or locked out
+    const { ip } = await getRequestMetadata();
+    const block = await getLoginBlock(ip, email);
+    if (block) {
+      console.warn(`Login blocked for ${email} from ${ip ?? 'unknown IP'} (${block.scope}, ${block.locked ? 'locked' : 'backoff'})`);
+      return {
+        message: block.locked
+          ? `Too many failed login attempts. Login is temporarily locked; try again in ${formatRetryAfter(block.retryAfterMs)}.`
+          : `Too many failed login attempts. Please wait ${formatRetryAfter(block.retryAfterMs)} before trying again.`,
+        success: false,
+      };
+    }
+
     // Find user by email
     const user = await findUserByEmail(email);
-    // console.log('[Login Action] User found by email:', user ? user.id : 'null');
 
-    // **Placeholder Password Check**: Compare plain text passwords stored in placeholder data
-    // console.log('[Login Action] Provided Password:', password);
-    // console.log('[Login Action] Stored Password:', user?.password);
-    const passwordMatch = user && user.password === password; // Critical comparison
-    // console.log('[Login Action] Password Match:', passwordMatch);
+    // Constant-time check; runs against a dummy hash when the account doesn't exist
+    const { valid: passwordMatch, needsRehash } = await verifyPassword(password, user?.password);
 
     if (!user || !passwordMatch) {
       console.warn(`Login failed for ${email}. User found: ${!!user}, Password match: ${passwordMatch}`);
+      const newBlock = await recordLoginFailure(ip, email);
+      if (newBlock?.locked) {
+        return { message: `Invalid email or password. Too many failed attempts: login is locked for ${formatRetryAfter(newBlock.retryAfterMs)}.`, success: false };
+      }
       return { message: "Invalid email or password.", success: false }; // Explicitly set success to false
     }
 
-    // Set session cookie
-    cookies().set(SESSION_COOKIE_NAME, user.id, {
+    // Transparently upgrade legacy plain-text passwords and hashes with outdated parameters
+    if (needsRehash) {
+      await updateUserPassword(user.id, await hashPassword(password));
+      console.log(`[Login Action] Upgraded password hash for user ${user.id}`);
+    }
+
+    // Two-factor accounts get a short-lived challenge instead of a session (see verifyTwoFactorLogin)
+    if (user.totpEnabledAt) {
+      const challenge = await createLoginChallenge(user.id);
+      (await cookies()).set(LOGIN_CHALLENGE_COOKIE_NAME, challenge, {
         httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24 * 7, // One week
+        sameSite: 'lax',
+        maxAge: LOGIN_CHALLENGE_TTL_MS / 1000,
         path: '/',
-    });
+      });
+      return { message: "Enter the code from your authenticator app to finish signing in.", success: false, twoFactorRequired: true };
+    }
+
+    await recordLoginSuccess(email);
+
+    // Start a server-side session
+    await startSession(user.id);
 
     revalidatePath('/', 'layout'); // Revalidate all pages
-    return { message: `Welcome back, ${user.username}!`, success: true, user };
+    return { message: `Welcome back, ${user.username}!`, success: true, user: toPublicUser(user) };
 
   } catch (error) {
     console.error("Login error:", error);
@@ -72,6 +151,59 @@ export async function login(prevState: any, formData: FormData) {
   }
 }
 
+// Second login step for accounts with two-factor authentication
+export async function verifyTwoFactorLogin(prevState: any, formData: FormData) {
+  const validatedFields = TwoFactorLoginSchema.safeParse({
+    code: formData.get("code"),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: "Verification failed. Please check the code.",
+      success: false,
+    };
+  }
+
+  const { code } = validatedFields.data;
+  const cookieStore = await cookies();
+
+  try {
+    const challengeToken = cookieStore.get(LOGIN_CHALLENGE_COOKIE_NAME)?.value;
+    const challenge = challengeToken ? await findLoginChallenge(challengeToken) : null;
+    const user = challenge ? await findUserById(challenge.userId) : null;
+    if (!challengeToken || !user) {
+      return { message: "Your sign-in attempt has expired. Please log in again.", success: false, expired: true };
+    }
+
+    // Guessing codes counts against the same limits as guessing passwords
+    const { ip } = await getRequestMetadata();
+    const block = await getLoginBlock(ip, user.email);
+    if (block) {
+      return { message: `Too many failed attempts. Please wait ${formatRetryAfter(block.retryAfterMs)} before trying again.`, success: false };
+    }
+
+    const method = await verifySecondFactor(user.id, code);
+    if (!method) {
+      console.warn(`Two-factor verification failed for user ${user.id}`);
+      await recordLoginFailure(ip, user.email);
+      return { message: "Invalid authentication code.", success: false };
+    }
+
+    await completeLoginChallenge(challengeToken);
+    cookieStore.delete(LOGIN_CHALLENGE_COOKIE_NAME);
+    await recordLoginSuccess(user.email);
+    await startSession(user.id);
+
+    revalidatePath('/', 'layout');
+    const recoveryNote = method === 'recovery' ? ' You signed in with a recovery code; it cannot be used again.' : '';
+    return { message: `Welcome back, ${user.username}!${recoveryNote}`, success: true };
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return { message: "An unexpected error occurred during login.", success: false };
+  }
+}
+
 export async function register(prevState: any, formData: FormData) {
   const validatedFields = RegisterSchema.safeParse({
     username: formData.get("username"),
@@ -95,33 +227,39 @@ export async function register(prevState: any, formData: FormData) {
     if (existingUser) {
       return { message: "An account with this email already exists.", success: false }; // Explicitly set success to false
     }
+    // Mentions and profile links address users by name
+    if (await findUserByUsername(username)) {
+      return { errors: { username: ["That username is already taken."] }, message: "Registration failed. Please check your inputs.", success: false };
+    }
 
     // Check if this is the first user
     const allUsers = await getAllUsers();
     const isFirstUser = allUsers.length === 0;
 
-    // **IMPORTANT**: In a real app, hash the password before saving!
-    // const hashedPassword = await bcrypt.hash(password, 10);
-
-    // Create user in the database (using placeholder)
+    // Create user in the database (createUser hashes the password before storing it)
     const newUser = await createUser({
       username,
       email,
-      password: password, // Pass plain text password for placeholder
-      // passwordHash: hashedPassword, // Store hashed password in real app
-      isAdmin: isFirstUser, // Set isAdmin to true if this is the first user
+      password,
+      role: isFirstUser ? 'admin' : 'member', // The first user becomes the admin
+      emailVerified: isFirstUser, // Nobody else could verify the bootstrap admin
     });
 
-     // Automatically log in the new user by setting the session cookie
-     cookies().set(SESSION_COOKIE_NAME, newUser.id, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24 * 7, // One week
-        path: '/',
-    });
+    // A mail failure shouldn't lose the account; the user can resend the link later
+    if (!newUser.emailVerifiedAt) {
+      try {
+        await sendVerificationEmail(newUser);
+      } catch (error) {
+        console.error(`[Register Action] Could not send verification email to user ${newUser.id}:`, error);
+      }
+    }
+
+     // Automatically log in the new user
+     await startSession(newUser.id);
 
     revalidatePath('/', 'layout');
-    return { message: `Registration successful! Welcome, ${newUser.username}!${isFirstUser ? ' You have been granted admin privileges.' : ''}`, success: true, user: newUser };
+    const followUp = isFirstUser ? ' You have been granted admin privileges.' : ' Please check your email to verify your address before posting.';
+    return { message: `Registration successful! Welcome, ${newUser.username}!${followUp}`, success: true, user: newUser };
 
   } catch (error) {
     console.error("Registration error:", error);
@@ -129,30 +267,133 @@ export async function register(prevState: any, formData: FormData) {
   }
 }
 
+export async function requestPasswordReset(prevState: any, formData: FormData) {
+  const validatedFields = ForgotPasswordSchema.safeParse({
+    email: formData.get("email"),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: "Please enter a valid email address.",
+      success: false,
+    };
+  }
+
+  const { email } = validatedFields.data;
+  // Same answer whether or not the account exists, so the form can't be used to probe for emails
+  const genericMessage = "If an account exists for that email, a password reset link has been sent.";
+
+  try {
+    const user = await findUserByEmail(email);
+    if (!user) {
+      console.log(`[Password Reset] Requested for unknown email ${email}`);
+      return { message: genericMessage, success: true };
+    }
+
+    const baseUrl = await getBaseUrl(); // Before issuing, so a misconfigured origin leaves no token behind
+    const token = await issueToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+    const resetUrl = `${baseUrl}/reset-password/${token}`;
+    await sendMail(passwordResetEmail(user.email, user.username, resetUrl, PASSWORD_RESET_TTL_MS / 60000));
+
+    return { message: genericMessage, success: true };
+  } catch (error) {
+    console.error("Password reset request error:", error);
+    return { message: "An unexpected error occurred. Please try again later.", success: false };
+  }
+}
+
+export async function resetPassword(prevState: any, formData: FormData) {
+  const validatedFields = ResetPasswordSchema.safeParse({
+    token: formData.get("token"),
+    password: formData.get("password"),
+    confirmPassword: formData.get("confirmPassword"),
+  });
+
+  if (!validatedFields.success) {
+    return {
+      errors: validatedFields.error.flatten().fieldErrors,
+      message: "Password reset failed. Please check your inputs.",
+      success: false,
+    };
+  }
+
+  const { token, password } = validatedFields.data;
+
+  try {
+    // Single use: the token is marked used before the password changes
+    const resetToken = await consumeToken(token, 'password_reset');
+    if (!resetToken) {
+      return { message: "This reset link is invalid or has expired. Please request a new one.", success: false };
+    }
+
+    const user = await findUserById(resetToken.userId);
+    if (!user) {
+      return { message: "This reset link is invalid or has expired. Please request a new one.", success: false };
+    }
+
+    await updateUserPassword(user.id, await hashPassword(password));
+    // Whoever knew the old password is signed out everywhere
+    const revoked = await revokeAllUserSessions(user.id);
+    console.log(`[Password Reset] Password reset for user ${user.id}, revoked ${revoked} session(s)`);
+
+    revalidatePath('/', 'layout');
+    return { message: "Your password has been reset. You can now log in with your new password.", success: true };
+  } catch (error) {
+    console.error("Password reset error:", error);
+    return { message: "An unexpected error occurred while resetting your password.", success: false };
+  }
+}
+
+export async function resendVerificationEmail(): Promise<{ success: boolean, message: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, message: "You must be logged in to verify your email." };
+  }
+  if (user.emailVerifiedAt) {
+    return { success: false, message: "Your email address is already verified." };
+  }
+
+  try {
+    await sendVerificationEmail(user);
+    return { success: true, message: `A new verification link has been sent to ${user.email}.` };
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return { success: false, message: "Could not send the verification email. Please try again later." };
+  }
+}
+
 export async function logout() {
-    // Clear the session cookie
-    cookies().delete(SESSION_COOKIE_NAME);
+    // Revoke the session on the server, then clear the cookie
+    const cookieStore = await cookies();
+    await revokeSessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+    cookieStore.delete(SESSION_COOKIE_NAME);
     revalidatePath('/', 'layout'); // Revalidate to update UI
 }
 
-// Helper to get the current user based on the session cookie
-export async function getCurrentUser(): Promise<User | null> {
-    const userId = cookies().get(SESSION_COOKIE_NAME)?.value;
-    // console.log('[getCurrentUser] Cookie User ID:', userId); // Debug log
-    if (!userId) {
-        // console.log('[getCurrentUser] No user ID in cookie.'); // Debug log
+// Resolves the session cookie against the session store (signature, expiry, revocation)
+async function getCurrentSession() {
+    const sessionToken = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+    if (!sessionToken) {
         return null;
     }
     try {
-        // Fetch user from placeholder data store
-        const user = await findUserById(userId);
-        // console.log('[getCurrentUser] User found by ID:', user ? user.id : 'null'); // Debug log
-        // Return the full user object if found, including the password (though usually sensitive data isn't passed around like this)
-        return user;
+        return await validateSessionToken(sessionToken, await getRequestMetadata());
     } catch (error) {
-        console.error("Error fetching current user:", error);
-        // Optionally clear the cookie if user fetch fails?
-        // cookies().delete(SESSION_COOKIE_NAME);
+        console.error("Error validating session:", error);
         return null;
     }
 }
+
+// Helper to get the current user based on the session cookie
+export async function getCurrentUser(): Promise<User | null> {
+    const validated = await getCurrentSession();
+    // Never hand the password hash to pages/components
+    return validated ? toPublicUser(validated.user) : null;
+}
+
+// Id of the session making this request (used to mark "this device" and to keep it when signing out elsewhere)
+export async function getCurrentSessionId(): Promise<string | null> {
+    const validated = await getCurrentSession();
+    return validated?.session.id ?? null;
+}
@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { Category, Post, Topic, User } from '@/lib/types';
+import { getCurrentUser } from './auth';
+import { deletePost, markTopicReadAction, mergeTopicsAction, moveTopicAction, splitTopicAction, submitPost, toggleReactionAction, updateTopicStatusAction } from './forums';
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+vi.mock('./auth', () => ({ getCurrentUser: vi.fn() }));
+
+const member = (id: string, overrides: Partial<User> = {}): User =>
+    ({ id, username: id, email: `${id}@example.com`, role: 'member', createdAt: new Date(), emailVerifiedAt: new Date(), ...overrides });
+const alice = member('alice');
+const moderator = member('mod', { role: 'moderator' });
+
+const category = (id: string, overrides: Partial<Category> = {}): Category =>
+    ({ id, name: id, createdAt: new Date(), topicCount: 1, postCount: 1, position: 0, ...overrides });
+const topic = (id: string, categoryId: string): Topic =>
+    ({ id, title: id, categoryId, authorId: 'alice', createdAt: new Date(), lastActivity: new Date(), postCount: 1 });
+const post = (id: string, topicId: string): Post =>
+    ({ id, content: `${id} content`, topicId, authorId: 'alice', createdAt: new Date() });
+
+const editForm = (postId: string, topicId: string, content = 'The edited content of the post.') => {
+    const formData = new FormData();
+    formData.set('content', content);
+    formData.set('topicId', topicId);
+    formData.set('postId', postId);
+    return formData;
+};
+
+const replyForm = (topicId: string, content = 'A reply that is long enough.') => {
+    const formData = new FormData();
+    formData.set('content', content);
+    formData.set('topicId', topicId);
+    return formData;
+};
+
+describe('post actions', () => {
+    beforeEach(async () => {
+        const repo = getRepository();
+        await repo.users.insert(alice);
+        await repo.users.insert(moderator);
+        await repo.categories.insert(category('open'));
+        // Alice wrote in the staff category before it was closed to everyone but admins
+        await repo.categories.insert(category('staff', { access: { view: { roles: ['admin'], groups: [] } } }));
+        await repo.topics.insert(topic('t-open', 'open'));
+        await repo.topics.insert(topic('t-staff', 'staff'));
+        await repo.posts.insert(post('p-open', 't-open'));
+        await repo.posts.insert(post('p-staff', 't-staff'));
+    });
+
+    describe('editing', () => {
+        it('edits a post in its own topic', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await submitPost(undefined, editForm('p-open', 't-open'))).toMatchObject({ success: true });
+            expect((await getRepository().posts.findById('p-open'))?.content).toBe('The edited content of the post.');
+        });
+
+        it('checks the topic the post is in, not the one sent along', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await submitPost(undefined, editForm('p-staff', 't-open'))).toMatchObject({ success: false });
+            expect(await submitPost(undefined, editForm('p-staff', 't-staff'))).toMatchObject({ success: false });
+            expect((await getRepository().posts.findById('p-staff'))?.content).toBe('p-staff content');
+        });
+
+        it('refuses edits in archived categories', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            await getRepository().categories.update('open', { archivedAt: new Date() });
+            expect(await submitPost(undefined, editForm('p-open', 't-open'))).toMatchObject({ success: false });
+            expect((await getRepository().posts.findById('p-open'))?.content).toBe('p-open content');
+        });
+    });
+
+    describe('deleting', () => {
+        it('deletes a post in its own topic', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            expect(await deletePost('p-open', 't-open')).toMatchObject({ success: true });
+            expect(await getRepository().posts.findById('p-open')).toBeNull();
+        });
+
+        it('checks the topic the post is in, not the one sent along', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            expect(await deletePost('p-staff', 't-open')).toMatchObject({ success: false });
+            expect(await deletePost('p-staff', 't-staff')).toMatchObject({ success: false });
+            expect(await getRepository().posts.findById('p-staff')).not.toBeNull();
+        });
+
+        it('refuses a topicId that does not match the post', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            await getRepository().topics.insert(topic('t-other', 'open'));
+            expect(await deletePost('p-open', 't-other')).toMatchObject({ success: false });
+            expect(await getRepository().posts.findById('p-open')).not.toBeNull();
+        });
+
+        it('refuses deletes in archived categories, even for admins', async () => {
+            await getRepository().categories.update('open', { archivedAt: new Date() });
+            for (const user of [alice, moderator, member('admin', { role: 'admin' })]) {
+                vi.mocked(getCurrentUser).mockResolvedValue(user);
+                expect(await deletePost('p-open', 't-open')).toMatchObject({ success: false });
+            }
+            expect(await getRepository().posts.findById('p-open')).not.toBeNull();
+        });
+    });
+
+    describe('marking topics read', () => {
+        it('moves the topic marker to the post', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await markTopicReadAction('p-open')).toMatchObject({ success: true });
+            expect(await getRepository().readMarkers.findById('alice:topic:t-open')).toMatchObject({ postId: 'p-open' });
+        });
+
+        it('treats posts the user cannot see as missing', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await markTopicReadAction('p-staff')).toEqual({ success: false, message: 'Post not found.' });
+            expect(await getRepository().readMarkers.findById('alice:topic:t-staff')).toBeNull();
+        });
+
+        it('needs a signed-in user', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(null);
+            expect(await markTopicReadAction('p-open')).toMatchObject({ success: false });
+        });
+    });
+
+    describe('topic status', () => {
+        it('lets moderators lock topics, pin them and announce them', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            expect(await updateTopicStatusAction('t-open', { locked: true, pinned: true, announcement: true })).toMatchObject({ success: true });
+            expect(await getRepository().topics.findById('t-open')).toMatchObject({ lockedAt: expect.any(Date), pinnedAt: expect.any(Date), announcedAt: expect.any(Date) });
+            expect(await updateTopicStatusAction('t-open', { pinned: false })).toMatchObject({ success: true });
+            expect((await getRepository().topics.findById('t-open'))?.pinnedAt).toBeUndefined();
+        });
+
+        it('needs the moderator permissions', async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await updateTopicStatusAction('t-open', { locked: true })).toMatchObject({ success: false });
+            expect(await updateTopicStatusAction('t-open', { pinned: true })).toMatchObject({ success: false });
+            expect((await getRepository().topics.findById('t-open'))?.lockedAt).toBeUndefined();
+        });
+
+        it('refuses replies to locked topics, except from moderators', async () => {
+            await getRepository().topics.update('t-open', { lockedAt: new Date() });
+            vi.mocked(getCurrentUser).mockResolvedValue(alice);
+            expect(await submitPost(undefined, replyForm('t-open'))).toEqual({ success: false, message: 'This topic is locked. No new replies can be posted.' });
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            expect(await submitPost(undefined, replyForm('t-open'))).toMatchObject({ success: true });
+            expect(await getRepository().posts.countByTopic('t-open')).toBe(2);
+        });
+    });
+
+    describe('moving, merging and splitting', () => {
+        const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 0, minutes));
+        const topicPosts = async (id: string) => (await getRepository().topics.findById(id))?.postCount;
+        const counts = async (categoryId: string) => {
+            const category = await getRepository().categories.findById(categoryId);
+            return { topicCount: category?.topicCount, postCount: category?.postCount };
+        };
+
+        beforeEach(async () => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+            const repo = getRepository();
+            await repo.categories.insert(category('other', { topicCount: 1, postCount: 3 }));
+            await repo.topics.insert({ ...topic('t-two', 'other'), postCount: 3 });
+            for (const [id, minutes] of [['q1', 1], ['q2', 2], ['q3', 3]] as const) {
+                await repo.posts.insert({ ...post(id, 't-two'), createdAt: at(minutes) });
+            }
+        });
+
+        it('moves a topic and recounts both categories', async () => {
+            expect(await moveTopicAction('t-two', 'open')).toMatchObject({ success: true });
+            expect(await counts('open')).toEqual({ topicCount: 2, postCount: 4 });
+            expect(await counts('other')).toEqual({ topicCount: 0, postCount: 0 });
+        });
+
+        it('merges the posts into the target topic and recounts', async () => {
+            expect(await mergeTopicsAction('t-two', 't-open')).toMatchObject({ success: true, topicId: 't-open' });
+            expect(await getRepository().topics.findById('t-two')).toBeNull();
+            expect(await topicPosts('t-open')).toBe(4);
+            expect(await counts('open')).toEqual({ topicCount: 1, postCount: 4 });
+            expect(await counts('other')).toEqual({ topicCount: 0, postCount: 0 });
+        });
+
+        it('splits posts into a new topic and recounts', async () => {
+            const result = await splitTopicAction('t-two', { title: 'Split off topic', categoryId: 'open', postIds: ['q2', 'q3'] });
+            expect(result).toMatchObject({ success: true });
+            const split = await getRepository().topics.findById(result.topicId!);
+            expect(split).toMatchObject({ categoryId: 'open', postCount: 2, createdAt: at(2), lastActivity: at(3) });
+            expect(await topicPosts('t-two')).toBe(1);
+            expect(await counts('open')).toEqual({ topicCount: 2, postCount: 3 });
+            expect(await counts('other')).toEqual({ topicCount: 1, postCount: 1 });
+        });
+
+        it('leaves at least one post behind', async () => {
+            expect(await splitTopicAction('t-two', { title: 'Split off topic', categoryId: 'open', postIds: ['q1', 'q2', 'q3'] })).toMatchObject({ success: false });
+            expect(await topicPosts('t-two')).toBe(3);
+        });
+
+        it('refuses archived categories on either side', async () => {
+            await getRepository().categories.update('other', { archivedAt: new Date() });
+            expect(await moveTopicAction('t-two', 'open')).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await moveTopicAction('t-open', 'other')).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await mergeTopicsAction('t-two', 't-open')).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await mergeTopicsAction('t-open', 't-two')).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await splitTopicAction('t-two', { title: 'Split off topic', categoryId: 'open', postIds: ['q3'] })).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await splitTopicAction('t-open', { title: 'Split off topic', categoryId: 'other', postIds: ['p-open'] })).toEqual({ success: false, message: 'This category is archived.' });
+            expect(await topicPosts('t-two')).toBe(3);
+            expect(await counts('open')).toEqual({ topicCount: 1, postCount: 1 });
+        });
+    });
+
+    describe('reactions', () => {
+        beforeEach(() => {
+            vi.mocked(getCurrentUser).mockResolvedValue(moderator);
+        });
+
+        it('toggles a reaction and tells the author once', async () => {
+            expect(await toggleReactionAction('p-open', '👍')).toMatchObject({ success: true, reacted: true });
+            expect(await getRepository().reactions.listByPosts(['p-open'])).toHaveLength(1);
+            expect(await toggleReactionAction('p-open', '👍')).toMatchObject({ success: true, reacted: false });
+            expect(await getRepository().reactions.listByPosts(['p-open'])).toEqual([]);
+            expect((await getRepository().notifications.listByUser('alice')).map(n => n.kind)).toEqual(['reaction']);
+        });
+
+        it('only adds emoji from the site set, but takes back any', async () => {
+            expect(await toggleReactionAction('p-open', '🦄')).toEqual({ success: false, message: "That reaction isn't available." });
+            await getRepository().reactions.insert({ id: 'p-open:mod:🦄', postId: 'p-open', userId: 'mod', emoji: '🦄', createdAt: new Date() });
+            expect(await toggleReactionAction('p-open', '🦄')).toMatchObject({ success: true, reacted: false });
+        });
+
+        it('refuses posts the user cannot see and archived categories', async () => {
+            expect(await toggleReactionAction('p-staff', '👍')).toEqual({ success: false, message: 'Post not found.' });
+            await getRepository().categories.update('open', { archivedAt: new Date() });
+            expect(await toggleReactionAction('p-open', '👍')).toEqual({ success: false, message: 'This category is archived.' });
+        });
+    });
+});
@@ -4,20 +4,34 @@ import { z } from "zod";
 import { revalidatePath } from "next/cache";
 import { redirect } from 'next/navigation';
 import {
-    createCategory as dbCreateCategory,
     createTopic as dbCreateTopic,
     createPost as dbCreatePost,
     updatePost as dbUpdatePost,
-    deletePost as dbDeletePost
-} from "@/lib/placeholder-data"; // Using placeholder functions
+    deletePost as dbDeletePost,
+    getCategoryById,
+    getTopicByIdSimple,
+    getPostByIdSimple,
+    getPostsPage as dbGetPostsPage,
+    getPostsByTopic,
+    updateTopicStatus as dbUpdateTopicStatus,
+    type TopicStatusChanges,
+    moveTopic as dbMoveTopic,
+    mergeTopics as dbMergeTopics,
+    splitTopic as dbSplitTopic,
+    searchUsersByUsername,
+    getPostLocation,
+    toggleReaction,
+} from "@/lib/data";
+import { getPostsPerPage, getSiteSettings } from "@/lib/settings";
 import { getCurrentUser } from "./auth";
+import { can, canInCategory } from "@/lib/permissions";
+import { USERNAME_PATTERN } from "@/lib/mentions";
+import { dispatchNotification, type TopicModeration } from "@/lib/notifications";
+import { setWatchLevel, WATCH_LEVELS, type WatchTarget } from "@/lib/watching";
+import { markCategoryRead, markTopicRead } from "@/lib/unread";
+import type { Category, CategoryAction, Topic, User, WatchLevel } from "@/lib/types";
 
 // --- Schemas ---
-const CategorySchema = z.object({
-    name: z.string().min(3, { message: "Category name must be at least 3 characters." }).max(100),
-    description: z.string().max(255).optional(),
-});
-
 const TopicSchema = z.object({
     title: z.string().min(5, { message: "Topic title must be at least 5 characters." }).max(150),
     categoryId: z.string().min(1, {message: "Category is required."}),
@@ -34,41 +48,36 @@ const PostSchema = z.object({
 });
 
 
-// --- Actions ---
+// --- Helpers ---
 
-// --- Categories ---
-export async function createCategory(prevState: any, formData: FormData) {
-    const user = await getCurrentUser();
-    if (!user?.isAdmin) {
-        return { message: "Unauthorized: Only admins can create categories.", success: false };
-    }
-
-    const validatedFields = CategorySchema.safeParse({
-        name: formData.get("name"),
-        description: formData.get("description"),
-    });
-
-    if (!validatedFields.success) {
-        return {
-            errors: validatedFields.error.flatten().fieldErrors,
-            message: "Failed to create category.",
-            success: false,
-        };
-    }
+// Checks a category rule for the topic's category. Topics in categories the user can't see are treated as missing.
+async function canInTopicCategory(user: User | null, topicId: string, action: CategoryAction): Promise<boolean> {
+    const topic = await getTopicByIdSimple(topicId);
+    const category = topic ? await getCategoryById(topic.categoryId) : null;
+    return !!category && canInCategory(user, category, action);
+}
 
-    const { name, description } = validatedFields.data;
+// Editing and deleting posts only needs the view rule, but nothing in an archived category changes
+async function canChangePostsInTopic(user: User | null, topicId: string): Promise<boolean> {
+    const topic = await getTopicByIdSimple(topicId);
+    const category = topic ? await getCategoryById(topic.categoryId) : null;
+    return !!category && !category.archivedAt && canInCategory(user, category, 'view');
+}
 
-    try {
-        const newCategory = await dbCreateCategory({ name, description });
-        revalidatePath("/"); // Revalidate home page where categories are listed
-        revalidatePath("/admin/categories"); // Revalidate admin page
-        return { message: `Category "${newCategory.name}" created successfully.`, success: true };
-    } catch (error) {
-        console.error("Create Category Error:", error);
-        return { message: "Database Error: Failed to create category.", success: false };
-    }
+// The status flags an update actually turned on or off
+function statusModerations(before: Topic, after: Topic): TopicModeration[] {
+    const flags = [
+        [before.pinnedAt, after.pinnedAt, 'pin', 'unpin'],
+        [before.lockedAt, after.lockedAt, 'lock', 'unlock'],
+        [before.announcedAt, after.announcedAt, 'announce', 'unannounce'],
+    ] as const;
+    return flags
+        .filter(([was, is]) => !was !== !is)
+        .map(([, is, on, off]) => ({ kind: is ? on : off }));
 }
 
+// --- Actions ---
+
 // --- Topics ---
 export async function createTopic(prevState: any, formData: FormData) {
     console.log("[Action createTopic] Received FormData Keys:", Array.from(formData.keys()));
@@ -76,6 +85,12 @@ export async function createTopic(prevState: any, formData: FormData) {
     if (!user) {
         return { message: "Unauthorized: You must be logged in to create a topic.", success: false };
     }
+    if (!can(user, 'topic.create')) {
+        return { message: "Unauthorized: Your account is not allowed to create topics.", success: false };
+    }
+    if (!user.emailVerifiedAt) {
+        return { message: "Please verify your email address before creating topics. Check your inbox for the verification link.", success: false };
+    }
 
      const validatedFields = TopicSchema.safeParse({
         title: formData.get("title"),
@@ -95,6 +110,14 @@ export async function createTopic(prevState: any, formData: FormData) {
     }
 
     const { title, categoryId, firstPostContent, firstPostImageUrl } = validatedFields.data;
+
+    const category = await getCategoryById(categoryId);
+    if (!category || !canInCategory(user, category, 'view')) {
+        return { message: "Category not found.", success: false };
+    }
+    if (!canInCategory(user, category, 'topic')) {
+        return { message: "Unauthorized: You can't start topics in this category.", success: false };
+    }
     console.log("[Action createTopic] Validated Data:", { title, categoryId, firstPostContent: '...', firstPostImageUrl: '...' }); // Avoid logging full content/image
 
     try {
@@ -129,6 +152,12 @@ export async function submitPost(prevState: any, formData: FormData) {
     if (!user) {
         return { message: "Unauthorized: You must be logged in to post.", success: false };
     }
+    if (!can(user, 'post.create')) {
+        return { message: "Unauthorized: Your account is not allowed to post.", success: false };
+    }
+    if (!user.emailVerifiedAt) {
+        return { message: "Please verify your email address before posting. Check your inbox for the verification link.", success: false };
+    }
 
     // Log raw values before parsing
     console.log("[Action submitPost] Raw Form Data:", {
@@ -161,6 +190,19 @@ export async function submitPost(prevState: any, formData: FormData) {
     const removeImage = formData.get("removeImage") === "true"; // Ensure boolean conversion is robust
     console.log("[Action submitPost] Validated Data:", { content: '...', topicId, postId, imageUrl: '...', removeImage }); // Avoid logging full content/image
 
+    // An edit is checked against the topic the post is actually in, which has to be the one sent
+    if (postId && (await getPostByIdSimple(postId))?.topicId !== topicId) {
+        return { message: "Error: Failed to update post. Post not found or permission denied.", success: false };
+    }
+    // Edits need a visible, unarchived category; new replies need its reply rule
+    if (!(postId ? await canChangePostsInTopic(user, topicId) : await canInTopicCategory(user, topicId, 'reply'))) {
+        return { message: "Unauthorized: You can't post in this topic.", success: false };
+    }
+    // Locked topics take no new replies, except from moderators
+    if (!postId && (await getTopicByIdSimple(topicId))?.lockedAt && !can(user, 'topic.lock')) {
+        return { message: "This topic is locked. No new replies can be posted.", success: false };
+    }
+
     try {
         let savedPost;
         if (postId) {
@@ -205,9 +247,15 @@ export async function deletePost(postId: string, topicId: string): Promise<{succ
         return { success: false, message: "Unauthorized: You must be logged in to delete posts."};
     }
 
+    // Check the topic the post is actually in; a mismatched topicId is treated as a missing post
+    const post = await getPostByIdSimple(postId);
+    if (!post || post.topicId !== topicId || !(await canChangePostsInTopic(user, post.topicId))) {
+        return { success: false, message: "Failed to delete post. Post not found or permission denied."};
+    }
+
     try {
         console.log(`[Action deletePost] Deleting post ${postId} in topic ${topicId} by user ${user.id}`);
-        const success = await dbDeletePost(postId, user.id, user.isAdmin ?? false); // Pass isAdmin status
+        const success = await dbDeletePost(postId, user.id); // Checks post.delete permission for this user
         if (!success) {
              console.error(`[Action deletePost] dbDeletePost failed for post ${postId}`);
              return { success: false, message: "Failed to delete post. Post not found or permission denied."};
@@ -216,7 +264,7 @@ export async function deletePost(postId: string, topicId: string): Promise<{succ
         revalidatePath(`/topics/${topicId}`); // Revalidate the topic page after deletion
 
         // Fetch topic to get category ID for revalidation
-        const topic = await import('@/lib/placeholder-data').then(mod => mod.getTopicByIdSimple(topicId));
+        const topic = await getTopicByIdSimple(topicId);
         if (topic?.categoryId) {
             revalidatePath(`/categories/${topic.categoryId}`);
         } else {
@@ -231,11 +279,306 @@ export async function deletePost(postId: string, topicId: string): Promise<{succ
     }
 }
 
-// Helper function (can be called from Server Components)
-export const getPostsByTopic = async (topicId: string) => {
-    // In a real app, you'd fetch from your actual DB here
-    console.log(`[Action getPostsByTopic] Fetching posts for topic ${topicId}`);
-    const posts = await import('@/lib/placeholder-data').then(mod => mod.getPostsByTopic(topicId));
-     console.log(`[Action getPostsByTopic] Found ${posts.length} posts for topic ${topicId}`);
-    return posts;
-}
\ No newline at end of file
+// Pin, lock or announce a topic. Each change needs its own moderator permission.
+export async function updateTopicStatusAction(topicId: string, changes: TopicStatusChanges): Promise<{ success: boolean, message: string }> {
+    const user = await getCurrentUser();
+    const allowed = (changes.locked === undefined || can(user, 'topic.lock'))
+        && ((changes.pinned === undefined && changes.announcement === undefined) || can(user, 'topic.pin'));
+    if (!user || !allowed) {
+        return { success: false, message: "Unauthorized: You don't have permission to moderate topics." };
+    }
+    if (!(await canInTopicCategory(user, topicId, 'view'))) {
+        return { success: false, message: "Topic not found." };
+    }
+
+    try {
+        const before = await getTopicByIdSimple(topicId);
+        const topic = await dbUpdateTopicStatus(topicId, changes);
+        if (!before || !topic) {
+            return { success: false, message: "Topic not found." };
+        }
+        console.log(`[Action updateTopicStatus] ${user.id} updated topic ${topicId}:`, changes);
+        for (const action of statusModerations(before, topic)) {
+            await dispatchNotification({ type: 'topic.moderated', topic, actorId: user.id, action });
+        }
+        revalidatePath(`/topics/${topicId}`);
+        revalidatePath('/categories/[categoryId]', 'page'); // Announcements show on every category page
+        return { success: true, message: "Topic updated." };
+    } catch (error: any) {
+        console.error("[Action updateTopicStatus] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to update topic." };
+    }
+}
+
+// --- Moderator tools: move, merge, split ---
+// All three need `topic.move`, and the moderator must be able to see every category involved.
+// Like posts, topics in an archived category stay where they are and nothing moves into one.
+
+const TOPIC_NOT_FOUND = "Topic not found.";
+const CATEGORY_ARCHIVED = "This category is archived.";
+
+// The topic's category, or null when the topic is missing or its category is hidden from the user
+async function getVisibleTopicCategory(user: User, topicId: string): Promise<Category | null> {
+    const topic = await getTopicByIdSimple(topicId);
+    const category = topic ? await getCategoryById(topic.categoryId) : null;
+    return category && canInCategory(user, category, 'view') ? category : null;
+}
+
+// Category pages, the home page and the admin dashboard all show topic/post counts
+const revalidateCounts = () => {
+    revalidatePath('/categories/[categoryId]', 'page');
+    revalidatePath('/');
+    revalidatePath('/admin');
+};
+
+export async function moveTopicAction(topicId: string, categoryId: string): Promise<{ success: boolean, message: string }> {
+    const user = await getCurrentUser();
+    if (!user || !can(user, 'topic.move')) {
+        return { success: false, message: "Unauthorized: You don't have permission to move topics." };
+    }
+    const currentCategory = await getVisibleTopicCategory(user, topicId);
+    if (!currentCategory) {
+        return { success: false, message: TOPIC_NOT_FOUND };
+    }
+    const category = await getCategoryById(categoryId);
+    if (!category || !canInCategory(user, category, 'view')) {
+        return { success: false, message: "Category not found." };
+    }
+    if (currentCategory.archivedAt || category.archivedAt) {
+        return { success: false, message: CATEGORY_ARCHIVED };
+    }
+
+    try {
+        const previousCategoryId = (await getTopicByIdSimple(topicId))?.categoryId;
+        const topic = await dbMoveTopic(topicId, categoryId);
+        if (!topic) return { success: false, message: TOPIC_NOT_FOUND };
+        console.log(`[Action moveTopic] ${user.id} moved topic ${topicId} to category ${categoryId}`);
+        if (previousCategoryId !== categoryId) {
+            await dispatchNotification({ type: 'topic.moderated', topic, actorId: user.id, action: { kind: 'move', categoryName: category.name } });
+        }
+        revalidatePath(`/topics/${topicId}`);
+        revalidateCounts();
+        return { success: true, message: `Topic moved to "${category.name}".` };
+    } catch (error: any) {
+        console.error("[Action moveTopic] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to move topic." };
+    }
+}
+
+// Moves every post of the source topic into the target topic; the source topic is deleted.
+export async function mergeTopicsAction(sourceTopicId: string, targetTopicId: string): Promise<{ success: boolean, message: string, topicId?: string }> {
+    const user = await getCurrentUser();
+    if (!user || !can(user, 'topic.move')) {
+        return { success: false, message: "Unauthorized: You don't have permission to merge topics." };
+    }
+    if (sourceTopicId === targetTopicId) {
+        return { success: false, message: "A topic can't be merged into itself." };
+    }
+    const sourceCategory = await getVisibleTopicCategory(user, sourceTopicId);
+    const targetCategory = await getVisibleTopicCategory(user, targetTopicId);
+    if (!sourceCategory || !targetCategory) {
+        return { success: false, message: TOPIC_NOT_FOUND };
+    }
+    if (sourceCategory.archivedAt || targetCategory.archivedAt) {
+        return { success: false, message: CATEGORY_ARCHIVED };
+    }
+
+    try {
+        const source = await getTopicByIdSimple(sourceTopicId); // Deleted by the merge
+        const topic = await dbMergeTopics(sourceTopicId, targetTopicId);
+        if (!source || !topic) return { success: false, message: TOPIC_NOT_FOUND };
+        console.log(`[Action mergeTopics] ${user.id} merged topic ${sourceTopicId} into ${targetTopicId}`);
+        await dispatchNotification({ type: 'topic.moderated', topic: source, actorId: user.id, action: { kind: 'merge', into: topic } });
+        revalidatePath(`/topics/${sourceTopicId}`);
+        revalidatePath(`/topics/${targetTopicId}`);
+        revalidateCounts();
+        return { success: true, message: `Posts merged into "${topic.title}".`, topicId: topic.id };
+    } catch (error: any) {
+        console.error("[Action mergeTopics] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to merge topics." };
+    }
+}
+
+const SplitTopicSchema = z.object({
+    title: TopicSchema.shape.title,
+    categoryId: TopicSchema.shape.categoryId,
+    postIds: z.array(z.string()).min(1, { message: "Select at least one post to split off." }),
+});
+
+// Moves the selected posts of a topic into a new topic
+export async function splitTopicAction(topicId: string, input: { title: string; categoryId: string; postIds: string[] }): Promise<{ success: boolean, message: string, topicId?: string }> {
+    const user = await getCurrentUser();
+    if (!user || !can(user, 'topic.move')) {
+        return { success: false, message: "Unauthorized: You don't have permission to split topics." };
+    }
+    const parsed = SplitTopicSchema.safeParse(input);
+    if (!parsed.success) {
+        return { success: false, message: parsed.error.issues[0]?.message || "Invalid split." };
+    }
+    const { title, categoryId, postIds } = parsed.data;
+    const currentCategory = await getVisibleTopicCategory(user, topicId);
+    if (!currentCategory) {
+        return { success: false, message: TOPIC_NOT_FOUND };
+    }
+    const category = await getCategoryById(categoryId);
+    if (!category || !canInCategory(user, category, 'view')) {
+        return { success: false, message: "Category not found." };
+    }
+    if (currentCategory.archivedAt || category.archivedAt) {
+        return { success: false, message: CATEGORY_ARCHIVED };
+    }
+
+    try {
+        const newTopic = await dbSplitTopic({ topicId, postIds, title, categoryId });
+        if (!newTopic) {
+            return { success: false, message: "Failed to split topic. Select posts of this topic, and leave at least one behind." };
+        }
+        console.log(`[Action splitTopic] ${user.id} split ${postIds.length} posts of topic ${topicId} into ${newTopic.id}`);
+        const topic = await getTopicByIdSimple(topicId);
+        const movedPosts = await getPostsByTopic(newTopic.id);
+        if (topic) {
+            const authorIds = [...new Set(movedPosts.map(post => post.authorId))];
+            await dispatchNotification({ type: 'topic.moderated', topic, actorId: user.id, action: { kind: 'split', into: newTopic, authorIds } });
+        }
+        revalidatePath(`/topics/${topicId}`);
+        revalidateCounts();
+        return { success: true, message: `${postIds.length} post${postIds.length === 1 ? '' : 's'} moved to "${newTopic.title}".`, topicId: newTopic.id };
+    } catch (error: any) {
+        console.error("[Action splitTopic] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to split topic." };
+    }
+}
+
+// --- Watching ---
+
+const WATCH_MESSAGES: Record<WatchLevel, string> = {
+    off: "You won't be notified about new posts here.",
+    in_app: "You'll be notified about new posts here.",
+    email: "You'll be notified and emailed about new posts here.",
+};
+
+// Sets how the user follows a topic or a category (and its subcategories)
+export async function setWatchLevelAction(target: WatchTarget, level: WatchLevel): Promise<{ success: boolean, message: string }> {
+    const user = await getCurrentUser();
+    if (!user) {
+        return { success: false, message: "Unauthorized: You must be logged in to watch topics and categories." };
+    }
+    if (!WATCH_LEVELS.includes(level)) {
+        return { success: false, message: "Unknown watch level." };
+    }
+    // Rebuilt so a client can't send both ids
+    const watchTarget: WatchTarget = 'topicId' in target ? { topicId: String(target.topicId) } : { categoryId: String(target.categoryId) };
+    if ('topicId' in watchTarget) {
+        if (!(await canInTopicCategory(user, watchTarget.topicId, 'view'))) {
+            return { success: false, message: TOPIC_NOT_FOUND };
+        }
+    } else {
+        const category = await getCategoryById(watchTarget.categoryId);
+        if (!category || !canInCategory(user, category, 'view')) {
+            return { success: false, message: "Category not found." };
+        }
+    }
+
+    try {
+        await setWatchLevel(user.id, watchTarget, level);
+        revalidatePath('topicId' in watchTarget ? `/topics/${watchTarget.topicId}` : `/categories/${watchTarget.categoryId}`);
+        return { success: true, message: WATCH_MESSAGES[level] };
+    } catch (error: any) {
+        console.error("[Action setWatchLevel] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to update watch." };
+    }
+}
+
+// Clears the "new" indicators in a category and its subcategories
+export async function markCategoryReadAction(categoryId: string): Promise<{ success: boolean, message: string }> {
+    const user = await getCurrentUser();
+    if (!user) {
+        return { success: false, message: "Unauthorized: You must be logged in to mark categories read." };
+    }
+    const category = await getCategoryById(categoryId);
+    if (!category || !canInCategory(user, category, 'view')) {
+        return { success: false, message: "Category not found." };
+    }
+
+    try {
+        await markCategoryRead(user.id, category.id);
+        revalidatePath('/', 'layout'); // New indicators show on the home page, parent categories and /unread
+        return { success: true, message: `Marked "${category.name}" as read.` };
+    } catch (error: any) {
+        console.error("[Action markCategoryRead] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to mark category read." };
+    }
+}
+
+// Records that the user has seen the post's topic up to the post. Called by the topic page once it's
+// shown, not while rendering it, so prefetches and crawlers don't mark anything read.
+export async function markTopicReadAction(postId: string): Promise<{ success: boolean, message: string }> {
+    const user = await getCurrentUser();
+    if (!user) {
+        return { success: false, message: "Unauthorized: You must be logged in to mark topics read." };
+    }
+    const post = await getPostByIdSimple(postId);
+    if (!post || !(await canInTopicCategory(user, post.topicId, 'view'))) {
+        return { success: false, message: "Post not found." };
+    }
+
+    try {
+        await markTopicRead(user.id, post);
+        return { success: true, message: "Marked topic as read." };
+    } catch (error: any) {
+        console.error("[Action markTopicRead] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to mark topic read." };
+    }
+}
+
+// Adds or takes back the user's reaction to a post. Only the emoji in the site settings can be added,
+// but a reaction whose emoji was since removed from the set can still be taken back.
+export async function toggleReactionAction(postId: string, emoji: string): Promise<{ success: boolean, message: string, reacted?: boolean }> {
+    const user = await getCurrentUser();
+    if (!user || !can(user, 'post.react')) {
+        return { success: false, message: "Unauthorized: You must be logged in to react to posts." };
+    }
+    const location = await getPostLocation(postId);
+    const topic = location ? await getTopicByIdSimple(location.topicId) : null;
+    const category = topic ? await getCategoryById(topic.categoryId) : null;
+    if (!topic || !category || !canInCategory(user, category, 'view')) {
+        return { success: false, message: "Post not found." };
+    }
+    if (category.archivedAt) {
+        return { success: false, message: "This category is archived." };
+    }
+
+    try {
+        const allowed = (await getSiteSettings()).reactions.includes(emoji);
+        const reacted = await toggleReaction(postId, user.id, emoji, { canAdd: allowed });
+        if (reacted === null) {
+            return { success: false, message: allowed ? "Post not found." : "That reaction isn't available." };
+        }
+        revalidatePath(`/topics/${topic.id}`);
+        return { success: true, message: reacted ? `Reacted with ${emoji}.` : `Removed your ${emoji} reaction.`, reacted };
+    } catch (error: any) {
+        console.error("[Action toggleReaction] Error:", error);
+        return { success: false, message: error.message || "Database Error: Failed to update reaction." };
+    }
+}
+
+// Helper function (can be called from Server Components). Returns null for topics the user can't see.
+export const getPostsPage = async (topicId: string, page: number) => {
+    console.log(`[Action getPostsPage] Fetching page ${page} of topic ${topicId}`);
+    const user = await getCurrentUser();
+    // Callable from the client too, so it must not leak posts from private categories
+    if (!(await canInTopicCategory(user, topicId, 'view'))) return null;
+    const postsPage = await dbGetPostsPage(topicId, page, await getPostsPerPage(user), user);
+    console.log(`[Action getPostsPage] Found ${postsPage.items.length} of ${postsPage.totalItems} posts for topic ${topicId}`);
+    return postsPage;
+}
+
+const MENTION_SUGGESTION_LIMIT = 8;
+
+// Usernames for @mention autocomplete. Only signed-in users write posts, so guests get nothing.
+export const searchMentionCandidates = async (prefix: string): Promise<string[]> => {
+    const user = await getCurrentUser();
+    if (!user || !prefix || !USERNAME_PATTERN.test(prefix)) return [];
+    const users = await searchUsersByUsername(prefix, MENTION_SUGGESTION_LIMIT);
+    return users.map(candidate => candidate.username).filter(username => USERNAME_PATTERN.test(username));
+}
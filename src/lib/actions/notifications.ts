@@ -0,0 +1,39 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentUser } from "./auth";
+import { markNotificationRead, markAllNotificationsRead } from "@/lib/data";
+
+// Both refresh the whole layout: the unread count shows in the header on every page
+
+export async function markNotificationReadAction(notificationId: string) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        if (!(await markNotificationRead(user.id, notificationId))) {
+            throw new Error("Notification not found.");
+        }
+        revalidatePath('/', 'layout');
+        return { success: true, message: "Notification marked as read." };
+    } catch (error: any) {
+        console.error("Mark Notification Read Error:", error);
+        return { success: false, message: error.message || "Failed to mark notification as read." };
+    }
+}
+
+export async function markAllNotificationsReadAction() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            throw new Error("Unauthorized: You must be logged in.");
+        }
+        const marked = await markAllNotificationsRead(user.id);
+        revalidatePath('/', 'layout');
+        return { success: true, message: `Marked ${marked} notification${marked === 1 ? '' : 's'} as read.` };
+    } catch (error: any) {
+        console.error("Mark All Notifications Read Error:", error);
+        return { success: false, message: error.message || "Failed to mark notifications as read." };
+    }
+}
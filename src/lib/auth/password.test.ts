@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, isPasswordHash, verifyPassword } from './password';
+
+describe('password hashing', () => {
+    it('hashes with a fresh salt and verifies the password', async () => {
+        const hash = await hashPassword('correct horse');
+        expect(isPasswordHash(hash)).toBe(true);
+        expect(hash).not.toBe(await hashPassword('correct horse'));
+        expect(await verifyPassword('correct horse', hash)).toEqual({ valid: true, needsRehash: false });
+        expect(await verifyPassword('wrong horse', hash)).toEqual({ valid: false, needsRehash: false });
+    });
+
+    it('accepts legacy plain-text passwords once and asks for a rehash', async () => {
+        expect(isPasswordHash('hunter2')).toBe(false);
+        expect(await verifyPassword('hunter2', 'hunter2')).toEqual({ valid: true, needsRehash: true });
+        expect(await verifyPassword('hunter3', 'hunter2')).toEqual({ valid: false, needsRehash: false });
+    });
+
+    it('asks for a rehash when the parameters are outdated', async () => {
+        const current = await hashPassword('secret');
+        const [prefix, , r, p, salt] = current.split('$');
+        // Same password under weaker parameters
+        const { scryptSync } = await import('node:crypto');
+        const weakHash = scryptSync('secret', Buffer.from(salt, 'base64'), 64, { N: 2 ** 10, r: Number(r), p: Number(p) }).toString('base64');
+        const weak = [prefix, 2 ** 10, r, p, salt, weakHash].join('$');
+        expect(await verifyPassword('secret', weak)).toEqual({ valid: true, needsRehash: true });
+    });
+
+    it('rejects every password when there is no stored hash', async () => {
+        expect((await verifyPassword('', undefined)).valid).toBe(false);
+        expect((await verifyPassword('anything', null)).valid).toBe(false);
+    });
+});
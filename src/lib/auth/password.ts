@@ -0,0 +1,71 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual, createHash, type ScryptOptions } from 'node:crypto';
+
+// scrypt is memory-hard: each hash needs 128 * N * r bytes (32 MiB with the values below).
+// Raising these later is safe: hashes record their own parameters and are upgraded on the next login.
+const CURRENT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const PREFIX = 'scrypt';
+
+const scrypt = (password: string, salt: Buffer, keyLength: number, options: ScryptOptions) =>
+    new Promise<Buffer>((resolve, reject) => {
+        scryptCallback(password, salt, keyLength, { ...options, maxmem: 256 * options.N! * options.r! }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+
+interface ParsedHash {
+    N: number;
+    r: number;
+    p: number;
+    salt: Buffer;
+    hash: Buffer;
+}
+
+// Format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+const parseHash = (stored: string): ParsedHash | null => {
+    const parts = stored.split('$');
+    if (parts.length !== 6 || parts[0] !== PREFIX) return null;
+    const [N, r, p] = parts.slice(1, 4).map(Number);
+    if (![N, r, p].every(Number.isSafeInteger)) return null;
+    return { N, r, p, salt: Buffer.from(parts[4], 'base64'), hash: Buffer.from(parts[5], 'base64') };
+};
+
+export const isPasswordHash = (stored: string) => parseHash(stored) !== null;
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const { N, r, p } = CURRENT_PARAMS;
+    const hash = await scrypt(password, salt, KEY_LENGTH, { N, r, p });
+    return [PREFIX, N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+// Used when there is no stored hash (unknown account) so failed lookups cost the same as failed passwords.
+const DUMMY_HASH = `${PREFIX}$${CURRENT_PARAMS.N}$${CURRENT_PARAMS.r}$${CURRENT_PARAMS.p}$${Buffer.alloc(SALT_BYTES).toString('base64')}$${Buffer.alloc(KEY_LENGTH).toString('base64')}`;
+
+export interface PasswordCheck {
+    valid: boolean;
+    needsRehash: boolean; // True for legacy plain-text values and hashes made with outdated parameters
+}
+
+/**
+ * Constant-time password check against a stored value, which may be an scrypt hash
+ * or a legacy plain-text password from before hashing was introduced.
+ */
+export async function verifyPassword(password: string, stored: string | undefined | null): Promise<PasswordCheck> {
+    const parsed = parseHash(stored ?? DUMMY_HASH);
+
+    if (!parsed) {
+        // Legacy plain text: compare fixed-length digests so timing doesn't leak the length or prefix.
+        const expected = createHash('sha256').update(stored ?? '').digest();
+        const actual = createHash('sha256').update(password).digest();
+        const valid = timingSafeEqual(expected, actual);
+        return { valid, needsRehash: valid };
+    }
+
+    const derived = await scrypt(password, parsed.salt, parsed.hash.length, { N: parsed.N, r: parsed.r, p: parsed.p });
+    const valid = !!stored && derived.length === parsed.hash.length && timingSafeEqual(derived, parsed.hash);
+    const outdated = parsed.N !== CURRENT_PARAMS.N || parsed.r !== CURRENT_PARAMS.r || parsed.p !== CURRENT_PARAMS.p || parsed.hash.length !== KEY_LENGTH;
+    return { valid, needsRehash: valid && outdated };
+}
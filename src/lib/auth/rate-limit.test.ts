@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearLoginThrottle, formatRetryAfter, getLoginBlock, listActiveLoginBlocks, LOCKOUT_MS, recordLoginFailure, recordLoginSuccess } from './rate-limit';
+
+const fail = async (times: number, ip: string | undefined, email: string) => {
+    let block = null;
+    for (let i = 0; i < times; i++) block = await recordLoginFailure(ip, email);
+    return block;
+};
+
+describe('login rate limiting', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('lets the first few failures through, then backs off exponentially', async () => {
+        expect(await fail(3, '10.0.0.1', 'alice@example.com')).toBeNull();
+        expect(await recordLoginFailure('10.0.0.1', 'alice@example.com')).toEqual({ scope: 'account', retryAfterMs: 1000, locked: false });
+        expect(await recordLoginFailure('10.0.0.1', 'alice@example.com')).toMatchObject({ retryAfterMs: 2000 });
+        expect(await getLoginBlock('10.0.0.2', 'ALICE@example.com ')).toMatchObject({ scope: 'account' });
+    });
+
+    it('locks an account out after too many failures', async () => {
+        const block = await fail(10, undefined, 'alice@example.com');
+        expect(block).toEqual({ scope: 'account', retryAfterMs: LOCKOUT_MS, locked: true });
+        vi.advanceTimersByTime(LOCKOUT_MS);
+        expect(await getLoginBlock(undefined, 'alice@example.com')).toBeNull();
+        // A served lockout starts a fresh count
+        expect(await recordLoginFailure(undefined, 'alice@example.com')).toBeNull();
+    });
+
+    it('counts failures per IP across accounts', async () => {
+        for (let i = 0; i < 11; i++) await recordLoginFailure('10.0.0.1', `user${i}@example.com`);
+        expect(await getLoginBlock('10.0.0.1', 'someone@example.com')).toMatchObject({ scope: 'ip', locked: false });
+        expect(await getLoginBlock('10.0.0.2', 'someone@example.com')).toBeNull();
+    });
+
+    it('clears the account counter on success but leaves the IP counter', async () => {
+        await fail(11, '10.0.0.1', 'alice@example.com');
+        await recordLoginSuccess('alice@example.com');
+        expect(await getLoginBlock(undefined, 'alice@example.com')).toBeNull();
+        expect(await getLoginBlock('10.0.0.1', 'bob@example.com')).toMatchObject({ scope: 'ip' });
+    });
+
+    it('lists and clears active blocks for admins', async () => {
+        await fail(4, undefined, 'alice@example.com');
+        const [active] = await listActiveLoginBlocks();
+        expect(active.id).toBe('account:alice@example.com');
+        expect(await clearLoginThrottle(active.id)).toBe(true);
+        expect(await listActiveLoginBlocks()).toEqual([]);
+    });
+
+    it('formats waits rounded up', () => {
+        expect(formatRetryAfter(1)).toBe('1 second');
+        expect(formatRetryAfter(42_100)).toBe('43 seconds');
+        expect(formatRetryAfter(LOCKOUT_MS)).toBe('15 minutes');
+    });
+});
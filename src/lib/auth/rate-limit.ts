@@ -0,0 +1,109 @@
+import { getRepository } from '@/lib/db';
+import type { LoginThrottle, LoginThrottleScope } from '@/lib/types';
+
+/**
+ * Login brute-force protection. Failures are counted separately per client IP and per
+ * account (email). After a few free attempts every further failure doubles the wait before
+ * the next attempt is accepted; crossing the lockout threshold blocks the key for LOCKOUT_MS.
+ * Counters live in the repository, so they are in-memory or persistent like the rest of the data.
+ */
+const POLICY: Record<LoginThrottleScope, { freeAttempts: number; lockoutThreshold: number }> = {
+    account: { freeAttempts: 3, lockoutThreshold: 10 },
+    ip: { freeAttempts: 10, lockoutThreshold: 50 }, // Higher: many users can share an IP (NAT, offices)
+};
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+export const LOCKOUT_MS = 15 * 60 * 1000;
+const FAILURE_WINDOW_MS = 60 * 60 * 1000; // Counters reset after an hour without failures
+
+export interface LoginBlock {
+    scope: LoginThrottleScope;
+    retryAfterMs: number;
+    locked: boolean; // Lockout (threshold reached) rather than a short backoff delay
+}
+
+const throttleId = (scope: LoginThrottleScope, subject: string) => `${scope}:${subject}`;
+
+const loginKeys = (ip: string | undefined, email: string) => {
+    const keys: { scope: LoginThrottleScope; subject: string }[] = [{ scope: 'account', subject: email.trim().toLowerCase() }];
+    if (ip) keys.push({ scope: 'ip', subject: ip });
+    return keys;
+};
+
+const toBlock = (throttle: LoginThrottle, now: number): LoginBlock | null => {
+    const blockedUntil = throttle.blockedUntil?.getTime() ?? 0;
+    if (blockedUntil <= now) return null;
+    return { scope: throttle.scope, retryAfterMs: blockedUntil - now, locked: !!throttle.lockedAt };
+};
+
+// The longest block wins, so the caller can report a single wait time.
+const longest = (blocks: (LoginBlock | null)[]) =>
+    blocks.reduce<LoginBlock | null>((worst, block) => (block && (!worst || block.retryAfterMs > worst.retryAfterMs) ? block : worst), null);
+
+// Returns the active block for this IP/account, or null if a login attempt may proceed.
+export async function getLoginBlock(ip: string | undefined, email: string): Promise<LoginBlock | null> {
+    const repo = getRepository();
+    const now = Date.now();
+    const throttles = await Promise.all(loginKeys(ip, email).map(({ scope, subject }) => repo.loginThrottles.findById(throttleId(scope, subject))));
+    return longest(throttles.map(throttle => (throttle ? toBlock(throttle, now) : null)));
+}
+
+// Counts a failed attempt against both keys and returns the block that now applies, if any.
+export async function recordLoginFailure(ip: string | undefined, email: string): Promise<LoginBlock | null> {
+    const repo = getRepository();
+    const now = new Date();
+    await repo.loginThrottles.deleteStale(new Date(now.getTime() - FAILURE_WINDOW_MS));
+
+    const blocks: (LoginBlock | null)[] = [];
+    for (const { scope, subject } of loginKeys(ip, email)) {
+        const id = throttleId(scope, subject);
+        const existing = await repo.loginThrottles.findById(id);
+        // A served lockout starts a fresh count
+        const lockoutOver = existing?.lockedAt && (existing.blockedUntil?.getTime() ?? 0) <= now.getTime();
+        const failures = existing && !lockoutOver ? existing.failures + 1 : 1;
+        const { freeAttempts, lockoutThreshold } = POLICY[scope];
+
+        let blockedUntil: Date | undefined;
+        let lockedAt: Date | undefined;
+        if (failures >= lockoutThreshold) {
+            const alreadyLocked = !!existing?.lockedAt && !lockoutOver;
+            lockedAt = alreadyLocked ? existing!.lockedAt : now;
+            blockedUntil = new Date(now.getTime() + LOCKOUT_MS);
+            if (!alreadyLocked) {
+                console.warn(`[RateLimit] Locked ${scope} ${subject} for ${LOCKOUT_MS / 60000} minutes after ${failures} failed logins`);
+            }
+        } else if (failures > freeAttempts) {
+            const delay = Math.min(BASE_DELAY_MS * 2 ** (failures - freeAttempts - 1), MAX_DELAY_MS);
+            blockedUntil = new Date(now.getTime() + delay);
+        }
+
+        const saved = await repo.loginThrottles.save({ id, scope, subject, failures, lastFailureAt: now, blockedUntil, lockedAt });
+        blocks.push(toBlock(saved, now.getTime()));
+    }
+    return longest(blocks);
+}
+
+// A successful login clears the account's counter. The IP counter is left to expire, so one
+// valid account can't be used to reset the budget for guessing others.
+export async function recordLoginSuccess(email: string): Promise<void> {
+    await getRepository().loginThrottles.delete(throttleId('account', email.trim().toLowerCase()));
+}
+
+// Active blocks (backoff or lockout) for the admin user management page.
+export async function listActiveLoginBlocks(): Promise<LoginThrottle[]> {
+    return getRepository().loginThrottles.listBlocked(new Date());
+}
+
+export async function clearLoginThrottle(id: string): Promise<boolean> {
+    const cleared = await getRepository().loginThrottles.delete(id);
+    if (cleared) console.log(`[RateLimit] Cleared login throttle ${id}`);
+    return cleared;
+}
+
+// "42 seconds" / "15 minutes": rounded up so users never retry too early.
+export function formatRetryAfter(ms: number): string {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
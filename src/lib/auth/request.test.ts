@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clientIpFrom, getBaseUrl, getRequestMetadata } from './request';
+
+const requestHeaders = new Headers();
+vi.mock('next/headers', () => ({ headers: async () => requestHeaders }));
+
+describe('getBaseUrl', () => {
+    beforeEach(() => {
+        requestHeaders.set('host', 'localhost:9002');
+        requestHeaders.set('x-forwarded-host', 'evil.example');
+        requestHeaders.set('x-forwarded-proto', 'https');
+    });
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('uses FORUM_BASE_URL without a trailing slash', async () => {
+        vi.stubEnv('FORUM_BASE_URL', 'https://forum.example.com/');
+        expect(await getBaseUrl()).toBe('https://forum.example.com');
+    });
+
+    it('refuses to build links from request headers in production', async () => {
+        vi.stubEnv('FORUM_BASE_URL', '');
+        vi.stubEnv('NODE_ENV', 'production');
+        await expect(getBaseUrl()).rejects.toThrow(/FORUM_BASE_URL/);
+    });
+
+    it('ignores forwarded headers in development', async () => {
+        vi.stubEnv('FORUM_BASE_URL', '');
+        vi.stubEnv('NODE_ENV', 'development');
+        expect(await getBaseUrl()).toBe('http://localhost:9002');
+    });
+});
+
+describe('clientIpFrom', () => {
+    it('ignores X-Forwarded-For unless proxies are trusted', () => {
+        expect(clientIpFrom('203.0.113.7', 0)).toBeUndefined();
+        expect(clientIpFrom(null, 1)).toBeUndefined();
+    });
+
+    it('takes the hop the nearest trusted proxies added, not what the client sent', () => {
+        expect(clientIpFrom('203.0.113.7', 1)).toBe('203.0.113.7');
+        expect(clientIpFrom('6.6.6.6, 203.0.113.7', 1)).toBe('203.0.113.7');
+        expect(clientIpFrom('6.6.6.6, 203.0.113.7, 10.0.0.2', 2)).toBe('203.0.113.7');
+    });
+
+    it('gives up when the chain is shorter than the proxies', () => {
+        expect(clientIpFrom('203.0.113.7', 2)).toBeUndefined();
+    });
+});
+
+describe('getRequestMetadata', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('only trusts the forwarded address behind a configured proxy', async () => {
+        requestHeaders.set('x-forwarded-for', '6.6.6.6, 203.0.113.7');
+        requestHeaders.set('x-real-ip', '6.6.6.6');
+        vi.stubEnv('FORUM_TRUSTED_PROXIES', '');
+        expect((await getRequestMetadata()).ip).toBeUndefined();
+        vi.stubEnv('FORUM_TRUSTED_PROXIES', '1');
+        expect((await getRequestMetadata()).ip).toBe('203.0.113.7');
+    });
+});
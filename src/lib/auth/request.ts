@@ -0,0 +1,47 @@
+import { headers } from 'next/headers';
+
+export interface RequestMetadata {
+    ip?: string;
+    userAgent?: string;
+}
+
+// Reverse proxies in front of the app (FORUM_TRUSTED_PROXIES, default none)
+const trustedProxyCount = () => {
+    const count = Number(process.env.FORUM_TRUSTED_PROXIES ?? 0);
+    return Number.isSafeInteger(count) && count > 0 ? count : 0;
+};
+
+/**
+ * The client address in an X-Forwarded-For chain. Each trusted proxy appends the address it got the
+ * request from, so the client is `trustedProxies` entries from the right; anything further left came
+ * from the client and can be forged. Without trusted proxies the header is ignored entirely.
+ */
+export function clientIpFrom(forwardedFor: string | null | undefined, trustedProxies: number): string | undefined {
+    if (!forwardedFor || trustedProxies < 1) return undefined;
+    const hops = forwardedFor.split(',').map(hop => hop.trim());
+    return hops[hops.length - trustedProxies] || undefined;
+}
+
+// Client IP and user agent of the current request. Next.js doesn't expose the socket address, so the
+// IP is only known behind a proxy configured with FORUM_TRUSTED_PROXIES.
+export async function getRequestMetadata(): Promise<RequestMetadata> {
+    const headerList = await headers();
+    return {
+        ip: clientIpFrom(headerList.get('x-forwarded-for'), trustedProxyCount()),
+        userAgent: headerList.get('user-agent') || undefined,
+    };
+}
+
+/**
+ * Absolute origin for links in emails. Production needs FORUM_BASE_URL: the Host and X-Forwarded-*
+ * headers come from the client, so a reset link built from them could carry its token to someone
+ * else's server. Development falls back to the Host header.
+ */
+export async function getBaseUrl(): Promise<string> {
+    if (process.env.FORUM_BASE_URL) return process.env.FORUM_BASE_URL.replace(/\/$/, '');
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('FORUM_BASE_URL is not set; refusing to build email links from request headers.');
+    }
+    const host = (await headers()).get('host') ?? 'localhost:9002';
+    return `http://${host}`;
+}
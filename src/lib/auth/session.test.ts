@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { User } from '@/lib/types';
+import { createSession, listUserSessions, revokeAllUserSessions, revokeSessionToken, revokeUserSession, SESSION_TTL_MS, validateSessionToken } from './session';
+import { describeUserAgent } from './user-agent';
+
+const alice: User = { id: 'alice', username: 'alice', email: 'alice@example.com', role: 'member', createdAt: new Date() };
+
+describe('sessions', () => {
+    beforeEach(async () => {
+        await getRepository().users.insert(alice);
+    });
+
+    it('issues a signed cookie that resolves to the session and user', async () => {
+        const { session, cookieValue } = await createSession(alice.id, { ip: '203.0.113.7', userAgent: 'curl/8.0' });
+        expect(cookieValue).toMatch(/^[\w-]+\.[\w-]+$/);
+        expect(session).toMatchObject({ userId: alice.id, ip: '203.0.113.7' });
+        // Only a hash of the token is stored
+        expect(session.tokenHash).not.toContain(cookieValue.split('.')[0]);
+
+        const validated = await validateSessionToken(cookieValue);
+        expect(validated?.session.id).toBe(session.id);
+        expect(validated?.user.id).toBe(alice.id);
+    });
+
+    it('refuses missing, forged and tampered cookies', async () => {
+        const { cookieValue } = await createSession(alice.id);
+        const [token, signature] = cookieValue.split('.');
+        expect(await validateSessionToken(undefined)).toBeNull();
+        expect(await validateSessionToken(token)).toBeNull();
+        expect(await validateSessionToken(`${token}.${signature.slice(1)}x`)).toBeNull();
+        expect(await validateSessionToken(`alice.${signature}`)).toBeNull();
+    });
+
+    it('expires sessions after their lifetime', async () => {
+        vi.useFakeTimers();
+        try {
+            const { cookieValue } = await createSession(alice.id);
+            vi.advanceTimersByTime(SESSION_TTL_MS);
+            expect(await validateSessionToken(cookieValue)).toBeNull();
+            expect(await getRepository().sessions.listByUser(alice.id)).toEqual([]);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('ends sessions on sign-out and when the user is gone', async () => {
+        const first = await createSession(alice.id);
+        const second = await createSession(alice.id);
+        await revokeSessionToken(first.cookieValue);
+        expect(await validateSessionToken(first.cookieValue)).toBeNull();
+        expect(await validateSessionToken(second.cookieValue)).not.toBeNull();
+
+        await getRepository().users.delete(alice.id);
+        expect(await validateSessionToken(second.cookieValue)).toBeNull();
+    });
+
+    describe('active sessions', () => {
+        const firefox = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:126.0) Gecko/20100101 Firefox/126.0';
+        const safari = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+
+        it('lists devices without their token hashes, marking the current one', async () => {
+            const desktop = await createSession(alice.id, { userAgent: firefox });
+            await createSession(alice.id, { userAgent: safari });
+            const sessions = await listUserSessions(alice.id, desktop.session.id);
+            expect(sessions.map(s => [s.device, s.isCurrent])).toEqual(expect.arrayContaining([['Firefox on Windows', true], ['Safari on iOS', false]]));
+            expect(sessions[0]).not.toHaveProperty('tokenHash');
+        });
+
+        it('describes unknown user agents', () => {
+            expect(describeUserAgent(undefined)).toBe('Unknown device');
+            expect(describeUserAgent('curl/8.0')).toBe('curl');
+        });
+
+        it('revokes one device, but only for its own user', async () => {
+            await getRepository().users.insert({ ...alice, id: 'bob', username: 'bob', email: 'bob@example.com' });
+            const { session, cookieValue } = await createSession(alice.id);
+            expect(await revokeUserSession('bob', session.id)).toBe(false);
+            expect(await validateSessionToken(cookieValue)).not.toBeNull();
+            expect(await revokeUserSession(alice.id, session.id)).toBe(true);
+            expect(await validateSessionToken(cookieValue)).toBeNull();
+        });
+
+        it('signs out everywhere else', async () => {
+            const current = await createSession(alice.id);
+            const others = [await createSession(alice.id), await createSession(alice.id)];
+            expect(await revokeAllUserSessions(alice.id, current.session.id)).toBe(2);
+            expect(await validateSessionToken(current.cookieValue)).not.toBeNull();
+            for (const other of others) expect(await validateSessionToken(other.cookieValue)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { randomBytes, createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { getRepository } from '@/lib/db';
+import type { Session, SessionInfo, User } from '@/lib/types';
+import type { RequestMetadata } from './request';
+import { describeUserAgent } from './user-agent';
+
+export const SESSION_COOKIE_NAME = 'forum_session';
+export const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // One week
+const LAST_SEEN_UPDATE_INTERVAL_MS = 1000 * 60; // Avoid a write on every request
+
+let warnedAboutSecret = false;
+const getSessionSecret = () => {
+    const secret = process.env.SESSION_SECRET;
+    if (secret) return secret;
+    if (!warnedAboutSecret) {
+        console.warn('[Session] SESSION_SECRET is not set; using an insecure development secret. Set it in production.');
+        warnedAboutSecret = true;
+    }
+    return 'forumlite-development-session-secret';
+};
+
+const sign = (token: string) => createHmac('sha256', getSessionSecret()).update(token).digest('base64url');
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Cookie value: `<random token>.<HMAC signature>`. Returns the token if the signature is valid.
+const unsign = (cookieValue: string): string | null => {
+    const [token, signature] = cookieValue.split('.');
+    if (!token || !signature) return null;
+    const expected = Buffer.from(sign(token));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? token : null;
+};
+
+export interface CreatedSession {
+    session: Session;
+    cookieValue: string;
+}
+
+export async function createSession(userId: string, metadata: RequestMetadata = {}): Promise<CreatedSession> {
+    const repo = getRepository();
+    const now = new Date();
+    await repo.sessions.deleteExpired(now); // Opportunistic cleanup
+
+    const token = randomBytes(32).toString('base64url');
+    const session = await repo.sessions.insert({
+        id: `session${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        userId,
+        tokenHash: hashToken(token),
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+        lastSeenAt: now,
+        ip: metadata.ip,
+        userAgent: metadata.userAgent,
+    });
+    console.log(`[Session] Created session ${session.id} for user ${userId}`);
+    return { session, cookieValue: `${token}.${sign(token)}` };
+}
+
+export interface ValidatedSession {
+    session: Session;
+    user: User;
+}
+
+/**
+ * Resolves a cookie value to its session and user. Returns null for forged, unknown,
+ * expired or revoked tokens, and for sessions whose user no longer exists.
+ */
+export async function validateSessionToken(cookieValue: string | undefined, metadata: RequestMetadata = {}): Promise<ValidatedSession | null> {
+    if (!cookieValue) return null;
+    const token = unsign(cookieValue);
+    if (!token) return null;
+
+    const repo = getRepository();
+    let session = await repo.sessions.findByTokenHash(hashToken(token));
+    if (!session) return null;
+
+    const now = new Date();
+    if (session.expiresAt.getTime() <= now.getTime()) {
+        await repo.sessions.delete(session.id);
+        return null;
+    }
+
+    const user = await repo.users.findById(session.userId);
+    if (!user) {
+        await repo.sessions.delete(session.id);
+        return null;
+    }
+
+    if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+        session = await repo.sessions.update(session.id, {
+            lastSeenAt: now,
+            ip: metadata.ip ?? session.ip,
+            userAgent: metadata.userAgent ?? session.userAgent,
+        }) ?? session;
+    }
+
+    return { session, user };
+}
+
+export async function revokeSessionToken(cookieValue: string | undefined): Promise<void> {
+    const token = cookieValue ? unsign(cookieValue) : null;
+    if (!token) return;
+    const repo = getRepository();
+    const session = await repo.sessions.findByTokenHash(hashToken(token));
+    if (session) {
+        await repo.sessions.delete(session.id);
+        console.log(`[Session] Revoked session ${session.id}`);
+    }
+}
+
+export const toSessionInfo = ({ tokenHash, ...session }: Session, currentSessionId?: string): SessionInfo => ({
+    ...session,
+    device: describeUserAgent(session.userAgent),
+    isCurrent: session.id === currentSessionId,
+});
+
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const now = Date.now();
+    const sessions = await getRepository().sessions.listByUser(userId);
+    return sessions
+        .filter(session => session.expiresAt.getTime() > now)
+        .map(session => toSessionInfo(session, currentSessionId));
+}
+
+// Revokes one session, but only if it belongs to the given user. Returns false otherwise.
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const repo = getRepository();
+    const session = await repo.sessions.findById(sessionId);
+    if (!session || session.userId !== userId) return false;
+    await repo.sessions.delete(sessionId);
+    console.log(`[Session] Revoked session ${sessionId} of user ${userId}`);
+    return true;
+}
+
+// Revokes every session of a user, optionally keeping one (e.g. "sign out everywhere else").
+export async function revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const revoked = await getRepository().sessions.deleteByUser(userId, exceptSessionId);
+    console.log(`[Session] Revoked ${revoked} session(s) of user ${userId}${exceptSessionId ? ` (kept ${exceptSessionId})` : ''}`);
+    return revoked;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { consumeToken, findValidToken, issueToken } from './tokens';
+
+describe('single-use tokens', () => {
+    it('can be consumed once, even by concurrent requests', async () => {
+        const token = await issueToken('alice', 'password_reset', 60_000);
+        expect(await findValidToken(token, 'password_reset')).not.toBeNull();
+        const results = await Promise.all([consumeToken(token, 'password_reset'), consumeToken(token, 'password_reset')]);
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect(await findValidToken(token, 'password_reset')).toBeNull();
+    });
+
+    it('only works for its purpose', async () => {
+        const token = await issueToken('alice', 'email_verification', 60_000);
+        expect(await consumeToken(token, 'password_reset')).toBeNull();
+        expect((await consumeToken(token, 'email_verification'))?.userId).toBe('alice');
+    });
+
+    it('invalidates earlier tokens of the same purpose', async () => {
+        const first = await issueToken('alice', 'password_reset', 60_000);
+        const second = await issueToken('alice', 'password_reset', 60_000);
+        expect(await consumeToken(first, 'password_reset')).toBeNull();
+        expect(await consumeToken(second, 'password_reset')).not.toBeNull();
+    });
+});
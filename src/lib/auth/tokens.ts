@@ -0,0 +1,45 @@
+import { randomBytes, createHash } from 'node:crypto';
+import { getRepository } from '@/lib/db';
+import type { AuthToken, AuthTokenPurpose } from '@/lib/types';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues a new single-use token for a user and returns the raw value (to be emailed).
+ * Any earlier token of the same purpose is invalidated, so only the latest link works.
+ */
+export async function issueToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+    const repo = getRepository();
+    const now = new Date();
+    await repo.authTokens.deleteExpired(now);
+    await repo.authTokens.deleteByUser(userId, purpose);
+
+    const token = randomBytes(32).toString('base64url');
+    await repo.authTokens.insert({
+        id: `token${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + ttlMs),
+    });
+    console.log(`[Tokens] Issued ${purpose} token for user ${userId}`);
+    return token;
+}
+
+// Looks a token up without using it (e.g. to decide whether to show the reset form).
+export async function findValidToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | null> {
+    const record = await getRepository().authTokens.findByTokenHash(hashToken(token));
+    if (!record || record.purpose !== purpose || record.usedAt) return null;
+    if (record.expiresAt.getTime() <= Date.now()) return null;
+    return record;
+}
+
+// Marks a valid token as used and returns it; returns null if it is unknown, expired or already used.
+// The check and the update are one step, so two concurrent requests can't both use the same token.
+export async function consumeToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | null> {
+    const used = await getRepository().authTokens.consume(hashToken(token), purpose, new Date());
+    if (!used) return null;
+    console.log(`[Tokens] Consumed ${purpose} token for user ${used.userId}`);
+    return used;
+}
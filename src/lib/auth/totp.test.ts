@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, buildOtpauthUri, generateHotp, generateTotp, generateTotpSecret, verifyTotp } from './totp';
+
+// The RFC 4226 / RFC 6238 test secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+    it('round-trips base32', () => {
+        expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+        expect(base32Decode('gezd gnbv')).toEqual(base32Decode('GEZDGNBV'));
+    });
+
+    it('matches the RFC 4226 HOTP test values', () => {
+        expect([0, 1, 2, 3, 9].map(counter => generateHotp(RFC_SECRET, counter))).toEqual(['755224', '287082', '359152', '969429', '520489']);
+    });
+
+    it('matches the RFC 6238 TOTP test values (last six digits)', () => {
+        expect(generateTotp(RFC_SECRET, 59_000)).toBe('287082');
+        expect(generateTotp(RFC_SECRET, 1_111_111_109_000)).toBe('081804');
+    });
+
+    it('accepts codes within the drift window and returns their step', () => {
+        const secret = generateTotpSecret();
+        const now = 1_700_000_000_000;
+        const step = Math.floor(now / 30_000);
+        expect(verifyTotp(secret, generateTotp(secret, now), 1, now)).toBe(step);
+        expect(verifyTotp(secret, generateTotp(secret, now - 30_000), 1, now)).toBe(step - 1);
+        expect(verifyTotp(secret, generateTotp(secret, now - 90_000), 1, now)).toBeNull();
+    });
+
+    it('ignores spaces and rejects malformed codes', () => {
+        const now = 1_700_000_000_000;
+        const code = generateTotp(RFC_SECRET, now);
+        expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, 1, now)).not.toBeNull();
+        expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+    });
+
+    it('builds an otpauth URI for authenticator apps', () => {
+        const uri = new URL(buildOtpauthUri(RFC_SECRET, 'alice@example.com', 'ForumLite'));
+        expect(uri.protocol).toBe('otpauth:');
+        expect(uri.host).toBe('totp');
+        expect(decodeURIComponent(uri.pathname)).toBe('/ForumLite:alice@example.com');
+        expect(uri.searchParams.get('secret')).toBe(RFC_SECRET);
+    });
+});
@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// RFC 6238 time-based one-time passwords with the parameters every authenticator app supports:
+// HMAC-SHA1, 6 digits, 30 second steps.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+export function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+export const generateTotpSecret = () => base32Encode(randomBytes(SECRET_BYTES));
+
+export const currentTimeStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+// HOTP (RFC 4226) for one counter value, with dynamic truncation.
+export function generateHotp(secret: string, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return code.toString().padStart(DIGITS, '0');
+}
+
+export const generateTotp = (secret: string, now = Date.now()) => generateHotp(secret, currentTimeStep(now));
+
+/**
+ * Checks a code against the current step and `window` steps either side (clock drift).
+ * Returns the matching time step so callers can reject replays, or null if no step matches.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, now = Date.now()): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return null;
+    const step = currentTimeStep(now);
+    for (let offset = -window; offset <= window; offset++) {
+        const expected = generateHotp(secret, step + offset);
+        if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step + offset;
+    }
+    return null;
+}
+
+// Key URI understood by authenticator apps (https://github.com/google/google-authenticator/wiki/Key-Uri-Format)
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { User } from '@/lib/types';
+import { generateTotp } from './totp';
+import { beginTotpEnrollment, confirmTotpEnrollment, disableTwoFactor, getTwoFactorStatus, verifySecondFactor } from './two-factor';
+
+const alice: User = { id: 'alice', username: 'alice', email: 'alice@example.com', role: 'member', createdAt: new Date() };
+
+describe('two-factor authentication', () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+        await getRepository().users.insert(alice);
+        ({ secret } = await beginTotpEnrollment(alice));
+        // Enrolled with the previous step's code, so the current one is still unused
+        recoveryCodes = (await confirmTotpEnrollment(alice.id, generateTotp(secret, Date.now() - 30_000)))!;
+    });
+
+    it('enables 2FA with ten recovery codes once a code is confirmed', async () => {
+        expect(recoveryCodes).toHaveLength(10);
+        expect(await getTwoFactorStatus(alice.id)).toMatchObject({ enabled: true, recoveryCodesLeft: 10 });
+    });
+
+    it('accepts each TOTP code once, even from concurrent requests', async () => {
+        const code = generateTotp(secret);
+        const results = await Promise.all([verifySecondFactor(alice.id, code), verifySecondFactor(alice.id, code)]);
+        expect(results.sort()).toEqual(['totp', null].sort());
+        expect(await verifySecondFactor(alice.id, code)).toBeNull();
+    });
+
+    it('accepts each recovery code once, even from concurrent requests', async () => {
+        const [code] = recoveryCodes;
+        const results = await Promise.all([verifySecondFactor(alice.id, code), verifySecondFactor(alice.id, code)]);
+        expect(results.filter(Boolean)).toEqual(['recovery']);
+        expect((await getTwoFactorStatus(alice.id)).recoveryCodesLeft).toBe(9);
+        expect(await verifySecondFactor(alice.id, code)).toBeNull();
+    });
+
+    it('accepts nothing once disabled', async () => {
+        await disableTwoFactor(alice.id);
+        expect(await verifySecondFactor(alice.id, generateTotp(secret))).toBeNull();
+        expect(await verifySecondFactor(alice.id, recoveryCodes[1])).toBeNull();
+    });
+});
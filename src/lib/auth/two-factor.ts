@@ -0,0 +1,126 @@
+import { randomBytes, createHash } from 'node:crypto';
+import QRCode from 'qrcode';
+import { getRepository } from '@/lib/db';
+import type { User } from '@/lib/types';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from './totp';
+import { issueToken, findValidToken, consumeToken } from './tokens';
+
+const ISSUER = 'ForumLite';
+const RECOVERY_CODE_COUNT = 10;
+export const LOGIN_CHALLENGE_COOKIE_NAME = 'forum_2fa';
+export const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000; // Time to type the code after a correct password
+
+const hashRecoveryCode = (code: string) => createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+
+// Ten codes like "3f9a1-c07be": 50 random bits each, which is plenty for single-use codes.
+const generateRecoveryCodes = () =>
+    Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = randomBytes(5).toString('hex');
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt?: Date;
+    recoveryCodesLeft: number;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await getRepository().users.findById(userId);
+    return {
+        enabled: !!user?.totpEnabledAt,
+        enabledAt: user?.totpEnabledAt,
+        recoveryCodesLeft: user?.recoveryCodes?.length ?? 0,
+    };
+}
+
+export interface TotpEnrollment {
+    secret: string; // Shown for manual entry
+    otpauthUri: string;
+    qrCodeDataUrl: string;
+}
+
+// Stores a new pending secret; it only takes effect once confirmTotpEnrollment() sees a valid code.
+export async function beginTotpEnrollment(user: User): Promise<TotpEnrollment> {
+    if (user.totpEnabledAt) throw new Error('Two-factor authentication is already enabled.');
+    const secret = generateTotpSecret();
+    await getRepository().users.update(user.id, { totpSecret: secret });
+    const otpauthUri = buildOtpauthUri(secret, user.email, ISSUER);
+    return { secret, otpauthUri, qrCodeDataUrl: await QRCode.toDataURL(otpauthUri, { margin: 1, width: 200 }) };
+}
+
+// Enables 2FA if the code matches the pending secret. Returns the plain recovery codes (shown once), or null.
+export async function confirmTotpEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const repo = getRepository();
+    const user = await repo.users.findById(userId);
+    if (!user?.totpSecret || user.totpEnabledAt) return null;
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    await repo.users.update(userId, {
+        totpEnabledAt: new Date(),
+        totpLastStep: step,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    });
+    console.log(`[2FA] Enabled two-factor authentication for user ${userId}`);
+    return recoveryCodes;
+}
+
+/**
+ * Checks a second factor: a TOTP code (each time step is accepted once) or an unused
+ * recovery code, which is then removed. Returns which kind matched, or null.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+    const repo = getRepository();
+    const user = await repo.users.findById(userId);
+    if (!user?.totpEnabledAt || !user.totpSecret) return null;
+
+    // Both checks are conditional updates, so concurrent requests can't use the same code twice
+    const step = verifyTotp(user.totpSecret, code);
+    if (step !== null) {
+        if (!(await repo.users.advanceTotpStep(userId, step))) {
+            console.warn(`[2FA] Rejected replayed code for user ${userId}`);
+            return null;
+        }
+        return 'totp';
+    }
+
+    const hashed = hashRecoveryCode(code);
+    const codes = user.recoveryCodes ?? [];
+    const remaining = codes.filter(stored => stored !== hashed);
+    if (remaining.length < codes.length) {
+        if (!(await repo.users.replaceRecoveryCodes(userId, codes, remaining))) return null;
+        console.log(`[2FA] User ${userId} used a recovery code (${remaining.length} left)`);
+        return 'recovery';
+    }
+    return null;
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await getRepository().users.update(userId, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+    console.log(`[2FA] Regenerated recovery codes for user ${userId}`);
+    return recoveryCodes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+    await getRepository().users.update(userId, {
+        totpEnabledAt: undefined,
+        totpSecret: undefined,
+        totpLastStep: undefined,
+        recoveryCodes: undefined,
+    });
+    console.log(`[2FA] Disabled two-factor authentication for user ${userId}`);
+}
+
+// --- Second login step ---
+// After a correct password, users with 2FA get a short-lived challenge token (in its own cookie)
+// instead of a session. The session is only created once the challenge is answered.
+
+export const createLoginChallenge = (userId: string) => issueToken(userId, 'login_challenge', LOGIN_CHALLENGE_TTL_MS);
+
+export const findLoginChallenge = (token: string) => findValidToken(token, 'login_challenge');
+
+export const completeLoginChallenge = (token: string) => consumeToken(token, 'login_challenge');
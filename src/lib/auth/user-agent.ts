@@ -0,0 +1,26 @@
+// Rough, dependency-free user agent summary for session listings ("Firefox on Windows").
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+export function describeUserAgent(userAgent?: string): string {
+    if (!userAgent) return 'Unknown device';
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+}
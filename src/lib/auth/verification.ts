@@ -0,0 +1,23 @@
+import type { User } from '@/lib/types';
+import { markUserEmailVerified } from '@/lib/data';
+import { sendMail } from '@/lib/mail';
+import { emailVerificationEmail } from '@/lib/mail/templates';
+import { issueToken, consumeToken } from './tokens';
+import { getBaseUrl } from './request';
+
+export const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+// Emails a fresh verification link; earlier links for the same user stop working.
+export async function sendVerificationEmail(user: User): Promise<void> {
+    const baseUrl = await getBaseUrl();
+    const token = await issueToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS);
+    const verifyUrl = `${baseUrl}/verify/${token}`;
+    await sendMail(emailVerificationEmail(user.email, user.username, verifyUrl, EMAIL_VERIFICATION_TTL_MS / 3600000));
+}
+
+// Consumes a verification link. Returns the verified user, or null if the link is invalid, expired or used.
+export async function verifyEmailToken(token: string): Promise<User | null> {
+    const verification = await consumeToken(token, 'email_verification');
+    if (!verification) return null;
+    return markUserEmailVerified(verification.userId);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { Category } from './types';
+import { buildCategoryTree, flattenCategoryTree, getCategoryPath, getCategoryPathLabel, getDescendantIds } from './categories';
+
+const category = (id: string, parentId?: string, counts = { topicCount: 1, postCount: 2 }): Category =>
+    ({ id, name: id.toUpperCase(), parentId, createdAt: new Date(), ...counts });
+
+const categories = [
+    category('help'),
+    category('linux', 'help'),
+    category('net', 'linux'),
+    category('mac', 'help'),
+    category('lounge'),
+];
+
+describe('category tree', () => {
+    it('nests categories in list order and sums the counts of subcategories', () => {
+        const tree = buildCategoryTree(categories);
+        expect(tree.map(node => node.id)).toEqual(['help', 'lounge']);
+        expect(tree[0].children.map(node => node.id)).toEqual(['linux', 'mac']);
+        expect(tree[0]).toMatchObject({ totalTopicCount: 4, totalPostCount: 8 });
+    });
+
+    it('makes a category whose parent is not listed a root', () => {
+        expect(buildCategoryTree(categories.filter(c => c.id !== 'help')).map(node => node.id)).toEqual(['linux', 'mac', 'lounge']);
+    });
+
+    it('flattens depth first', () => {
+        expect(flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => `${category.id}:${depth}`))
+            .toEqual(['help:0', 'linux:1', 'net:2', 'mac:1', 'lounge:0']);
+    });
+
+    it('builds paths and labels from the root', () => {
+        expect(getCategoryPath(categories, 'net').map(c => c.id)).toEqual(['help', 'linux', 'net']);
+        expect(getCategoryPathLabel(categories, 'net')).toBe('HELP › LINUX › NET');
+        expect(getCategoryPath(categories, 'missing')).toEqual([]);
+    });
+
+    it('survives a parent cycle', () => {
+        const cycle = [category('a', 'b'), category('b', 'a')];
+        expect(getCategoryPath(cycle, 'a').map(c => c.id)).toEqual(['b', 'a']);
+        expect(getDescendantIds(cycle, 'a')).toEqual(['b']);
+    });
+
+    it('finds descendants at any depth', () => {
+        expect(getDescendantIds(categories, 'help').sort()).toEqual(['linux', 'mac', 'net']);
+        expect(getDescendantIds(categories, 'lounge')).toEqual([]);
+    });
+});
@@ -0,0 +1,72 @@
+import type { Category, CategoryNode } from './types';
+
+// Category tree helpers. They work on whatever flat list they are given (usually the categories
+// one user can see) and are shared with client components, so they must stay free of server-only imports.
+
+/**
+ * Nests the categories under their parents, keeping list order among siblings.
+ * A category whose parent is not in the list becomes a root: a visible subcategory
+ * of a private category is still reachable for users who can't see the parent.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+    const nodes = new Map<string, CategoryNode>(categories.map(category => [
+        category.id,
+        { ...category, children: [], totalTopicCount: 0, totalPostCount: 0 },
+    ]));
+    const roots: CategoryNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+        (parent ? parent.children : roots).push(node);
+    }
+
+    const sumTotals = (node: CategoryNode) => {
+        node.children.forEach(sumTotals);
+        node.totalTopicCount = (node.topicCount ?? 0) + node.children.reduce((sum, child) => sum + child.totalTopicCount, 0);
+        node.totalPostCount = (node.postCount ?? 0) + node.children.reduce((sum, child) => sum + child.totalPostCount, 0);
+    };
+    roots.forEach(sumTotals);
+    return roots;
+}
+
+// Depth-first order with each category's depth, for indented tables and pickers
+export const flattenCategoryTree = (nodes: CategoryNode[], depth = 0): { category: CategoryNode; depth: number }[] =>
+    nodes.flatMap(node => [{ category: node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+
+export const findCategoryNode = (nodes: CategoryNode[], categoryId: string): CategoryNode | null => {
+    for (const node of nodes) {
+        if (node.id === categoryId) return node;
+        const found = findCategoryNode(node.children, categoryId);
+        if (found) return found;
+    }
+    return null;
+};
+
+// The category and its ancestors, root first. Stops at the first ancestor missing from the list.
+export function getCategoryPath(categories: Category[], categoryId: string): Category[] {
+    const byId = new Map(categories.map(category => [category.id, category]));
+    const path: Category[] = [];
+    for (let current = byId.get(categoryId); current && !path.includes(current); current = current.parentId ? byId.get(current.parentId) : undefined) {
+        path.unshift(current);
+    }
+    return path;
+}
+
+// E.g. "Technical Help › Linux › Networking"
+export const getCategoryPathLabel = (categories: Category[], categoryId: string) =>
+    getCategoryPath(categories, categoryId).map(category => category.name).join(' › ');
+
+// Every category below this one, at any depth
+export function getDescendantIds(categories: Category[], categoryId: string): string[] {
+    const descendants: string[] = [];
+    const queue = [categoryId];
+    while (queue.length > 0) {
+        const parentId = queue.shift();
+        for (const category of categories) {
+            if (category.parentId === parentId && !descendants.includes(category.id) && category.id !== categoryId) {
+                descendants.push(category.id);
+                queue.push(category.id);
+            }
+        }
+    }
+    return descendants;
+}
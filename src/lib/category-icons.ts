@@ -0,0 +1,48 @@
+import {
+    BookOpen, Briefcase, Bug, Camera, CircleHelp, Code, Coffee, Cpu, Film, Folder, Gamepad2, Globe, GraduationCap,
+    Hand, Heart, Lightbulb, Megaphone, MessageCircle, Music, Newspaper, Palette, Rocket, Server, Shield,
+    ShoppingCart, Smartphone, Star, Terminal, Users, Wrench,
+    type LucideIcon,
+} from 'lucide-react';
+
+// Icons admins can pick for a category, keyed by the lucide name stored on the category.
+// A fixed list keeps the client bundle small (importing every lucide icon would not).
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+    'folder': Folder,
+    'message-circle': MessageCircle,
+    'hand': Hand,
+    'megaphone': Megaphone,
+    'circle-help': CircleHelp,
+    'wrench': Wrench,
+    'bug': Bug,
+    'code': Code,
+    'terminal': Terminal,
+    'server': Server,
+    'cpu': Cpu,
+    'smartphone': Smartphone,
+    'gamepad-2': Gamepad2,
+    'music': Music,
+    'film': Film,
+    'camera': Camera,
+    'palette': Palette,
+    'book-open': BookOpen,
+    'graduation-cap': GraduationCap,
+    'briefcase': Briefcase,
+    'newspaper': Newspaper,
+    'lightbulb': Lightbulb,
+    'rocket': Rocket,
+    'globe': Globe,
+    'users': Users,
+    'heart': Heart,
+    'star': Star,
+    'coffee': Coffee,
+    'shopping-cart': ShoppingCart,
+    'shield': Shield,
+};
+
+export const CATEGORY_ICON_NAMES = Object.keys(CATEGORY_ICONS);
+
+// Suggested accent colors (any #rrggbb value is accepted)
+export const CATEGORY_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#64748b'];
+
+export const isCategoryColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
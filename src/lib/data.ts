@@ -0,0 +1,870 @@
+import type { User, Category, CategoryAccess, CategoryNode, Topic, Post, PostReply, ReactionSummary, Role, Page, AuditEntry, Notification } from './types';
+import { getRepository } from './db';
+import type { AuditEntryRecord } from './db/repository';
+import { hashPassword } from './auth/password';
+import { can, canInCategory, normalizeGroupNames } from './permissions';
+import { pageCount } from './pagination';
+import { buildCategoryTree, getCategoryPath, getDescendantIds } from './categories';
+import { extractQuotedPostIds } from './quotes';
+import { dispatchNotification } from './notifications';
+import { getUnreadTopics, markTopicRead } from './unread';
+import { indexPost, reindexTopic, unindexPost } from './search';
+import { searchTerms } from './search-text';
+
+// --- Data Access Functions ---
+// All reads/writes go through the configured repository (see src/lib/db), so these
+// functions behave the same whether the forum runs on the memory store or on SQLite.
+
+const generateId = (prefix: string) => `${prefix}${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+// Strips the password hash and 2FA secrets so user objects can safely be passed to client components.
+export const toPublicUser = ({ password, totpSecret, totpLastStep, recoveryCodes, ...user }: User): User => user;
+
+// Populates `author` fields on topics/posts. Group names can reveal private categories, so they stay server-side.
+const findAuthor = async (id: string): Promise<User | undefined> => {
+    const user = await getRepository().users.findById(id);
+    if (!user) return undefined;
+    const { groups, ...author } = toPublicUser(user);
+    return author;
+};
+
+// Fetch Users
+export const getAllUsers = async (): Promise<User[]> => {
+    const users = await getRepository().users.list();
+    return users.map(toPublicUser);
+};
+
+
+export const findUserByEmail = async (email: string): Promise<User | null> => {
+  // Returns the full object (including password hash for comparison) or null
+  return getRepository().users.findByEmail(email);
+};
+
+export const findUserById = async (id: string): Promise<User | null> => {
+    // Returns the full object (including password hash) or null
+    return getRepository().users.findById(id);
+}
+
+// Case-insensitive, for profiles and @mentions
+export const findUserByUsername = async (username: string): Promise<User | null> => {
+    const user = await getRepository().users.findByUsername(username);
+    return user ? toPublicUser(user) : null;
+};
+
+// Mention autocomplete: users whose name starts with `prefix`
+export const searchUsersByUsername = async (prefix: string, limit: number): Promise<User[]> => {
+    const users = await getRepository().users.searchByUsername(prefix, limit);
+    return users.map(toPublicUser);
+};
+
+// Define the expected structure for userData passed to createUser
+interface CreateUserParams {
+    username: string;
+    email: string;
+    password?: string; // Plain-text password from form, hashed before it is stored
+    role?: Role; // Defaults to 'member'
+    emailVerified?: boolean; // Skip email verification (e.g. the bootstrap admin)
+}
+
+export const createUser = async (userData: CreateUserParams): Promise<User> => {
+  const newUser = await getRepository().users.insert({
+    username: userData.username,
+    email: userData.email,
+    password: userData.password ? await hashPassword(userData.password) : undefined,
+    role: userData.role ?? 'member',
+    emailVerifiedAt: userData.emailVerified ? new Date() : undefined,
+    id: generateId('user'),
+    createdAt: new Date(),
+  });
+  console.log("[DB createUser] Created User:", newUser.id, newUser.username, `role: ${newUser.role}`);
+  return toPublicUser(newUser);
+};
+
+// Stores a new password hash (after a successful login with a legacy/outdated hash, or a password change)
+export const updateUserPassword = async (userId: string, passwordHash: string): Promise<boolean> => {
+    const updatedUser = await getRepository().users.update(userId, { password: passwordHash });
+    if (!updatedUser) {
+        console.error(`[DB updateUserPassword] User ${userId} not found.`);
+        return false;
+    }
+    return true;
+};
+
+// Admin Actions for Users
+export const setUserRole = async (userId: string, role: Role): Promise<User | null> => {
+    const updatedUser = await getRepository().users.update(userId, { role });
+    if (!updatedUser) {
+        console.error("[DB setUserRole] Set Role failed: User not found.");
+        return null;
+    }
+    console.log(`[DB setUserRole] Set role for user ${userId} to ${role}`);
+    // Revalidation is handled by the action calling this function
+    return toPublicUser(updatedUser);
+}
+
+export const setUserGroups = async (userId: string, groups: string[]): Promise<User | null> => {
+    const normalized = normalizeGroupNames(groups);
+    const updatedUser = await getRepository().users.update(userId, { groups: normalized.length > 0 ? normalized : undefined });
+    if (!updatedUser) {
+        console.error("[DB setUserGroups] Set Groups failed: User not found.");
+        return null;
+    }
+    console.log(`[DB setUserGroups] Set groups for user ${userId} to [${normalized.join(', ')}]`);
+    return toPublicUser(updatedUser);
+}
+
+// Preferences the user edits on /account/preferences; `undefined` resets one to the forum default
+export const updateUserPreferences = async (userId: string, preferences: Partial<Pick<User, 'postsPerPage' | 'digestFrequency'>>): Promise<User | null> => {
+    const updatedUser = await getRepository().users.update(userId, preferences);
+    if (!updatedUser) {
+        console.error(`[DB updateUserPreferences] User ${userId} not found.`);
+        return null;
+    }
+    return toPublicUser(updatedUser);
+}
+
+// Marks the email address as confirmed (verification link or admin override). Keeps the original date if already verified.
+export const markUserEmailVerified = async (userId: string): Promise<User | null> => {
+    const repo = getRepository();
+    const user = await repo.users.findById(userId);
+    if (!user) {
+        console.error(`[DB markUserEmailVerified] User ${userId} not found.`);
+        return null;
+    }
+    if (user.emailVerifiedAt) return toPublicUser(user);
+    const updatedUser = await repo.users.update(userId, { emailVerifiedAt: new Date() });
+    console.log(`[DB markUserEmailVerified] Verified email for user ${userId}`);
+    return updatedUser ? toPublicUser(updatedUser) : null;
+}
+
+export const deleteUser = async (userId: string): Promise<boolean> => {
+    // Content is kept: topics/posts remain under the original authorId (rendered as "Unknown").
+    const repo = getRepository();
+    await repo.sessions.deleteByUser(userId); // Sign the user out everywhere
+    await repo.authTokens.deleteByUser(userId); // Outstanding reset links die with the account
+    const deleted = await repo.users.delete(userId);
+    if (deleted) {
+        console.log(`[DB deleteUser] User ${userId} successfully deleted. Posts/Topics remain under original authorId.`);
+    } else {
+        console.error(`[DB deleteUser] Delete User failed: User ${userId} not found.`);
+    }
+    return deleted;
+}
+
+
+// Fetch Categories
+export const getCategories = async (): Promise<Category[]> => {
+   return getRepository().categories.list(); // Sorted by admin-set position, then creation date
+};
+
+export const getCategoryById = async (id: string): Promise<Category | null> => {
+    return getRepository().categories.findById(id);
+}
+
+// Categories the user may see. Anything listed to users (home page, search, feeds) must start from
+// here rather than getCategories(), which also returns private categories.
+export const getVisibleCategories = async (user: User | null): Promise<Category[]> => {
+    const categories = await getCategories();
+    return categories.filter(category => canInCategory(user, category, 'view'));
+};
+
+// The visible categories nested under their parents, with topic/post totals summed up the tree
+export const getCategoryTree = async (user: User | null): Promise<CategoryNode[]> => {
+    return buildCategoryTree(await getVisibleCategories(user));
+};
+
+// Breadcrumb trail for a category, root first. Ancestors the user can't see are left out.
+export const getCategoryBreadcrumbs = async (categoryId: string, user: User | null): Promise<Category[]> => {
+    return getCategoryPath(await getVisibleCategories(user), categoryId);
+};
+
+export const createCategory = async (categoryData: Omit<Category, 'id' | 'createdAt' | 'topicCount' | 'postCount' | 'position'>): Promise<Category> => {
+    const repo = getRepository();
+    // New categories go last among their siblings
+    const siblings = (await repo.categories.list()).filter(c => c.parentId === categoryData.parentId);
+    const newCategory = await repo.categories.insert({
+        ...categoryData,
+        position: Math.max(-1, ...siblings.map(c => c.position ?? 0)) + 1,
+        id: generateId('cat'),
+        createdAt: new Date(),
+        topicCount: 0,
+        postCount: 0,
+    });
+    console.log("[DB createCategory] Created Category:", newCategory.id, newCategory.name);
+    // Revalidation handled by action
+    return newCategory;
+}
+
+// Admin Actions for Categories
+// `undefined` for `icon`/`color` (when the key is present) clears them
+export const updateCategory = async (categoryId: string, data: { name?: string; description?: string; access?: CategoryAccess; icon?: string; color?: string }): Promise<Category | null> => {
+    const updatedCategory = await getRepository().categories.update(categoryId, data);
+    if (!updatedCategory) {
+        console.error("[DB updateCategory] Update Category failed: Category not found.");
+        return null;
+    }
+    console.log("[DB updateCategory] Updated Category:", updatedCategory.id);
+    // Revalidation handled by action
+    return updatedCategory;
+}
+
+// Re-parents a category; `null` makes it top-level. A category can't be moved below itself.
+export const setCategoryParent = async (categoryId: string, parentId: string | null): Promise<Category | null> => {
+    const repo = getRepository();
+    const categories = await repo.categories.list();
+    if (parentId && (parentId === categoryId || !categories.some(c => c.id === parentId) || getDescendantIds(categories, categoryId).includes(parentId))) {
+        console.error(`[DB setCategoryParent] Cannot move Category ${categoryId} under ${parentId}.`);
+        return null;
+    }
+    const siblings = categories.filter(c => c.parentId === (parentId ?? undefined) && c.id !== categoryId);
+    const updatedCategory = await repo.categories.update(categoryId, {
+        parentId: parentId ?? undefined,
+        position: Math.max(-1, ...siblings.map(c => c.position ?? 0)) + 1, // Last among the new siblings
+    });
+    if (!updatedCategory) {
+        console.error(`[DB setCategoryParent] Category ${categoryId} not found.`);
+        return null;
+    }
+    console.log(`[DB setCategoryParent] Set parent of Category ${categoryId} to ${parentId ?? '(top level)'}`);
+    return updatedCategory;
+}
+
+// Sets the order of the categories directly below `parentId` (`null` for top level).
+// `orderedIds` must list exactly those categories.
+export const reorderCategories = async (parentId: string | null, orderedIds: string[]): Promise<boolean> => {
+    const repo = getRepository();
+    const siblingIds = (await repo.categories.list()).filter(c => (c.parentId ?? null) === parentId).map(c => c.id);
+    if (orderedIds.length !== siblingIds.length || !siblingIds.every(id => orderedIds.includes(id))) {
+        console.error(`[DB reorderCategories] Order for parent ${parentId ?? '(top level)'} does not match its subcategories.`);
+        return false;
+    }
+    for (const [position, id] of orderedIds.entries()) {
+        await repo.categories.update(id, { position });
+    }
+    console.log(`[DB reorderCategories] Reordered ${orderedIds.length} categories under ${parentId ?? '(top level)'}`);
+    return true;
+}
+
+// Archived categories stay listed and readable but take no new topics or replies (see canInCategory)
+export const setCategoryArchived = async (categoryId: string, archived: boolean): Promise<Category | null> => {
+    const repo = getRepository();
+    const category = await repo.categories.findById(categoryId);
+    if (!category) {
+        console.error(`[DB setCategoryArchived] Category ${categoryId} not found.`);
+        return null;
+    }
+    const updatedCategory = await repo.categories.update(categoryId, { archivedAt: archived ? category.archivedAt ?? new Date() : undefined });
+    console.log(`[DB setCategoryArchived] ${archived ? 'Archived' : 'Restored'} Category ${categoryId}`);
+    return updatedCategory;
+}
+
+// Moves every topic (with its posts) to another category, e.g. before deleting the emptied one.
+// Returns the number of moved topics, or null if either category is missing.
+export const moveCategoryTopics = async (fromCategoryId: string, toCategoryId: string): Promise<number | null> => {
+    const repo = getRepository();
+    if (fromCategoryId === toCategoryId || !(await repo.categories.findById(fromCategoryId)) || !(await repo.categories.findById(toCategoryId))) {
+        console.error(`[DB moveCategoryTopics] Cannot move topics from Category ${fromCategoryId} to ${toCategoryId}.`);
+        return null;
+    }
+    const moved = await repo.topics.moveToCategory(fromCategoryId, toCategoryId);
+    await syncCategoryCounts(fromCategoryId);
+    await syncCategoryCounts(toCategoryId);
+    console.log(`[DB moveCategoryTopics] Moved ${moved} topics from Category ${fromCategoryId} to ${toCategoryId}`);
+    return moved;
+}
+
+export const deleteCategory = async (categoryId: string): Promise<boolean> => {
+    const repo = getRepository();
+    const category = await repo.categories.findById(categoryId);
+    if (!category) {
+        console.error(`[DB deleteCategory] Delete Category failed: Category ${categoryId} not found.`);
+        return false;
+    }
+    // Subcategories are kept and move up one level
+    const children = (await repo.categories.list()).filter(c => c.parentId === categoryId);
+    for (const child of children) {
+        await repo.categories.update(child.id, { parentId: category.parentId });
+    }
+    // Delete the category, its topics, and their posts.
+    const deletedTopicIds = await repo.topics.deleteByCategory(categoryId);
+    await repo.posts.deleteByTopics(deletedTopicIds);
+    await repo.categories.delete(categoryId);
+    console.log(`[DB deleteCategory] Category ${categoryId} and its topics/posts deleted.`);
+    // Revalidation handled by action
+    return true;
+}
+
+
+// Fetch Topics
+export const getTopicsByCategory = async (categoryId: string): Promise<Topic[]> => {
+  const categoryTopics = await getRepository().topics.listByCategory(categoryId); // Sorted by last activity desc
+
+  // Add author data
+  return Promise.all(categoryTopics.map(async topic => {
+    const author = await findAuthor(topic.authorId);
+    return { ...topic, author };
+  }));
+};
+
+// Resolves the requested page against the total, so out-of-range pages show the nearest real one
+const toPageRequest = (page: number, pageSize: number, totalItems: number) => {
+    const totalPages = pageCount(totalItems, pageSize);
+    const current = Math.min(Math.max(1, page), totalPages);
+    return { current, totalPages, request: { limit: pageSize, offset: (current - 1) * pageSize } };
+};
+
+export const getTopicsPage = async (categoryId: string, page: number, pageSize: number): Promise<Page<Topic>> => {
+    const repo = getRepository();
+    const totalItems = await repo.topics.countByCategory(categoryId);
+    const { current, totalPages, request } = toPageRequest(page, pageSize, totalItems);
+    const topics = await repo.topics.listByCategory(categoryId, request);
+    const items = await Promise.all(topics.map(async topic => ({ ...topic, author: await findAuthor(topic.authorId) })));
+    return { items, page: current, pageSize, totalItems, totalPages };
+};
+
+// Forum-wide announcements from the categories this user can see, newest first
+export const getAnnouncements = async (user: User | null): Promise<Topic[]> => {
+    const repo = getRepository();
+    const announcements = await repo.topics.listAnnouncements();
+    const populated = await Promise.all(announcements.map(async topic => ({
+        ...topic,
+        author: await findAuthor(topic.authorId),
+        category: (await repo.categories.findById(topic.categoryId)) ?? undefined,
+    })));
+    return populated.filter(topic => topic.category && canInCategory(user, topic.category, 'view'));
+};
+
+// Gets full topic details including author and category objects
+export const getTopicById = async (id: string): Promise<Topic | null> => {
+    const topic = await getRepository().topics.findById(id);
+    if (!topic) return null;
+    const author = await findAuthor(topic.authorId);
+    const category = await getCategoryById(topic.categoryId);
+    return { ...topic, author, category: category ?? undefined };
+}
+
+// Gets only the basic topic data (useful for simple lookups like getting categoryId)
+export const getTopicByIdSimple = async (id: string): Promise<Topic | null> => {
+    return getRepository().topics.findById(id);
+}
+
+
+interface CreateTopicParams extends Omit<Topic, 'id' | 'createdAt' | 'lastActivity' | 'postCount'> {
+    firstPostContent: string;
+    firstPostImageUrl?: string;
+}
+
+export const createTopic = async (topicData: CreateTopicParams): Promise<Topic> => {
+    const repo = getRepository();
+    const now = new Date();
+    const newTopic = await repo.topics.insert({
+        title: topicData.title,
+        categoryId: topicData.categoryId,
+        authorId: topicData.authorId,
+        id: generateId('topic'),
+        createdAt: now,
+        lastActivity: now,
+        postCount: 0, // Incremented by createPost for the initial post
+    });
+    console.log("[DB createTopic] Created Topic:", newTopic.id, newTopic.title);
+
+    // Update category topic count
+    const category = await repo.categories.findById(topicData.categoryId);
+    if (category) {
+        await repo.categories.update(category.id, { topicCount: (category.topicCount || 0) + 1 });
+        // Post count for category is handled by createPost
+    }
+
+    // Automatically create the first post for the topic (indexed for search together with the title)
+    await createPost({
+        content: topicData.firstPostContent,
+        topicId: newTopic.id,
+        authorId: topicData.authorId,
+        imageUrl: topicData.firstPostImageUrl, // Pass imageUrl for the first post
+    });
+
+    return (await repo.topics.findById(newTopic.id)) ?? newTopic;
+}
+
+export interface TopicStatusChanges {
+    pinned?: boolean;
+    locked?: boolean;
+    announcement?: boolean;
+}
+
+// Sets or clears moderation state. Flags that are already in the requested state keep their original date.
+export const updateTopicStatus = async (topicId: string, changes: TopicStatusChanges): Promise<Topic | null> => {
+    const repo = getRepository();
+    const topic = await repo.topics.findById(topicId);
+    if (!topic) {
+        console.error(`[DB updateTopicStatus] Topic ${topicId} not found.`);
+        return null;
+    }
+    const now = new Date();
+    const stamp = (wanted: boolean | undefined, current: Date | undefined) =>
+        wanted === undefined ? current : wanted ? current ?? now : undefined;
+    const updatedTopic = await repo.topics.update(topicId, {
+        pinnedAt: stamp(changes.pinned, topic.pinnedAt),
+        lockedAt: stamp(changes.locked, topic.lockedAt),
+        announcedAt: stamp(changes.announcement, topic.announcedAt),
+    });
+    console.log(`[DB updateTopicStatus] Updated Topic ${topicId}:`, changes);
+    return updatedTopic;
+};
+
+// --- Moderation: move, merge, split ---
+// Posts change topic and topics change category here, so the denormalized counts are
+// recomputed from the rows afterwards instead of being adjusted step by step.
+
+// postCount from the topic's posts; lastActivity is the newest post's date
+const syncTopicCounts = async (topicId: string) => {
+    const repo = getRepository();
+    const postCount = await repo.posts.countByTopic(topicId);
+    const [lastPost] = postCount > 0 ? await repo.posts.listByTopic(topicId, { limit: 1, offset: postCount - 1 }) : [];
+    await repo.topics.update(topicId, { postCount, ...(lastPost && { lastActivity: lastPost.createdAt }) });
+};
+
+// topicCount and postCount from the category's topics
+const syncCategoryCounts = async (categoryId: string) => {
+    const repo = getRepository();
+    const categoryTopics = await repo.topics.listByCategory(categoryId);
+    const postCount = categoryTopics.reduce((sum, topic) => sum + (topic.postCount || 0), 0);
+    await repo.categories.update(categoryId, { topicCount: categoryTopics.length, postCount });
+};
+
+export const moveTopic = async (topicId: string, categoryId: string): Promise<Topic | null> => {
+    const repo = getRepository();
+    const topic = await repo.topics.findById(topicId);
+    if (!topic || !(await repo.categories.findById(categoryId))) {
+        console.error(`[DB moveTopic] Topic ${topicId} or Category ${categoryId} not found.`);
+        return null;
+    }
+    if (topic.categoryId === categoryId) return topic;
+
+    const movedTopic = await repo.topics.update(topicId, { categoryId });
+    await syncCategoryCounts(topic.categoryId);
+    await syncCategoryCounts(categoryId);
+    console.log(`[DB moveTopic] Moved Topic ${topicId} from Category ${topic.categoryId} to ${categoryId}`);
+    return movedTopic;
+};
+
+// Moves every post of `sourceTopicId` into `targetTopicId` and deletes the source topic.
+// Posts are listed by date, so the two threads interleave by when each post was written.
+export const mergeTopics = async (sourceTopicId: string, targetTopicId: string): Promise<Topic | null> => {
+    const repo = getRepository();
+    const [source, target] = await Promise.all([repo.topics.findById(sourceTopicId), repo.topics.findById(targetTopicId)]);
+    if (!source || !target || source.id === target.id) {
+        console.error(`[DB mergeTopics] Cannot merge Topic ${sourceTopicId} into ${targetTopicId}.`);
+        return null;
+    }
+
+    const sourcePosts = await repo.posts.listByTopic(source.id);
+    await repo.posts.moveToTopic(sourcePosts.map(post => post.id), target.id);
+    await repo.topics.delete(source.id);
+    await syncTopicCounts(target.id);
+    await syncCategoryCounts(target.categoryId);
+    if (source.categoryId !== target.categoryId) await syncCategoryCounts(source.categoryId);
+    await reindexTopic(target.id); // The source's posts may now open the topic
+    console.log(`[DB mergeTopics] Merged ${sourcePosts.length} posts from Topic ${source.id} into ${target.id}`);
+    return repo.topics.findById(target.id);
+};
+
+interface SplitTopicParams {
+    topicId: string;
+    postIds: string[]; // Posts of `topicId` that start the new topic
+    title: string;
+    categoryId: string;
+}
+
+// Moves the selected posts into a new topic, started by the author of the earliest one.
+// At least one post has to stay behind, otherwise this would just be a move.
+export const splitTopic = async ({ topicId, postIds, title, categoryId }: SplitTopicParams): Promise<Topic | null> => {
+    const repo = getRepository();
+    const topic = await repo.topics.findById(topicId);
+    const selectedIds = new Set(postIds);
+    const topicPosts = await repo.posts.listByTopic(topicId);
+    const selectedPosts = topicPosts.filter(post => selectedIds.has(post.id)); // Oldest first
+    if (!topic || !(await repo.categories.findById(categoryId))
+        || selectedPosts.length === 0 || selectedPosts.length !== selectedIds.size || selectedPosts.length === topicPosts.length) {
+        console.error(`[DB splitTopic] Cannot split ${postIds.length} posts from Topic ${topicId}.`);
+        return null;
+    }
+
+    const [firstPost] = selectedPosts;
+    const newTopic = await repo.topics.insert({
+        id: generateId('topic'),
+        title,
+        categoryId,
+        authorId: firstPost.authorId,
+        createdAt: firstPost.createdAt,
+        lastActivity: firstPost.createdAt, // Set by syncTopicCounts
+        postCount: 0,
+    });
+    await repo.posts.moveToTopic(selectedPosts.map(post => post.id), newTopic.id);
+    await syncTopicCounts(topicId);
+    await syncTopicCounts(newTopic.id);
+    await syncCategoryCounts(topic.categoryId);
+    if (categoryId !== topic.categoryId) await syncCategoryCounts(categoryId);
+    await reindexTopic(topicId);
+    await reindexTopic(newTopic.id);
+    console.log(`[DB splitTopic] Split ${selectedPosts.length} posts from Topic ${topicId} into new Topic ${newTopic.id}`);
+    return repo.topics.findById(newTopic.id);
+};
+
+// Fetch Posts
+export const getPostsByTopic = async (topicId: string): Promise<Post[]> => {
+  const topicPosts = await getRepository().posts.listByTopic(topicId); // Sorted by creation date asc
+  // Add author data
+  return Promise.all(topicPosts.map(async post => {
+    const author = await findAuthor(post.authorId);
+    return { ...post, author };
+  }));
+};
+
+// Posts quoting any of `postIds`, grouped by the quoted post. Replies in categories the viewer can't see are left out.
+const findReplies = async (postIds: string[], viewer: User | null): Promise<Map<string, PostReply[]>> => {
+    const repo = getRepository();
+    const quoting = await repo.posts.listQuoting(postIds);
+    const visibleTopics = new Map<string, boolean>();
+    const replies = new Map<string, PostReply[]>();
+    for (const post of quoting) {
+        if (!visibleTopics.has(post.topicId)) {
+            const topic = await repo.topics.findById(post.topicId);
+            const category = topic ? await repo.categories.findById(topic.categoryId) : null;
+            visibleTopics.set(post.topicId, !!category && canInCategory(viewer, category, 'view'));
+        }
+        if (!visibleTopics.get(post.topicId)) continue;
+        const reply: PostReply = { id: post.id, createdAt: post.createdAt, author: await findAuthor(post.authorId) };
+        for (const quotedId of post.quotedPostIds ?? []) {
+            if (postIds.includes(quotedId)) replies.set(quotedId, [...(replies.get(quotedId) ?? []), reply]);
+        }
+    }
+    return replies;
+};
+
+// Reactions to any of `postIds`, grouped by post and then by emoji
+const findReactions = async (postIds: string[], viewer: User | null): Promise<Map<string, ReactionSummary[]>> => {
+    const repo = getRepository();
+    const usernames = new Map<string, string>();
+    const reactions = new Map<string, ReactionSummary[]>();
+    for (const reaction of await repo.reactions.listByPosts(postIds)) {
+        if (!usernames.has(reaction.userId)) {
+            usernames.set(reaction.userId, (await repo.users.findById(reaction.userId))?.username ?? 'Deleted user');
+        }
+        const summaries = reactions.get(reaction.postId) ?? [];
+        let summary = summaries.find(s => s.emoji === reaction.emoji);
+        if (!summary) {
+            summary = { emoji: reaction.emoji, count: 0, usernames: [], reacted: false };
+            summaries.push(summary);
+        }
+        summary.count++;
+        summary.usernames.push(usernames.get(reaction.userId)!);
+        summary.reacted ||= reaction.userId === viewer?.id;
+        reactions.set(reaction.postId, summaries);
+    }
+    return reactions;
+};
+
+export const getPostsPage = async (topicId: string, page: number, pageSize: number, viewer: User | null = null): Promise<Page<Post>> => {
+    const repo = getRepository();
+    const totalItems = await repo.posts.countByTopic(topicId);
+    const { current, totalPages, request } = toPageRequest(page, pageSize, totalItems);
+    const posts = await repo.posts.listByTopic(topicId, request);
+    const replies = await findReplies(posts.map(post => post.id), viewer);
+    const reactions = await findReactions(posts.map(post => post.id), viewer);
+    const items = await Promise.all(posts.map(async post => ({
+        ...post,
+        author: await findAuthor(post.authorId),
+        replies: replies.get(post.id) ?? [],
+        reactions: reactions.get(post.id) ?? [],
+    })));
+    return { items, page: current, pageSize, totalItems, totalPages };
+};
+
+// Gets only the stored post, without author, replies or reactions
+export const getPostByIdSimple = async (id: string): Promise<Post | null> => {
+    return getRepository().posts.findById(id);
+};
+
+// Where a post sits in its topic, for permalinks: the topic and the post's 0-based position
+export const getPostLocation = async (postId: string): Promise<{ topicId: string; index: number } | null> => {
+    const repo = getRepository();
+    const post = await repo.posts.findById(postId);
+    if (!post) return null;
+    return { topicId: post.topicId, index: await repo.posts.countBefore(post) };
+};
+
+interface CreatePostParams extends Omit<Post, 'id' | 'createdAt' | 'updatedAt' | 'quotedPostIds' | 'author' | 'topic' | 'replies' | 'reactions'> {
+    imageUrl?: string;
+}
+
+// Unset rather than an empty list, so posts without quotes store nothing
+const quotedPostIdsOf = (content: string) => {
+    const ids = extractQuotedPostIds(content);
+    return ids.length > 0 ? ids : undefined;
+};
+
+export const createPost = async (postData: CreatePostParams): Promise<Post> => {
+    const repo = getRepository();
+    const now = new Date();
+    const newPost = await repo.posts.insert({
+        content: postData.content,
+        topicId: postData.topicId,
+        authorId: postData.authorId,
+        imageUrl: postData.imageUrl,
+        quotedPostIds: quotedPostIdsOf(postData.content),
+        id: generateId('post'),
+        createdAt: now,
+    });
+    console.log(`[DB createPost] Created Post: ${newPost.id} in Topic ${newPost.topicId}`);
+
+    // Update topic's last activity and post count
+    const topic = await repo.topics.findById(postData.topicId);
+    if (topic) {
+        await repo.topics.update(topic.id, { lastActivity: now, postCount: (topic.postCount || 0) + 1 });
+        console.log(`[DB createPost] Updated Topic ${topic.id} lastActivity and postCount`);
+
+        // Update category post count via the topic
+        const category = await repo.categories.findById(topic.categoryId);
+        if (category) {
+            await repo.categories.update(category.id, { postCount: (category.postCount || 0) + 1 });
+            console.log(`[DB createPost] Updated Category ${category.id} postCount`);
+        }
+    } else {
+        console.warn(`[DB createPost] Topic ${postData.topicId} not found when trying to update counts/activity.`);
+    }
+
+    await indexPost(newPost);
+    await dispatchNotification({ type: 'post.created', post: newPost });
+    await markTopicRead(newPost.authorId, newPost); // Your own post is never unread to you
+
+    // Populate author and topic details for the returned post
+    const author = await findAuthor(newPost.authorId);
+    const populatedTopic = await getTopicById(newPost.topicId);
+    return { ...newPost, author, topic: populatedTopic ?? undefined };
+};
+
+export const updatePost = async (postId: string, content: string, userId: string, imageUrl?: string | null): Promise<Post | null> => {
+    const repo = getRepository();
+    const post = await repo.posts.findById(postId);
+    if (!post) {
+        console.error("[DB updatePost] Update failed: Post not found.");
+        return null;
+    }
+
+    const user = await findUserById(userId);
+    if (!can(user, 'post.edit', post)) {
+        console.error("[DB updatePost] Update failed: User not authorized.");
+        return null;
+    }
+
+    const changes: Partial<Post> = { content, quotedPostIds: quotedPostIdsOf(content), updatedAt: new Date() };
+    if (imageUrl === null) { // Explicitly removing image
+        changes.imageUrl = undefined;
+        console.log(`[DB updatePost] Removed image for Post ${postId}`);
+    } else if (imageUrl !== undefined) { // Adding or changing image (undefined means don't touch image)
+        changes.imageUrl = imageUrl;
+        console.log(`[DB updatePost] Updated image for Post ${postId}`);
+    }
+
+    const updatedPost = await repo.posts.update(postId, changes);
+    if (!updatedPost) return null;
+    await indexPost(updatedPost);
+    await dispatchNotification({ type: 'post.edited', post: updatedPost, previousContent: post.content });
+    console.log(`[DB updatePost] Updated Post ${postId} Content: ${content.substring(0,30)}...`);
+    // Populate author and topic details for the returned post
+    const author = await findAuthor(updatedPost.authorId);
+    const topic = await getTopicById(updatedPost.topicId);
+    return { ...updatedPost, author, topic: topic ?? undefined };
+};
+
+export const deletePost = async (postId: string, userId: string): Promise<boolean> => {
+    const repo = getRepository();
+    const postToDelete = await repo.posts.findById(postId);
+    if (!postToDelete) {
+        console.error("[DB deletePost] Delete failed: Post not found.");
+        return false; // Post not found
+    }
+
+    const user = await findUserById(userId);
+    if (!can(user, 'post.delete', postToDelete)) {
+        console.error("[DB deletePost] Delete failed: User not authorized.");
+        return false; // User not authorized
+    }
+
+    await repo.posts.delete(postId);
+
+    // Update topic post count
+    const topic = await repo.topics.findById(postToDelete.topicId);
+    if (topic) {
+        const postCount = Math.max(0, (topic.postCount || 1) - 1);
+        await repo.topics.update(topic.id, { postCount });
+        console.log(`[DB deletePost] Updated Topic ${topic.id} postCount to ${postCount}`);
+
+        // Update category post count via the topic
+        const category = await repo.categories.findById(topic.categoryId);
+        if (category) {
+            const categoryPostCount = Math.max(0, (category.postCount || 1) - 1);
+            await repo.categories.update(category.id, { postCount: categoryPostCount });
+            console.log(`[DB deletePost] Updated Category ${category.id} postCount to ${categoryPostCount}`);
+        } else {
+            console.warn(`[DB deletePost] Category ${topic.categoryId} not found when trying to update post count.`);
+        }
+    } else {
+        console.warn(`[DB deletePost] Topic ${postToDelete.topicId} not found when trying to update counts.`);
+    }
+
+    await unindexPost(postToDelete);
+    console.log("[DB deletePost] Deleted Post ID:", postId);
+    await dispatchNotification({ type: 'post.deleted', post: postToDelete, actorId: userId }); // Nobody is told about deleting their own post
+    // Revalidation handled by action
+    return true;
+};
+
+// Adds the user's reaction with `emoji`, or takes it back if they already reacted with it.
+// Returns whether the reaction is now there, or null if the post doesn't exist or the reaction can't be added.
+export const toggleReaction = async (postId: string, userId: string, emoji: string, { canAdd = true } = {}): Promise<boolean | null> => {
+    const repo = getRepository();
+    const post = await repo.posts.findById(postId);
+    if (!post) return null;
+
+    const id = `${postId}:${userId}:${emoji}`;
+    if (await repo.reactions.findById(id)) {
+        await repo.reactions.delete(id);
+        console.log(`[DB toggleReaction] User ${userId} took back ${emoji} on Post ${postId}`);
+        return false;
+    }
+    if (!canAdd) return null;
+    await repo.reactions.insert({ id, postId, userId, emoji, createdAt: new Date() });
+    console.log(`[DB toggleReaction] User ${userId} reacted ${emoji} to Post ${postId}`);
+    await dispatchNotification({ type: 'post.reacted', post, actorId: userId, emoji });
+    return true;
+};
+
+// --- Notifications ---
+
+export const getNotificationsPage = async (userId: string, page: number, pageSize: number): Promise<Page<Notification>> => {
+    const repo = getRepository();
+    const totalItems = await repo.notifications.count(userId);
+    const { current, totalPages, request } = toPageRequest(page, pageSize, totalItems);
+    const notifications = await repo.notifications.listByUser(userId, request);
+    const items = await Promise.all(notifications.map(async notification => ({
+        ...notification,
+        actor: await findAuthor(notification.actorId),
+    })));
+    return { items, page: current, pageSize, totalItems, totalPages };
+};
+
+export const getUnreadNotificationCount = async (userId: string): Promise<number> => {
+    return getRepository().notifications.countUnread(userId);
+};
+
+// Only the recipient can mark a notification; returns false for anyone else's
+export const markNotificationRead = async (userId: string, notificationId: string): Promise<boolean> => {
+    const marked = await getRepository().notifications.markRead(userId, notificationId, new Date());
+    if (marked) console.log(`[DB markNotificationRead] Marked Notification ${notificationId} read for User ${userId}`);
+    return marked;
+};
+
+export const markAllNotificationsRead = async (userId: string): Promise<number> => {
+    const marked = await getRepository().notifications.markAllRead(userId, new Date());
+    console.log(`[DB markAllNotificationsRead] Marked ${marked} notifications read for User ${userId}`);
+    return marked;
+};
+
+// --- Unread ---
+
+// Topics with posts the user hasn't seen, in the categories they can see, most recently active first
+export const getUnreadTopicsPage = async (user: User, page: number, pageSize: number): Promise<Page<Topic>> => {
+    const categories = await getVisibleCategories(user);
+    const topics = await getUnreadTopics(user, categories.map(category => category.id));
+    const { current, totalPages, request } = toPageRequest(page, pageSize, topics.length);
+    const items = await Promise.all(topics.slice(request.offset, request.offset + request.limit).map(async topic => ({
+        ...topic,
+        author: await findAuthor(topic.authorId),
+        category: categories.find(category => category.id === topic.categoryId),
+    })));
+    return { items, page: current, pageSize, totalItems: topics.length, totalPages };
+};
+
+// --- Search ---
+
+export interface SearchOptions {
+    query: string;
+    categoryId?: string; // Includes its subcategories
+    author?: string; // Username
+    after?: Date; // Posts created at or after
+    before?: Date; // Posts created before
+    topicsOnly?: boolean; // Only opening posts (one result per topic)
+}
+
+// Posts matching every word of the query, best match first, in the categories the user can see.
+// Each result has its author and its topic (with category) populated.
+export const searchPosts = async (user: User | null, options: SearchOptions, page: number, pageSize: number): Promise<Page<Post>> => {
+    const repo = getRepository();
+    const terms = searchTerms(options.query);
+    const visible = await getVisibleCategories(user);
+    // A category the user can't see (or that doesn't exist) matches nothing rather than everything
+    const scope = !options.categoryId ? visible.map(category => category.id)
+        : visible.some(category => category.id === options.categoryId) ? [options.categoryId, ...getDescendantIds(visible, options.categoryId)]
+        : [];
+    const author = options.author ? await repo.users.findByUsername(options.author) : null;
+    if (terms.length === 0 || (options.author && !author)) {
+        return { items: [], page: 1, pageSize, totalItems: 0, totalPages: 1 };
+    }
+
+    const filters = {
+        categoryIds: scope,
+        authorId: author?.id,
+        after: options.after,
+        before: options.before,
+        topicsOnly: options.topicsOnly,
+    };
+    const totalItems = await repo.search.count(terms, filters);
+    const { current, totalPages, request } = toPageRequest(page, pageSize, totalItems);
+    const postIds = await repo.search.search(terms, filters, request);
+    const posts = (await Promise.all(postIds.map(id => repo.posts.findById(id)))).filter(post => post !== null);
+    const items = await Promise.all(posts.map(async post => {
+        const topic = await repo.topics.findById(post.topicId);
+        return {
+            ...post,
+            author: await findAuthor(post.authorId),
+            topic: topic ? { ...topic, category: visible.find(category => category.id === topic.categoryId) } : undefined,
+        };
+    }));
+    return { items, page: current, pageSize, totalItems, totalPages };
+};
+
+// --- Audit Trail ---
+
+export const recordAudit = async (entry: Omit<AuditEntryRecord, 'id' | 'createdAt'>): Promise<AuditEntry> => {
+    const saved = await getRepository().auditLog.insert({ ...entry, id: generateId('audit'), createdAt: new Date() });
+    console.log(`[DB recordAudit] ${entry.action} by ${entry.actorId}: ${entry.summary}`);
+    return saved;
+};
+
+export const getAuditLogPage = async (page: number, pageSize: number): Promise<Page<AuditEntry>> => {
+    const repo = getRepository();
+    const totalItems = await repo.auditLog.count();
+    const { current, totalPages, request } = toPageRequest(page, pageSize, totalItems);
+    const entries = await repo.auditLog.list(request);
+    const items = await Promise.all(entries.map(async entry => ({ ...entry, actor: await findAuthor(entry.actorId) })));
+    return { items, page: current, pageSize, totalItems, totalPages };
+};
+
+// --- Count Functions for Admin Dashboard ---
+export const getTotalUserCount = async (): Promise<number> => {
+    return getRepository().users.count();
+};
+
+export const getTotalCategoryCount = async (): Promise<number> => {
+    return getRepository().categories.count();
+};
+
+export const getTotalTopicCount = async (): Promise<number> => {
+    return getRepository().topics.count();
+};
+
+export const getTotalPostCount = async (): Promise<number> => {
+    return getRepository().posts.count();
+};
@@ -0,0 +1,44 @@
+import type { CategoryRecord, UserRecord } from './repository';
+
+// Categories every fresh forum starts with (same as the original placeholder data)
+export const DEFAULT_CATEGORIES: CategoryRecord[] = [
+    { id: 'cat1', name: 'General Discussion', description: 'Talk about anything.', position: 0, icon: 'message-circle', createdAt: new Date('2023-01-10T09:00:00Z'), topicCount: 0, postCount: 0 },
+    { id: 'cat2', name: 'Introductions', description: 'Introduce yourself to the community.', position: 1, icon: 'hand', createdAt: new Date('2023-01-10T09:05:00Z'), topicCount: 0, postCount: 0 },
+    { id: 'cat3', name: 'Technical Help', description: 'Get help with technical issues.', position: 2, icon: 'wrench', createdAt: new Date('2023-01-11T14:00:00Z'), topicCount: 0, postCount: 0 },
+];
+
+// Optional demo content (`npm run db:seed -- --demo`). Fixed ids and dates keep seeding repeatable.
+export const DEMO_USERS: (Pick<UserRecord, 'id' | 'username' | 'email' | 'role' | 'createdAt'> & { password: string })[] = [
+    { id: 'demo-admin', username: 'admin', email: 'admin@example.com', password: 'password123', role: 'admin', createdAt: new Date('2023-01-10T08:00:00Z') },
+    { id: 'demo-alice', username: 'alice', email: 'alice@example.com', password: 'password123', role: 'member', createdAt: new Date('2023-01-12T10:00:00Z') },
+    { id: 'demo-bob', username: 'bob', email: 'bob@example.com', password: 'password123', role: 'moderator', createdAt: new Date('2023-01-12T11:30:00Z') },
+];
+
+export const DEMO_TOPICS = [
+    {
+        id: 'demo-topic-welcome',
+        title: 'Welcome to ForumLite!',
+        categoryId: 'cat1',
+        posts: [
+            { id: 'demo-post-welcome-1', authorId: 'demo-admin', createdAt: new Date('2023-01-12T09:00:00Z'), content: 'Welcome everyone! Please read the **forum rules** and be kind to each other.' },
+            { id: 'demo-post-welcome-2', authorId: 'demo-alice', createdAt: new Date('2023-01-12T10:15:00Z'), content: 'Thanks for setting this up, happy to be here!' },
+        ],
+    },
+    {
+        id: 'demo-topic-hello',
+        title: 'Hi, I am Bob',
+        categoryId: 'cat2',
+        posts: [
+            { id: 'demo-post-hello-1', authorId: 'demo-bob', createdAt: new Date('2023-01-12T12:00:00Z'), content: 'Hello all, I mostly tinker with home servers. Nice to meet you.' },
+        ],
+    },
+    {
+        id: 'demo-topic-wifi',
+        title: 'Wi-Fi drops every few minutes',
+        categoryId: 'cat3',
+        posts: [
+            { id: 'demo-post-wifi-1', authorId: 'demo-alice', createdAt: new Date('2023-01-13T08:30:00Z'), content: 'My laptop loses Wi-Fi every few minutes. Any ideas where to start?' },
+            { id: 'demo-post-wifi-2', authorId: 'demo-bob', createdAt: new Date('2023-01-13T09:05:00Z'), content: 'Check power management for the adapter first:\n\n```bash\niw dev wlan0 get power_save\n```' },
+        ],
+    },
+];
@@ -0,0 +1,37 @@
+import path from 'node:path';
+import type { Repository } from './repository';
+import { createMemoryRepository } from './memory';
+import { createSqliteRepository } from './sqlite';
+
+export type { Repository } from './repository';
+
+/**
+ * Storage is chosen by configuration:
+ *   FORUM_DB_DRIVER=memory (default) - in-process arrays, wiped on restart (handy for tests and demos)
+ *   FORUM_DB_DRIVER=sqlite           - embedded SQLite file at FORUM_DB_PATH (default: ./data/forum.db)
+ */
+export const getDatabaseConfig = () => ({
+    driver: (process.env.FORUM_DB_DRIVER === 'sqlite' ? 'sqlite' : 'memory') as Repository['driver'],
+    path: process.env.FORUM_DB_PATH || path.join(process.cwd(), 'data', 'forum.db'),
+});
+
+// Cache the repository on globalThis so Next.js dev hot reloads don't reset the memory store or reopen the database.
+const globalForRepository = globalThis as unknown as { forumRepository?: Repository };
+
+export function getRepository(): Repository {
+    if (!globalForRepository.forumRepository) {
+        const config = getDatabaseConfig();
+        if (config.driver === 'sqlite') {
+            globalForRepository.forumRepository = createSqliteRepository(config.path);
+        } else {
+            globalForRepository.forumRepository = createMemoryRepository();
+        }
+        console.log(`[DB] Using ${config.driver} storage${config.driver === 'sqlite' ? ` at ${config.path}` : ''}`);
+    }
+    return globalForRepository.forumRepository;
+}
+
+// Lets scripts and tests swap in a specific store (e.g. a fresh memory repository).
+export function setRepository(repository: Repository | undefined) {
+    globalForRepository.forumRepository = repository;
+}
@@ -0,0 +1,324 @@
+import type {
+    Repository,
+    UserRecord,
+    CategoryRecord,
+    TopicRecord,
+    PostRecord,
+    SessionRecord,
+    AuthTokenRecord,
+    LoginThrottleRecord,
+    SettingRecord,
+    AuditEntryRecord,
+    NotificationRecord,
+    WatchRecord,
+    ReadMarkerRecord,
+    ReactionRecord,
+    SearchDocumentRecord,
+    SearchFilters,
+    PageRequest,
+} from './repository';
+import { DEFAULT_CATEGORIES } from './defaults';
+import { tokenize } from '../search-text';
+
+// Minimal keyed table: always hands out copies so callers can't mutate stored records directly.
+class MemoryTable<T extends { id: string }> {
+    private rows = new Map<string, T>();
+
+    constructor(initialRows: T[] = []) {
+        initialRows.forEach(row => this.rows.set(row.id, { ...row }));
+    }
+
+    all(): T[] {
+        return Array.from(this.rows.values()).map(row => ({ ...row }));
+    }
+
+    get(id: string): T | null {
+        const row = this.rows.get(id);
+        return row ? { ...row } : null;
+    }
+
+    insert(row: T): T {
+        this.rows.set(row.id, { ...row });
+        return { ...row };
+    }
+
+    update(id: string, data: Partial<Omit<T, 'id'>>): T | null {
+        const row = this.rows.get(id);
+        if (!row) return null;
+        const updated = { ...row, ...data };
+        // Allow explicit `undefined` to clear optional fields (e.g. removing a post image)
+        (Object.keys(data) as (keyof T)[]).forEach(key => {
+            if (updated[key] === undefined) delete updated[key];
+        });
+        this.rows.set(id, updated);
+        return { ...updated };
+    }
+
+    delete(id: string): boolean {
+        return this.rows.delete(id);
+    }
+
+    deleteWhere(predicate: (row: T) => boolean): T[] {
+        const deleted = Array.from(this.rows.values()).filter(predicate);
+        deleted.forEach(row => this.rows.delete(row.id));
+        return deleted;
+    }
+
+    count(): number {
+        return this.rows.size;
+    }
+}
+
+const slice = <T>(rows: T[], page?: PageRequest) => (page ? rows.slice(page.offset, page.offset + page.limit) : rows);
+
+// Pinned topics and announcements head their category's listing
+const isListedFirst = (topic: TopicRecord) => !!(topic.pinnedAt || topic.announcedAt);
+
+// Strips populated relations so only the stored shape is kept.
+const toTopicRecord = ({ author, category, unreadCount, ...topic }: TopicRecord & { author?: unknown; category?: unknown; unreadCount?: unknown }): TopicRecord => topic;
+const toPostRecord = ({ author, topic, replies, reactions, ...post }: PostRecord & { author?: unknown; topic?: unknown; replies?: unknown; reactions?: unknown }): PostRecord => post;
+
+export function createMemoryRepository(): Repository {
+    const users = new MemoryTable<UserRecord>();
+    const categories = new MemoryTable<CategoryRecord>(DEFAULT_CATEGORIES);
+    const topics = new MemoryTable<TopicRecord>();
+    const posts = new MemoryTable<PostRecord>();
+    const sessions = new MemoryTable<SessionRecord>();
+    const authTokens = new MemoryTable<AuthTokenRecord>();
+    const loginThrottles = new MemoryTable<LoginThrottleRecord>();
+    const settings = new MemoryTable<SettingRecord>();
+    const auditLog = new MemoryTable<AuditEntryRecord>();
+    const notifications = new MemoryTable<NotificationRecord>();
+    const watches = new MemoryTable<WatchRecord>();
+    const readMarkers = new MemoryTable<ReadMarkerRecord>();
+    const searchDocuments = new MemoryTable<SearchDocumentRecord>();
+    const reactions = new MemoryTable<ReactionRecord>();
+
+    // Mirrors the ON DELETE CASCADE of the SQLite schema
+    const deletePosts = (predicate: (post: PostRecord) => boolean) => {
+        const deleted = new Set(posts.deleteWhere(predicate).map(p => p.id));
+        notifications.deleteWhere(n => n.postId !== undefined && deleted.has(n.postId));
+        searchDocuments.deleteWhere(d => deleted.has(d.id));
+        reactions.deleteWhere(r => deleted.has(r.postId));
+        return deleted.size;
+    };
+    const deleteTopics = (predicate: (topic: TopicRecord) => boolean) => {
+        const deleted = topics.deleteWhere(predicate).map(t => t.id);
+        deletePosts(p => deleted.includes(p.topicId));
+        watches.deleteWhere(w => w.topicId !== undefined && deleted.includes(w.topicId));
+        readMarkers.deleteWhere(m => m.topicId !== undefined && deleted.includes(m.topicId));
+        return deleted;
+    };
+    const deleteCategory = (id: string) => {
+        if (!categories.delete(id)) return false;
+        deleteTopics(t => t.categoryId === id);
+        watches.deleteWhere(w => w.categoryId === id);
+        readMarkers.deleteWhere(m => m.categoryId === id);
+        return true;
+    };
+    const deleteUser = (id: string) => {
+        if (!users.delete(id)) return false;
+        for (const table of [sessions, authTokens, notifications, watches, readMarkers, reactions]) {
+            table.deleteWhere(row => row.userId === id);
+        }
+        return true;
+    };
+
+    // Matching documents with a relevance score (occurrences of the terms, title words weighted like SQLite's bm25 weights),
+    // best first; newer posts win ties
+    const searchMatches = (terms: string[], filters: SearchFilters) => {
+        const occurrences = (words: string[], term: string) => words.filter(word => word.startsWith(term)).length;
+        const matches: { post: PostRecord; score: number }[] = [];
+        if (terms.length === 0) return matches;
+        for (const document of searchDocuments.all()) {
+            const post = posts.get(document.id);
+            const topic = post && topics.get(post.topicId);
+            if (!post || !topic || !filters.categoryIds.includes(topic.categoryId)) continue;
+            if (filters.authorId && post.authorId !== filters.authorId) continue;
+            if (filters.after && post.createdAt.getTime() < filters.after.getTime()) continue;
+            if (filters.before && post.createdAt.getTime() >= filters.before.getTime()) continue;
+            if (filters.topicsOnly && document.title === undefined) continue;
+
+            const titleWords = tokenize(document.title ?? '');
+            const contentWords = tokenize(document.content);
+            const counts = terms.map(term => [occurrences(titleWords, term), occurrences(contentWords, term)]);
+            if (counts.some(([inTitle, inContent]) => inTitle + inContent === 0)) continue;
+            matches.push({ post, score: counts.reduce((score, [inTitle, inContent]) => score + 10 * inTitle + inContent, 0) });
+        }
+        return matches.sort((a, b) => b.score - a.score || b.post.createdAt.getTime() - a.post.createdAt.getTime());
+    };
+
+    return {
+        driver: 'memory',
+        users: {
+            list: async () => users.all(),
+            findById: async (id) => users.get(id),
+            findByEmail: async (email) => users.all().find(u => u.email === email) ?? null,
+            findByUsername: async (username) => users.all()
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+                .find(u => u.username.toLowerCase() === username.toLowerCase()) ?? null,
+            searchByUsername: async (prefix, limit) => users.all()
+                .filter(u => u.username.toLowerCase().startsWith(prefix.toLowerCase()))
+                .sort((a, b) => a.username.localeCompare(b.username, undefined, { sensitivity: 'base' }))
+                .slice(0, limit),
+            insert: async (user) => users.insert(user),
+            update: async (id, data) => users.update(id, data),
+            advanceTotpStep: async (id, step) => {
+                const user = users.get(id);
+                if (!user || (user.totpLastStep !== undefined && user.totpLastStep >= step)) return false;
+                return !!users.update(id, { totpLastStep: step });
+            },
+            replaceRecoveryCodes: async (id, expected, next) => {
+                const user = users.get(id);
+                if (!user || JSON.stringify(user.recoveryCodes ?? null) !== JSON.stringify(expected)) return false;
+                return !!users.update(id, { recoveryCodes: next });
+            },
+            delete: async (id) => deleteUser(id),
+            count: async () => users.count(),
+        },
+        categories: {
+            list: async () => categories.all()
+                .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.createdAt.getTime() - b.createdAt.getTime()),
+            findById: async (id) => categories.get(id),
+            insert: async (category) => categories.insert(category),
+            update: async (id, data) => categories.update(id, data),
+            delete: async (id) => deleteCategory(id),
+            count: async () => categories.count(),
+        },
+        topics: {
+            listByCategory: async (categoryId, page) => slice(topics.all()
+                .filter(t => t.categoryId === categoryId)
+                .sort((a, b) => Number(isListedFirst(b)) - Number(isListedFirst(a)) || b.lastActivity.getTime() - a.lastActivity.getTime()), page),
+            listAnnouncements: async () => topics.all()
+                .filter(t => t.announcedAt)
+                .sort((a, b) => b.announcedAt!.getTime() - a.announcedAt!.getTime()),
+            listActiveSince: async (categoryIds, since) => topics.all()
+                .filter(t => categoryIds.includes(t.categoryId) && t.lastActivity.getTime() > since.getTime())
+                .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime()),
+            countByCategory: async (categoryId) => topics.all().filter(t => t.categoryId === categoryId).length,
+            findById: async (id) => topics.get(id),
+            insert: async (topic) => topics.insert(toTopicRecord(topic)),
+            update: async (id, data) => topics.update(id, data),
+            delete: async (id) => deleteTopics(t => t.id === id).length > 0,
+            deleteByCategory: async (categoryId) => deleteTopics(t => t.categoryId === categoryId),
+            moveToCategory: async (fromCategoryId, toCategoryId) => topics.all()
+                .filter(t => t.categoryId === fromCategoryId)
+                .filter(t => topics.update(t.id, { categoryId: toCategoryId })).length,
+            count: async () => topics.count(),
+        },
+        posts: {
+            listByTopic: async (topicId, page) => slice(posts.all()
+                .filter(p => p.topicId === topicId)
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()), page),
+            countByTopic: async (topicId) => posts.all().filter(p => p.topicId === topicId).length,
+            countBefore: async (post) => posts.all()
+                .filter(p => p.topicId === post.topicId)
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+                .findIndex(p => p.id === post.id),
+            countSince: async (topicId, since) => posts.all().filter(p => p.topicId === topicId && p.createdAt.getTime() > since.getTime()).length,
+            findById: async (id) => posts.get(id),
+            insert: async (post) => posts.insert(toPostRecord(post)),
+            update: async (id, data) => posts.update(id, data),
+            delete: async (id) => deletePosts(p => p.id === id) > 0,
+            deleteByTopics: async (topicIds) => deletePosts(p => topicIds.includes(p.topicId)),
+            moveToTopic: async (postIds, topicId) => postIds.filter(id => posts.update(id, { topicId })).length,
+            listQuoting: async (postIds) => posts.all()
+                .filter(p => p.quotedPostIds?.some(id => postIds.includes(id)))
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+            count: async () => posts.count(),
+        },
+        sessions: {
+            listByUser: async (userId) => sessions.all()
+                .filter(s => s.userId === userId)
+                .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()),
+            findById: async (id) => sessions.get(id),
+            findByTokenHash: async (tokenHash) => sessions.all().find(s => s.tokenHash === tokenHash) ?? null,
+            insert: async (session) => sessions.insert(session),
+            update: async (id, data) => sessions.update(id, data),
+            delete: async (id) => sessions.delete(id),
+            deleteByUser: async (userId, exceptSessionId) => sessions.deleteWhere(s => s.userId === userId && s.id !== exceptSessionId).length,
+            deleteExpired: async (now) => sessions.deleteWhere(s => s.expiresAt.getTime() <= now.getTime()).length,
+        },
+        authTokens: {
+            findByTokenHash: async (tokenHash) => authTokens.all().find(t => t.tokenHash === tokenHash) ?? null,
+            insert: async (token) => authTokens.insert(token),
+            update: async (id, data) => authTokens.update(id, data),
+            // No await between the check and the update, so concurrent calls can't both succeed
+            consume: async (tokenHash, purpose, now) => {
+                const token = authTokens.all().find(t => t.tokenHash === tokenHash);
+                if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt.getTime() <= now.getTime()) return null;
+                return authTokens.update(token.id, { usedAt: now });
+            },
+            deleteByUser: async (userId, purpose) => authTokens.deleteWhere(t => t.userId === userId && (!purpose || t.purpose === purpose)).length,
+            deleteExpired: async (now) => authTokens.deleteWhere(t => t.expiresAt.getTime() <= now.getTime()).length,
+        },
+        loginThrottles: {
+            findById: async (id) => loginThrottles.get(id),
+            save: async (throttle) => loginThrottles.insert(throttle),
+            delete: async (id) => loginThrottles.delete(id),
+            listBlocked: async (now) => loginThrottles.all()
+                .filter(t => t.blockedUntil && t.blockedUntil.getTime() > now.getTime())
+                .sort((a, b) => b.lastFailureAt.getTime() - a.lastFailureAt.getTime()),
+            deleteStale: async (before) => loginThrottles.deleteWhere(t =>
+                t.lastFailureAt.getTime() < before.getTime() && (t.blockedUntil?.getTime() ?? 0) < before.getTime()).length,
+        },
+        settings: {
+            list: async () => settings.all(),
+            save: async (setting) => settings.insert(setting),
+        },
+        auditLog: {
+            list: async (page) => slice(auditLog.all()
+                .reverse() // Newest first among entries with the same timestamp
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()), page),
+            count: async () => auditLog.count(),
+            insert: async (entry) => auditLog.insert(entry),
+        },
+        notifications: {
+            listByUser: async (userId, page) => slice(notifications.all()
+                .filter(n => n.userId === userId)
+                .reverse() // Newest first among notifications with the same timestamp
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()), page),
+            countUnread: async (userId) => notifications.all().filter(n => n.userId === userId && !n.readAt).length,
+            listUnreadSince: async (userId, since) => notifications.all()
+                .filter(n => n.userId === userId && !n.readAt && n.createdAt.getTime() > since.getTime())
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+            count: async (userId) => notifications.all().filter(n => n.userId === userId).length,
+            insert: async (notification) => notifications.insert(notification),
+            markRead: async (userId, id, now) => {
+                const notification = notifications.get(id);
+                if (!notification || notification.userId !== userId) return false;
+                if (!notification.readAt) notifications.update(id, { readAt: now });
+                return true;
+            },
+            markAllRead: async (userId, now) => notifications.all()
+                .filter(n => n.userId === userId && !n.readAt)
+                .filter(n => notifications.update(n.id, { readAt: now })).length,
+        },
+        watches: {
+            findById: async (id) => watches.get(id),
+            listByTopic: async (topicId) => watches.all().filter(w => w.topicId === topicId),
+            listByCategories: async (categoryIds) => watches.all().filter(w => w.categoryId !== undefined && categoryIds.includes(w.categoryId)),
+            save: async (watch) => watches.insert(watch),
+        },
+        readMarkers: {
+            findById: async (id) => readMarkers.get(id),
+            listByUser: async (userId) => readMarkers.all().filter(m => m.userId === userId),
+            save: async (marker) => readMarkers.insert(marker),
+        },
+        search: {
+            search: async (terms, filters, page) => slice(searchMatches(terms, filters), page).map(match => match.post.id),
+            count: async (terms, filters) => searchMatches(terms, filters).length,
+            save: async (document) => searchDocuments.insert(document),
+            delete: async (id) => searchDocuments.delete(id),
+            clear: async () => searchDocuments.deleteWhere(() => true).length,
+        },
+        reactions: {
+            findById: async (id) => reactions.get(id),
+            listByPosts: async (postIds) => reactions.all()
+                .filter(r => postIds.includes(r.postId))
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+            insert: async (reaction) => reactions.insert(reaction),
+            delete: async (id) => reactions.delete(id),
+        },
+    };
+}
@@ -0,0 +1,56 @@
+import Database from 'better-sqlite3';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getMigrationStatus, MigrationError, runMigrations } from './migrate';
+import { migrations as knownMigrations, type Migration } from './migrations';
+
+const migration = (version: number, name: string): Migration =>
+    ({ version, name, up: (db) => db.exec(`CREATE TABLE ${name} (id TEXT PRIMARY KEY)`) });
+
+const first = migration(1, 'first');
+const second = migration(2, 'second');
+const third = migration(3, 'third');
+
+describe('migrations', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+    });
+
+    it('applies pending migrations once, in order', () => {
+        expect(runMigrations(db, [first, second]).map(m => m.name)).toEqual(['first', 'second']);
+        expect(runMigrations(db, [first, second, third]).map(m => m.name)).toEqual(['third']);
+        expect(runMigrations(db, [first, second, third])).toEqual([]);
+        const status = getMigrationStatus(db, [first, second, third]);
+        expect(status.applied.map(m => m.version)).toEqual([1, 2, 3]);
+        expect(status.pending).toEqual([]);
+    });
+
+    it('refuses a history with a gap', () => {
+        runMigrations(db, [first, third]);
+        expect(() => runMigrations(db, [first, second, third])).toThrow(MigrationError);
+        expect(() => runMigrations(db, [first, second, third])).toThrow(/out of order/);
+    });
+
+    it('refuses migrations listed out of order', () => {
+        expect(() => runMigrations(db, [second, first])).toThrow(/out of order/);
+    });
+
+    it('refuses renamed migrations and a newer schema', () => {
+        runMigrations(db, [first, second]);
+        expect(() => runMigrations(db, [first, migration(2, 'renamed')])).toThrow(/must not change/);
+        expect(() => runMigrations(db, [first])).toThrow(/does not know/);
+    });
+
+    it('rolls back a failing migration', () => {
+        const broken: Migration = { version: 2, name: 'broken', up: (db) => { db.exec('CREATE TABLE half (id TEXT)'); throw new Error('boom'); } };
+        expect(() => runMigrations(db, [first, broken])).toThrow('boom');
+        expect(getMigrationStatus(db, [first, broken]).pending.map(m => m.name)).toEqual(['broken']);
+        expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half'").get()).toBeUndefined();
+    });
+
+    it('builds the full schema from scratch', () => {
+        expect(runMigrations(db)).toHaveLength(knownMigrations.length);
+        expect(getMigrationStatus(db).pending).toEqual([]);
+    });
+});
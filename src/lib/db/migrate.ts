@@ -0,0 +1,95 @@
+import type Database from 'better-sqlite3';
+import { migrations as knownMigrations, type Migration } from './migrations';
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: Date;
+}
+
+export interface MigrationStatus {
+    applied: AppliedMigration[];
+    pending: Migration[];
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+const ensureMigrationsTable = (db: Database.Database) => {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at INTEGER NOT NULL
+        );
+    `);
+};
+
+const readApplied = (db: Database.Database): AppliedMigration[] => {
+    const rows = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as { version: number; name: string; applied_at: number }[];
+    return rows.map(row => ({ version: row.version, name: row.name, appliedAt: new Date(row.applied_at) }));
+};
+
+/**
+ * Compares the versions recorded in the database with the known migrations.
+ * Applied versions must be exactly the first N known migrations: a gap, a reordered
+ * or renamed migration, or a version this code doesn't know about is refused.
+ */
+const planMigrations = (applied: AppliedMigration[], migrations: Migration[]): Migration[] => {
+    migrations.forEach((migration, index) => {
+        if (index > 0 && migration.version <= migrations[index - 1].version) {
+            throw new MigrationError(`Migrations are out of order: version ${migration.version} (${migration.name}) follows version ${migrations[index - 1].version}.`);
+        }
+    });
+
+    applied.forEach((record, index) => {
+        const expected = migrations[index];
+        if (!expected) {
+            throw new MigrationError(`Database has migration ${record.version} (${record.name}) applied, which this version of the app does not know. Refusing to run against a newer schema.`);
+        }
+        if (expected.version !== record.version) {
+            throw new MigrationError(`Migration ${expected.version} (${expected.name}) has not been applied but later migration ${record.version} (${record.name}) has. Refusing to run migrations out of order.`);
+        }
+        if (expected.name !== record.name) {
+            throw new MigrationError(`Migration ${record.version} is recorded as "${record.name}" but is now named "${expected.name}". Shipped migrations must not change.`);
+        }
+    });
+
+    return migrations.slice(applied.length);
+};
+
+export function getMigrationStatus(db: Database.Database, migrations: Migration[] = knownMigrations): MigrationStatus {
+    ensureMigrationsTable(db);
+    const applied = readApplied(db);
+    return { applied, pending: planMigrations(applied, migrations) };
+}
+
+/**
+ * Applies every pending migration in version order, each in its own transaction.
+ * Returns the migrations that were applied by this call.
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = knownMigrations): Migration[] {
+    ensureMigrationsTable(db);
+    const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    const appliedNow: Migration[] = [];
+
+    // Re-plan inside an IMMEDIATE transaction so concurrent workers can't apply the same migration twice.
+    const applyNext = db.transaction((): boolean => {
+        const [next] = planMigrations(readApplied(db), migrations);
+        if (!next) return false;
+        next.up(db);
+        record.run(next.version, next.name, Date.now());
+        appliedNow.push(next);
+        return true;
+    });
+
+    while (applyNext.immediate()) {
+        const migration = appliedNow[appliedNow.length - 1];
+        console.log(`[DB migrate] Applied migration ${migration.version} (${migration.name})`);
+    }
+    return appliedNow;
+}
@@ -0,0 +1,48 @@
+import type { Migration } from './types';
+
+// Tables behind the User, Category, Topic and Post types.
+// `IF NOT EXISTS` keeps this safe for databases created before migrations were tracked.
+export const initialSchema: Migration = {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS users (
+                id TEXT PRIMARY KEY,
+                username TEXT NOT NULL,
+                email TEXT NOT NULL UNIQUE,
+                password TEXT,
+                is_admin INTEGER NOT NULL DEFAULT 0,
+                created_at INTEGER NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS categories (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                description TEXT,
+                created_at INTEGER NOT NULL,
+                topic_count INTEGER NOT NULL DEFAULT 0,
+                post_count INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE TABLE IF NOT EXISTS topics (
+                id TEXT PRIMARY KEY,
+                title TEXT NOT NULL,
+                category_id TEXT NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+                author_id TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                last_activity INTEGER NOT NULL,
+                post_count INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE INDEX IF NOT EXISTS topics_category_idx ON topics (category_id, last_activity);
+            CREATE TABLE IF NOT EXISTS posts (
+                id TEXT PRIMARY KEY,
+                content TEXT NOT NULL,
+                topic_id TEXT NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+                author_id TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER,
+                image_url TEXT
+            );
+            CREATE INDEX IF NOT EXISTS posts_topic_idx ON posts (topic_id, created_at);
+        `);
+    },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from './types';
+
+// Server-side sessions: the cookie carries an opaque token, only its hash is stored here.
+export const sessions: Migration = {
+    version: 2,
+    name: 'sessions',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                token_hash TEXT NOT NULL UNIQUE,
+                created_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL,
+                last_seen_at INTEGER NOT NULL,
+                ip TEXT,
+                user_agent TEXT
+            );
+            CREATE INDEX sessions_user_idx ON sessions (user_id, last_seen_at);
+        `);
+    },
+};
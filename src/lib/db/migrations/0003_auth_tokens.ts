@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// Single-use emailed tokens (password reset, ...). Only SHA-256 hashes of the tokens are stored.
+export const authTokens: Migration = {
+    version: 3,
+    name: 'auth_tokens',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE auth_tokens (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                purpose TEXT NOT NULL,
+                token_hash TEXT NOT NULL UNIQUE,
+                created_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL,
+                used_at INTEGER
+            );
+            CREATE INDEX auth_tokens_user_idx ON auth_tokens (user_id, purpose);
+        `);
+    },
+};
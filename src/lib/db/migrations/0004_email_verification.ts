@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+// Accounts must verify their email before posting. Accounts that existed before this
+// migration were never asked to, so they are treated as verified from their creation date.
+export const emailVerification: Migration = {
+    version: 4,
+    name: 'email_verification',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE users ADD COLUMN email_verified_at INTEGER;
+            UPDATE users SET email_verified_at = created_at;
+        `);
+    },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// Failed-login counters and lockouts per IP and per account, so they survive restarts.
+export const loginThrottles: Migration = {
+    version: 5,
+    name: 'login_throttles',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE login_throttles (
+                id TEXT PRIMARY KEY,
+                scope TEXT NOT NULL,
+                subject TEXT NOT NULL,
+                failures INTEGER NOT NULL,
+                last_failure_at INTEGER NOT NULL,
+                blocked_until INTEGER,
+                locked_at INTEGER
+            );
+            CREATE INDEX login_throttles_blocked_idx ON login_throttles (blocked_until);
+        `);
+    },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from './types';
+
+// Optional TOTP two-factor authentication. Recovery codes are a JSON array of SHA-256 hashes.
+export const twoFactor: Migration = {
+    version: 6,
+    name: 'two_factor',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE users ADD COLUMN totp_enabled_at INTEGER;
+            ALTER TABLE users ADD COLUMN totp_secret TEXT;
+            ALTER TABLE users ADD COLUMN totp_last_step INTEGER;
+            ALTER TABLE users ADD COLUMN recovery_codes TEXT;
+        `);
+    },
+};
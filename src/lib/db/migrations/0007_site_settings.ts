@@ -0,0 +1,15 @@
+import type { Migration } from './types';
+
+// Admin-editable site settings, one JSON value per key. Missing keys fall back to code defaults.
+export const siteSettings: Migration = {
+    version: 7,
+    name: 'site_settings',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE site_settings (
+                id TEXT PRIMARY KEY,
+                value TEXT
+            );
+        `);
+    },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+// Named roles replace the is_admin flag: admins keep their rights, everyone else becomes a member.
+export const roles: Migration = {
+    version: 8,
+    name: 'roles',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'member';
+            UPDATE users SET role = 'admin' WHERE is_admin = 1;
+            ALTER TABLE users DROP COLUMN is_admin;
+        `);
+    },
+};
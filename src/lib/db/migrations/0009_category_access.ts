@@ -0,0 +1,13 @@
+import type { Migration } from './types';
+
+// Per-category access rules (JSON) and the user groups they can refer to (JSON array of names).
+export const categoryAccess: Migration = {
+    version: 9,
+    name: 'category_access',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE categories ADD COLUMN access TEXT;
+            ALTER TABLE users ADD COLUMN groups TEXT;
+        `);
+    },
+};
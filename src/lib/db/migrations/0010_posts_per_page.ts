@@ -0,0 +1,12 @@
+import type { Migration } from './types';
+
+// Per-user posts-per-page preference. NULL falls back to the forum default.
+export const postsPerPage: Migration = {
+    version: 10,
+    name: 'posts_per_page',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE users ADD COLUMN posts_per_page INTEGER;
+        `);
+    },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from './types';
+
+// Moderation state on topics: pinned, locked and forum-wide announcements (each the time it was set).
+export const topicStatus: Migration = {
+    version: 11,
+    name: 'topic_status',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE topics ADD COLUMN pinned_at INTEGER;
+            ALTER TABLE topics ADD COLUMN locked_at INTEGER;
+            ALTER TABLE topics ADD COLUMN announced_at INTEGER;
+            CREATE INDEX topics_announced_idx ON topics (announced_at);
+        `);
+    },
+};
@@ -0,0 +1,13 @@
+import type { Migration } from './types';
+
+// Nested categories: NULL parent_id means a top-level category.
+export const categoryParents: Migration = {
+    version: 12,
+    name: 'category_parents',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE categories ADD COLUMN parent_id TEXT REFERENCES categories (id);
+            CREATE INDEX categories_parent_idx ON categories (parent_id);
+        `);
+    },
+};
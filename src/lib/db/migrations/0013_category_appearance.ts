@@ -0,0 +1,20 @@
+import type { Migration } from './types';
+
+// Admin-controlled order among sibling categories, plus an optional icon and accent color.
+// Existing categories keep their current (creation date) order.
+export const categoryAppearance: Migration = {
+    version: 13,
+    name: 'category_appearance',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE categories ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+            ALTER TABLE categories ADD COLUMN icon TEXT;
+            ALTER TABLE categories ADD COLUMN color TEXT;
+            UPDATE categories SET position = (
+                SELECT COUNT(*) FROM categories AS earlier
+                WHERE earlier.created_at < categories.created_at
+                   OR (earlier.created_at = categories.created_at AND earlier.rowid < categories.rowid)
+            );
+        `);
+    },
+};
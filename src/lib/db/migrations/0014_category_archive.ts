@@ -0,0 +1,12 @@
+import type { Migration } from './types';
+
+// Archived categories stay readable but accept no new topics or replies.
+export const categoryArchive: Migration = {
+    version: 14,
+    name: 'category_archive',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE categories ADD COLUMN archived_at INTEGER;
+        `);
+    },
+};
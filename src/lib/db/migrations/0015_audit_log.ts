@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// Append-only record of administrative changes. actor_id has no foreign key so entries outlive deleted users.
+export const auditLog: Migration = {
+    version: 15,
+    name: 'audit_log',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE audit_log (
+                id TEXT PRIMARY KEY,
+                actor_id TEXT NOT NULL,
+                action TEXT NOT NULL,
+                target_id TEXT NOT NULL,
+                summary TEXT NOT NULL,
+                details TEXT,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX audit_log_created_idx ON audit_log (created_at);
+        `);
+    },
+};
@@ -0,0 +1,12 @@
+import type { Migration } from './types';
+
+// JSON array of the post ids a post quotes, so a post can list the replies quoting it.
+export const postQuotes: Migration = {
+    version: 16,
+    name: 'post_quotes',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE posts ADD COLUMN quoted_post_ids TEXT;
+        `);
+    },
+};
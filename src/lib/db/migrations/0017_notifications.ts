@@ -0,0 +1,22 @@
+import type { Migration } from './types';
+
+// In-app notifications. They point at the post that caused them and go away with it.
+export const notifications: Migration = {
+    version: 17,
+    name: 'notifications',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE notifications (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                kind TEXT NOT NULL,
+                actor_id TEXT NOT NULL,
+                topic_id TEXT NOT NULL,
+                post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+                created_at INTEGER NOT NULL,
+                read_at INTEGER
+            );
+            CREATE INDEX notifications_user_idx ON notifications (user_id, created_at);
+        `);
+    },
+};
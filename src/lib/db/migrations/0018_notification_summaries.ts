@@ -0,0 +1,30 @@
+import type { Migration } from './types';
+
+// Notifications for every kind of event: each one stores its text, and moderation notifications
+// may have no post to point at (it was deleted). SQLite can't drop NOT NULL in place, so the table is rebuilt.
+export const notificationSummaries: Migration = {
+    version: 18,
+    name: 'notification_summaries',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE notifications_new (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                kind TEXT NOT NULL,
+                actor_id TEXT NOT NULL,
+                topic_id TEXT NOT NULL,
+                post_id TEXT REFERENCES posts(id) ON DELETE CASCADE,
+                summary TEXT NOT NULL,
+                created_at INTEGER NOT NULL,
+                read_at INTEGER
+            );
+            INSERT INTO notifications_new (id, user_id, kind, actor_id, topic_id, post_id, summary, created_at, read_at)
+                SELECT n.id, n.user_id, n.kind, n.actor_id, n.topic_id, n.post_id,
+                       'mentioned you in "' || COALESCE(t.title, 'a topic') || '"', n.created_at, n.read_at
+                FROM notifications n LEFT JOIN topics t ON t.id = n.topic_id;
+            DROP TABLE notifications;
+            ALTER TABLE notifications_new RENAME TO notifications;
+            CREATE INDEX notifications_user_idx ON notifications (user_id, created_at);
+        `);
+    },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from './types';
+
+// Topic and category watching, and the per-user digest email preference.
+// A watch targets either a topic or a category and goes away with it.
+export const watches: Migration = {
+    version: 19,
+    name: 'watches',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE watches (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                topic_id TEXT REFERENCES topics(id) ON DELETE CASCADE,
+                category_id TEXT REFERENCES categories(id) ON DELETE CASCADE,
+                level TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            );
+            CREATE INDEX watches_topic_idx ON watches (topic_id);
+            CREATE INDEX watches_category_idx ON watches (category_id);
+            ALTER TABLE users ADD COLUMN digest_frequency TEXT;
+            ALTER TABLE users ADD COLUMN digest_sent_at INTEGER;
+        `);
+    },
+};
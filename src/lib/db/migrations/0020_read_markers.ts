@@ -0,0 +1,27 @@
+import type { Migration } from './types';
+
+// Per-user read markers for topics and categories. Existing users start with every top-level
+// category marked read now, so the upgrade doesn't turn their whole history into unread posts.
+export const readMarkers: Migration = {
+    version: 20,
+    name: 'read_markers',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE read_markers (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                topic_id TEXT REFERENCES topics(id) ON DELETE CASCADE,
+                category_id TEXT REFERENCES categories(id) ON DELETE CASCADE,
+                post_id TEXT,
+                read_at INTEGER NOT NULL
+            );
+            CREATE INDEX read_markers_user_idx ON read_markers (user_id);
+        `);
+        db.prepare(`
+            INSERT INTO read_markers (id, user_id, category_id, read_at)
+            SELECT users.id || ':category:' || categories.id, users.id, categories.id, ?
+            FROM users CROSS JOIN categories
+            WHERE categories.parent_id IS NULL
+        `).run(Date.now());
+    },
+};
@@ -0,0 +1,44 @@
+import type { Migration } from './types';
+
+// Full-text search. search_documents holds one row per post (the topic title only on opening posts)
+// and goes away with its post; search_index is an FTS5 index over it, kept in sync by triggers.
+// doc_id gives the index a stable integer rowid, which post ids can't.
+// Existing posts are indexed here; `npm run db:reindex` rebuilds the index at any time.
+export const searchIndex: Migration = {
+    version: 21,
+    name: 'search_index',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE search_documents (
+                doc_id INTEGER PRIMARY KEY,
+                id TEXT NOT NULL UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+                title TEXT,
+                content TEXT NOT NULL
+            );
+            CREATE VIRTUAL TABLE search_index USING fts5(
+                title, content,
+                content = 'search_documents', content_rowid = 'doc_id',
+                tokenize = 'unicode61 remove_diacritics 2'
+            );
+            CREATE TRIGGER search_documents_insert AFTER INSERT ON search_documents BEGIN
+                INSERT INTO search_index (rowid, title, content) VALUES (new.doc_id, new.title, new.content);
+            END;
+            CREATE TRIGGER search_documents_delete AFTER DELETE ON search_documents BEGIN
+                INSERT INTO search_index (search_index, rowid, title, content) VALUES ('delete', old.doc_id, old.title, old.content);
+            END;
+            CREATE TRIGGER search_documents_update AFTER UPDATE ON search_documents BEGIN
+                INSERT INTO search_index (search_index, rowid, title, content) VALUES ('delete', old.doc_id, old.title, old.content);
+                INSERT INTO search_index (rowid, title, content) VALUES (new.doc_id, new.title, new.content);
+            END;
+
+            INSERT INTO search_documents (id, title, content)
+            SELECT posts.id,
+                CASE WHEN NOT EXISTS (
+                    SELECT 1 FROM posts earlier WHERE earlier.topic_id = posts.topic_id
+                        AND (earlier.created_at < posts.created_at OR (earlier.created_at = posts.created_at AND earlier.rowid < posts.rowid))
+                ) THEN topics.title END,
+                posts.content
+            FROM posts JOIN topics ON topics.id = posts.topic_id;
+        `);
+    },
+};
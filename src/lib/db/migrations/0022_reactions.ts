@@ -0,0 +1,19 @@
+import type { Migration } from './types';
+
+// Emoji reactions to posts, one row per user and emoji. They go away with the post or the user.
+export const reactions: Migration = {
+    version: 22,
+    name: 'reactions',
+    up: (db) => {
+        db.exec(`
+            CREATE TABLE reactions (
+                id TEXT PRIMARY KEY,
+                post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                emoji TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            );
+            CREATE INDEX reactions_post_idx ON reactions (post_id, created_at);
+        `);
+    },
+};
@@ -0,0 +1,12 @@
+import type { Migration } from './types';
+
+// When a notification went out as an instant email, so digests don't send it a second time
+export const notificationEmails: Migration = {
+    version: 23,
+    name: 'notification_emails',
+    up: (db) => {
+        db.exec(`
+            ALTER TABLE notifications ADD COLUMN emailed_at INTEGER;
+        `);
+    },
+};
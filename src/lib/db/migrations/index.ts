@@ -0,0 +1,53 @@
+import type { Migration } from './types';
+import { initialSchema } from './0001_initial_schema';
+import { sessions } from './0002_sessions';
+import { authTokens } from './0003_auth_tokens';
+import { emailVerification } from './0004_email_verification';
+import { loginThrottles } from './0005_login_throttles';
+import { twoFactor } from './0006_two_factor';
+import { siteSettings } from './0007_site_settings';
+import { roles } from './0008_roles';
+import { categoryAccess } from './0009_category_access';
+import { postsPerPage } from './0010_posts_per_page';
+import { topicStatus } from './0011_topic_status';
+import { categoryParents } from './0012_category_parents';
+import { categoryAppearance } from './0013_category_appearance';
+import { categoryArchive } from './0014_category_archive';
+import { auditLog } from './0015_audit_log';
+import { postQuotes } from './0016_post_quotes';
+import { notifications } from './0017_notifications';
+import { notificationSummaries } from './0018_notification_summaries';
+import { watches } from './0019_watches';
+import { readMarkers } from './0020_read_markers';
+import { searchIndex } from './0021_search_index';
+import { reactions } from './0022_reactions';
+import { notificationEmails } from './0023_notification_emails';
+
+export type { Migration } from './types';
+
+// Every schema change is appended here. Never edit or reorder a migration that has shipped.
+export const migrations: Migration[] = [
+    initialSchema,
+    sessions,
+    authTokens,
+    emailVerification,
+    loginThrottles,
+    twoFactor,
+    siteSettings,
+    roles,
+    categoryAccess,
+    postsPerPage,
+    topicStatus,
+    categoryParents,
+    categoryAppearance,
+    categoryArchive,
+    auditLog,
+    postQuotes,
+    notifications,
+    notificationSummaries,
+    watches,
+    readMarkers,
+    searchIndex,
+    reactions,
+    notificationEmails,
+];
@@ -0,0 +1,7 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+    version: number; // Strictly increasing, never reused
+    name: string;
+    up: (db: Database.Database) => void; // Runs inside a transaction
+}
@@ -0,0 +1,325 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Repository } from './repository';
+import type { Category, Post, Topic, User } from '@/lib/types';
+import { REPOSITORY_DRIVERS } from '@/test/repositories';
+
+// The contract every storage driver has to meet; the data layer relies on nothing else.
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 0, minutes));
+
+const user = (id: string, overrides: Partial<User> = {}): User =>
+    ({ id, username: id, email: `${id}@example.com`, role: 'member', createdAt: at(0), ...overrides });
+const category = (id: string, overrides: Partial<Category> = {}): Category => ({ id, name: id, createdAt: at(0), topicCount: 0, postCount: 0, position: 0, ...overrides });
+const topic = (id: string, categoryId: string, overrides: Partial<Topic> = {}): Topic =>
+    ({ id, title: id, categoryId, authorId: 'alice', createdAt: at(0), lastActivity: at(0), postCount: 0, ...overrides });
+const post = (id: string, topicId: string, overrides: Partial<Post> = {}): Post =>
+    ({ id, content: `${id} content`, topicId, authorId: 'alice', createdAt: at(0), ...overrides });
+
+describe.each(REPOSITORY_DRIVERS)('$driver repository', ({ create }) => {
+    let repo: Repository;
+
+    beforeEach(async () => {
+        repo = create();
+        await repo.users.insert(user('alice'));
+        await repo.users.insert(user('bob', { username: 'Bob' }));
+        await repo.categories.insert(category('general'));
+    });
+
+    describe('users', () => {
+        it('finds users by id, email and username, ignoring the case of usernames', async () => {
+            expect((await repo.users.findById('alice'))?.email).toBe('alice@example.com');
+            expect((await repo.users.findByEmail('bob@example.com'))?.id).toBe('bob');
+            expect((await repo.users.findByUsername('BOB'))?.id).toBe('bob');
+            expect(await repo.users.findById('nobody')).toBeNull();
+        });
+
+        it('round-trips optional fields', async () => {
+            await repo.users.update('alice', { groups: ['staff'], emailVerifiedAt: at(5), totpLastStep: 42, recoveryCodes: ['a', 'b'] });
+            const stored = await repo.users.findById('alice');
+            expect(stored).toMatchObject({ groups: ['staff'], emailVerifiedAt: at(5), totpLastStep: 42, recoveryCodes: ['a', 'b'] });
+        });
+
+        it('searches usernames by prefix, sorted by username', async () => {
+            await repo.users.insert(user('bobby'));
+            expect((await repo.users.searchByUsername('bo', 10)).map(u => u.id)).toEqual(['bob', 'bobby']);
+            expect(await repo.users.searchByUsername('bo', 1)).toHaveLength(1);
+        });
+
+        it('advances the TOTP step only forwards', async () => {
+            expect(await repo.users.advanceTotpStep('alice', 10)).toBe(true);
+            expect(await repo.users.advanceTotpStep('alice', 10)).toBe(false);
+            expect(await repo.users.advanceTotpStep('alice', 9)).toBe(false);
+            expect(await repo.users.advanceTotpStep('alice', 11)).toBe(true);
+            expect((await repo.users.findById('alice'))?.totpLastStep).toBe(11);
+        });
+
+        it('replaces recovery codes only if they are unchanged', async () => {
+            await repo.users.update('alice', { recoveryCodes: ['a', 'b'] });
+            expect(await repo.users.replaceRecoveryCodes('alice', ['a', 'b'], ['b'])).toBe(true);
+            expect(await repo.users.replaceRecoveryCodes('alice', ['a', 'b'], ['a'])).toBe(false);
+            expect((await repo.users.findById('alice'))?.recoveryCodes).toEqual(['b']);
+        });
+
+        it('updates, counts and deletes', async () => {
+            expect((await repo.users.update('bob', { role: 'moderator' }))?.role).toBe('moderator');
+            expect(await repo.users.update('nobody', { role: 'admin' })).toBeNull();
+            expect(await repo.users.count()).toBe(2);
+            expect(await repo.users.delete('bob')).toBe(true);
+            expect(await repo.users.delete('bob')).toBe(false);
+            expect(await repo.users.count()).toBe(1);
+        });
+    });
+
+    describe('categories', () => {
+        it('lists by position, then by creation date', async () => {
+            await repo.categories.insert(category('late', { position: -1, createdAt: at(2) }));
+            await repo.categories.insert(category('early', { position: -1, createdAt: at(1) }));
+            const ids = (await repo.categories.list()).map(c => c.id);
+            expect(ids.slice(0, 2)).toEqual(['early', 'late']);
+        });
+
+        it('round-trips access rules and archiving', async () => {
+            const access = { view: { roles: ['admin' as const], groups: ['staff'] } };
+            await repo.categories.update('general', { access, archivedAt: at(3) });
+            expect(await repo.categories.findById('general')).toMatchObject({ access, archivedAt: at(3) });
+        });
+    });
+
+    describe('topics', () => {
+        beforeEach(async () => {
+            await repo.topics.insert(topic('old', 'general', { lastActivity: at(1) }));
+            await repo.topics.insert(topic('new', 'general', { lastActivity: at(3) }));
+            await repo.topics.insert(topic('pinned', 'general', { lastActivity: at(0), pinnedAt: at(0) }));
+        });
+
+        it('lists pinned topics first, then by last activity', async () => {
+            expect((await repo.topics.listByCategory('general')).map(t => t.id)).toEqual(['pinned', 'new', 'old']);
+            expect((await repo.topics.listByCategory('general', { limit: 1, offset: 1 })).map(t => t.id)).toEqual(['new']);
+            expect(await repo.topics.countByCategory('general')).toBe(3);
+        });
+
+        it('lists topics active since a date', async () => {
+            expect((await repo.topics.listActiveSince(['general'], at(0))).map(t => t.id)).toEqual(['new', 'old']);
+            expect(await repo.topics.listActiveSince([], at(0))).toEqual([]);
+        });
+
+        it('moves and deletes the topics of a category', async () => {
+            await repo.categories.insert(category('other'));
+            expect(await repo.topics.moveToCategory('general', 'other')).toBe(3);
+            expect(await repo.topics.countByCategory('other')).toBe(3);
+            expect((await repo.topics.deleteByCategory('other')).sort()).toEqual(['new', 'old', 'pinned']);
+            expect(await repo.topics.count()).toBe(0);
+        });
+    });
+
+    describe('posts', () => {
+        beforeEach(async () => {
+            await repo.topics.insert(topic('t1', 'general'));
+            await repo.topics.insert(topic('t2', 'general'));
+            await repo.posts.insert(post('p1', 't1', { createdAt: at(1) }));
+            await repo.posts.insert(post('p2', 't1', { createdAt: at(2), quotedPostIds: ['p1'] }));
+            await repo.posts.insert(post('p3', 't1', { createdAt: at(3) }));
+        });
+
+        it('lists a topic in creation order and pages through it', async () => {
+            expect((await repo.posts.listByTopic('t1')).map(p => p.id)).toEqual(['p1', 'p2', 'p3']);
+            expect((await repo.posts.listByTopic('t1', { limit: 2, offset: 1 })).map(p => p.id)).toEqual(['p2', 'p3']);
+            expect(await repo.posts.countByTopic('t1')).toBe(3);
+        });
+
+        it('knows where a post sits and what came after a date', async () => {
+            expect(await repo.posts.countBefore((await repo.posts.findById('p3'))!)).toBe(2);
+            expect(await repo.posts.countSince('t1', at(1))).toBe(2);
+        });
+
+        it('finds the posts quoting others', async () => {
+            expect((await repo.posts.listQuoting(['p1'])).map(p => p.id)).toEqual(['p2']);
+            expect(await repo.posts.listQuoting(['p3'])).toEqual([]);
+        });
+
+        it('moves posts between topics and deletes them by topic', async () => {
+            expect(await repo.posts.moveToTopic(['p2', 'p3'], 't2')).toBe(2);
+            expect((await repo.posts.listByTopic('t2')).map(p => p.id)).toEqual(['p2', 'p3']);
+            expect(await repo.posts.deleteByTopics(['t1', 't2'])).toBe(3);
+            expect(await repo.posts.count()).toBe(0);
+        });
+
+        it('never stores populated relations', async () => {
+            // The data layer hands over populated posts, e.g. when copying them between topics
+            const populated: Post = { ...post('p4', 't1'), author: user('alice'), replies: [] };
+            await repo.posts.insert(populated);
+            const stored = await repo.posts.findById('p4');
+            expect(stored).not.toHaveProperty('author');
+            expect(stored).not.toHaveProperty('replies');
+        });
+    });
+
+    describe('sessions and tokens', () => {
+        const session = (id: string, userId: string, expiresAt: Date) =>
+            ({ id, userId, tokenHash: `hash-${id}`, createdAt: at(0), lastSeenAt: at(0), expiresAt });
+
+        it('looks sessions up by token hash and revokes them per user', async () => {
+            await repo.sessions.insert(session('s1', 'alice', at(60)));
+            await repo.sessions.insert(session('s2', 'alice', at(60)));
+            await repo.sessions.insert(session('s3', 'bob', at(60)));
+            expect((await repo.sessions.findByTokenHash('hash-s2'))?.id).toBe('s2');
+            expect(await repo.sessions.deleteByUser('alice', 's1')).toBe(1);
+            expect((await repo.sessions.listByUser('alice')).map(s => s.id)).toEqual(['s1']);
+        });
+
+        it('drops expired sessions and tokens', async () => {
+            await repo.sessions.insert(session('s1', 'alice', at(10)));
+            await repo.sessions.insert(session('s2', 'alice', at(30)));
+            expect(await repo.sessions.deleteExpired(at(20))).toBe(1);
+
+            await repo.authTokens.insert({ id: 'k1', userId: 'alice', purpose: 'password_reset', tokenHash: 'h1', createdAt: at(0), expiresAt: at(10) });
+            await repo.authTokens.insert({ id: 'k2', userId: 'alice', purpose: 'email_verification', tokenHash: 'h2', createdAt: at(0), expiresAt: at(30) });
+            expect(await repo.authTokens.deleteExpired(at(20))).toBe(1);
+            expect(await repo.authTokens.findByTokenHash('h1')).toBeNull();
+            expect(await repo.authTokens.deleteByUser('alice', 'password_reset')).toBe(0);
+            expect(await repo.authTokens.deleteByUser('alice')).toBe(1);
+        });
+    });
+
+    describe('token consumption', () => {
+        beforeEach(async () => {
+            await repo.authTokens.insert({ id: 'k1', userId: 'alice', purpose: 'password_reset', tokenHash: 'h1', createdAt: at(0), expiresAt: at(30) });
+        });
+
+        it('consumes a valid token exactly once', async () => {
+            const [first, second] = await Promise.all([
+                repo.authTokens.consume('h1', 'password_reset', at(10)),
+                repo.authTokens.consume('h1', 'password_reset', at(10)),
+            ]);
+            expect([first?.usedAt, second?.usedAt]).toEqual([at(10), undefined]);
+            expect(await repo.authTokens.consume('h1', 'password_reset', at(11))).toBeNull();
+        });
+
+        it('refuses expired tokens and other purposes', async () => {
+            expect(await repo.authTokens.consume('h1', 'email_verification', at(10))).toBeNull();
+            expect(await repo.authTokens.consume('h1', 'password_reset', at(30))).toBeNull();
+            expect(await repo.authTokens.consume('unknown', 'password_reset', at(10))).toBeNull();
+        });
+    });
+
+    describe('cascading deletes', () => {
+        const watch = (userId: string, target: { topicId: string } | { categoryId: string }) =>
+            ({ id: `${userId}:${Object.values(target)[0]}`, userId, ...target, level: 'email' as const, updatedAt: at(0) });
+
+        beforeEach(async () => {
+            await repo.categories.insert(category('other'));
+            await repo.topics.insert(topic('t1', 'general'));
+            await repo.topics.insert(topic('t2', 'other'));
+            await repo.posts.insert(post('p1', 't1'));
+            for (const target of [{ topicId: 't1' }, { topicId: 't2' }, { categoryId: 'general' }, { categoryId: 'other' }]) {
+                await repo.watches.save(watch('alice', target));
+                const { id, userId } = watch('alice', target);
+                await repo.readMarkers.save({ id, userId, ...target, readAt: at(0) });
+            }
+        });
+
+        it('drops the posts, watches and read markers of a deleted topic', async () => {
+            expect(await repo.topics.delete('t1')).toBe(true);
+            expect(await repo.posts.findById('p1')).toBeNull();
+            expect(await repo.watches.listByTopic('t1')).toEqual([]);
+            expect(await repo.watches.listByTopic('t2')).toHaveLength(1);
+            expect((await repo.readMarkers.listByUser('alice')).map(m => m.id).sort()).toEqual(['alice:general', 'alice:other', 'alice:t2']);
+        });
+
+        it('drops the topics, watches and read markers of a deleted category', async () => {
+            expect(await repo.categories.delete('general')).toBe(true);
+            expect(await repo.topics.findById('t1')).toBeNull();
+            expect(await repo.watches.listByTopic('t1')).toEqual([]);
+            expect((await repo.watches.listByCategories(['general', 'other'])).map(w => w.categoryId)).toEqual(['other']);
+            expect(await repo.watches.listByTopic('t2')).toHaveLength(1);
+            expect((await repo.readMarkers.listByUser('alice')).map(m => m.id).sort()).toEqual(['alice:other', 'alice:t2']);
+        });
+
+        it('drops the sessions, tokens, notifications, watches, read markers and reactions of a deleted user', async () => {
+            // Alice authored the posts, so Bob is the one deleted
+            await repo.sessions.insert({ id: 's1', userId: 'bob', tokenHash: 'hash-s1', createdAt: at(0), lastSeenAt: at(0), expiresAt: at(60) });
+            await repo.authTokens.insert({ id: 'k1', userId: 'bob', purpose: 'password_reset', tokenHash: 'h1', createdAt: at(0), expiresAt: at(60) });
+            await repo.notifications.insert({ id: 'n1', userId: 'bob', kind: 'reply', actorId: 'alice', topicId: 't1', postId: 'p1', summary: 'replied', createdAt: at(0) });
+            await repo.watches.save(watch('bob', { topicId: 't1' }));
+            await repo.readMarkers.save({ id: 'bob:t1', userId: 'bob', topicId: 't1', readAt: at(0) });
+            await repo.reactions.insert({ id: 'p1:bob:👍', postId: 'p1', userId: 'bob', emoji: '👍', createdAt: at(0) });
+            await repo.reactions.insert({ id: 'p1:alice:👍', postId: 'p1', userId: 'alice', emoji: '👍', createdAt: at(0) });
+
+            expect(await repo.users.delete('bob')).toBe(true);
+            expect(await repo.sessions.findById('s1')).toBeNull();
+            expect(await repo.authTokens.findByTokenHash('h1')).toBeNull();
+            expect(await repo.notifications.count('bob')).toBe(0);
+            expect((await repo.watches.listByTopic('t1')).map(w => w.userId)).toEqual(['alice']);
+            expect(await repo.readMarkers.listByUser('bob')).toEqual([]);
+            expect((await repo.reactions.listByPosts(['p1'])).map(r => r.userId)).toEqual(['alice']);
+            expect(await repo.readMarkers.listByUser('alice')).toHaveLength(4);
+        });
+    });
+
+    describe('notifications', () => {
+        it('lists unread notifications since a date, with when they were emailed', async () => {
+            const notification = { userId: 'bob', kind: 'reply' as const, actorId: 'alice', topicId: 't1', summary: 'replied' };
+            await repo.notifications.insert({ ...notification, id: 'n1', createdAt: at(1), emailedAt: at(1) });
+            await repo.notifications.insert({ ...notification, id: 'n2', createdAt: at(2) });
+            await repo.notifications.insert({ ...notification, id: 'n3', createdAt: at(3), readAt: at(4) });
+            const unread = await repo.notifications.listUnreadSince('bob', at(0));
+            expect(unread.map(n => [n.id, n.emailedAt])).toEqual(expect.arrayContaining([['n1', at(1)], ['n2', undefined]]));
+            expect(unread).toHaveLength(2);
+        });
+    });
+
+    describe('search index', () => {
+        beforeEach(async () => {
+            await repo.categories.insert(category('private'));
+            await repo.topics.insert(topic('t1', 'general'));
+            await repo.topics.insert(topic('t2', 'private'));
+            await repo.posts.insert(post('p1', 't1', { createdAt: at(1) }));
+            await repo.posts.insert(post('p2', 't1', { createdAt: at(2), authorId: 'bob' }));
+            await repo.posts.insert(post('p3', 't2', { createdAt: at(3) }));
+            await repo.search.save({ id: 'p1', title: 'Linux wifi drivers', content: 'My card is not found' });
+            await repo.search.save({ id: 'p2', content: 'Which linux kernel are you running?' });
+            await repo.search.save({ id: 'p3', title: 'Linux hardware', content: 'linux' });
+        });
+
+        it('finds posts containing every term as a word or word prefix, title matches first', async () => {
+            const filters = { categoryIds: ['general'] };
+            expect(await repo.search.search(['linux'], filters)).toEqual(['p1', 'p2']);
+            expect(await repo.search.search(['linux', 'kern'], filters)).toEqual(['p2']);
+            expect(await repo.search.search(['inux'], filters)).toEqual([]);
+            expect(await repo.search.count(['linux'], filters)).toBe(2);
+        });
+
+        it('applies the filters', async () => {
+            expect(await repo.search.search(['linux'], { categoryIds: ['general', 'private'], topicsOnly: true })).toEqual(['p3', 'p1']);
+            expect(await repo.search.search(['linux'], { categoryIds: ['general'], authorId: 'bob' })).toEqual(['p2']);
+            expect(await repo.search.search(['linux'], { categoryIds: ['general'], after: at(2) })).toEqual(['p2']);
+            expect(await repo.search.search(['linux'], { categoryIds: ['general'], before: at(2) })).toEqual(['p1']);
+        });
+
+        it('replaces and removes documents', async () => {
+            await repo.search.save({ id: 'p2', content: 'Solved it' });
+            expect(await repo.search.search(['linux'], { categoryIds: ['general'] })).toEqual(['p1']);
+            expect(await repo.search.delete('p1')).toBe(true);
+            expect(await repo.search.search(['linux'], { categoryIds: ['general'] })).toEqual([]);
+            expect(await repo.search.clear()).toBe(2);
+        });
+    });
+
+    describe('login throttles', () => {
+        it('lists active blocks and drops stale counters', async () => {
+            await repo.loginThrottles.save({ id: 'ip:1', scope: 'ip', subject: '1', failures: 12, lastFailureAt: at(1), blockedUntil: at(20) });
+            await repo.loginThrottles.save({ id: 'account:a', scope: 'account', subject: 'a', failures: 1, lastFailureAt: at(2) });
+            expect((await repo.loginThrottles.listBlocked(at(10))).map(t => t.id)).toEqual(['ip:1']);
+            expect(await repo.loginThrottles.deleteStale(at(15))).toBe(1);
+            expect(await repo.loginThrottles.findById('account:a')).toBeNull();
+            expect((await repo.loginThrottles.findById('ip:1'))?.failures).toBe(12);
+        });
+    });
+
+    describe('settings', () => {
+        it('stores JSON values by key', async () => {
+            await repo.settings.save({ id: 'postsPerPage', value: 50 });
+            await repo.settings.save({ id: 'postsPerPage', value: 10 });
+            expect(await repo.settings.list()).toEqual([{ id: 'postsPerPage', value: 10 }]);
+        });
+    });
+});
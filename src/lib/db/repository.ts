@@ -0,0 +1,185 @@
+import type { User, Category, Topic, Post, Session, AuthToken, AuthTokenPurpose, LoginThrottle, AuditEntry, Notification, Watch, ReadMarker, Reaction } from '@/lib/types';
+
+// Stored shapes: relations (author, category, topic) and per-viewer fields are populated by the data layer, never persisted.
+export type UserRecord = User;
+export type CategoryRecord = Category;
+export type TopicRecord = Omit<Topic, 'author' | 'category' | 'unreadCount'>;
+export type PostRecord = Omit<Post, 'author' | 'topic' | 'replies' | 'reactions'>;
+export type SessionRecord = Session;
+export type AuthTokenRecord = AuthToken;
+export type LoginThrottleRecord = LoginThrottle;
+export type SettingRecord = { id: string; value: unknown }; // id is the setting key
+export type AuditEntryRecord = Omit<AuditEntry, 'actor'>;
+export type NotificationRecord = Omit<Notification, 'actor'>;
+export type WatchRecord = Watch;
+export type ReadMarkerRecord = ReadMarker;
+export type ReactionRecord = Reaction;
+// A post as the search index sees it: its markdown, plus the topic title if it is the topic's opening post
+export type SearchDocumentRecord = { id: string; title?: string; content: string }; // id is the post id
+
+// A slice of an ordered listing, for pagination
+export interface PageRequest {
+    limit: number;
+    offset: number;
+}
+
+export interface UserRepository {
+    list(): Promise<UserRecord[]>;
+    findById(id: string): Promise<UserRecord | null>;
+    findByEmail(email: string): Promise<UserRecord | null>;
+    findByUsername(username: string): Promise<UserRecord | null>; // Case-insensitive
+    searchByUsername(prefix: string, limit: number): Promise<UserRecord[]>; // Case-insensitive prefix match, sorted by username
+    insert(user: UserRecord): Promise<UserRecord>;
+    update(id: string, data: Partial<Omit<UserRecord, 'id'>>): Promise<UserRecord | null>;
+    // Conditional updates for one-time 2FA codes; false when a concurrent request already used the code
+    advanceTotpStep(id: string, step: number): Promise<boolean>; // Only if totpLastStep is unset or lower
+    replaceRecoveryCodes(id: string, expected: string[], next: string[]): Promise<boolean>; // Only if the codes are still `expected`
+    delete(id: string): Promise<boolean>;
+    count(): Promise<number>;
+}
+
+export interface CategoryRepository {
+    list(): Promise<CategoryRecord[]>; // Sorted by position, then createdAt
+    findById(id: string): Promise<CategoryRecord | null>;
+    insert(category: CategoryRecord): Promise<CategoryRecord>;
+    update(id: string, data: Partial<Omit<CategoryRecord, 'id'>>): Promise<CategoryRecord | null>;
+    delete(id: string): Promise<boolean>;
+    count(): Promise<number>;
+}
+
+export interface TopicRepository {
+    listByCategory(categoryId: string, page?: PageRequest): Promise<TopicRecord[]>; // Pinned and announcements first, then by lastActivity desc
+    listAnnouncements(): Promise<TopicRecord[]>; // Every category; sorted by announcedAt desc
+    listActiveSince(categoryIds: string[], since: Date): Promise<TopicRecord[]>; // lastActivity after `since`; sorted by lastActivity desc
+    countByCategory(categoryId: string): Promise<number>;
+    findById(id: string): Promise<TopicRecord | null>;
+    insert(topic: TopicRecord): Promise<TopicRecord>;
+    update(id: string, data: Partial<Omit<TopicRecord, 'id'>>): Promise<TopicRecord | null>;
+    delete(id: string): Promise<boolean>;
+    deleteByCategory(categoryId: string): Promise<string[]>; // Returns the ids of the deleted topics
+    moveToCategory(fromCategoryId: string, toCategoryId: string): Promise<number>; // Returns the number of moved topics
+    count(): Promise<number>;
+}
+
+export interface PostRepository {
+    listByTopic(topicId: string, page?: PageRequest): Promise<PostRecord[]>; // Sorted by createdAt asc
+    countByTopic(topicId: string): Promise<number>;
+    countBefore(post: PostRecord): Promise<number>; // Posts listed before this one in its topic (its 0-based position)
+    countSince(topicId: string, since: Date): Promise<number>; // Posts created after `since`
+    findById(id: string): Promise<PostRecord | null>;
+    insert(post: PostRecord): Promise<PostRecord>;
+    update(id: string, data: Partial<Omit<PostRecord, 'id'>>): Promise<PostRecord | null>;
+    delete(id: string): Promise<boolean>;
+    deleteByTopics(topicIds: string[]): Promise<number>; // Returns the number of deleted posts
+    moveToTopic(postIds: string[], topicId: string): Promise<number>; // Returns the number of moved posts
+    listQuoting(postIds: string[]): Promise<PostRecord[]>; // Posts whose quotedPostIds include any of these; sorted by createdAt asc
+    count(): Promise<number>;
+}
+
+export interface SessionRepository {
+    listByUser(userId: string): Promise<SessionRecord[]>; // Sorted by lastSeenAt desc
+    findById(id: string): Promise<SessionRecord | null>;
+    findByTokenHash(tokenHash: string): Promise<SessionRecord | null>;
+    insert(session: SessionRecord): Promise<SessionRecord>;
+    update(id: string, data: Partial<Omit<SessionRecord, 'id'>>): Promise<SessionRecord | null>;
+    delete(id: string): Promise<boolean>;
+    deleteByUser(userId: string, exceptSessionId?: string): Promise<number>; // Returns the number of revoked sessions
+    deleteExpired(now: Date): Promise<number>;
+}
+
+export interface AuthTokenRepository {
+    findByTokenHash(tokenHash: string): Promise<AuthTokenRecord | null>;
+    insert(token: AuthTokenRecord): Promise<AuthTokenRecord>;
+    update(id: string, data: Partial<Omit<AuthTokenRecord, 'id'>>): Promise<AuthTokenRecord | null>;
+    // Marks the token used if it has this purpose and is unused and unexpired, as one atomic step, and returns it.
+    // Null otherwise, including when a concurrent request consumed it first.
+    consume(tokenHash: string, purpose: AuthTokenPurpose, now: Date): Promise<AuthTokenRecord | null>;
+    deleteByUser(userId: string, purpose?: AuthTokenPurpose): Promise<number>; // All purposes when omitted
+    deleteExpired(now: Date): Promise<number>;
+}
+
+export interface LoginThrottleRepository {
+    findById(id: string): Promise<LoginThrottleRecord | null>;
+    save(throttle: LoginThrottleRecord): Promise<LoginThrottleRecord>; // Inserts or replaces the whole record
+    delete(id: string): Promise<boolean>;
+    listBlocked(now: Date): Promise<LoginThrottleRecord[]>; // blockedUntil in the future, sorted by lastFailureAt desc
+    deleteStale(before: Date): Promise<number>; // Drops records whose last failure and block both ended before `before`
+}
+
+export interface SettingRepository {
+    list(): Promise<SettingRecord[]>;
+    save(setting: SettingRecord): Promise<SettingRecord>; // Inserts or replaces the value
+}
+
+export interface AuditLogRepository {
+    list(page?: PageRequest): Promise<AuditEntryRecord[]>; // Sorted by createdAt desc
+    count(): Promise<number>;
+    insert(entry: AuditEntryRecord): Promise<AuditEntryRecord>;
+}
+
+export interface NotificationRepository {
+    listByUser(userId: string, page?: PageRequest): Promise<NotificationRecord[]>; // Sorted by createdAt desc
+    countUnread(userId: string): Promise<number>;
+    listUnreadSince(userId: string, since: Date): Promise<NotificationRecord[]>; // Created after `since`; sorted by createdAt asc
+    count(userId: string): Promise<number>;
+    insert(notification: NotificationRecord): Promise<NotificationRecord>;
+    markRead(userId: string, id: string, now: Date): Promise<boolean>; // False unless the user has this notification
+    markAllRead(userId: string, now: Date): Promise<number>; // Returns the number of notifications marked
+}
+
+export interface WatchRepository {
+    findById(id: string): Promise<WatchRecord | null>;
+    listByTopic(topicId: string): Promise<WatchRecord[]>;
+    listByCategories(categoryIds: string[]): Promise<WatchRecord[]>;
+    save(watch: WatchRecord): Promise<WatchRecord>; // Inserts or replaces the watch
+}
+
+export interface ReadMarkerRepository {
+    findById(id: string): Promise<ReadMarkerRecord | null>;
+    listByUser(userId: string): Promise<ReadMarkerRecord[]>;
+    save(marker: ReadMarkerRecord): Promise<ReadMarkerRecord>; // Inserts or replaces the marker
+}
+
+export interface ReactionRepository {
+    findById(id: string): Promise<ReactionRecord | null>;
+    listByPosts(postIds: string[]): Promise<ReactionRecord[]>; // Sorted by createdAt asc
+    insert(reaction: ReactionRecord): Promise<ReactionRecord>;
+    delete(id: string): Promise<boolean>;
+}
+
+// Narrows a search; posts are matched by their current topic and category, so moved topics need no reindexing
+export interface SearchFilters {
+    categoryIds: string[]; // Only posts in topics of these categories
+    authorId?: string;
+    after?: Date; // Posts created at or after
+    before?: Date; // Posts created before
+    topicsOnly?: boolean; // Only opening posts, i.e. one result per topic
+}
+
+export interface SearchIndexRepository {
+    // Ids of the posts containing every term (as a word or word prefix), best match first; a title match counts most
+    search(terms: string[], filters: SearchFilters, page?: PageRequest): Promise<string[]>;
+    count(terms: string[], filters: SearchFilters): Promise<number>;
+    save(document: SearchDocumentRecord): Promise<SearchDocumentRecord>; // Inserts or replaces the post's document
+    delete(id: string): Promise<boolean>;
+    clear(): Promise<number>; // Returns the number of removed documents
+}
+
+// The single entry point the data layer talks to, whatever the storage driver is.
+export interface Repository {
+    driver: 'memory' | 'sqlite';
+    users: UserRepository;
+    categories: CategoryRepository;
+    topics: TopicRepository;
+    posts: PostRepository;
+    sessions: SessionRepository;
+    authTokens: AuthTokenRepository;
+    loginThrottles: LoginThrottleRepository;
+    settings: SettingRepository;
+    auditLog: AuditLogRepository;
+    notifications: NotificationRepository;
+    watches: WatchRepository;
+    readMarkers: ReadMarkerRepository;
+    search: SearchIndexRepository;
+    reactions: ReactionRepository;
+}
@@ -0,0 +1,69 @@
+import type { Repository } from './repository';
+import { DEFAULT_CATEGORIES, DEMO_USERS, DEMO_TOPICS } from './defaults';
+import { hashPassword } from '../auth/password';
+
+export interface SeedOptions {
+    demo?: boolean; // Also create demo users, topics and posts
+}
+
+export interface SeedResult {
+    categories: number;
+    users: number;
+    topics: number;
+    posts: number;
+}
+
+/**
+ * Brings a store to the same starting point every time. Idempotent: records that
+ * already exist (matched by id, or by email for users) are left untouched.
+ */
+export async function seedDatabase(repo: Repository, options: SeedOptions = {}): Promise<SeedResult> {
+    const result: SeedResult = { categories: 0, users: 0, topics: 0, posts: 0 };
+
+    for (const category of DEFAULT_CATEGORIES) {
+        if (!(await repo.categories.findById(category.id))) {
+            await repo.categories.insert({ ...category });
+            result.categories++;
+        }
+    }
+
+    if (!options.demo) return result;
+
+    for (const user of DEMO_USERS) {
+        if (!(await repo.users.findById(user.id)) && !(await repo.users.findByEmail(user.email))) {
+            await repo.users.insert({ ...user, password: await hashPassword(user.password), emailVerifiedAt: user.createdAt });
+            result.users++;
+        }
+    }
+
+    const touchedCategories = new Set<string>();
+    for (const { posts, ...topic } of DEMO_TOPICS) {
+        if (await repo.topics.findById(topic.id)) continue;
+        if (!(await repo.categories.findById(topic.categoryId))) continue; // Category was deleted by an admin
+
+        await repo.topics.insert({
+            ...topic,
+            authorId: posts[0].authorId,
+            createdAt: posts[0].createdAt,
+            lastActivity: posts[posts.length - 1].createdAt,
+            postCount: posts.length,
+        });
+        for (const post of posts) {
+            await repo.posts.insert({ ...post, topicId: topic.id });
+        }
+        touchedCategories.add(topic.categoryId);
+        result.topics++;
+        result.posts += posts.length;
+    }
+
+    // Keep the denormalized category counts in line with what was inserted
+    for (const categoryId of Array.from(touchedCategories)) {
+        const topics = await repo.topics.listByCategory(categoryId);
+        await repo.categories.update(categoryId, {
+            topicCount: topics.length,
+            postCount: topics.reduce((sum, t) => sum + (t.postCount ?? 0), 0),
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,111 @@
+import type Database from 'better-sqlite3';
+
+export type ColumnType = 'text' | 'integer' | 'boolean' | 'date' | 'json';
+
+// Field names map to snake_case columns (e.g. `createdAt` -> `created_at`).
+export const toColumnName = (field: string) => field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+const toSqlValue = (type: ColumnType, value: unknown): unknown => {
+    if (value === undefined || value === null) return null;
+    switch (type) {
+        case 'date': return (value as Date).getTime();
+        case 'boolean': return value ? 1 : 0;
+        case 'json': return JSON.stringify(value);
+        default: return value;
+    }
+};
+
+const fromSqlValue = (type: ColumnType, value: unknown): unknown => {
+    if (value === null || value === undefined) return undefined;
+    switch (type) {
+        case 'date': return new Date(value as number);
+        case 'boolean': return value === 1;
+        case 'json': return JSON.parse(value as string);
+        default: return value;
+    }
+};
+
+/**
+ * Thin mapper between a record type and a SQLite table.
+ * Only the fields listed in `columns` are persisted; anything else on a record is ignored.
+ */
+export class SqliteTable<T extends { id: string }> {
+    private fields: string[];
+
+    constructor(
+        private db: Database.Database,
+        private table: string,
+        private columns: Record<keyof T & string, ColumnType>,
+    ) {
+        this.fields = Object.keys(columns);
+    }
+
+    fromRow(row: Record<string, unknown> | undefined): T | null {
+        if (!row) return null;
+        const record: Record<string, unknown> = {};
+        for (const field of this.fields) {
+            const value = fromSqlValue(this.columns[field as keyof T & string], row[toColumnName(field)]);
+            if (value !== undefined) record[field] = value;
+        }
+        return record as T;
+    }
+
+    select(where = '1 = 1', params: unknown[] = [], orderBy?: string, page?: { limit: number; offset: number }): T[] {
+        const sql = `SELECT * FROM ${this.table} WHERE ${where}${orderBy ? ` ORDER BY ${orderBy}` : ''}${page ? ' LIMIT ? OFFSET ?' : ''}`;
+        const rows = this.db.prepare(sql).all(...params, ...(page ? [page.limit, page.offset] : [])) as Record<string, unknown>[];
+        return rows.map(row => this.fromRow(row) as T);
+    }
+
+    selectOne(where: string, params: unknown[] = []): T | null {
+        const row = this.db.prepare(`SELECT * FROM ${this.table} WHERE ${where} LIMIT 1`).get(...params);
+        return this.fromRow(row as Record<string, unknown> | undefined);
+    }
+
+    get(id: string): T | null {
+        return this.selectOne('id = ?', [id]);
+    }
+
+    private write(statement: 'INSERT' | 'INSERT OR REPLACE', record: T): T {
+        const values = this.fields.map(field => toSqlValue(this.columns[field as keyof T & string], (record as Record<string, unknown>)[field]));
+        const columnList = this.fields.map(toColumnName).join(', ');
+        const placeholders = this.fields.map(() => '?').join(', ');
+        this.db.prepare(`${statement} INTO ${this.table} (${columnList}) VALUES (${placeholders})`).run(...values);
+        return this.get(record.id) as T;
+    }
+
+    insert(record: T): T {
+        return this.write('INSERT', record);
+    }
+
+    // Inserts, or replaces every column of an existing row with the same id
+    upsert(record: T): T {
+        return this.write('INSERT OR REPLACE', record);
+    }
+
+    update(id: string, data: Partial<Omit<T, 'id'>>): T | null {
+        this.updateWhere('id = ?', [id], data);
+        return this.get(id);
+    }
+
+    // Applies the same changes to every matching row; returns the number of changed rows
+    updateWhere(where: string, params: unknown[], data: Partial<Omit<T, 'id'>>): number {
+        const fields = Object.keys(data).filter(field => field !== 'id' && field in this.columns);
+        if (fields.length === 0) return 0;
+        const assignments = fields.map(field => `${toColumnName(field)} = ?`).join(', ');
+        const values = fields.map(field => toSqlValue(this.columns[field as keyof T & string], (data as Record<string, unknown>)[field]));
+        return this.db.prepare(`UPDATE ${this.table} SET ${assignments} WHERE ${where}`).run(...values, ...params).changes;
+    }
+
+    delete(id: string): boolean {
+        return this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id).changes > 0;
+    }
+
+    deleteWhere(where: string, params: unknown[] = []): number {
+        return this.db.prepare(`DELETE FROM ${this.table} WHERE ${where}`).run(...params).changes;
+    }
+
+    count(where = '1 = 1', params: unknown[] = []): number {
+        const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${this.table} WHERE ${where}`).get(...params) as { count: number };
+        return row.count;
+    }
+}
@@ -0,0 +1,288 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { SqliteTable } from './sqlite-table';
+import { runMigrations } from './migrate';
+import type {
+    Repository,
+    UserRecord,
+    CategoryRecord,
+    TopicRecord,
+    PostRecord,
+    SessionRecord,
+    AuthTokenRecord,
+    LoginThrottleRecord,
+    SettingRecord,
+    AuditEntryRecord,
+    NotificationRecord,
+    WatchRecord,
+    ReadMarkerRecord,
+    ReactionRecord,
+    SearchDocumentRecord,
+    SearchFilters,
+} from './repository';
+
+export function openDatabase(filename: string): Database.Database {
+    if (filename !== ':memory:') {
+        fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    const db = new Database(filename);
+    db.pragma('journal_mode = WAL'); // Lets several workers read while one writes
+    db.pragma('foreign_keys = ON');
+    return db;
+}
+
+export function createSqliteRepository(filename: string): Repository {
+    const db = openDatabase(filename);
+    runMigrations(db); // Brings the schema up to date (and refuses out-of-order histories)
+
+    const users = new SqliteTable<UserRecord>(db, 'users', {
+        id: 'text', username: 'text', email: 'text', password: 'text', role: 'text', groups: 'json', createdAt: 'date', emailVerifiedAt: 'date',
+        totpEnabledAt: 'date', totpSecret: 'text', totpLastStep: 'integer', recoveryCodes: 'json', postsPerPage: 'integer',
+        digestFrequency: 'text', digestSentAt: 'date',
+    });
+    const categories = new SqliteTable<CategoryRecord>(db, 'categories', {
+        id: 'text', name: 'text', description: 'text', parentId: 'text', access: 'json', createdAt: 'date', topicCount: 'integer', postCount: 'integer',
+        position: 'integer', icon: 'text', color: 'text', archivedAt: 'date',
+    });
+    const topics = new SqliteTable<TopicRecord>(db, 'topics', {
+        id: 'text', title: 'text', categoryId: 'text', authorId: 'text', createdAt: 'date', lastActivity: 'date', postCount: 'integer',
+        pinnedAt: 'date', lockedAt: 'date', announcedAt: 'date',
+    });
+    const posts = new SqliteTable<PostRecord>(db, 'posts', {
+        id: 'text', content: 'text', topicId: 'text', authorId: 'text', createdAt: 'date', updatedAt: 'date', imageUrl: 'text',
+        quotedPostIds: 'json',
+    });
+    const sessions = new SqliteTable<SessionRecord>(db, 'sessions', {
+        id: 'text', userId: 'text', tokenHash: 'text', createdAt: 'date', expiresAt: 'date', lastSeenAt: 'date', ip: 'text', userAgent: 'text',
+    });
+    const authTokens = new SqliteTable<AuthTokenRecord>(db, 'auth_tokens', {
+        id: 'text', userId: 'text', purpose: 'text', tokenHash: 'text', createdAt: 'date', expiresAt: 'date', usedAt: 'date',
+    });
+    const loginThrottles = new SqliteTable<LoginThrottleRecord>(db, 'login_throttles', {
+        id: 'text', scope: 'text', subject: 'text', failures: 'integer', lastFailureAt: 'date', blockedUntil: 'date', lockedAt: 'date',
+    });
+    const settings = new SqliteTable<SettingRecord>(db, 'site_settings', { id: 'text', value: 'json' });
+    const auditLog = new SqliteTable<AuditEntryRecord>(db, 'audit_log', {
+        id: 'text', actorId: 'text', action: 'text', targetId: 'text', summary: 'text', details: 'json', createdAt: 'date',
+    });
+    const notifications = new SqliteTable<NotificationRecord>(db, 'notifications', {
+        id: 'text', userId: 'text', kind: 'text', actorId: 'text', topicId: 'text', postId: 'text', summary: 'text', createdAt: 'date', readAt: 'date', emailedAt: 'date',
+    });
+    const watches = new SqliteTable<WatchRecord>(db, 'watches', {
+        id: 'text', userId: 'text', topicId: 'text', categoryId: 'text', level: 'text', updatedAt: 'date',
+    });
+    const readMarkers = new SqliteTable<ReadMarkerRecord>(db, 'read_markers', {
+        id: 'text', userId: 'text', topicId: 'text', categoryId: 'text', postId: 'text', readAt: 'date',
+    });
+    const reactions = new SqliteTable<ReactionRecord>(db, 'reactions', {
+        id: 'text', postId: 'text', userId: 'text', emoji: 'text', createdAt: 'date',
+    });
+    const searchDocuments = new SqliteTable<SearchDocumentRecord>(db, 'search_documents', { id: 'text', title: 'text', content: 'text' });
+
+    // Terms are plain words (see searchTerms() in src/lib/search-text.ts), so quoting them is enough to make them
+    // literal; each has to appear as a word prefix. Filters join the post's current topic, so moves need no reindexing.
+    const searchQuery = (terms: string[], filters: SearchFilters) => {
+        const conditions = ['search_index MATCH ?', `topics.category_id IN (${filters.categoryIds.map(() => '?').join(', ')})`];
+        const params: unknown[] = [terms.map(term => `"${term}"*`).join(' '), ...filters.categoryIds];
+        if (filters.authorId) {
+            conditions.push('posts.author_id = ?');
+            params.push(filters.authorId);
+        }
+        if (filters.after) {
+            conditions.push('posts.created_at >= ?');
+            params.push(filters.after.getTime());
+        }
+        if (filters.before) {
+            conditions.push('posts.created_at < ?');
+            params.push(filters.before.getTime());
+        }
+        if (filters.topicsOnly) conditions.push('search_documents.title IS NOT NULL');
+        return {
+            from: `FROM search_index
+                JOIN search_documents ON search_documents.doc_id = search_index.rowid
+                JOIN posts ON posts.id = search_documents.id
+                JOIN topics ON topics.id = posts.topic_id
+                WHERE ${conditions.join(' AND ')}`,
+            params,
+        };
+    };
+
+    return {
+        driver: 'sqlite',
+        users: {
+            list: async () => users.select(undefined, [], 'created_at'),
+            findById: async (id) => users.get(id),
+            findByEmail: async (email) => users.selectOne('email = ?', [email]),
+            findByUsername: async (username) => users.select('username = ? COLLATE NOCASE', [username], 'created_at', { limit: 1, offset: 0 })[0] ?? null,
+            searchByUsername: async (prefix, limit) => users.select(
+                "username LIKE ? ESCAPE '\\'", [`${prefix.replace(/[\\%_]/g, match => `\\${match}`)}%`],
+                'username COLLATE NOCASE', { limit, offset: 0 },
+            ),
+            insert: async (user) => users.insert(user),
+            update: async (id, data) => users.update(id, data),
+            advanceTotpStep: async (id, step) => users.updateWhere(
+                'id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)', [id, step], { totpLastStep: step }) > 0,
+            replaceRecoveryCodes: async (id, expected, next) => users.updateWhere(
+                'id = ? AND recovery_codes = ?', [id, JSON.stringify(expected)], { recoveryCodes: next }) > 0,
+            delete: async (id) => users.delete(id),
+            count: async () => users.count(),
+        },
+        categories: {
+            list: async () => categories.select(undefined, [], 'position, created_at'),
+            findById: async (id) => categories.get(id),
+            insert: async (category) => categories.insert(category),
+            update: async (id, data) => categories.update(id, data),
+            delete: async (id) => categories.delete(id),
+            count: async () => categories.count(),
+        },
+        topics: {
+            listByCategory: async (categoryId, page) => topics.select(
+                'category_id = ?', [categoryId],
+                '(pinned_at IS NULL AND announced_at IS NULL), last_activity DESC, rowid DESC', page,
+            ),
+            listAnnouncements: async () => topics.select('announced_at IS NOT NULL', [], 'announced_at DESC'),
+            listActiveSince: async (categoryIds, since) => categoryIds.length === 0 ? [] : topics.select(
+                `category_id IN (${categoryIds.map(() => '?').join(', ')}) AND last_activity > ?`, [...categoryIds, since.getTime()],
+                'last_activity DESC, rowid DESC',
+            ),
+            countByCategory: async (categoryId) => topics.count('category_id = ?', [categoryId]),
+            findById: async (id) => topics.get(id),
+            insert: async (topic) => topics.insert(topic),
+            update: async (id, data) => topics.update(id, data),
+            delete: async (id) => topics.delete(id),
+            deleteByCategory: async (categoryId) => {
+                const ids = topics.select('category_id = ?', [categoryId]).map(t => t.id);
+                topics.deleteWhere('category_id = ?', [categoryId]);
+                return ids;
+            },
+            moveToCategory: async (fromCategoryId, toCategoryId) => topics.updateWhere('category_id = ?', [fromCategoryId], { categoryId: toCategoryId }),
+            count: async () => topics.count(),
+        },
+        posts: {
+            listByTopic: async (topicId, page) => posts.select('topic_id = ?', [topicId], 'created_at ASC, rowid', page),
+            countByTopic: async (topicId) => posts.count('topic_id = ?', [topicId]),
+            // Same order as listByTopic: creation time, then insertion order
+            countBefore: async (post) => posts.count(
+                'topic_id = ? AND (created_at < ? OR (created_at = ? AND rowid < (SELECT rowid FROM posts WHERE id = ?)))',
+                [post.topicId, post.createdAt.getTime(), post.createdAt.getTime(), post.id],
+            ),
+            countSince: async (topicId, since) => posts.count('topic_id = ? AND created_at > ?', [topicId, since.getTime()]),
+            findById: async (id) => posts.get(id),
+            insert: async (post) => posts.insert(post),
+            update: async (id, data) => posts.update(id, data),
+            delete: async (id) => posts.delete(id),
+            deleteByTopics: async (topicIds) => {
+                if (topicIds.length === 0) return 0;
+                return posts.deleteWhere(`topic_id IN (${topicIds.map(() => '?').join(', ')})`, topicIds);
+            },
+            moveToTopic: async (postIds, topicId) => {
+                if (postIds.length === 0) return 0;
+                return posts.updateWhere(`id IN (${postIds.map(() => '?').join(', ')})`, postIds, { topicId });
+            },
+            listQuoting: async (postIds) => {
+                if (postIds.length === 0) return [];
+                return posts.select(
+                    `EXISTS (SELECT 1 FROM json_each(posts.quoted_post_ids) WHERE value IN (${postIds.map(() => '?').join(', ')}))`,
+                    postIds, 'created_at ASC, rowid',
+                );
+            },
+            count: async () => posts.count(),
+        },
+        sessions: {
+            listByUser: async (userId) => sessions.select('user_id = ?', [userId], 'last_seen_at DESC'),
+            findById: async (id) => sessions.get(id),
+            findByTokenHash: async (tokenHash) => sessions.selectOne('token_hash = ?', [tokenHash]),
+            insert: async (session) => sessions.insert(session),
+            update: async (id, data) => sessions.update(id, data),
+            delete: async (id) => sessions.delete(id),
+            deleteByUser: async (userId, exceptSessionId) => sessions.deleteWhere('user_id = ? AND id IS NOT ?', [userId, exceptSessionId ?? null]),
+            deleteExpired: async (now) => sessions.deleteWhere('expires_at <= ?', [now.getTime()]),
+        },
+        authTokens: {
+            findByTokenHash: async (tokenHash) => authTokens.selectOne('token_hash = ?', [tokenHash]),
+            insert: async (token) => authTokens.insert(token),
+            update: async (id, data) => authTokens.update(id, data),
+            consume: async (tokenHash, purpose, now) => {
+                const changed = authTokens.updateWhere(
+                    'token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?', [tokenHash, purpose, now.getTime()], { usedAt: now });
+                return changed > 0 ? authTokens.selectOne('token_hash = ?', [tokenHash]) : null;
+            },
+            deleteByUser: async (userId, purpose) => purpose
+                ? authTokens.deleteWhere('user_id = ? AND purpose = ?', [userId, purpose])
+                : authTokens.deleteWhere('user_id = ?', [userId]),
+            deleteExpired: async (now) => authTokens.deleteWhere('expires_at <= ?', [now.getTime()]),
+        },
+        loginThrottles: {
+            findById: async (id) => loginThrottles.get(id),
+            save: async (throttle) => loginThrottles.upsert(throttle),
+            delete: async (id) => loginThrottles.delete(id),
+            listBlocked: async (now) => loginThrottles.select('blocked_until > ?', [now.getTime()], 'last_failure_at DESC'),
+            deleteStale: async (before) => loginThrottles.deleteWhere(
+                'last_failure_at < ? AND COALESCE(blocked_until, 0) < ?', [before.getTime(), before.getTime()]),
+        },
+        settings: {
+            list: async () => settings.select(),
+            save: async (setting) => settings.upsert(setting),
+        },
+        auditLog: {
+            list: async (page) => auditLog.select(undefined, [], 'created_at DESC, rowid DESC', page),
+            count: async () => auditLog.count(),
+            insert: async (entry) => auditLog.insert(entry),
+        },
+        notifications: {
+            listByUser: async (userId, page) => notifications.select('user_id = ?', [userId], 'created_at DESC, rowid DESC', page),
+            countUnread: async (userId) => notifications.count('user_id = ? AND read_at IS NULL', [userId]),
+            listUnreadSince: async (userId, since) => notifications.select(
+                'user_id = ? AND read_at IS NULL AND created_at > ?', [userId, since.getTime()], 'created_at, rowid'),
+            count: async (userId) => notifications.count('user_id = ?', [userId]),
+            insert: async (notification) => notifications.insert(notification),
+            markRead: async (userId, id, now) => {
+                if (notifications.count('id = ? AND user_id = ?', [id, userId]) === 0) return false;
+                notifications.updateWhere('id = ? AND read_at IS NULL', [id], { readAt: now });
+                return true;
+            },
+            markAllRead: async (userId, now) => notifications.updateWhere('user_id = ? AND read_at IS NULL', [userId], { readAt: now }),
+        },
+        watches: {
+            findById: async (id) => watches.get(id),
+            listByTopic: async (topicId) => watches.select('topic_id = ?', [topicId]),
+            listByCategories: async (categoryIds) => categoryIds.length === 0 ? [] : watches.select(
+                `category_id IN (${categoryIds.map(() => '?').join(', ')})`, categoryIds),
+            save: async (watch) => watches.upsert(watch),
+        },
+        readMarkers: {
+            findById: async (id) => readMarkers.get(id),
+            listByUser: async (userId) => readMarkers.select('user_id = ?', [userId]),
+            save: async (marker) => readMarkers.upsert(marker),
+        },
+        search: {
+            search: async (terms, filters, page) => {
+                if (terms.length === 0 || filters.categoryIds.length === 0) return [];
+                const { from, params } = searchQuery(terms, filters);
+                // A title match weighs ten times a match in the post
+                const rows = db.prepare(`SELECT search_documents.id ${from} ORDER BY bm25(search_index, 10.0, 1.0), posts.created_at DESC${page ? ' LIMIT ? OFFSET ?' : ''}`)
+                    .all(...params, ...(page ? [page.limit, page.offset] : [])) as { id: string }[];
+                return rows.map(row => row.id);
+            },
+            count: async (terms, filters) => {
+                if (terms.length === 0 || filters.categoryIds.length === 0) return 0;
+                const { from, params } = searchQuery(terms, filters);
+                return (db.prepare(`SELECT COUNT(*) AS count ${from}`).get(...params) as { count: number }).count;
+            },
+            // Updated in place, so the triggers keep the FTS index in step (a REPLACE wouldn't fire the delete trigger)
+            save: async (document) => searchDocuments.get(document.id)
+                ? searchDocuments.update(document.id, { title: document.title, content: document.content }) as SearchDocumentRecord
+                : searchDocuments.insert(document),
+            delete: async (id) => searchDocuments.delete(id),
+            clear: async () => searchDocuments.deleteWhere('1 = 1'),
+        },
+        reactions: {
+            findById: async (id) => reactions.get(id),
+            listByPosts: async (postIds) => postIds.length === 0 ? [] : reactions.select(
+                `post_id IN (${postIds.map(() => '?').join(', ')})`, postIds, 'created_at ASC, rowid'),
+            insert: async (reaction) => reactions.insert(reaction),
+            delete: async (id) => reactions.delete(id),
+        },
+    };
+}
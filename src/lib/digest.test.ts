@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getRepository } from '@/lib/db';
+import { setMailTransport, type MailMessage } from '@/lib/mail';
+import type { Post, User } from '@/lib/types';
+import { dispatchNotification } from './notifications';
+import { setWatchLevel } from './watching';
+import { sendDigests } from './digest';
+
+const member = (id: string, overrides: Partial<User> = {}): User =>
+    ({ id, username: id, email: `${id}@example.com`, role: 'member', createdAt: new Date(), emailVerifiedAt: new Date(), ...overrides });
+const post = (id: string, authorId: string, createdAt: Date, content = `${id} content`): Post =>
+    ({ id, content, topicId: 'welcome', authorId, createdAt });
+
+describe('digests', () => {
+    let sent: MailMessage[];
+
+    beforeEach(async () => {
+        sent = [];
+        setMailTransport({ name: 'test', send: async (message) => { sent.push(message); } });
+        const repo = getRepository();
+        await repo.users.insert(member('alice'));
+        await repo.users.insert(member('bob', { digestFrequency: 'daily' }));
+        await repo.categories.insert({ id: 'lounge', name: 'Lounge', createdAt: new Date(), topicCount: 1, postCount: 2, position: 0 });
+        await repo.topics.insert({ id: 'welcome', title: 'Welcome', categoryId: 'lounge', authorId: 'alice', createdAt: new Date(), lastActivity: new Date(), postCount: 2 });
+        await repo.posts.insert(post('p1', 'alice', new Date(Date.now() - 60_000)));
+    });
+
+    afterEach(() => {
+        setMailTransport(undefined);
+    });
+
+    it('emails unread notifications', async () => {
+        await dispatchNotification({ type: 'post.created', post: post('p2', 'alice', new Date(), 'Welcome aboard, @bob!') });
+        expect(sent).toEqual([]);
+
+        expect(await sendDigests('daily', { baseUrl: 'http://forum.test' })).toEqual({ checked: 1, sent: 1 });
+        expect(sent).toHaveLength(1);
+        expect(sent[0].text).toContain('alice mentioned you in "Welcome"');
+    });
+
+    it('leaves out notifications that were already emailed instantly', async () => {
+        await setWatchLevel('bob', { topicId: 'welcome' }, 'email');
+        await dispatchNotification({ type: 'post.created', post: post('p2', 'alice', new Date()) });
+        expect(sent.map(message => message.to)).toEqual(['bob@example.com']);
+        expect((await getRepository().notifications.listByUser('bob'))[0].emailedAt).toBeInstanceOf(Date);
+
+        expect(await sendDigests('daily', { baseUrl: 'http://forum.test' })).toEqual({ checked: 1, sent: 0 });
+        expect(sent).toHaveLength(1);
+    });
+});
@@ -0,0 +1,63 @@
+import type { DigestFrequency } from './types';
+import { getRepository } from './db';
+import { notificationPath } from './notifications';
+import { sendMail } from './mail';
+import { digestEmail } from './mail/templates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+    daily: 24 * HOUR_MS,
+    weekly: 7 * 24 * HOUR_MS,
+};
+
+// Scheduled runs drift a little, so a digest counts as due slightly early; otherwise a daily job could skip every other day
+const DUE_TOLERANCE_MS = HOUR_MS;
+
+export interface DigestOptions {
+    baseUrl: string; // Absolute origin for the links in the emails
+    now?: Date;
+    force?: boolean; // Ignore when the last digest went out (for testing)
+}
+
+export interface DigestResult {
+    checked: number; // Users due for this digest
+    sent: number; // Of those, users who had unread notifications and were emailed
+}
+
+/**
+ * Emails every user who chose `frequency` their notifications that are still unread and arrived
+ * since their last digest (or in the last period, for a first digest). Notifications already sent
+ * as instant emails are left out. Meant to run on a schedule,
+ * e.g. `npm run mail:digest -- daily` from cron; users who aren't due yet are skipped, so running
+ * it too often is harmless.
+ */
+export async function sendDigests(frequency: DigestFrequency, { baseUrl, now = new Date(), force = false }: DigestOptions): Promise<DigestResult> {
+    const repo = getRepository();
+    const period = DIGEST_PERIOD_MS[frequency];
+    const users = (await repo.users.list()).filter(user => user.digestFrequency === frequency && user.emailVerifiedAt);
+    const result: DigestResult = { checked: 0, sent: 0 };
+
+    for (const user of users) {
+        const lastRun = user.digestSentAt?.getTime();
+        if (!force && lastRun !== undefined && now.getTime() - lastRun < period - DUE_TOLERANCE_MS) continue;
+        result.checked++;
+
+        const since = new Date(lastRun ?? now.getTime() - period);
+        const notifications = (await repo.notifications.listUnreadSince(user.id, since)).filter(notification => !notification.emailedAt);
+        if (notifications.length > 0) {
+            const items = await Promise.all(notifications.map(async notification => ({
+                actorName: (await repo.users.findById(notification.actorId))?.username ?? 'Someone',
+                summary: notification.summary,
+                url: `${baseUrl}${notificationPath(notification)}`,
+            })));
+            await sendMail(digestEmail(user.email, user.username, frequency === 'daily' ? 'day' : 'week', items, `${baseUrl}/notifications`, `${baseUrl}/account/preferences`));
+            result.sent++;
+        }
+        // Recorded even when there was nothing to send, so the next digest starts from here
+        await repo.users.update(user.id, { digestSentAt: now });
+    }
+
+    console.log(`[Digest] ${frequency}: ${result.sent} of ${result.checked} due users emailed`);
+    return result;
+}
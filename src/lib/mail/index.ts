@@ -0,0 +1,51 @@
+import path from 'node:path';
+import type { MailMessage, MailTransport, OutboxMessage } from './types';
+import { createOutboxTransport, readOutbox } from './outbox';
+
+export type { MailMessage, MailTransport, OutboxMessage } from './types';
+
+/**
+ * Delivery is chosen by configuration:
+ *   FORUM_MAIL_TRANSPORT=outbox (default) - JSON files in FORUM_OUTBOX_DIR (default: ./data/outbox)
+ *   FORUM_MAIL_TRANSPORT=console          - printed to the server log
+ * Other providers can be plugged in with setMailTransport().
+ */
+export const getMailConfig = () => ({
+    transport: process.env.FORUM_MAIL_TRANSPORT === 'console' ? 'console' : 'outbox',
+    outboxDir: process.env.FORUM_OUTBOX_DIR || path.join(process.cwd(), 'data', 'outbox'),
+    from: process.env.FORUM_MAIL_FROM || 'ForumLite <no-reply@localhost>',
+});
+
+const consoleTransport: MailTransport = {
+    name: 'console',
+    async send(message) {
+        console.log(`[Mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+};
+
+// Cached on globalThis like the repository, so dev hot reloads keep a transport set by setMailTransport().
+const globalForMail = globalThis as unknown as { forumMailTransport?: MailTransport };
+
+export function getMailTransport(): MailTransport {
+    if (!globalForMail.forumMailTransport) {
+        const config = getMailConfig();
+        globalForMail.forumMailTransport = config.transport === 'console' ? consoleTransport : createOutboxTransport(config.outboxDir);
+        console.log(`[Mail] Using ${globalForMail.forumMailTransport.name} transport`);
+    }
+    return globalForMail.forumMailTransport;
+}
+
+export function setMailTransport(transport: MailTransport | undefined) {
+    globalForMail.forumMailTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    const transport = getMailTransport();
+    await transport.send({ from: getMailConfig().from, ...message });
+    console.log(`[Mail] Sent "${message.subject}" to ${message.to} via ${transport.name}`);
+}
+
+// Only meaningful for the outbox transport; other transports have nothing stored locally.
+export async function listOutboxMessages(limit?: number): Promise<OutboxMessage[]> {
+    return readOutbox(getMailConfig().outboxDir, limit);
+}
@@ -0,0 +1,45 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MailMessage, MailTransport, OutboxMessage } from './types';
+
+/**
+ * Writes every message as a JSON file instead of delivering it, so development and
+ * self-hosted setups without a mail server can still read reset links (see /admin/outbox).
+ */
+export function createOutboxTransport(directory: string): MailTransport {
+    return {
+        name: 'outbox',
+        async send(message: MailMessage) {
+            await mkdir(directory, { recursive: true });
+            const createdAt = new Date();
+            const id = `${createdAt.getTime()}-${Math.random().toString(36).substring(2, 7)}`;
+            const stored: OutboxMessage = { ...message, id, createdAt };
+            await writeFile(path.join(directory, `${id}.json`), JSON.stringify(stored, null, 2), 'utf8');
+        },
+    };
+}
+
+// Newest first. Unreadable files are skipped rather than breaking the whole listing.
+export async function readOutbox(directory: string, limit = 100): Promise<OutboxMessage[]> {
+    let files: string[];
+    try {
+        files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+
+    // File names start with the creation timestamp, so a numeric sort is chronological
+    files.sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+
+    const messages: OutboxMessage[] = [];
+    for (const file of files.slice(0, limit)) {
+        try {
+            const stored = JSON.parse(await readFile(path.join(directory, file), 'utf8'));
+            messages.push({ ...stored, createdAt: new Date(stored.createdAt) });
+        } catch (error) {
+            console.warn(`[Mail] Skipping unreadable outbox file ${file}:`, error);
+        }
+    }
+    return messages;
+}
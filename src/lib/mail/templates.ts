@@ -0,0 +1,104 @@
+import type { MailMessage } from './types';
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function passwordResetEmail(to: string, username: string, resetUrl: string, expiresInMinutes: number): MailMessage {
+    return {
+        to,
+        subject: 'Reset your ForumLite password',
+        text: [
+            `Hi ${username},`,
+            '',
+            'Someone (hopefully you) asked to reset the password for your ForumLite account.',
+            `Open the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.`,
+            '',
+            resetUrl,
+            '',
+            'If you did not ask for this, you can ignore this email; your password will not change.',
+        ].join('\n'),
+        html: [
+            `<p>Hi ${escapeHtml(username)},</p>`,
+            '<p>Someone (hopefully you) asked to reset the password for your ForumLite account.</p>',
+            `<p>Open the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.</p>`,
+            `<p><a href="${escapeHtml(resetUrl)}">Reset your password</a></p>`,
+            '<p>If you did not ask for this, you can ignore this email; your password will not change.</p>',
+        ].join('\n'),
+    };
+}
+
+export function emailVerificationEmail(to: string, username: string, verifyUrl: string, expiresInHours: number): MailMessage {
+    return {
+        to,
+        subject: 'Verify your ForumLite email address',
+        text: [
+            `Hi ${username},`,
+            '',
+            'Thanks for joining ForumLite! Please confirm your email address so you can start posting:',
+            '',
+            verifyUrl,
+            '',
+            `The link expires in ${expiresInHours} hours. If you did not create an account, you can ignore this email.`,
+        ].join('\n'),
+        html: [
+            `<p>Hi ${escapeHtml(username)},</p>`,
+            '<p>Thanks for joining ForumLite! Please confirm your email address so you can start posting:</p>',
+            `<p><a href="${escapeHtml(verifyUrl)}">Verify your email address</a></p>`,
+            `<p>The link expires in ${expiresInHours} hours. If you did not create an account, you can ignore this email.</p>`,
+        ].join('\n'),
+    };
+}
+
+// One line of forum activity, e.g. "alice replied to "Welcome"", with a link to it
+export interface ActivityItem {
+    actorName: string;
+    summary: string;
+    url: string;
+}
+
+export function notificationEmail(to: string, username: string, item: ActivityItem, preferencesUrl: string): MailMessage {
+    return {
+        to,
+        subject: `${item.actorName} ${item.summary}`,
+        text: [
+            `Hi ${username},`,
+            '',
+            `${item.actorName} ${item.summary}:`,
+            '',
+            item.url,
+            '',
+            `You get this email because you chose instant emails for it. To change that, use the Watch menu on the topic or category, or visit ${preferencesUrl}.`,
+        ].join('\n'),
+        html: [
+            `<p>Hi ${escapeHtml(username)},</p>`,
+            `<p><a href="${escapeHtml(item.url)}">${escapeHtml(item.actorName)} ${escapeHtml(item.summary)}</a></p>`,
+            `<p>You get this email because you chose instant emails for it. To change that, use the Watch menu on the topic or category, or visit <a href="${escapeHtml(preferencesUrl)}">your preferences</a>.</p>`,
+        ].join('\n'),
+    };
+}
+
+export function digestEmail(to: string, username: string, period: 'day' | 'week', items: ActivityItem[], notificationsUrl: string, preferencesUrl: string): MailMessage {
+    const count = `${items.length} unread notification${items.length === 1 ? '' : 's'}`;
+    return {
+        to,
+        subject: `Your ForumLite ${period === 'day' ? 'daily' : 'weekly'} digest: ${count}`,
+        text: [
+            `Hi ${username},`,
+            '',
+            `Here is what you missed in the last ${period} (${count}):`,
+            '',
+            ...items.map(item => `- ${item.actorName} ${item.summary}\n  ${item.url}`),
+            '',
+            `All notifications: ${notificationsUrl}`,
+            `Change or stop these digests: ${preferencesUrl}`,
+        ].join('\n'),
+        html: [
+            `<p>Hi ${escapeHtml(username)},</p>`,
+            `<p>Here is what you missed in the last ${period} (${count}):</p>`,
+            '<ul>',
+            ...items.map(item => `<li><a href="${escapeHtml(item.url)}">${escapeHtml(item.actorName)} ${escapeHtml(item.summary)}</a></li>`),
+            '</ul>',
+            `<p><a href="${escapeHtml(notificationsUrl)}">All notifications</a> · <a href="${escapeHtml(preferencesUrl)}">Change or stop these digests</a></p>`,
+        ].join('\n'),
+    };
+}
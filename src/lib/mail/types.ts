@@ -0,0 +1,19 @@
+export interface MailMessage {
+    from?: string; // Defaults to FORUM_MAIL_FROM
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+// A message as recorded by the outbox transport.
+export interface OutboxMessage extends MailMessage {
+    id: string;
+    createdAt: Date;
+}
+
+// Delivery backend. New providers (SMTP, an HTTP API...) only need to implement this.
+export interface MailTransport {
+    name: string;
+    send(message: MailMessage): Promise<void>;
+}
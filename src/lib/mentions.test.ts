@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { USERNAME_PATTERN, extractMentions, profileHref, remarkMentions } from './mentions';
+
+describe('mentions', () => {
+    it('extracts lower-cased usernames once each, in order', () => {
+        expect(extractMentions('Thanks @Bob and @alice, and again @bob.')).toEqual(['bob', 'alice']);
+        expect(extractMentions('@first.last-name, hi')).toEqual(['first.last-name']);
+    });
+
+    it('skips e-mail addresses, code and quotes', () => {
+        const content = [
+            'Mail bob@example.com',
+            'Run `@carol` like this:',
+            '```',
+            '@dave',
+            '```',
+            '> @erin said so',
+            'but @frank agreed',
+        ].join('\n');
+        expect(extractMentions(content)).toEqual(['frank']);
+    });
+
+    it('only accepts usernames that can be mentioned', () => {
+        expect(USERNAME_PATTERN.test('bob.smith')).toBe(true);
+        expect(USERNAME_PATTERN.test('bob.')).toBe(false);
+        expect(USERNAME_PATTERN.test('bob smith')).toBe(false);
+        expect(profileHref('bob smith')).toBe('/users/bob%20smith');
+    });
+
+    it('turns mentions in text into profile links, leaving existing links alone', () => {
+        const tree = {
+            type: 'root',
+            children: [{
+                type: 'paragraph',
+                children: [
+                    { type: 'text', value: 'hi @bob!' },
+                    { type: 'link', url: '/x', children: [{ type: 'text', value: '@carol' }] },
+                ],
+            }],
+        };
+        remarkMentions()(tree);
+        expect(tree.children[0].children).toEqual([
+            { type: 'text', value: 'hi ' },
+            { type: 'link', url: '/users/bob', children: [{ type: 'text', value: '@bob' }], data: { hProperties: { className: 'mention' } } },
+            { type: 'text', value: '!' },
+            { type: 'link', url: '/x', children: [{ type: 'text', value: '@carol' }] },
+        ]);
+    });
+});
@@ -0,0 +1,65 @@
+// @mentions. Shared with client components (rendering, autocomplete), so it must stay free of server-only imports.
+
+// Usernames that can be mentioned: letters, digits and _ . - (not ending in . or -, so "@bob." mentions bob)
+export const USERNAME_PATTERN = /^\w(?:[\w.-]*\w)?$/;
+// An @ that doesn't follow a word character, so e-mail addresses aren't mentions
+const MENTION = /(^|[^\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+export const profileHref = (username: string) => `/users/${encodeURIComponent(username)}`;
+
+/**
+ * Lower-cased usernames mentioned in `content`, in order of first appearance.
+ * Mentions inside code (fenced or inline) and in quotes don't count: they repeat someone else's words.
+ */
+export function extractMentions(content: string): string[] {
+    const names = new Set<string>();
+    let inFence = false;
+    for (const line of content.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence || /^\s*>/.test(line)) continue;
+        const text = line.replace(/`[^`]*`/g, ' ');
+        for (const match of text.matchAll(MENTION)) names.add(match[2].toLowerCase());
+    }
+    return [...names];
+}
+
+// Minimal mdast shapes for the remark plugin below
+interface MdastNode {
+    type: string;
+    value?: string;
+    url?: string;
+    children?: MdastNode[];
+    data?: Record<string, unknown>;
+}
+
+const splitMentions = (text: string): MdastNode[] => {
+    const nodes: MdastNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(MENTION)) {
+        const start = match.index! + match[1].length;
+        if (start > last) nodes.push({ type: 'text', value: text.slice(last, start) });
+        nodes.push({
+            type: 'link',
+            url: profileHref(match[2]),
+            children: [{ type: 'text', value: `@${match[2]}` }],
+            data: { hProperties: { className: 'mention' } },
+        });
+        last = start + match[2].length + 1;
+    }
+    if (last < text.length) nodes.push({ type: 'text', value: text.slice(last) });
+    return nodes;
+};
+
+const linkMentions = (node: MdastNode) => {
+    if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+    node.children = node.children.flatMap(child => (child.type === 'text' && child.value ? splitMentions(child.value) : [child]));
+    node.children.forEach(linkMentions);
+};
+
+// Remark plugin turning @username in text into profile links. Code is never touched: it has no text children.
+export function remarkMentions() {
+    return (tree: MdastNode) => linkMentions(tree);
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { Post, User } from '@/lib/types';
+import { dispatchNotification, notificationPath } from './notifications';
+
+const member = (id: string): User => ({ id, username: id, email: `${id}@example.com`, role: 'member', createdAt: new Date() });
+const post = (id: string, authorId: string, content: string, overrides: Partial<Post> = {}): Post =>
+    ({ id, content, topicId: 'welcome', authorId, createdAt: new Date(), ...overrides });
+
+const notificationsOf = async (userId: string) =>
+    (await getRepository().notifications.listByUser(userId)).map(({ kind, actorId, summary }) => ({ kind, actorId, summary }));
+
+describe('notification dispatch', () => {
+    beforeEach(async () => {
+        const repo = getRepository();
+        for (const id of ['alice', 'bob', 'carol']) await repo.users.insert(member(id));
+        await repo.categories.insert({ id: 'lounge', name: 'Lounge', createdAt: new Date(), topicCount: 1, postCount: 1 });
+        await repo.topics.insert({ id: 'welcome', title: 'Welcome', categoryId: 'lounge', authorId: 'alice', createdAt: new Date(0), lastActivity: new Date(0), postCount: 1 });
+        await repo.posts.insert(post('p1', 'alice', 'Hello everyone', { createdAt: new Date(0) }));
+    });
+
+    it('sends one notification per recipient, the first handler winning', async () => {
+        // bob mentions, quotes and replies to alice's topic: alice hears about the mention only
+        await dispatchNotification({ type: 'post.created', post: post('p2', 'bob', '> [alice wrote:](/posts/p1)\n>\n> Hello\n\nHi @alice!', { quotedPostIds: ['p1'] }) });
+        expect(await notificationsOf('alice')).toEqual([{ kind: 'mention', actorId: 'bob', summary: 'mentioned you in "Welcome"' }]);
+    });
+
+    it('never notifies whoever caused the event', async () => {
+        await dispatchNotification({ type: 'post.created', post: post('p2', 'alice', 'Note to self, @alice: reply to @carol') });
+        expect(await notificationsOf('alice')).toEqual([]);
+        expect(await notificationsOf('carol')).toEqual([{ kind: 'mention', actorId: 'alice', summary: 'mentioned you in "Welcome"' }]);
+    });
+
+    it('leaves out users who cannot see the category', async () => {
+        await getRepository().categories.update('lounge', { access: { view: { roles: ['admin'], groups: ['staff'] } } });
+        await getRepository().users.update('carol', { groups: ['staff'] });
+        await dispatchNotification({ type: 'post.created', post: post('p2', 'alice', 'Ping @bob and @carol') });
+        expect(await notificationsOf('bob')).toEqual([]);
+        expect(await notificationsOf('carol')).toHaveLength(1);
+    });
+
+    it('only notifies about newly added mentions after an edit', async () => {
+        const edited = post('p2', 'bob', 'Thanks @alice and @carol');
+        await dispatchNotification({ type: 'post.edited', post: edited, previousContent: 'Thanks @alice' });
+        expect(await notificationsOf('alice')).toEqual([]);
+        expect(await notificationsOf('carol')).toHaveLength(1);
+    });
+
+    it('tells authors about moderation of their content', async () => {
+        const topic = (await getRepository().topics.findById('welcome'))!;
+        await dispatchNotification({ type: 'topic.moderated', topic, actorId: 'bob', action: { kind: 'lock' } });
+        await dispatchNotification({ type: 'post.deleted', post: post('p2', 'carol', 'Spam'), actorId: 'bob' });
+        expect(await notificationsOf('alice')).toEqual([{ kind: 'moderation', actorId: 'bob', summary: 'locked your topic "Welcome"' }]);
+        expect(await notificationsOf('carol')).toEqual([{ kind: 'moderation', actorId: 'bob', summary: 'deleted your post in "Welcome"' }]);
+    });
+
+    it('links to the post, or to the topic when there is none', () => {
+        expect(notificationPath({ topicId: 'welcome', postId: 'p2' })).toBe('/posts/p2');
+        expect(notificationPath({ topicId: 'welcome' })).toBe('/topics/welcome');
+    });
+});
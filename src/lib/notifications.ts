@@ -0,0 +1,194 @@
+import type { Notification, NotificationKind, Topic, User } from './types';
+import { getRepository } from './db';
+import type { PostRecord } from './db/repository';
+import { canInCategory } from './permissions';
+import { extractMentions } from './mentions';
+import { extractQuotedPostIds } from './quotes';
+import { getCategoryWatchers, getTopicWatchers } from './watching';
+import { getBaseUrl } from './auth/request';
+import { sendMail } from './mail';
+import { notificationEmail } from './mail/templates';
+
+// --- Notification dispatch ---
+// Everything that notifies someone reports an event here, and the handlers below decide who hears
+// about it. A new kind of notification is a new handler (and maybe a new event), not a change to
+// every action that could trigger it.
+
+export type TopicModeration =
+    | { kind: 'pin' | 'unpin' | 'lock' | 'unlock' | 'announce' | 'unannounce' }
+    | { kind: 'move'; categoryName: string }
+    | { kind: 'merge'; into: Topic } // `topic` is the merged (now deleted) source topic
+    | { kind: 'split'; into: Topic; authorIds: string[] }; // Authors of the posts that moved
+
+export type NotificationEvent =
+    | { type: 'post.created'; post: PostRecord }
+    | { type: 'post.edited'; post: PostRecord; previousContent: string }
+    | { type: 'post.deleted'; post: PostRecord; actorId: string }
+    | { type: 'post.reacted'; post: PostRecord; actorId: string; emoji: string }
+    | { type: 'topic.moderated'; topic: Topic; actorId: string; action: TopicModeration };
+
+// A notification a handler wants to send; the dispatcher fills in the rest
+interface Draft {
+    userId: string;
+    kind: NotificationKind;
+    topicId: string;
+    postId?: string;
+    summary: string;
+    email?: boolean; // The recipient also wants an email right away
+}
+
+type Handler = (event: NotificationEvent) => Promise<Draft[]>;
+
+const quoted = (title: string) => `"${title}"`;
+
+const topicOf = async (post: PostRecord) => getRepository().topics.findById(post.topicId);
+
+// Everyone mentioned in a new post; only newly added mentions after an edit
+const mentionHandler: Handler = async (event) => {
+    if (event.type !== 'post.created' && event.type !== 'post.edited') return [];
+    const previous = new Set(event.type === 'post.edited' ? extractMentions(event.previousContent) : []);
+    const added = extractMentions(event.post.content).filter(name => !previous.has(name));
+    const topic = added.length > 0 ? await topicOf(event.post) : null;
+    if (!topic) return [];
+
+    const drafts: Draft[] = [];
+    for (const name of added) {
+        const user = await getRepository().users.findByUsername(name);
+        if (user) drafts.push({ userId: user.id, kind: 'mention', topicId: topic.id, postId: event.post.id, summary: `mentioned you in ${quoted(topic.title)}` });
+    }
+    return drafts;
+};
+
+// Authors of posts the post quotes; after an edit, only of newly quoted posts
+const quoteHandler: Handler = async (event) => {
+    if (event.type !== 'post.created' && event.type !== 'post.edited') return [];
+    const previous = new Set(event.type === 'post.edited' ? extractQuotedPostIds(event.previousContent) : []);
+    const added = (event.post.quotedPostIds ?? []).filter(id => !previous.has(id));
+    const topic = added.length > 0 ? await topicOf(event.post) : null;
+    if (!topic) return [];
+
+    const drafts: Draft[] = [];
+    for (const id of added) {
+        const quotedPost = await getRepository().posts.findById(id);
+        if (quotedPost) drafts.push({ userId: quotedPost.authorId, kind: 'quote', topicId: topic.id, postId: event.post.id, summary: `quoted your post in ${quoted(topic.title)}` });
+    }
+    return drafts;
+};
+
+// Replies go to the topic's watchers (see src/lib/watching.ts); a new topic goes to the watchers of its category
+const watchHandler: Handler = async (event) => {
+    if (event.type !== 'post.created') return [];
+    const topic = await topicOf(event.post);
+    if (!topic) return [];
+    const isOpeningPost = (await getRepository().posts.countBefore(event.post)) === 0;
+    const watchers = isOpeningPost ? await getCategoryWatchers(topic.categoryId) : await getTopicWatchers(topic);
+
+    const drafts: Draft[] = [];
+    watchers.forEach((level, userId) => {
+        if (level === 'off') return;
+        drafts.push(isOpeningPost
+            ? { userId, kind: 'topic', topicId: topic.id, postId: event.post.id, summary: `started a new topic ${quoted(topic.title)}`, email: level === 'email' }
+            : { userId, kind: 'reply', topicId: topic.id, postId: event.post.id, summary: `replied to ${quoted(topic.title)}`, email: level === 'email' });
+    });
+    return drafts;
+};
+
+// The author of a post someone reacted to; taking a reaction back tells nobody
+const reactionHandler: Handler = async (event) => {
+    if (event.type !== 'post.reacted') return [];
+    const topic = await topicOf(event.post);
+    return topic ? [{ userId: event.post.authorId, kind: 'reaction', topicId: topic.id, postId: event.post.id, summary: `reacted ${event.emoji} to your post in ${quoted(topic.title)}` }] : [];
+};
+
+const MODERATION_VERBS: Record<'pin' | 'unpin' | 'lock' | 'unlock' | 'announce' | 'unannounce', string> = {
+    pin: 'pinned',
+    unpin: 'unpinned',
+    lock: 'locked',
+    unlock: 'unlocked',
+    announce: 'announced',
+    unannounce: 'removed the announcement from',
+};
+
+// Moderators acting on someone's content tell its author
+const moderationHandler: Handler = async (event) => {
+    if (event.type === 'post.deleted') {
+        const topic = await topicOf(event.post);
+        // The post is gone, so the notification points at its topic
+        return topic ? [{ userId: event.post.authorId, kind: 'moderation', topicId: topic.id, summary: `deleted your post in ${quoted(topic.title)}` }] : [];
+    }
+    if (event.type !== 'topic.moderated') return [];
+
+    const { topic, action } = event;
+    const title = quoted(topic.title);
+    switch (action.kind) {
+        case 'move':
+            return [{ userId: topic.authorId, kind: 'moderation', topicId: topic.id, summary: `moved your topic ${title} to ${quoted(action.categoryName)}` }];
+        case 'merge':
+            return [{ userId: topic.authorId, kind: 'moderation', topicId: action.into.id, summary: `merged your topic ${title} into ${quoted(action.into.title)}` }];
+        case 'split':
+            return action.authorIds.map(userId => ({ userId, kind: 'moderation', topicId: action.into.id, summary: `moved your posts from ${title} to ${quoted(action.into.title)}` }));
+        default:
+            return [{ userId: topic.authorId, kind: 'moderation', topicId: topic.id, summary: `${MODERATION_VERBS[action.kind]} your topic ${title}` }];
+    }
+};
+
+// Earlier handlers win: someone mentioned in a reply to their own topic gets the mention, not both
+const HANDLERS: Handler[] = [mentionHandler, quoteHandler, watchHandler, reactionHandler, moderationHandler];
+
+const actorOf = (event: NotificationEvent) =>
+    event.type === 'post.created' || event.type === 'post.edited' ? event.post.authorId : event.actorId;
+
+// Where a notification leads; deleted posts can't be opened, so those lead to the topic
+export const notificationPath = (notification: Pick<Notification, 'topicId' | 'postId'>) =>
+    notification.postId ? `/posts/${notification.postId}` : `/topics/${notification.topicId}`;
+
+// Instant email for watchers who asked for it, true once it's sent. A failed email doesn't stop the other recipients' notifications.
+const emailNotification = async (user: User, actorId: string, draft: Draft): Promise<boolean> => {
+    try {
+        const baseUrl = await getBaseUrl();
+        const actorName = (await getRepository().users.findById(actorId))?.username ?? 'Someone';
+        const url = `${baseUrl}${notificationPath(draft)}`;
+        await sendMail(notificationEmail(user.email, user.username, { actorName, summary: draft.summary, url }, `${baseUrl}/account/preferences`));
+        return true;
+    } catch (error) {
+        console.error(`[Notifications] Failed to email User ${user.id}:`, error);
+        return false;
+    }
+};
+
+/**
+ * Sends the notifications an event calls for: at most one per recipient, never to whoever caused it,
+ * and only to users who can see the category it happened in. Recipients who asked for instant emails
+ * (and have a verified address) are also emailed. Failures are logged, not thrown, so a notification
+ * problem never fails the action that triggered it.
+ */
+export async function dispatchNotification(event: NotificationEvent): Promise<void> {
+    try {
+        const repo = getRepository();
+        const actorId = actorOf(event);
+        const drafts = (await Promise.all(HANDLERS.map(handler => handler(event)))).flat();
+        // Whichever draft is kept, the email goes out if any draft for the recipient asked for it
+        const wantsEmail = new Set(drafts.filter(draft => draft.email).map(draft => draft.userId));
+        const notified = new Set<string>([actorId]);
+        for (const { email, ...draft } of drafts) {
+            if (notified.has(draft.userId)) continue;
+            notified.add(draft.userId);
+
+            const [user, topic] = await Promise.all([repo.users.findById(draft.userId), repo.topics.findById(draft.topicId)]);
+            const category = topic ? await repo.categories.findById(topic.categoryId) : null;
+            if (!user || !category || !canInCategory(user, category, 'view')) continue;
+
+            const emailed = wantsEmail.has(user.id) && !!user.emailVerifiedAt && await emailNotification(user, actorId, draft);
+            await repo.notifications.insert({
+                ...draft,
+                id: `notif${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+                actorId,
+                createdAt: new Date(),
+                emailedAt: emailed ? new Date() : undefined,
+            });
+            console.log(`[Notifications] ${draft.kind} for User ${draft.userId}: ${draft.summary}`);
+        }
+    } catch (error) {
+        console.error(`[Notifications] Failed to dispatch ${event.type}:`, error);
+    }
+}
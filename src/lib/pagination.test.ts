@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { pageCount, pageHref, pageOfIndex, parsePageParam } from './pagination';
+
+describe('pagination', () => {
+    it('always has at least one page', () => {
+        expect(pageCount(0, 20)).toBe(1);
+        expect(pageCount(20, 20)).toBe(1);
+        expect(pageCount(21, 20)).toBe(2);
+    });
+
+    it('finds the page holding an item', () => {
+        expect(pageOfIndex(0, 20)).toBe(1);
+        expect(pageOfIndex(19, 20)).toBe(1);
+        expect(pageOfIndex(20, 20)).toBe(2);
+    });
+
+    it('falls back to the first page for anything but a positive integer', () => {
+        expect(parsePageParam('3')).toBe(3);
+        expect(parsePageParam(['2', '5'])).toBe(2);
+        for (const value of [undefined, '', '0', '-1', '1.5', 'abc']) expect(parsePageParam(value)).toBe(1);
+    });
+
+    it('keeps the first page at the bare path', () => {
+        expect(pageHref('/topics/t1', 1)).toBe('/topics/t1');
+        expect(pageHref('/topics/t1', 2)).toBe('/topics/t1?page=2');
+        expect(pageHref('/search?q=hello', 3)).toBe('/search?q=hello&page=3');
+    });
+});
@@ -0,0 +1,18 @@
+// Page arithmetic shared by the data layer, pages and client components.
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 30, 50, 100];
+
+export const pageCount = (totalItems: number, pageSize: number) => Math.max(1, Math.ceil(totalItems / pageSize));
+
+// 1-based page holding the item at a 0-based position
+export const pageOfIndex = (index: number, pageSize: number) => Math.floor(index / pageSize) + 1;
+
+// `?page=` from the URL; anything that isn't a positive integer means the first page
+export function parsePageParam(value: string | string[] | undefined): number {
+    const page = Number(Array.isArray(value) ? value[0] : value);
+    return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+// Links keep the first page at the bare path so it has a single URL. `basePath` may carry a query string.
+export const pageHref = (basePath: string, page: number) =>
+    (page > 1 ? `${basePath}${basePath.includes('?') ? '&' : '?'}page=${page}` : basePath);
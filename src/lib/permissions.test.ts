@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Category, Role, User } from './types';
+import { can, canInCategory, normalizeGroupNames } from './permissions';
+
+const user = (role: Role, overrides: Partial<User> = {}): User =>
+    ({ id: role, username: role, email: `${role}@example.com`, role, createdAt: new Date(), ...overrides });
+const member = user('member');
+const moderator = user('moderator');
+const admin = user('admin');
+
+describe('can', () => {
+    it('grants permissions by role, treating signed-out visitors as guests', () => {
+        expect(can(null, 'post.create')).toBe(false);
+        expect(can(member, 'post.create')).toBe(true);
+        expect(can(member, 'topic.pin')).toBe(false);
+        expect(can(moderator, 'topic.pin')).toBe(true);
+        expect(can(moderator, 'settings.manage')).toBe(false);
+        expect(can(admin, 'settings.manage')).toBe(true);
+    });
+
+    it('lets authors edit and delete their own posts, moderators anyone\'s', () => {
+        const ownPost = { authorId: member.id };
+        const otherPost = { authorId: 'someone-else' };
+        expect(can(member, 'post.edit', ownPost)).toBe(true);
+        expect(can(member, 'post.delete', otherPost)).toBe(false);
+        expect(can(moderator, 'post.delete', otherPost)).toBe(true);
+        expect(can(null, 'post.edit', { authorId: 'guest' })).toBe(false);
+    });
+});
+
+describe('canInCategory', () => {
+    const open: Category = { id: 'open', name: 'Open', createdAt: new Date() };
+    const staffOnly: Category = { ...open, id: 'staff', access: { view: { roles: ['moderator'], groups: ['staff'] } } };
+    const readOnly: Category = { ...open, id: 'announcements', access: { reply: { roles: [], groups: [] } } };
+
+    it('follows the site-wide permission when there is no rule', () => {
+        expect(canInCategory(null, open, 'view')).toBe(true);
+        expect(canInCategory(null, open, 'reply')).toBe(false);
+        expect(canInCategory(member, open, 'topic')).toBe(true);
+    });
+
+    it('restricts private categories to the listed roles and groups', () => {
+        expect(canInCategory(member, staffOnly, 'view')).toBe(false);
+        expect(canInCategory(member, staffOnly, 'reply')).toBe(false);
+        expect(canInCategory(user('member', { groups: ['staff'] }), staffOnly, 'reply')).toBe(true);
+        expect(canInCategory(moderator, staffOnly, 'view')).toBe(true);
+    });
+
+    it('never locks admins out, except of archived categories', () => {
+        expect(canInCategory(admin, staffOnly, 'view')).toBe(true);
+        expect(canInCategory(admin, readOnly, 'reply')).toBe(true);
+        expect(canInCategory(member, readOnly, 'reply')).toBe(false);
+
+        const archived = { ...open, archivedAt: new Date() };
+        expect(canInCategory(member, archived, 'view')).toBe(true);
+        expect(canInCategory(admin, archived, 'reply')).toBe(false);
+        expect(canInCategory(admin, archived, 'topic')).toBe(false);
+    });
+});
+
+describe('normalizeGroupNames', () => {
+    it('trims, lower-cases and dedupes', () => {
+        expect(normalizeGroupNames([' Staff', 'staff', '', 'Beta '])).toEqual(['staff', 'beta']);
+    });
+});
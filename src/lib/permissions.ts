@@ -0,0 +1,103 @@
+import type { Category, CategoryAction, CategoryAccessRule, Role, User } from './types';
+
+// Shared by server actions, the data layer and client components, so it must stay free of server-only imports.
+
+export const ROLES: Role[] = ['admin', 'moderator', 'member', 'guest'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+    admin: 'Admin',
+    moderator: 'Moderator',
+    member: 'Member',
+    guest: 'Guest',
+};
+
+export type Permission =
+    | 'topic.create'
+    | 'post.create'      // Reply to topics
+    | 'post.react'       // Toggle emoji reactions on posts
+    | 'post.edit.own'
+    | 'post.edit.any'
+    | 'post.delete.own'
+    | 'post.delete.any'
+    | 'topic.lock'
+    | 'topic.pin'
+    | 'topic.move'
+    | 'category.manage'
+    | 'user.manage'
+    | 'settings.manage'
+    | 'admin.access';    // Reach the /admin panel
+
+const MEMBER_PERMISSIONS: Permission[] = ['topic.create', 'post.create', 'post.react', 'post.edit.own', 'post.delete.own'];
+const MODERATOR_PERMISSIONS: Permission[] = [...MEMBER_PERMISSIONS, 'post.edit.any', 'post.delete.any', 'topic.lock', 'topic.pin', 'topic.move'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    admin: [...MODERATOR_PERMISSIONS, 'category.manage', 'user.manage', 'settings.manage', 'admin.access'],
+    moderator: MODERATOR_PERMISSIONS,
+    member: MEMBER_PERMISSIONS,
+    guest: [], // Read-only; also what signed-out visitors get
+};
+
+// Checks on a specific resource: granted by `<action>.any`, or by `<action>.own` when the user is its author.
+export type OwnedAction = 'post.edit' | 'post.delete';
+
+interface OwnedResource {
+    authorId: string;
+}
+
+export const getRole = (user: User | null | undefined): Role => user?.role ?? 'guest';
+
+/**
+ * The single authorization check. Signed-out visitors are treated as guests.
+ *   can(user, 'category.manage')
+ *   can(user, 'post.edit', post)   // post.edit.any, or post.edit.own for the author
+ */
+export function can(user: User | null | undefined, permission: Permission): boolean;
+export function can(user: User | null | undefined, action: OwnedAction, resource: OwnedResource): boolean;
+export function can(user: User | null | undefined, permission: Permission | OwnedAction, resource?: OwnedResource): boolean {
+    const granted = ROLE_PERMISSIONS[getRole(user)];
+    if (permission === 'post.edit' || permission === 'post.delete') {
+        if (granted.includes(`${permission}.any`)) return true;
+        return !!user && !!resource && resource.authorId === user.id && granted.includes(`${permission}.own`);
+    }
+    return granted.includes(permission);
+}
+
+// --- Category access ---
+
+export const CATEGORY_ACTIONS: CategoryAction[] = ['view', 'topic', 'reply'];
+
+export const CATEGORY_ACTION_LABELS: Record<CategoryAction, string> = {
+    view: 'View',
+    topic: 'Start topics',
+    reply: 'Reply',
+};
+
+// The site-wide permission each category action also needs ("view" only needs the category rule)
+const CATEGORY_ACTION_PERMISSIONS: Record<CategoryAction, Permission | null> = {
+    view: null,
+    topic: 'topic.create',
+    reply: 'post.create',
+};
+
+const matchesRule = (user: User | null | undefined, rule: CategoryAccessRule) =>
+    rule.roles.includes(getRole(user)) || (user?.groups ?? []).some(group => rule.groups.includes(group));
+
+/**
+ * Whether the user may see, start topics in, or reply in a category. Starting topics and
+ * replying also require seeing the category and the matching site-wide permission.
+ * Category managers (admins) are never locked out of a category, but archived categories
+ * are read-only for everyone.
+ */
+export function canInCategory(user: User | null | undefined, category: Pick<Category, 'access' | 'archivedAt'>, action: CategoryAction): boolean {
+    if (action !== 'view' && category.archivedAt) return false;
+    if (can(user, 'category.manage')) return true;
+    if (action !== 'view' && !canInCategory(user, category, 'view')) return false;
+    const permission = CATEGORY_ACTION_PERMISSIONS[action];
+    if (permission && !can(user, permission)) return false;
+    const rule = category.access?.[action];
+    return !rule || matchesRule(user, rule);
+}
+
+// Group names are compared as typed by admins, so store them trimmed, lower case and unique.
+export const normalizeGroupNames = (groups: string[]) =>
+    [...new Set(groups.map(group => group.trim().toLowerCase()).filter(Boolean))];
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { extractQuotedPostIds, formatQuote, getQuotedPostId } from './quotes';
+
+describe('quotes', () => {
+    it('formats a quote with an attribution linking to the post', () => {
+        expect(formatQuote({ postId: 'p1', authorName: 'alice', text: 'first line\n\nsecond line\n' }))
+            .toBe('> [alice wrote:](/posts/p1)\n>\n> first line\n>\n> second line\n');
+    });
+
+    it('escapes brackets in author names', () => {
+        const quote = formatQuote({ postId: 'p1', authorName: '[mod] bob', text: 'hi' });
+        expect(quote).toContain('[\\[mod\\] bob wrote:](/posts/p1)');
+        expect(extractQuotedPostIds(quote)).toEqual(['p1']);
+    });
+
+    it('recognises attribution links only', () => {
+        expect(getQuotedPostId('/posts/p1', 'alice wrote:')).toBe('p1');
+        expect(getQuotedPostId('/posts/p1', 'see this post')).toBeNull();
+        expect(getQuotedPostId('https://example.com/posts/p1', 'alice wrote:')).toBeNull();
+        expect(getQuotedPostId(undefined, 'alice wrote:')).toBeNull();
+    });
+
+    it('extracts top-level quotes once each, outside code', () => {
+        const content = [
+            formatQuote({ postId: 'p1', authorName: 'alice', text: 'one' }),
+            '> > [bob wrote:](/posts/p0)', // A quote of a quote belongs to p1
+            formatQuote({ postId: 'p2', authorName: 'bob', text: 'two' }),
+            formatQuote({ postId: 'p1', authorName: 'alice', text: 'again' }),
+            '```',
+            '> [carol wrote:](/posts/p3)',
+            '```',
+        ].join('\n');
+        expect(extractQuotedPostIds(content)).toEqual(['p1', 'p2']);
+    });
+});
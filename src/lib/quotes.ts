@@ -0,0 +1,41 @@
+// Reply quoting. A quote is an ordinary markdown blockquote whose first line links to the source post:
+//
+//   > [alice wrote:](/posts/post123)
+//   >
+//   > the quoted text
+//
+// so it renders sensibly anywhere markdown does. Shared with client components, so it must stay free of server-only imports.
+
+// Dispatched on `window` by the Quote action; the reply form appends `detail` (the quote markdown)
+export const QUOTE_EVENT = 'forumlite:quote';
+
+const ATTRIBUTION_SUFFIX = ' wrote:';
+const POST_PATH = /^\/posts\/([\w-]+)$/;
+// Only top-level quote lines count: a quote of a quote is attributed to the post it came from
+const ATTRIBUTION_LINE = /^>[ \t]?\[((?:[^\]\\]|\\.)*)\]\(\/posts\/([\w-]+)\)[ \t]*$/;
+
+const escapeLinkText = (text: string) => text.replace(/[\\[\]]/g, match => `\\${match}`);
+
+export function formatQuote({ postId, authorName, text }: { postId: string; authorName: string; text: string }): string {
+    const body = text.trim().split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    return `> [${escapeLinkText(authorName)}${ATTRIBUTION_SUFFIX}](/posts/${postId})\n>\n${body}\n`;
+}
+
+// The source post of a quote attribution link, or null for any other link
+export function getQuotedPostId(href: string | undefined, linkText: string): string | null {
+    if (!href || !linkText.endsWith(ATTRIBUTION_SUFFIX.trim())) return null;
+    return POST_PATH.exec(href)?.[1] ?? null;
+}
+
+// Ids of the posts quoted in `content`, in order of first appearance. Quotes inside fenced code don't count.
+export function extractQuotedPostIds(content: string): string[] {
+    const ids = new Set<string>();
+    let inFence = false;
+    for (const line of content.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        if (inFence) continue;
+        const match = ATTRIBUTION_LINE.exec(line);
+        if (match && match[1].endsWith(ATTRIBUTION_SUFFIX.trim())) ids.add(match[2]);
+    }
+    return [...ids];
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { isEmoji, toUnified } from './reactions';
+
+describe('reactions', () => {
+    it('accepts single emoji, including modifiers, sequences and flags', () => {
+        for (const emoji of ['👍', '❤️', '👍🏽', '🧑‍💻', '🇳🇱']) expect(isEmoji(emoji)).toBe(true);
+    });
+
+    it('refuses text and several emoji', () => {
+        for (const value of ['', 'ok', ':+1:', '👍👍', '👍 ', '1']) expect(isEmoji(value)).toBe(false);
+    });
+
+    it('converts to the code emoji-picker-react uses', () => {
+        expect(toUnified('❤️')).toBe('2764-fe0f');
+        expect(toUnified('👍🏽')).toBe('1f44d-1f3fd');
+    });
+});
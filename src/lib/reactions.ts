@@ -0,0 +1,13 @@
+// Post reactions. The allowed set lives in the site settings (see src/lib/settings.ts).
+// Shared with client components, so it must stay free of server-only imports.
+
+export const MAX_REACTIONS = 12;
+
+// A single emoji, possibly with a skin tone, variation selector or ZWJ sequence (e.g. ❤️, 👍🏽, 🧑‍💻), or a flag
+const EMOJI = /^(?:\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\uFE0F|\u200D\p{Extended_Pictographic})*|\p{Regional_Indicator}{2})$/u;
+
+export const isEmoji = (value: string) => EMOJI.test(value);
+
+// The code emoji-picker-react identifies an emoji by, e.g. "2764-fe0f" for ❤️
+export const toUnified = (emoji: string) =>
+    Array.from(emoji, char => char.codePointAt(0)!.toString(16)).join('-');
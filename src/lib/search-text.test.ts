@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { highlight, matchesTerm, searchTerms, snippet, toPlainText, tokenize } from './search-text';
+
+describe('search text', () => {
+    it('compares words without case or accents', () => {
+        expect(tokenize('Crème Brûlée, 2 ways!')).toEqual(['creme', 'brulee', '2', 'ways']);
+        expect(matchesTerm('Café', ['caf'])).toBe(true);
+        expect(matchesTerm('decaf', ['caf'])).toBe(false);
+    });
+
+    it('keeps distinct query terms, at most ten', () => {
+        expect(searchTerms('linux Linux LÍNUX wifi')).toEqual(['linux', 'wifi']);
+        expect(searchTerms('a b c d e f g h i j k l')).toHaveLength(10);
+        expect(searchTerms('  ?! ')).toEqual([]);
+    });
+
+    it('strips markdown, link targets and quote attributions', () => {
+        const markdown = '> [alice wrote:](/posts/p1)\n>\n> **Bold** claim\n\n# Title\n- see [the docs](https://example.com) and ![diagram](x.png)';
+        expect(toPlainText(markdown)).toBe('Bold claim Title see the docs and diagram');
+    });
+
+    it('marks matching words', () => {
+        expect(highlight('Linux networking on linux', ['linux'])).toEqual([
+            { text: 'Linux', match: true },
+            { text: ' networking on ', match: false },
+            { text: 'linux', match: true },
+        ]);
+    });
+
+    it('cuts long posts around the first match, on word boundaries', () => {
+        const markdown = `${'lorem '.repeat(100)}needle ${'ipsum '.repeat(100)}`;
+        const text = snippet(markdown, ['needle'], 60).map(segment => segment.text).join('');
+        expect(text.startsWith('…lorem')).toBe(true);
+        expect(text.endsWith('ipsum…')).toBe(true);
+        expect(text).toContain('needle');
+        expect(text.length).toBeLessThanOrEqual(62);
+    });
+});
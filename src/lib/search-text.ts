@@ -0,0 +1,63 @@
+// Text handling for full-text search, shared by the memory index, the data layer and the search page.
+// Words are compared without case or accents, like SQLite's `unicode61 remove_diacritics 2` tokenizer.
+// Shared with client components, so it must stay free of server-only imports.
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const MAX_TERMS = 10;
+
+export const normalizeWord = (word: string) => word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Every word of `text`, normalized
+export const tokenize = (text: string): string[] => (text.match(WORD) ?? []).map(normalizeWord);
+
+// The words of a search query; a result has to contain all of them, each as a word or the start of one
+export const searchTerms = (query: string): string[] => [...new Set(tokenize(query))].slice(0, MAX_TERMS);
+
+export const matchesTerm = (word: string, terms: string[]) => {
+    const normalized = normalizeWord(word);
+    return terms.some(term => normalized.startsWith(term));
+};
+
+// Post markdown as readable text for snippets: no markup, images, link targets or quote attributions
+export function toPlainText(markdown: string): string {
+    return markdown
+        .replace(/^>[ \t]?\[(?:[^\]\\]|\\.)*\]\(\/posts\/[\w-]+\)[ \t]*$/gm, '') // Quote attribution lines
+        .replace(/^\s*(```|~~~).*$/gm, '')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/^\s{0,3}(?:>[ \t]?)+|^\s{0,3}#{1,6}\s+|^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+        .replace(/[*_~`]+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export type HighlightSegment = { text: string; match: boolean };
+
+// Splits `text` so the words matching a term can be marked
+export function highlight(text: string, terms: string[]): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    let last = 0;
+    for (const { 0: word, index } of text.matchAll(WORD)) {
+        if (!matchesTerm(word, terms)) continue;
+        if (index > last) segments.push({ text: text.slice(last, index), match: false });
+        segments.push({ text: word, match: true });
+        last = index + word.length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last), match: false });
+    return segments;
+}
+
+// About `length` characters of the post around its first match, highlighted
+export function snippet(markdown: string, terms: string[], length = 200): HighlightSegment[] {
+    const text = toPlainText(markdown);
+    if (text.length <= length) return highlight(text, terms);
+
+    const firstMatch = [...text.matchAll(WORD)].find(({ 0: word }) => matchesTerm(word, terms))?.index ?? 0;
+    let start = Math.max(0, firstMatch - Math.floor(length / 4));
+    let end = Math.min(text.length, start + length);
+    start = Math.max(0, end - length);
+    // Don't cut words in half
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+    return highlight(`${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`, terms);
+}
@@ -0,0 +1,49 @@
+import type { PostRecord } from './db/repository';
+import { getRepository } from './db';
+
+// --- Search index maintenance ---
+// The data layer keeps the index in step as posts are written, edited, deleted or moved between topics.
+// `npm run db:reindex` rebuilds it from scratch. Searching itself is searchPosts() in src/lib/data.ts.
+
+// Opening posts carry their topic's title, so a title match turns up once per topic
+const saveDocument = (post: Pick<PostRecord, 'id' | 'content'>, title?: string) =>
+    getRepository().search.save({ id: post.id, title, content: post.content });
+
+export async function indexPost(post: PostRecord): Promise<void> {
+    const repo = getRepository();
+    const isOpeningPost = (await repo.posts.countBefore(post)) === 0;
+    const topic = isOpeningPost ? await repo.topics.findById(post.topicId) : null;
+    await saveDocument(post, topic?.title);
+}
+
+// After a post is deleted. If it opened its topic, the post now first in line takes over the title.
+export async function unindexPost(post: Pick<PostRecord, 'id' | 'topicId'>): Promise<void> {
+    const repo = getRepository();
+    await repo.search.delete(post.id);
+    const [first] = await repo.posts.listByTopic(post.topicId, { limit: 1, offset: 0 });
+    if (first) await indexPost(first);
+}
+
+// Every post of the topic, e.g. after a merge or split changed which post opens it
+export async function reindexTopic(topicId: string): Promise<number> {
+    const repo = getRepository();
+    const [topic, posts] = await Promise.all([repo.topics.findById(topicId), repo.posts.listByTopic(topicId)]);
+    for (const [index, post] of posts.entries()) {
+        await saveDocument(post, index === 0 ? topic?.title : undefined);
+    }
+    return posts.length;
+}
+
+// Returns the number of indexed posts
+export async function rebuildSearchIndex(): Promise<number> {
+    const repo = getRepository();
+    await repo.search.clear();
+    let indexed = 0;
+    for (const category of await repo.categories.list()) {
+        for (const topic of await repo.topics.listByCategory(category.id)) {
+            indexed += await reindexTopic(topic.id);
+        }
+    }
+    console.log(`[Search] Rebuilt the index: ${indexed} posts`);
+    return indexed;
+}
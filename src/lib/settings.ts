@@ -0,0 +1,33 @@
+import type { SiteSettings, User } from './types';
+import { getRepository } from './db';
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+    requireAdminTwoFactor: false,
+    topicsPerPage: 20,
+    postsPerPage: 20,
+    reactions: ['👍', '❤️', '😂', '🎉', '😮', '😢'],
+};
+
+// Stored values override the defaults; keys that were never saved keep their default.
+export const getSiteSettings = async (): Promise<SiteSettings> => {
+    const stored = await getRepository().settings.list();
+    const settings: Record<string, unknown> = { ...DEFAULT_SITE_SETTINGS };
+    for (const { id, value } of stored) {
+        if (id in DEFAULT_SITE_SETTINGS && value !== undefined) settings[id] = value;
+    }
+    return settings as SiteSettings;
+};
+
+export const updateSiteSettings = async (changes: Partial<SiteSettings>): Promise<SiteSettings> => {
+    const repo = getRepository();
+    for (const [id, value] of Object.entries(changes)) {
+        if (!(id in DEFAULT_SITE_SETTINGS) || value === undefined) continue;
+        await repo.settings.save({ id, value });
+        console.log(`[Settings] ${id} = ${JSON.stringify(value)}`);
+    }
+    return getSiteSettings();
+};
+
+// The user's own preference wins over the forum default.
+export const getPostsPerPage = async (user: User | null): Promise<number> =>
+    user?.postsPerPage ?? (await getSiteSettings()).postsPerPage;
@@ -1,21 +1,57 @@
+export type Role = 'admin' | 'moderator' | 'member' | 'guest'; // Permissions per role live in src/lib/permissions.ts
+
 export type User = {
   id: string;
   username: string;
   email: string;
-  password?: string; // Add optional password for placeholder data
-  isAdmin?: boolean; // Flag for admin users
+  password?: string; // scrypt hash (legacy rows may still hold plain text until the next login); never sent to the client
+  role: Role;
+  groups?: string[]; // User group names (lower case), matched by category access rules
+  emailVerifiedAt?: Date; // Unset until the user follows the verification link (or an admin verifies them)
+  totpEnabledAt?: Date; // Set once TOTP two-factor authentication has been confirmed
+  totpSecret?: string; // Base32 TOTP secret (pending until totpEnabledAt is set); never sent to the client
+  totpLastStep?: number; // Time step of the last accepted code, so a code can't be replayed
+  recoveryCodes?: string[]; // SHA-256 hashes of the unused one-time recovery codes; never sent to the client
+  postsPerPage?: number; // Preference; unset means the forum default from site settings
+  digestFrequency?: DigestFrequency; // Preference; unset means no digest emails
+  digestSentAt?: Date; // When the digest job last ran for this user
   createdAt: Date;
 };
 
+// What a category access rule controls: seeing it at all, starting topics, replying
+export type CategoryAction = 'view' | 'topic' | 'reply';
+
+// Grants an action to every listed role plus members of any listed group
+export type CategoryAccessRule = {
+  roles: Role[];
+  groups: string[];
+};
+
+// Actions without a rule are open to anyone whose role allows them site-wide
+export type CategoryAccess = Partial<Record<CategoryAction, CategoryAccessRule>>;
+
 export type Category = {
   id: string;
   name: string;
   description?: string;
+  parentId?: string; // Unset for top-level categories
+  position?: number; // Order among sibling categories, lowest first
+  icon?: string; // Key of CATEGORY_ICONS (a lucide icon); unset shows the default folder
+  color?: string; // Accent color as #rrggbb
+  archivedAt?: Date; // Archived categories are read-only: no new topics or replies
+  access?: CategoryAccess; // Per-category restrictions; unset means a public category
   createdAt: Date;
   topicCount?: number; // Optional: denormalized count
   postCount?: number;  // Optional: denormalized count
 };
 
+// A category with its subcategories, as listed to a user. Totals include every subcategory below it.
+export type CategoryNode = Category & {
+  children: CategoryNode[];
+  totalTopicCount: number;
+  totalPostCount: number;
+};
+
 export type Topic = {
   id: string;
   title: string;
@@ -24,6 +60,10 @@ export type Topic = {
   createdAt: Date;
   lastActivity: Date;
   postCount?: number; // Optional: denormalized count
+  pinnedAt?: Date; // Pinned topics are listed first in their category
+  lockedAt?: Date; // Locked topics accept no new replies (except from moderators)
+  announcedAt?: Date; // Forum-wide announcement: shown on every category page
+  unreadCount?: number; // Optional: posts the viewing user hasn't seen yet
   author?: User; // Optional: include author details
   category?: Category; // Optional: include category details
 };
@@ -36,7 +76,163 @@ export type Post = {
   createdAt: Date;
   updatedAt?: Date;
   imageUrl?: string; // For uploaded images as data URIs
+  quotedPostIds?: string[]; // Posts quoted in `content`, kept in sync on every save
   author?: User; // Optional: include author details
   topic?: Topic;   // Optional: include topic details
+  replies?: PostReply[]; // Optional: visible posts quoting this one, oldest first
+  reactions?: ReactionSummary[]; // Optional: reactions grouped by emoji, in the order they were first used
+};
+
+// A post that quotes another, as listed under the quoted post
+export type PostReply = {
+  id: string;
+  createdAt: Date;
+  author?: User;
+};
+
+
+// One user's reaction to a post; a user can react to a post with several different emoji
+export type Reaction = {
+  id: string; // `${postId}:${userId}:${emoji}`, so the same reaction can't be added twice
+  postId: string;
+  userId: string;
+  emoji: string;
+  createdAt: Date;
+};
+
+// The reactions to a post with one emoji, as shown under the post
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  usernames: string[]; // Who reacted, oldest first
+  reacted: boolean; // The viewing user is one of them
+};
+
+// One page of a paginated listing. Pages are numbered from 1.
+export type Page<T> = {
+  items: T[];
+  page: number; // Clamped to the available pages, so it can differ from the one requested
+  pageSize: number;
+  totalItems: number;
+  totalPages: number; // At least 1, even for an empty listing
+};
+
+export type Session = {
+  id: string;
+  userId: string;
+  tokenHash: string; // SHA-256 of the opaque cookie token; the raw token is never stored
+  createdAt: Date;
+  expiresAt: Date;
+  lastSeenAt: Date;
+  ip?: string;
+  userAgent?: string;
+};
+
+// Session details that are safe to show in the UI (no token hash)
+export type SessionInfo = Omit<Session, 'tokenHash'> & {
+  device: string; // Human-readable summary of the user agent, e.g. "Chrome on macOS"
+  isCurrent?: boolean; // True for the session making the request
 };
 
+export type LoginThrottleScope = 'ip' | 'account';
+
+// Failed-login bookkeeping for one client IP or one account (keyed by email, whether or not it exists)
+export type LoginThrottle = {
+  id: string; // `${scope}:${subject}`
+  scope: LoginThrottleScope;
+  subject: string; // IP address or lower-cased email
+  failures: number; // Consecutive failures since the last success or reset
+  lastFailureAt: Date;
+  blockedUntil?: Date; // No attempts accepted before this (backoff delay or lockout)
+  lockedAt?: Date; // Set when the failures crossed the lockout threshold
+};
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification' | 'login_challenge';
+
+// Single-use, expiring tokens sent by email (password reset, ...). Only the hash is stored.
+export type AuthToken = {
+  id: string;
+  userId: string;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+};
+
+// Site-wide settings editable in /admin/settings. Stored as one row per key.
+export type SiteSettings = {
+  requireAdminTwoFactor: boolean; // Admins must have 2FA enabled before they can use /admin
+  topicsPerPage: number; // Topics per page on category pages
+  postsPerPage: number; // Default posts per page in topics; users can override it in their preferences
+  reactions: string[]; // Emoji users can react to posts with, in display order
+};
+
+export type AuditAction =
+  | 'category.archive'
+  | 'category.restore'
+  | 'category.move_and_delete' // Topics moved to another category, then the category deleted
+  | 'category.delete';         // Category deleted together with its topics and posts
+
+// One administrative change, kept for accountability. Entries are never edited or deleted.
+export type AuditEntry = {
+  id: string;
+  actorId: string; // May point to a deleted user
+  action: AuditAction;
+  targetId: string; // The affected record (the category for category.* actions)
+  summary: string; // Human-readable, written at the time (names may change later)
+  details?: Record<string, unknown>;
+  createdAt: Date;
+  actor?: User; // Optional: include actor details
+};
+
+export type NotificationKind =
+  | 'topic'       // New topic in a category the recipient watches
+  | 'reply'       // New post in a topic the recipient watches
+  | 'mention'     // @username in a post
+  | 'quote'       // A post quotes one of the recipient's posts
+  | 'reaction'    // Someone reacted to one of the recipient's posts
+  | 'moderation'; // A moderator pinned, locked, moved, merged, split or deleted the recipient's content
+
+// Something that happened to or around a user, shown to them in the app
+export type Notification = {
+  id: string;
+  userId: string; // The recipient
+  kind: NotificationKind;
+  actorId: string; // Who caused it; may point to a deleted user
+  topicId: string; // Where it happened; may point to a topic that was merged away
+  postId?: string; // The post to open; unset when there is none (e.g. it was deleted)
+  summary: string; // What the actor did, written at the time, e.g. 'replied to "Welcome"'
+  createdAt: Date;
+  readAt?: Date;
+  emailedAt?: Date; // Sent as an instant email, so digests leave it out
+  actor?: User; // Optional: include actor details
+};
+
+// How closely a user follows a topic or category
+export type WatchLevel =
+  | 'off'     // No notifications about new posts, even in topics the user takes part in
+  | 'in_app'  // Notifications in the app
+  | 'email';  // Notifications in the app and an email for each one
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+// One user's watch on a topic or a category. Without one, users watch the topics they started or posted in.
+export type Watch = {
+  id: string; // See watchId() in src/lib/watching.ts: one watch per user and target
+  userId: string;
+  topicId?: string; // Exactly one of topicId and categoryId is set
+  categoryId?: string; // Also covers the category's subcategories, unless they have a watch of their own
+  level: WatchLevel;
+  updatedAt: Date;
+};
+
+// How far a user has read. Posts created after the marker that applies to a topic count as unread.
+export type ReadMarker = {
+  id: string; // See readMarkerId() in src/lib/unread.ts: one marker per user and target
+  userId: string;
+  topicId?: string; // Exactly one of topicId and categoryId is set
+  categoryId?: string; // Set by "mark category read"; also covers the category's subcategories
+  postId?: string; // Topic markers: the last post the user has seen
+  readAt: Date; // Topic markers: that post's creation time; category markers: when it was marked read
+};
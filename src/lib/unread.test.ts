@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getRepository } from '@/lib/db';
+import type { Post, Topic, User } from '@/lib/types';
+import { getFirstUnreadPostId, getUnreadCategoryIds, markCategoryRead, markTopicRead, withUnreadCounts } from './unread';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 0, minutes));
+
+const alice: User = { id: 'alice', username: 'alice', email: 'alice@example.com', role: 'member', createdAt: at(0) };
+const topic = (id: string, categoryId: string, lastActivity: Date): Topic =>
+    ({ id, title: id, categoryId, authorId: 'bob', createdAt: at(0), lastActivity, postCount: 0 });
+const post = (id: string, topicId: string, createdAt: Date): Post =>
+    ({ id, content: `${id} content`, topicId, authorId: 'bob', createdAt });
+
+describe('unread tracking', () => {
+    let help: Topic;
+    let linux: Topic;
+
+    beforeEach(async () => {
+        const repo = getRepository();
+        await repo.users.insert(alice);
+        await repo.categories.insert({ id: 'help', name: 'Help', createdAt: at(0), topicCount: 1, postCount: 3 });
+        await repo.categories.insert({ id: 'linux', name: 'Linux', parentId: 'help', createdAt: at(0), topicCount: 1, postCount: 1 });
+        help = await repo.topics.insert(topic('t-help', 'help', at(3)));
+        linux = await repo.topics.insert(topic('t-linux', 'linux', at(4)));
+        for (const [id, minutes] of [['p1', 1], ['p2', 2], ['p3', 3]] as const) await repo.posts.insert(post(id, 't-help', at(minutes)));
+        await repo.posts.insert(post('p4', 't-linux', at(4)));
+    });
+
+    it('counts every post since signup as unread at first', async () => {
+        const topics = await withUnreadCounts(alice, [help, linux]);
+        expect(topics.map(t => t.unreadCount)).toEqual([3, 1]);
+        expect(await getFirstUnreadPostId(alice, help)).toBe('p1');
+        expect((await getUnreadCategoryIds(alice, ['help', 'linux'])).sort()).toEqual(['help', 'linux']);
+    });
+
+    it('leaves signed-out visitors without counts', async () => {
+        expect(await withUnreadCounts(null, [help])).toEqual([help]);
+    });
+
+    it('moves topic markers forward only', async () => {
+        await markTopicRead(alice.id, { id: 'p2', topicId: 't-help', createdAt: at(2) });
+        await markTopicRead(alice.id, { id: 'p1', topicId: 't-help', createdAt: at(1) });
+        expect((await withUnreadCounts(alice, [help]))[0].unreadCount).toBe(1);
+        expect(await getFirstUnreadPostId(alice, help)).toBe('p3');
+
+        await markTopicRead(alice.id, { id: 'p3', topicId: 't-help', createdAt: at(3) });
+        expect(await getFirstUnreadPostId(alice, help)).toBeNull();
+    });
+
+    it('marks a category and its subcategories read', async () => {
+        await markCategoryRead(alice.id, 'help');
+        expect((await withUnreadCounts(alice, [help, linux])).map(t => t.unreadCount)).toEqual([0, 0]);
+        expect(await getUnreadCategoryIds(alice, ['help', 'linux'])).toEqual([]);
+    });
+});
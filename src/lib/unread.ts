@@ -0,0 +1,89 @@
+import type { Topic, User } from './types';
+import { getRepository } from './db';
+import type { PostRecord, ReadMarkerRecord, TopicRecord } from './db/repository';
+import { getCategoryPath } from './categories';
+
+export type ReadTarget = { topicId: string } | { categoryId: string };
+
+// Saving a marker replaces the user's previous one on the same target
+export const readMarkerId = (userId: string, target: ReadTarget) =>
+    'topicId' in target ? `${userId}:topic:${target.topicId}` : `${userId}:category:${target.categoryId}`;
+
+type ReadThreshold = (topic: Pick<Topic, 'id' | 'categoryId'>) => Date;
+
+// Posts after the returned date are unread. The latest of: the user's signup (older posts were never
+// "new" to them), "mark category read" on the topic's category or an ancestor, and the last post they saw in it.
+async function getReadThreshold(user: Pick<User, 'id' | 'createdAt'>): Promise<ReadThreshold> {
+    const repo = getRepository();
+    const [markers, categories] = await Promise.all([repo.readMarkers.listByUser(user.id), repo.categories.list()]);
+    const readAt = new Map(markers.map(marker => [marker.id, marker.readAt.getTime()]));
+    return (topic) => {
+        const times = [
+            user.createdAt.getTime(),
+            readAt.get(readMarkerId(user.id, { topicId: topic.id })) ?? 0,
+            ...getCategoryPath(categories, topic.categoryId).map(category => readAt.get(readMarkerId(user.id, { categoryId: category.id })) ?? 0),
+        ];
+        return new Date(Math.max(...times));
+    };
+}
+
+// Unread post counts for the topics that have any. lastActivity narrows down the topics to count in.
+async function countUnread(topics: Pick<Topic, 'id' | 'categoryId' | 'lastActivity'>[], threshold: ReadThreshold): Promise<Map<string, number>> {
+    const posts = getRepository().posts;
+    const counts = new Map<string, number>();
+    for (const topic of topics) {
+        const since = threshold(topic);
+        if (new Date(topic.lastActivity).getTime() <= since.getTime()) continue;
+        const count = await posts.countSince(topic.id, since);
+        if (count > 0) counts.set(topic.id, count);
+    }
+    return counts;
+}
+
+// Fills in unreadCount for the user; signed-out visitors get the topics back unchanged
+export async function withUnreadCounts<T extends Pick<Topic, 'id' | 'categoryId' | 'lastActivity'>>(user: User | null, topics: T[]): Promise<T[]> {
+    if (!user) return topics;
+    const counts = await countUnread(topics, await getReadThreshold(user));
+    return topics.map(topic => ({ ...topic, unreadCount: counts.get(topic.id) ?? 0 }));
+}
+
+// Topics in these categories with posts the user hasn't seen, most recently active first
+export async function getUnreadTopics(user: User, categoryIds: string[]): Promise<(TopicRecord & { unreadCount: number })[]> {
+    const threshold = await getReadThreshold(user);
+    const candidates = await getRepository().topics.listActiveSince(categoryIds, user.createdAt);
+    const counts = await countUnread(candidates, threshold);
+    return candidates.filter(topic => counts.has(topic.id)).map(topic => ({ ...topic, unreadCount: counts.get(topic.id)! }));
+}
+
+// The categories (among these) that directly contain topics with unread posts
+export async function getUnreadCategoryIds(user: User, categoryIds: string[]): Promise<string[]> {
+    const topics = await getUnreadTopics(user, categoryIds);
+    return [...new Set(topics.map(topic => topic.categoryId))];
+}
+
+// The oldest post the user hasn't seen in the topic, or null when they are up to date
+export async function getFirstUnreadPostId(user: User, topic: Pick<Topic, 'id' | 'categoryId'>): Promise<string | null> {
+    const posts = getRepository().posts;
+    const since = (await getReadThreshold(user))(topic);
+    const [total, unread] = await Promise.all([posts.countByTopic(topic.id), posts.countSince(topic.id, since)]);
+    if (unread === 0) return null;
+    const [post] = await posts.listByTopic(topic.id, { limit: 1, offset: total - unread });
+    return post?.id ?? null;
+}
+
+// Records that the user has seen the topic up to `post`. Markers only move forward,
+// so revisiting an earlier page doesn't bring back posts the user has already read.
+export async function markTopicRead(userId: string, post: Pick<PostRecord, 'id' | 'topicId' | 'createdAt'>): Promise<void> {
+    const repo = getRepository();
+    const id = readMarkerId(userId, { topicId: post.topicId });
+    const current = await repo.readMarkers.findById(id);
+    if (current && current.readAt.getTime() >= post.createdAt.getTime()) return;
+    await repo.readMarkers.save({ id, userId, topicId: post.topicId, postId: post.id, readAt: post.createdAt });
+}
+
+// Everything posted so far in the category and its subcategories counts as read
+export async function markCategoryRead(userId: string, categoryId: string): Promise<ReadMarkerRecord> {
+    const marker = await getRepository().readMarkers.save({ id: readMarkerId(userId, { categoryId }), userId, categoryId, readAt: new Date() });
+    console.log(`[Unread] User ${userId} marked Category ${categoryId} read`);
+    return marker;
+}
@@ -0,0 +1,51 @@
+import type { Topic, WatchLevel } from './types';
+import { getRepository } from './db';
+import type { WatchRecord } from './db/repository';
+import { getCategoryPath } from './categories';
+
+export type WatchTarget = { topicId: string } | { categoryId: string };
+
+export const WATCH_LEVELS: WatchLevel[] = ['off', 'in_app', 'email'];
+
+// Saving a watch replaces the user's previous one on the same target
+export const watchId = (userId: string, target: WatchTarget) =>
+    'topicId' in target ? `${userId}:topic:${target.topicId}` : `${userId}:category:${target.categoryId}`;
+
+// Users watching a category, directly or through an ancestor. The nearest watch wins,
+// so muting a subcategory of a watched category works.
+export async function getCategoryWatchers(categoryId: string): Promise<Map<string, WatchLevel>> {
+    const repo = getRepository();
+    const path = getCategoryPath(await repo.categories.list(), categoryId); // Root first
+    const watches = await repo.watches.listByCategories(path.map(category => category.id));
+    const levels = new Map<string, WatchLevel>();
+    for (const category of path) {
+        watches.filter(watch => watch.categoryId === category.id).forEach(watch => levels.set(watch.userId, watch.level));
+    }
+    return levels;
+}
+
+// Users following new posts in a topic. A topic watch beats a category watch, which beats
+// the default of following topics you started or posted in.
+export async function getTopicWatchers(topic: Pick<Topic, 'id' | 'authorId' | 'categoryId'>): Promise<Map<string, WatchLevel>> {
+    const repo = getRepository();
+    const posts = await repo.posts.listByTopic(topic.id);
+    const levels = new Map<string, WatchLevel>([topic.authorId, ...posts.map(post => post.authorId)].map(userId => [userId, 'in_app']));
+    (await getCategoryWatchers(topic.categoryId)).forEach((level, userId) => levels.set(userId, level));
+    (await repo.watches.listByTopic(topic.id)).forEach(watch => levels.set(watch.userId, watch.level));
+    return levels;
+}
+
+// The level that applies to the user, whether set on the target itself or inherited
+export async function getWatchLevel(userId: string, target: WatchTarget): Promise<WatchLevel> {
+    if ('categoryId' in target) {
+        return (await getCategoryWatchers(target.categoryId)).get(userId) ?? 'off';
+    }
+    const topic = await getRepository().topics.findById(target.topicId);
+    return (topic && (await getTopicWatchers(topic)).get(userId)) || 'off';
+}
+
+export async function setWatchLevel(userId: string, target: WatchTarget, level: WatchLevel): Promise<WatchRecord> {
+    const watch = await getRepository().watches.save({ id: watchId(userId, target), userId, ...target, level, updatedAt: new Date() });
+    console.log(`[Watching] User ${userId} set ${watch.id} to ${level}`);
+    return watch;
+}
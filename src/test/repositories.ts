@@ -0,0 +1,9 @@
+import type { Repository } from '@/lib/db';
+import { createMemoryRepository } from '@/lib/db/memory';
+import { createSqliteRepository } from '@/lib/db/sqlite';
+
+// Both storage drivers, for tests that have to pass against either. SQLite runs in memory with the full migration history.
+export const REPOSITORY_DRIVERS: { driver: Repository['driver']; create: () => Repository }[] = [
+    { driver: 'memory', create: () => createMemoryRepository() },
+    { driver: 'sqlite', create: () => createSqliteRepository(':memory:') },
+];
@@ -0,0 +1,14 @@
+import os from 'node:os';
+import path from 'node:path';
+import { beforeEach } from 'vitest';
+import { setRepository } from '@/lib/db';
+import { createMemoryRepository } from '@/lib/db/memory';
+
+// Mail goes to a throwaway outbox, and links need an origin outside of a request
+process.env.FORUM_OUTBOX_DIR ??= path.join(os.tmpdir(), `forum-test-outbox-${process.pid}`);
+process.env.FORUM_BASE_URL ??= 'http://forum.test';
+
+// Every test starts from an empty memory store (plus the default categories)
+beforeEach(() => {
+    setRepository(createMemoryRepository());
+});
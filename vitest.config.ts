@@ -0,0 +1,15 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: { '@': path.resolve(__dirname, 'src') },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/*.test.ts'],
+        setupFiles: ['src/test/setup.ts'],
+        // The data layer logs every write; keep warnings and errors, drop the chatter
+        onConsoleLog: (_log, type) => type === 'stderr',
+    },
+});